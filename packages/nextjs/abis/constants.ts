@@ -13,7 +13,9 @@ export const SEPOLIA_NETWORK = {
     NameWrapper: '0x0635513f179D50A207757E05759CbD106d7dFcE8',
     PublicResolver: '0xE99638b40E4Fff0129D56f03b55b6bbC4BBE49b5',
     UniversalResolver: '0x3c85752a5d47DD09D677C645Ff2A938B38fbFEbA',
-    OffchainDNSResolver: '0x179be112b24ad4cfc392ef8924dfa08c20ad8583'
+    OffchainDNSResolver: '0x179be112b24ad4cfc392ef8924dfa08c20ad8583',
+    ExtendedDNSResolver: '0xebD6b1881639E560BDB37f235DC34C88B9a16b6A',
+    StaticBulkRenewal: '0x6394b694a8C0DC716e447802E568F0Fb2c4E0965'
   }
 };
 
@@ -3,20 +3,27 @@ import ENSRegistryABI from './sepolia/ENSRegistry.json';
 import BaseRegistrarABI from './sepolia/BaseRegistrarImplementation.json';
 import ETHRegistrarControllerABI from './sepolia/ETHRegistrarController.json';
 import DNSRegistrarABI from './sepolia/DNSRegistrar.json';
+import DNSSECImplABI from './sepolia/DNSSECImpl.json';
 import ReverseRegistrarABI from './sepolia/ReverseRegistrar.json';
+import DefaultReverseRegistrarABI from './sepolia/DefaultReverseRegistrar.json';
 import NameWrapperABI from './sepolia/NameWrapper.json';
 import PublicResolverABI from './sepolia/PublicResolver.json';
 import UniversalResolverABI from './sepolia/UniversalResolver.json';
 import OffchainDNSResolverABI from './sepolia/OffchainDNSResolver.json';
+import StaticBulkRenewalABI from './sepolia/StaticBulkRenewal.json';
 
 export const CONTRACT_ABIS = {
   ENSRegistry: ENSRegistryABI.abi,
   BaseRegistrar: BaseRegistrarABI.abi,
   ETHRegistrarController: ETHRegistrarControllerABI.abi,
   DNSRegistrar: DNSRegistrarABI.abi,
+  DNSSECImpl: DNSSECImplABI.abi,
   ReverseRegistrar: ReverseRegistrarABI.abi,
+  // Also the ABI of the L2ReverseRegistrar, both share setName / setNameForAddr / nameForAddr
+  DefaultReverseRegistrar: DefaultReverseRegistrarABI.abi,
   NameWrapper: NameWrapperABI.abi,
   PublicResolver: PublicResolverABI.abi,
   UniversalResolver: UniversalResolverABI.abi,
-  OffchainDNSResolver: OffchainDNSResolverABI.abi
+  OffchainDNSResolver: OffchainDNSResolverABI.abi,
+  StaticBulkRenewal: StaticBulkRenewalABI.abi
 };
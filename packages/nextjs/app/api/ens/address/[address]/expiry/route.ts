@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ENSAgent } from '@/services/ensagent/agent';
+import { createDeploymentProvider, getDeploymentConfig, getENSDeployment, getENSDeploymentError } from '@/services/ensagent/deployments';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { address: string } }
+) {
+  try {
+    const { address } = params;
+
+    if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid address format' },
+        { status: 400 }
+      );
+    }
+
+    // Warning thresholds in days before expiry, e.g. ?thresholds=30,7
+    const thresholdParam = request.nextUrl.searchParams.get('thresholds');
+    const thresholds = thresholdParam
+      ? thresholdParam.split(',').map(Number).filter(days => Number.isInteger(days) && days > 0)
+      : undefined;
+    if (thresholds && thresholds.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Thresholds must be positive whole days, e.g. 30,7' },
+        { status: 400 }
+      );
+    }
+
+    // ENS deployment of the app's target network, Sepolia when no chainId is given
+    const chainId = request.nextUrl.searchParams.get('chainId');
+    const deployment = getENSDeployment(chainId);
+    if (!deployment) {
+      return NextResponse.json(
+        { success: false, error: getENSDeploymentError(chainId) },
+        { status: 400 }
+      );
+    }
+
+    const provider = createDeploymentProvider(deployment);
+    const agent = new ENSAgent(getDeploymentConfig(deployment));
+    await agent.initialize(provider);
+
+    const result = await agent.getNameExpiries(address, thresholds);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Name expiry error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to read name expiries' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ENSAgent } from '@/services/ensagent/agent';
+import { createDeploymentProvider, getDeploymentConfig, getENSDeployment, getENSDeploymentError } from '@/services/ensagent/deployments';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { address: string } }
+) {
+  try {
+    const { address } = params;
+
+    if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid address format' },
+        { status: 400 }
+      );
+    }
+
+    // ENS deployment of the app's target network, Sepolia when no chainId is given
+    const chainId = request.nextUrl.searchParams.get('chainId');
+    const deployment = getENSDeployment(chainId);
+    if (!deployment) {
+      return NextResponse.json(
+        { success: false, error: getENSDeploymentError(chainId) },
+        { status: 400 }
+      );
+    }
+
+    const provider = createDeploymentProvider(deployment);
+    const agent = new ENSAgent(getDeploymentConfig(deployment));
+    await agent.initialize(provider);
+
+    // Owned names come from a transfer scan cached per address, later requests only read new blocks
+    const result = await agent.getPortfolio(address);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Portfolio error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load portfolio' },
+      { status: 500 }
+    );
+  }
+}
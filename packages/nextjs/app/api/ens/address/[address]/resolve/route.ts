@@ -1,8 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ENSAgent } from '@/services/ensagent/agent';
-import { ethers } from 'ethers';
-
-const SEPOLIA_RPC = 'https://ethereum-sepolia.publicnode.com';
+import { createDeploymentProvider, getDeploymentConfig, getENSDeployment, getENSDeploymentError } from '@/services/ensagent/deployments';
 
 export async function GET(
   request: NextRequest,
@@ -18,13 +16,27 @@ export async function GET(
       );
     }
 
+    // ENS deployment of the app's target network, Sepolia when no chainId is given
+    const chainId = request.nextUrl.searchParams.get('chainId');
+    const deployment = getENSDeployment(chainId);
+    if (!deployment) {
+      return NextResponse.json(
+        { success: false, error: getENSDeploymentError(chainId) },
+        { status: 400 }
+      );
+    }
+
     // Create provider and agent
-    const provider = new ethers.JsonRpcProvider(SEPOLIA_RPC);
-    const agent = new ENSAgent();
+    const provider = createDeploymentProvider(deployment);
+    const agent = new ENSAgent(getDeploymentConfig(deployment));
     await agent.initialize(provider);
 
-    // Resolve address to ENS name
-    const result = await agent.resolveAddress(address);
+    // Resolve address to ENS name, or to the primary name on one chain (?chain=base or a chain id)
+    // or on every chain (?chain=all)
+    const chain = request.nextUrl.searchParams.get('chain');
+    const result = chain === 'all'
+      ? await agent.getPrimaryNames(address)
+      : await agent.resolveAddress(address, chain || undefined);
     
     return NextResponse.json(result);
   } catch (error) {
@@ -0,0 +1 @@
+export { GET_AgentHelp as GET } from '@/services/ensagent/endpoints';
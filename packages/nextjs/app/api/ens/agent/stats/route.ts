@@ -0,0 +1 @@
+export { GET_AgentStats as GET } from '@/services/ensagent/endpoints';
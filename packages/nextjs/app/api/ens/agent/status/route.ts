@@ -0,0 +1 @@
+export { GET_AgentStatus as GET } from '@/services/ensagent/endpoints';
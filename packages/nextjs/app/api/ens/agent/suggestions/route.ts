@@ -0,0 +1 @@
+export { GET_AgentSuggestions as GET } from '@/services/ensagent/endpoints';
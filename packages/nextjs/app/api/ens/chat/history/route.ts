@@ -0,0 +1 @@
+export { GET_ChatHistory as GET, DELETE_ChatHistory as DELETE } from '@/services/ensagent/endpoints';
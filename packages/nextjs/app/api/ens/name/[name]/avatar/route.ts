@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ENSAgent } from '@/services/ensagent/agent';
+import { createDeploymentProvider, getDeploymentConfig, getENSDeployment, getENSDeploymentError } from '@/services/ensagent/deployments';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { name: string } }
+) {
+  try {
+    const { name } = params;
+
+    if (!name || !name.endsWith('.eth')) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ENS name format' },
+        { status: 400 }
+      );
+    }
+
+    // ENS deployment of the app's target network, Sepolia when no chainId is given
+    const chainId = request.nextUrl.searchParams.get('chainId');
+    const deployment = getENSDeployment(chainId);
+    if (!deployment) {
+      return NextResponse.json(
+        { success: false, error: getENSDeploymentError(chainId) },
+        { status: 400 }
+      );
+    }
+
+    const provider = createDeploymentProvider(deployment);
+    const agent = new ENSAgent(getDeploymentConfig(deployment));
+    await agent.initialize(provider);
+
+    // Avatar record resolved to an image URL, NFT avatars verified against the name owner (cached)
+    const result = await agent.getAvatar(name);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Avatar error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to resolve avatar' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ENSAgent } from '@/services/ensagent/agent';
+import { createDeploymentProvider, getDeploymentConfig, getENSDeployment, getENSDeploymentError } from '@/services/ensagent/deployments';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { name: string } }
+) {
+  try {
+    const { name } = params;
+    const { searchParams } = new URL(request.url);
+    // Without fromBlock the agent reads from the ENS deployment block
+    const fromBlockParam = searchParams.get('fromBlock');
+    const fromBlock = fromBlockParam !== null ? parseInt(fromBlockParam, 10) : undefined;
+    const limit = parseInt(searchParams.get('limit') || '100', 10);
+    if ((fromBlock !== undefined && (!Number.isInteger(fromBlock) || fromBlock < 0)) || !Number.isInteger(limit) || limit <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'fromBlock and limit must be non-negative integers' },
+        { status: 400 }
+      );
+    }
+
+    if (!name || !name.endsWith('.eth')) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ENS name format' },
+        { status: 400 }
+      );
+    }
+
+    // ENS deployment of the app's target network, Sepolia when no chainId is given
+    const chainId = request.nextUrl.searchParams.get('chainId');
+    const deployment = getENSDeployment(chainId);
+    if (!deployment) {
+      return NextResponse.json(
+        { success: false, error: getENSDeploymentError(chainId) },
+        { status: 400 }
+      );
+    }
+
+    const provider = createDeploymentProvider(deployment);
+    const agent = new ENSAgent(getDeploymentConfig(deployment));
+    await agent.initialize(provider);
+
+    // Registry, registrar and resolver events, newest first with tx links and senders
+    const result = await agent.getNameHistory(name, { fromBlock, limit });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Name history error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load name history' },
+      { status: 500 }
+    );
+  }
+}
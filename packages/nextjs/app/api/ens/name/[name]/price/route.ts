@@ -1,8 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ENSAgent } from '@/services/ensagent/agent';
-import { ethers } from 'ethers';
-
-const SEPOLIA_RPC = 'https://ethereum-sepolia.publicnode.com';
+import { createDeploymentProvider, getDeploymentConfig, getENSDeployment, getENSDeploymentError } from '@/services/ensagent/deployments';
 
 export async function GET(
   request: NextRequest,
@@ -11,7 +9,14 @@ export async function GET(
   try {
     const { name } = params;
     const { searchParams } = new URL(request.url);
-    const duration = parseInt(searchParams.get('duration') || '365') * 24 * 60 * 60; // Convert years to seconds
+    const years = parseFloat(searchParams.get('duration') || '1');
+    if (!Number.isFinite(years) || years <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Duration must be a positive number of years' },
+        { status: 400 }
+      );
+    }
+    const duration = Math.round(years * 365 * 24 * 60 * 60); // Convert years to seconds
 
     if (!name || !name.endsWith('.eth')) {
       return NextResponse.json(
@@ -20,12 +25,22 @@ export async function GET(
       );
     }
 
+    // ENS deployment of the app's target network, Sepolia when no chainId is given
+    const chainId = request.nextUrl.searchParams.get('chainId');
+    const deployment = getENSDeployment(chainId);
+    if (!deployment) {
+      return NextResponse.json(
+        { success: false, error: getENSDeploymentError(chainId) },
+        { status: 400 }
+      );
+    }
+
     // Create provider and agent
-    const provider = new ethers.JsonRpcProvider(SEPOLIA_RPC);
-    const agent = new ENSAgent();
+    const provider = createDeploymentProvider(deployment);
+    const agent = new ENSAgent(getDeploymentConfig(deployment));
     await agent.initialize(provider);
 
-    // Get price for the name
+    // Get price for the name from the controller's rentPrice (quotes are cached briefly)
     const result = await agent.getPrice(name, duration);
     
     return NextResponse.json(result);
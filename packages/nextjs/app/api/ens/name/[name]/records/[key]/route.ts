@@ -0,0 +1 @@
+export { GET_NameRecord as GET } from '@/services/ensagent/endpoints';
@@ -0,0 +1,2 @@
+// Unsigned multicall setting text, address and contenthash records on the name's resolver
+export { POST_NameRecord as POST } from '@/services/ensagent/endpoints';
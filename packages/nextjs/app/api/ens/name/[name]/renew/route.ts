@@ -0,0 +1 @@
+export { POST_NameRenew as POST } from '@/services/ensagent/endpoints';
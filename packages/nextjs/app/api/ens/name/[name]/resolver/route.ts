@@ -0,0 +1 @@
+export { POST_NameResolver as POST } from '@/services/ensagent/endpoints';
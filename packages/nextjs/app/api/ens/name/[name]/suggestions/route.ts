@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ENSAgent } from '@/services/ensagent/agent';
+import { createDeploymentProvider, getDeploymentConfig, getENSDeployment, getENSDeploymentError } from '@/services/ensagent/deployments';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { name: string } }
+) {
+  try {
+    const { name } = params;
+    const { searchParams } = request.nextUrl;
+    const years = parseFloat(searchParams.get('duration') || '1');
+    if (!Number.isFinite(years) || years <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Duration must be a positive number of years' },
+        { status: 400 }
+      );
+    }
+    const duration = Math.round(years * 365 * 24 * 60 * 60); // Convert years to seconds
+
+    if (!name || !name.endsWith('.eth')) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ENS name format' },
+        { status: 400 }
+      );
+    }
+
+    // Subname suggestions go under the .eth names this address holds
+    const owner = searchParams.get('owner') || undefined;
+    if (owner && !/^0x[a-fA-F0-9]{40}$/.test(owner)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid owner address format' },
+        { status: 400 }
+      );
+    }
+
+    // ENS deployment of the app's target network, Sepolia when no chainId is given
+    const chainId = searchParams.get('chainId');
+    const deployment = getENSDeployment(chainId);
+    if (!deployment) {
+      return NextResponse.json(
+        { success: false, error: getENSDeploymentError(chainId) },
+        { status: 400 }
+      );
+    }
+
+    const provider = createDeploymentProvider(deployment);
+    const agent = new ENSAgent(getDeploymentConfig(deployment));
+    await agent.initialize(provider);
+
+    // Candidates are checked for availability and priced in one multicall, then ranked by price and length
+    const result = await agent.suggestNames(name, { owner, duration });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Name suggestions error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to suggest names' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1 @@
+export { POST_NameTransfer as POST } from '@/services/ensagent/endpoints';
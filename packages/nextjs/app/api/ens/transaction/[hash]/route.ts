@@ -0,0 +1,2 @@
+// Pending, confirmed or failed status of a transaction the user's wallet sent
+export { POST_TransactionConfirm as POST } from '@/services/ensagent/endpoints';
@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server';
+import { buildOpenAPIDocument } from '@/services/ensagent/openapi';
+
+// OpenAPI document of the ENS API, generated from the same schemas the routes validate with
+export async function GET() {
+  return NextResponse.json(buildOpenAPIDocument());
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { paymentChatIntegration } from '@/services/basepay/chatIntegration';
+import { getSessionIdFromRequest, isValidSessionId, resolveSessionId } from '@/services/session';
 
 export async function POST(request: NextRequest) {
   try {
@@ -29,8 +30,9 @@ export async function POST(request: NextRequest) {
       await paymentChatIntegration.initialize(null);
     }
 
-    // Process the message
-    const response = await paymentChatIntegration.processMessage(message, userAddress);
+    // Process the message within the caller's session, a new one when no session id was sent
+    const sessionId = resolveSessionId(getSessionIdFromRequest(request, body));
+    const response = await paymentChatIntegration.processSessionMessage(message, userAddress, sessionId);
 
     return NextResponse.json({
       success: response.success,
@@ -38,6 +40,7 @@ export async function POST(request: NextRequest) {
       data: response.data,
       error: response.error,
       transaction: response.transaction,
+      sessionId,
       timestamp: new Date().toISOString()
     });
 
@@ -57,8 +60,17 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
-    // Get conversation history
-    const history = paymentChatIntegration.getConversationHistory();
+    // Get conversation history for the caller's session
+    const sessionId = getSessionIdFromRequest(request);
+    if (!isValidSessionId(sessionId)) {
+      return NextResponse.json(
+        { error: 'A valid sessionId is required' },
+        { status: 400 }
+      );
+    }
+    const userAddress = request.nextUrl.searchParams.get('userAddress') || undefined;
+    const session = await paymentChatIntegration.getSession(userAddress, sessionId);
+    const history = session.history;
     const status = paymentChatIntegration.getAgentStatus();
 
     return NextResponse.json({
@@ -86,8 +98,17 @@ export async function GET(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
-    // Clear conversation history
-    paymentChatIntegration.clearConversationHistory();
+    // Clear conversation history for the caller's session
+    const body = await request.json().catch(() => ({}));
+    const sessionId = getSessionIdFromRequest(request, body);
+    if (!isValidSessionId(sessionId)) {
+      return NextResponse.json(
+        { error: 'A valid sessionId is required' },
+        { status: 400 }
+      );
+    }
+    const userAddress = body.userAddress || request.nextUrl.searchParams.get('userAddress') || undefined;
+    await paymentChatIntegration.clearSession(userAddress, sessionId);
 
     return NextResponse.json({
       success: true,
@@ -6,8 +6,11 @@ import { useAccount, useWalletClient } from "wagmi";
 
 // Import ENS integration
 import { ensChatIntegration, ChatMessage as ENSChatMessage } from '@/services/ensagent/chatIntegration';
+import { isGasEstimateStale } from '@/services/ensagent/gas';
+import { findENSNames } from '@/services/ensagent/normalize';
 import ENSMessageCard from '@/components/ens/ENSMessageCard';
 import { useActivities } from '@/hooks/useActivities';
+import { useExpiryMonitor } from '@/hooks/useExpiryMonitor';
 
 // Import Payment integration
 import { paymentChatIntegration, PaymentChatMessage } from '@/services/basepay/chatIntegration';
@@ -143,6 +146,9 @@ const ChatInterface = () => {
   // Use real activities from activity manager
   const { activities: recentActivities, addActivity } = useActivities(10);
 
+  // Renewal reminders for the connected wallet's names
+  useExpiryMonitor(address);
+
   // Suggested prompts - dynamically generated from AI service
   const [suggestedPrompts, setSuggestedPrompts] = useState<Array<{text: string, color: string}>>([]);
 
@@ -306,7 +312,7 @@ const ChatInterface = () => {
       // Add a small delay to show the typing indicator
       await new Promise(resolve => setTimeout(resolve, 500));
       
-      const result = await ensChatIntegration.processMessage(message);
+      const result = await ensChatIntegration.processMessage(message, address);
       
       if (result.success) {
         // Convert ENS message to regular chat message for better display
@@ -328,9 +334,10 @@ const ChatInterface = () => {
           const ensQuery = result.chatMessage.metadata.ensQuery;
           
           // Try to extract ENS name from the query or content
-          const ensNameMatch = ensQuery?.match(/([a-z0-9-]+\.eth)/i) || 
-                              result.chatMessage.content.match(/([a-z0-9-]+\.eth)/i);
-          const ensName = ensNameMatch ? ensNameMatch[1] : 'Unknown';
+          const [ensName = 'Unknown'] = [
+            ...(ensQuery ? findENSNames(ensQuery) : []),
+            ...findENSNames(result.chatMessage.content)
+          ];
           
           // Determine activity type based on content
           if (result.chatMessage.content.toLowerCase().includes('available')) {
@@ -450,6 +457,10 @@ const ChatInterface = () => {
   // Detect if message is payment-related
   const isPaymentMessage = (message: string): boolean => {
     const lowerMessage = message.toLowerCase();
+    // Renewals and expiry questions mention ENS names but are not payments
+    if (/\b(renew|expir\w*)\b/.test(lowerMessage)) {
+      return false;
+    }
     const paymentKeywords = [
       'send', 'pay', 'transfer', 'balance', 'payment', 'transaction', 
       'eth', 'usdc', 'wallet', 'funds', 'money', 'crypto', 'base'
@@ -458,7 +469,7 @@ const ChatInterface = () => {
     return paymentKeywords.some(keyword => lowerMessage.includes(keyword)) ||
            /0x[a-fA-F0-9]{40}/.test(message) || // Ethereum address
            /\d+\.?\d*\s*(eth|usdc)/i.test(message) || // Amount with token
-           /[a-z0-9-]+\.(eth|test)/i.test(message); // ENS name
+           findENSNames(message, ['eth', 'test']).length > 0; // ENS name
   };
 
   // Suggestions are now only shown in the initial welcome message
@@ -473,9 +484,14 @@ const ChatInterface = () => {
   };
 
   const handleSendMessage = async () => {
-    if (!newMessage.trim() || isProcessing || !isClient) return;
+    await sendMessageText(newMessage);
+  };
+
+  // Send a message typed by the user, picked from the suggestions or from the activity feed
+  const sendMessageText = async (text: string) => {
+    if (!text.trim() || isProcessing || !isClient) return;
     
-    const messageText = newMessage.trim();
+    const messageText = text.trim();
     
     // Add user message first
     const userMessage: ChatMessage = {
@@ -618,6 +634,16 @@ const ChatInterface = () => {
       // Handle ENS operations
       else if (action.type === 'ens_operation') {
         console.log('Executing ENS operation:', action);
+
+        // Fees move quickly, flag a quote that has gone stale since the proposal was shown
+        if (action.gasEstimate && isGasEstimateStale(action.gasEstimate)) {
+          setMessages(prev => [...prev, {
+            id: `ai_${Date.now()}`,
+            content: 'The fee estimate for this operation is out of date. Your wallet will show the current network fee before you sign.',
+            sender: 'ai',
+            timestamp: new Date()
+          }]);
+        }
         // TODO: Implement actual ENS operation execution
         
         // Update the action status to completed for now
@@ -744,13 +770,7 @@ const ChatInterface = () => {
                 handleActionConfirm={handleActionConfirm}
                 handleActionReject={handleActionReject}
                 formatTime={formatTime}
-                onSuggestionClick={(suggestion) => {
-                  setNewMessage(suggestion);
-                  // Auto-send the suggestion
-                  setTimeout(() => {
-                    handleSendMessage();
-                  }, 100);
-                }}
+                onSuggestionClick={(suggestion) => sendMessageText(suggestion)}
               />
             </div>
 
@@ -826,6 +846,10 @@ const ChatInterface = () => {
         setIsRightPanelCollapsed={setIsRightPanelCollapsed}
         recentActivities={recentActivities}
         formatTime={formatTime}
+        onActivityAction={(prompt) => {
+          setCurrentPage('chat');
+          sendMessageText(prompt);
+        }}
       />
     </div>
   );
@@ -1,5 +1,5 @@
 import { Button } from "@/components/ui/button";
-import { MoreHorizontal, Globe, CheckCircle, AlertCircle, DollarSign, FileText, Settings, Zap } from "lucide-react";
+import { MoreHorizontal, Globe, CheckCircle, AlertCircle, DollarSign, FileText, Settings, Zap, Clock } from "lucide-react";
 import { Activity } from "@/services/activities/activityManager";
 
 interface RightPanelProps {
@@ -7,13 +7,15 @@ interface RightPanelProps {
   setIsRightPanelCollapsed: (collapsed: boolean) => void;
   recentActivities: Activity[];
   formatTime: (date: Date) => string;
+  onActivityAction?: (prompt: string) => void;
 }
 
 const RightPanel = ({ 
   isRightPanelCollapsed, 
   setIsRightPanelCollapsed, 
   recentActivities, 
-  formatTime 
+  formatTime,
+  onActivityAction
 }: RightPanelProps) => {
   if (!isRightPanelCollapsed) {
     return (
@@ -47,6 +49,8 @@ const RightPanel = ({
                     return <CheckCircle className="w-4 h-4 text-green-500" />;
                   case 'ens_update':
                     return <Settings className="w-4 h-4 text-purple-500" />;
+                  case 'ens_expiry':
+                    return <Clock className="w-4 h-4 text-amber-500" />;
                   case 'payment':
                     return <DollarSign className="w-4 h-4 text-green-500" />;
                   case 'credential':
@@ -96,6 +100,16 @@ const RightPanel = ({
                             {activity.txHash.slice(0, 6)}...{activity.txHash.slice(-4)}
                           </p>
                         )}
+                        {activity.metadata?.renewPrompt && onActivityAction && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-6 text-xs"
+                            onClick={() => onActivityAction(activity.metadata?.renewPrompt)}
+                          >
+                            {activity.status === "failed" ? "Register" : "Renew"}
+                          </Button>
+                        )}
                       </div>
                     </div>
                   </div>
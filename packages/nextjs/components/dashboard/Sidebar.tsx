@@ -4,6 +4,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Search, Plus, CheckCircle, PanelLeftClose, PanelLeftOpen, Bot, FileText, User, CreditCard } from "lucide-react";
 import { useAccount } from "wagmi";
 import { useState, useEffect } from "react";
+import { useENSDeployment } from "@/hooks/useENSDeployment";
 
 interface SidebarProps {
   isSidebarCollapsed: boolean;
@@ -23,6 +24,7 @@ const Sidebar = ({
   account 
 }: SidebarProps) => {
   const { address, chain } = useAccount();
+  const { chainId: ensChainId } = useENSDeployment();
   const [ensName, setEnsName] = useState<string | null>(null);
   const [isLoadingEns, setIsLoadingEns] = useState(false);
 
@@ -37,7 +39,7 @@ const Sidebar = ({
       console.log('Wallet connected! Resolving ENS for address:', address);
       setIsLoadingEns(true);
       try {
-        const response = await fetch(`/api/ens/address/${address}/resolve`);
+        const response = await fetch(`/api/ens/address/${address}/resolve?chainId=${ensChainId}`);
         const result = await response.json();
         
         console.log('ENS resolution result:', result);
@@ -63,7 +65,7 @@ const Sidebar = ({
     } else {
       setEnsName(null);
     }
-  }, [address, isConnected]);
+  }, [address, isConnected, ensChainId]);
 
   // Get display name - show address when connected, ENS name if available
   const displayName = isConnected && address 
@@ -1,5 +1,11 @@
 // ENS Message Card Component
 import { ChatMessage } from '@/services/ensagent/chatIntegration';
+import type { ENSRecordChange } from '@/services/ensagent/types';
+import type { ENSPriceQuote } from '@/services/ensagent/pricing';
+import type { NameHistoryEntry } from '@/services/ensagent/history';
+import { useENSAvatar } from '@/hooks/useENSAvatar';
+import { useENSDeployment } from '@/hooks/useENSDeployment';
+import { Avatar, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
@@ -21,6 +27,8 @@ interface ENSMessageCardProps {
 }
 
 const ENSMessageCard = ({ message, onAction }: ENSMessageCardProps) => {
+  const { avatar } = useENSAvatar(message.metadata?.ensQuery);
+  const { blockExplorer } = useENSDeployment();
   const isENSMessage = message.metadata?.ensQuery || message.pendingAction?.type === 'ens_operation';
   
   if (!isENSMessage) return null;
@@ -43,10 +51,14 @@ const ENSMessageCard = ({ message, onAction }: ENSMessageCardProps) => {
       case 'register':
         return <Globe className="w-4 h-4" />;
       case 'renew':
+      case 'bulkRenew':
         return <RefreshCw className="w-4 h-4" />;
       case 'setRecord':
+      case 'setRecords':
         return <Settings className="w-4 h-4" />;
       case 'transfer':
+      case 'setPrimaryName':
+      case 'clearPrimaryName':
         return <User className="w-4 h-4" />;
       case 'resolve':
         return <ExternalLink className="w-4 h-4" />;
@@ -98,10 +110,120 @@ const ENSMessageCard = ({ message, onAction }: ENSMessageCardProps) => {
             </div>
           )}
 
+          {/* Record Changes */}
+          {message.metadata?.action?.changes && message.metadata.action.changes.length > 0 && (
+            <div className="space-y-1">
+              {message.metadata.action.changes.map((change: ENSRecordChange, index: number) => (
+                <div key={index} className="flex items-center space-x-2 text-xs">
+                  <span className="text-muted-foreground">{change.label}:</span>
+                  {change.error ? (
+                    <span className="text-red-500">{change.error}</span>
+                  ) : change.changed ? (
+                    <span className="truncate">
+                      <span className="line-through text-muted-foreground">{change.current ?? 'not set'}</span>
+                      {' → '}
+                      <span className="font-medium">{change.record.value || 'cleared'}</span>
+                    </span>
+                  ) : (
+                    <span className="text-muted-foreground">unchanged</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Primary Names by Chain */}
+          {message.metadata?.action?.primaryNames && (
+            <div className="space-y-1">
+              {message.metadata.action.primaryNames.map((entry: any) => (
+                <div key={entry.chain} className="flex items-center space-x-2 text-xs">
+                  <span className="text-muted-foreground">{entry.chainName}:</span>
+                  {entry.name ? (
+                    <span className="font-medium">{entry.name}</span>
+                  ) : (
+                    <span className="text-muted-foreground">{entry.unverifiedName ? 'not verified' : 'not set'}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Bulk Renewal Quote */}
+          {message.metadata?.action?.type === 'bulk_renewal_ready' && (
+            <div className="space-y-1">
+              {message.metadata.action.priceQuote.quotes.map((quote: ENSPriceQuote) => (
+                <div key={quote.name} className="flex items-center justify-between text-xs">
+                  <span className="font-medium">{quote.name}</span>
+                  <span className="text-muted-foreground">{parseFloat(quote.total).toFixed(6)} ETH</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Name History */}
+          {message.metadata?.action?.type === 'name_history' && (
+            <div className="space-y-1">
+              {message.metadata.action.entries.map((entry: NameHistoryEntry) => (
+                <div key={`${entry.txHash}-${entry.logIndex}`} className="flex items-center justify-between text-xs">
+                  <span className="truncate max-w-[240px]">{entry.summary}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    onClick={() => window.open(entry.txUrl, '_blank')}
+                  >
+                    <ExternalLink className="w-3 h-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Offchain DNS Record */}
+          {message.metadata?.action?.type === 'dns_offchain_config' && (
+            <div className="flex items-center space-x-2">
+              <span className="text-xs text-muted-foreground">TXT record:</span>
+              <code className="text-xs bg-muted px-2 py-1 rounded truncate max-w-[240px]">
+                {message.metadata.action.record}
+              </code>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => copyToClipboard(message.metadata?.action?.record)}
+              >
+                <Copy className="w-3 h-3" />
+              </Button>
+            </div>
+          )}
+
+          {/* Content Hash */}
+          {message.metadata?.action?.contentHash && (
+            <div className="flex items-center space-x-2">
+              <span className="text-xs text-muted-foreground">Website:</span>
+              <code className="text-xs bg-muted px-2 py-1 rounded truncate max-w-[240px]">
+                {message.metadata.action.contentHash.uri}
+              </code>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => window.open(message.metadata?.action?.contentHash.gatewayUrl, '_blank')}
+              >
+                <ExternalLink className="w-3 h-3" />
+              </Button>
+            </div>
+          )}
+
           {/* ENS Name */}
           {message.metadata?.ensQuery && (
             <div className="flex items-center space-x-2">
               <span className="text-xs text-muted-foreground">ENS Name:</span>
+              {avatar && (
+                <Avatar className="w-5 h-5">
+                  <AvatarImage src={avatar} alt={`${message.metadata.ensQuery} avatar`} />
+                </Avatar>
+              )}
               <code className="text-xs bg-muted px-2 py-1 rounded">
                 {message.metadata.ensQuery}
               </code>
@@ -150,7 +272,7 @@ const ENSMessageCard = ({ message, onAction }: ENSMessageCardProps) => {
                         variant="ghost"
                         size="sm"
                         className="h-6 w-6 p-0"
-                        onClick={() => window.open(`https://sepolia.etherscan.io/tx/${action.txHash}`, '_blank')}
+                        onClick={() => window.open(`${blockExplorer}/tx/${action.txHash}`, '_blank')}
                       >
                         <ExternalLink className="w-3 h-3" />
                       </Button>
@@ -0,0 +1,88 @@
+// ENS Name History Timeline
+import { useENSNameHistory } from '@/hooks/useENSNameHistory';
+import type { NameHistoryEventType } from '@/services/ensagent/history';
+import { Button } from '@/components/ui/button';
+import { ArrowRightLeft, Calendar, ExternalLink, FileText, Loader2, RefreshCw, Server, Wallet } from 'lucide-react';
+
+interface ENSNameHistoryProps {
+  name: string;
+}
+
+const shorten = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+const getEventIcon = (type: NameHistoryEventType) => {
+  switch (type) {
+    case 'NewOwner':
+    case 'Transfer':
+      return <ArrowRightLeft className="w-3 h-3" />;
+    case 'NewResolver':
+      return <Server className="w-3 h-3" />;
+    case 'AddrChanged':
+    case 'AddressChanged':
+      return <Wallet className="w-3 h-3" />;
+    case 'NameRegistered':
+    case 'NameRenewed':
+      return <Calendar className="w-3 h-3" />;
+    default:
+      return <FileText className="w-3 h-3" />;
+  }
+};
+
+const ENSNameHistory = ({ name }: ENSNameHistoryProps) => {
+  const { entries, isLoading, error, refresh } = useENSNameHistory(name);
+
+  if (error) {
+    return <p className="text-xs text-red-500">{error}</p>;
+  }
+
+  if (isLoading && entries.length === 0) {
+    return (
+      <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+        <Loader2 className="w-3 h-3 animate-spin" />
+        <span>Reading events for {name}...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">{entries.length} change(s)</span>
+        <Button variant="ghost" size="sm" onClick={refresh} disabled={isLoading}>
+          <RefreshCw className={`w-3 h-3 ${isLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+      {entries.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No changes recorded for {name}</p>
+      ) : (
+        <ol className="relative border-l ml-2 space-y-3">
+          {entries.map((entry) => (
+            <li key={`${entry.txHash}-${entry.logIndex}`} className="ml-4">
+              <span className="absolute -left-2 flex items-center justify-center w-4 h-4 rounded-full bg-muted">
+                {getEventIcon(entry.type)}
+              </span>
+              <p className="text-sm break-all">{entry.summary}</p>
+              <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+                <span>
+                  {entry.timestamp ? new Date(entry.timestamp * 1000).toLocaleString() : `Block ${entry.blockNumber}`}
+                </span>
+                {entry.from && <span>by {shorten(entry.from)}</span>}
+                <a
+                  href={entry.txUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center space-x-1 hover:underline"
+                >
+                  <span>{shorten(entry.txHash)}</span>
+                  <ExternalLink className="w-3 h-3" />
+                </a>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default ENSNameHistory;
@@ -0,0 +1,118 @@
+// ENS Portfolio Component
+import { useState } from 'react';
+import { useENSPortfolio } from '@/hooks/useENSPortfolio';
+import type { PortfolioName } from '@/services/ensagent/portfolio';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import ENSNameHistory from '@/components/ens/ENSNameHistory';
+import { Globe, History, Loader2, RefreshCw, Star, Package } from 'lucide-react';
+
+interface ENSPortfolioProps {
+  address?: string;
+}
+
+const shorten = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+const ENSPortfolio = ({ address }: ENSPortfolioProps) => {
+  const { names, primaryName, isLoading, error, refresh } = useENSPortfolio(address);
+  const [historyName, setHistoryName] = useState<string | null>(null);
+
+  const getExpiryBadge = (entry: PortfolioName) => {
+    const date = new Date(entry.expires * 1000).toLocaleDateString();
+    switch (entry.expiry.status) {
+      case 'released':
+        return <Badge variant="destructive" className="text-xs">Released</Badge>;
+      case 'grace':
+        return <Badge variant="destructive" className="text-xs">Grace period</Badge>;
+      case 'expiring':
+        return <Badge variant="secondary" className="text-xs">Expires {date}</Badge>;
+      default:
+        return <Badge variant="outline" className="text-xs">Until {date}</Badge>;
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Globe className="w-5 h-5" />
+            <span>ENS Names</span>
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={refresh} disabled={isLoading}>
+            {isLoading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="text-sm text-red-500">{error}</p>
+        ) : names.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            {isLoading ? (
+              <Loader2 className="w-8 h-8 mx-auto animate-spin" />
+            ) : (
+              <>
+                <Globe className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                <p>No .eth names held by this address</p>
+              </>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {names.map((entry) => (
+              <div key={entry.labelHash} className="p-3 border rounded-lg space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium">{entry.name}</span>
+                      {entry.isPrimary && (
+                        <Badge className="text-xs flex items-center space-x-1">
+                          <Star className="w-3 h-3" />
+                          <span>Primary</span>
+                        </Badge>
+                      )}
+                      {entry.isWrapped && (
+                        <Badge variant="outline" className="text-xs flex items-center space-x-1">
+                          <Package className="w-3 h-3" />
+                          <span>Wrapped</span>
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {entry.resolver ? `Resolver ${shorten(entry.resolver)}` : 'No resolver'}
+                      {' · '}
+                      {entry.resolvedAddress ? `Points to ${shorten(entry.resolvedAddress)}` : 'No address record'}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {getExpiryBadge(entry)}
+                    {entry.label && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setHistoryName(historyName === entry.name ? null : entry.name)}
+                      >
+                        <History className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {historyName === entry.name && <ENSNameHistory name={entry.name} />}
+              </div>
+            ))}
+            {!primaryName && (
+              <p className="text-xs text-muted-foreground pt-2">
+                No primary name is set. Ask the chat to make one of these names your primary name.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ENSPortfolio;
@@ -7,6 +7,10 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { useEFPPassport } from "@/hooks/useEFPPassport";
+import { useENSAvatar } from "@/hooks/useENSAvatar";
+import { usePrimaryName } from "@/hooks/usePrimaryName";
+import { useENSDeployment } from "@/hooks/useENSDeployment";
+import ENSPortfolio from "@/components/ens/ENSPortfolio";
 import { useAccount } from "wagmi";
 import { 
   Shield, 
@@ -53,6 +57,10 @@ const Identity = () => {
     exportProfile,
     importProfile
   } = useEFPPassport();
+  // The profile picture falls back to the avatar record of the ENS name (ENSIP-12)
+  const { chainId: ensChainId } = useENSDeployment();
+  const { name: primaryName } = usePrimaryName(address, ensChainId);
+  const { avatar: ensAvatar } = useENSAvatar(profile?.ensName || primaryName);
 
   const [isEditing, setIsEditing] = useState(false);
   const [editData, setEditData] = useState({
@@ -316,7 +324,7 @@ const Identity = () => {
             <CardContent>
               <div className="flex items-start space-x-6">
                 <Avatar className="w-20 h-20">
-                  <AvatarImage src={profile.avatar} />
+                  <AvatarImage src={profile.avatar || ensAvatar || undefined} />
                   <AvatarFallback className="text-lg">
                     {profile.displayName.charAt(0).toUpperCase()}
                   </AvatarFallback>
@@ -391,6 +399,9 @@ const Identity = () => {
             </CardContent>
           </Card>
 
+          {/* ENS Names */}
+          <ENSPortfolio address={address} />
+
           {/* Social Links */}
           <Card>
             <CardHeader>
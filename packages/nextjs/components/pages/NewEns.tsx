@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -6,9 +6,16 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { useAccount, useSignMessage, useWalletClient } from "wagmi";
 import { ethers } from "ethers";
-import { SEPOLIA_NETWORK } from "@/abis/constants";
 import { CONTRACT_ABIS } from "@/abis/contracts";
 import { useActivities } from "@/hooks/useActivities";
+import { useRegistrations } from "@/hooks/useRegistrations";
+import { useENSDeployment } from "@/hooks/useENSDeployment";
+import { registrationManager } from "@/services/ensagent/registration";
+import { PendingRegistration } from "@/services/ensagent/types";
+import { ENSPriceQuote, withUsdPrice } from "@/services/ensagent/pricing";
+import { normalizeENSName } from "@/services/ensagent/normalize";
+import { ENSNameSuggestion } from "@/services/ensagent/suggestions";
+import { useGlobalState } from "@/services/store/store";
 import { 
   Globe, 
   CheckCircle, 
@@ -20,7 +27,8 @@ import {
   DollarSign,
   AlertCircle,
   Loader2,
-  Info
+  Info,
+  Lightbulb
 } from "lucide-react";
 
 interface EnsRegistration {
@@ -32,17 +40,14 @@ interface EnsRegistration {
   error: string | null;
 }
 
-interface PriceData {
-  base: string;
-  premium: string;
-  total: string;
-}
-
 const NewEns = () => {
   const { address, isConnected } = useAccount();
   const { signMessageAsync } = useSignMessage();
   const { data: walletClient } = useWalletClient();
   const { addActivity } = useActivities();
+  const { chainId: ensChainId, ensContracts } = useENSDeployment();
+  const { registrations, removeRegistration, getTiming } = useRegistrations(address, ensChainId);
+  const nativeCurrencyPrice = useGlobalState(state => state.nativeCurrency.price);
   
   const [formData, setFormData] = useState<EnsRegistration>({
     domainName: '',
@@ -55,8 +60,15 @@ const NewEns = () => {
 
   const [isChecking, setIsChecking] = useState(false);
   const [isRegistering, setIsRegistering] = useState(false);
-  const [priceData, setPriceData] = useState<PriceData | null>(null);
+  const [priceData, setPriceData] = useState<ENSPriceQuote | null>(null);
   const [registrationResult, setRegistrationResult] = useState<any>(null);
+  const [suggestions, setSuggestions] = useState<ENSNameSuggestion[]>([]);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [, setClock] = useState(0);
+
+  // ENSIP-15 normalization of the typed name, shown to the user before checking or registering
+  const nameNormalization = formData.domainName ? normalizeENSName(`${formData.domainName}.eth`) : null;
+  const normalizedLabel = nameNormalization?.valid ? nameNormalization.normalized.slice(0, -'.eth'.length) : '';
 
   const handleInputChange = (field: keyof EnsRegistration, value: any) => {
     setFormData(prev => ({ ...prev, [field]: value }));
@@ -64,15 +76,19 @@ const NewEns = () => {
 
   const handleCheckAvailability = async () => {
     if (!formData.domainName) return;
+    if (!nameNormalization?.valid) {
+      setFormData(prev => ({ ...prev, error: nameNormalization?.error || 'Invalid ENS name' }));
+      return;
+    }
     
     setIsChecking(true);
     setFormData(prev => ({ ...prev, error: null }));
     
     try {
-      const fullDomainName = `${formData.domainName}.eth`;
+      const fullDomainName = `${normalizedLabel}.eth`;
       
       // Check availability
-      const availabilityResponse = await fetch(`/api/ens/name/${encodeURIComponent(fullDomainName)}/available`);
+      const availabilityResponse = await fetch(`/api/ens/name/${encodeURIComponent(fullDomainName)}/available?chainId=${ensChainId}`);
       const availabilityResult = await availabilityResponse.json();
       
       if (!availabilityResult.success) {
@@ -82,35 +98,32 @@ const NewEns = () => {
       const isAvailable = availabilityResult.data?.available || false;
       
       if (isAvailable) {
-        // Get price from API (more reliable than direct contract calls)
+        // Get the rentPrice quote from the controller via the API
         try {
-          const priceResponse = await fetch(`/api/ens/name/${encodeURIComponent(fullDomainName)}/price?duration=${formData.duration}`);
+          const priceResponse = await fetch(`/api/ens/name/${encodeURIComponent(fullDomainName)}/price?duration=${formData.duration}&chainId=${ensChainId}`);
           const priceResult = await priceResponse.json();
           
-          if (priceResult.success && priceResult.data) {
-            const priceInfo = priceResult.data;
-            setPriceData(priceInfo);
-            setFormData(prev => ({
-              ...prev,
-              isAvailable,
-              price: priceInfo.total || '0',
-              gasEstimate: '0.002' // Estimated gas fee
-            }));
-          } else {
-            setFormData(prev => ({
-              ...prev,
-              isAvailable,
-              price: '0.01', // Fallback price
-              gasEstimate: '0.002'
-            }));
+          if (!priceResult.success || !priceResult.data) {
+            throw new Error(priceResult.error || 'Failed to get price');
           }
+
+          const priceInfo: ENSPriceQuote = priceResult.data;
+          setPriceData(priceInfo);
+          setFormData(prev => ({
+            ...prev,
+            isAvailable,
+            price: priceInfo.total,
+            gasEstimate: '0.002' // Estimated gas fee
+          }));
         } catch (apiError) {
           console.error('Error getting price from API:', apiError);
+          setPriceData(null);
           setFormData(prev => ({
             ...prev,
             isAvailable,
-            price: '0.01', // Fallback price
-            gasEstimate: '0.002'
+            price: '0',
+            gasEstimate: '0.002',
+            error: 'Could not get the registration price from the ENS controller. Please try again.'
           }));
         }
       } else {
@@ -120,6 +133,7 @@ const NewEns = () => {
           price: '0',
           gasEstimate: '0'
         }));
+        loadSuggestions(fullDomainName);
       }
     } catch (error) {
       console.error('Error checking availability:', error);
@@ -133,7 +147,55 @@ const NewEns = () => {
     }
   };
 
+  // Available alternatives to a taken name, ranked by price and length; subnames go under the user's names
+  const loadSuggestions = async (fullDomainName: string) => {
+    setIsSuggesting(true);
+    try {
+      const owner = address ? `&owner=${address}` : '';
+      const response = await fetch(`/api/ens/name/${encodeURIComponent(fullDomainName)}/suggestions?duration=${formData.duration}&chainId=${ensChainId}${owner}`);
+      const result = await response.json();
+      setSuggestions(result.success ? result.data.suggestions : []);
+    } catch (error) {
+      console.error('Error loading name suggestions:', error);
+      setSuggestions([]);
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  const pricedQuote = priceData ? withUsdPrice(priceData, nativeCurrencyPrice) : null;
 
+  // The base price scales with duration, the premium is paid once
+  const estimateForYears = (quote: ENSPriceQuote, years: number) => {
+    const quotedYears = quote.duration / (365 * 24 * 60 * 60);
+    return (parseFloat(quote.base) / quotedYears) * years + parseFloat(quote.premium);
+  };
+
+  const getController = useCallback(async () => {
+    if (!walletClient) throw new Error('Wallet not connected');
+    const provider = new ethers.BrowserProvider(walletClient);
+    const signer = await provider.getSigner();
+    return new ethers.Contract(
+      ensContracts.ETHRegistrarController,
+      CONTRACT_ABIS.ETHRegistrarController,
+      signer
+    );
+  }, [walletClient, ensContracts.ETHRegistrarController]);
+
+  const getErrorMessage = (error: unknown, fallback: string) => {
+    const message = error instanceof Error ? error.message : String(error || fallback);
+    if (message.includes('insufficient funds')) {
+      return 'Insufficient ETH balance for registration';
+    } else if (message.includes('user rejected')) {
+      return 'Transaction was rejected by user';
+    } else if (message.includes('execution reverted')) {
+      return 'Transaction failed - domain may not be available';
+    }
+    return message;
+  };
+
+  // Step 1: submit the commitment. The secret is kept in this browser so the
+  // registration can be completed after a reload.
   const handleRegister = async () => {
     if (!formData.isAvailable || !address || !isConnected || !walletClient) return;
     
@@ -141,116 +203,141 @@ const NewEns = () => {
     setFormData(prev => ({ ...prev, error: null }));
     
     try {
-      const fullDomainName = `${formData.domainName}.eth`;
       const durationInSeconds = formData.duration * 365 * 24 * 60 * 60;
-      
-      // Create provider and signer from wallet client
-      const provider = new ethers.BrowserProvider(walletClient);
-      const signer = await provider.getSigner();
-      
-      // Create contract instance
-      const controller = new ethers.Contract(
-        SEPOLIA_NETWORK.ensContracts.ETHRegistrarController,
-        CONTRACT_ABIS.ETHRegistrarController,
-        signer
-      );
-      
-      const label = formData.domainName;
-      
-      // Calculate price - use the price from form data or calculate a reasonable estimate
-      let totalPrice;
-      if (priceData && priceData.total) {
-        // Use the price we already calculated
-        totalPrice = ethers.parseEther(priceData.total);
-      } else {
-        // Fallback: calculate a reasonable price estimate
-        // Base price is typically around 0.01 ETH per year
-        const basePricePerYear = ethers.parseEther('0.01');
-        totalPrice = basePricePerYear * BigInt(formData.duration);
+      const existing = registrationManager.findActive(normalizedLabel, address, ensChainId);
+      const registration = existing && existing.params.duration === durationInSeconds
+        ? existing
+        : registrationManager.create({
+            name: normalizedLabel,
+            owner: address,
+            duration: durationInSeconds,
+            chainId: ensChainId,
+            resolver: ensContracts.PublicResolver,
+            reverseRecord: true
+          });
+
+      if (existing && existing.id !== registration.id) {
+        removeRegistration(existing.id);
       }
-      
-      console.log('Using total price for registration:', ethers.formatEther(totalPrice));
-      
-      // Register the name directly
-      const tx = await controller.register(
-        label,
-        address,
-        durationInSeconds,
-        ethers.randomBytes(32), // Generate random secret
-        [], // Empty data array
-        true, // reverseRecord
-        {
-          value: totalPrice
-        }
-      );
-      
-      // Wait for transaction confirmation
-      const receipt = await tx.wait();
-      
-      const result = {
-        success: true,
-        data: {
-          name: fullDomainName,
-          owner: address,
-          duration: durationInSeconds,
-          txHash: tx.hash
-        },
-        message: `Successfully registered ${fullDomainName}`,
-        transaction: {
-          hash: tx.hash,
-          operation: { type: 'register', name: fullDomainName, data: { owner: address, duration: durationInSeconds } },
-          status: 'confirmed',
-          timestamp: new Date()
+
+      const result = await registrationManager.commit(registration.id, await getController());
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      addActivity({
+        title: `ENS Commitment: ${registration.name}`,
+        description: `Committed to register ${registration.name}. Registration opens in ${result.data.minCommitmentAge} seconds.`,
+        type: 'ens_registration',
+        ensName: registration.name,
+        txHash: result.data.commitTxHash,
+        status: 'pending',
+        metadata: {
+          duration: formData.duration,
+          registrationId: registration.id
         }
-      };
-      
+      });
+    } catch (error) {
+      console.error('Error committing ENS registration:', error);
+      setFormData(prev => ({
+        ...prev,
+        error: getErrorMessage(error, 'Commitment failed')
+      }));
+    } finally {
+      setIsRegistering(false);
+    }
+  };
+
+  // Step 2: reveal the commitment once minCommitmentAge has passed
+  const handleCompleteRegistration = async (registration: PendingRegistration) => {
+    setIsRegistering(true);
+    setFormData(prev => ({ ...prev, error: null }));
+
+    try {
+      const result = await registrationManager.register(registration.id, await getController());
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
       setRegistrationResult(result);
       console.log('ENS Registration successful:', result);
 
       // Add activity for successful registration
+      const years = registration.params.duration / (365 * 24 * 60 * 60);
       addActivity({
-        title: `ENS Registration: ${fullDomainName}`,
-        description: `Successfully registered ${fullDomainName} for ${formData.duration} year${formData.duration > 1 ? 's' : ''}`,
+        title: `ENS Registration: ${registration.name}`,
+        description: `Successfully registered ${registration.name} for ${years} year${years > 1 ? 's' : ''}`,
         type: 'ens_registration',
-        ensName: fullDomainName,
-        txHash: tx.hash,
+        ensName: registration.name,
+        txHash: result.transaction?.hash,
         status: 'completed',
         metadata: {
-          duration: formData.duration,
-          price: totalPrice.toString(),
+          duration: years,
+          price: result.data.cost,
         }
       });
-      
     } catch (error) {
       console.error('Error registering ENS:', error);
-      
-      let errorMessage = 'Registration failed';
-      if (error instanceof Error) {
-        if (error.message.includes('insufficient funds')) {
-          errorMessage = 'Insufficient ETH balance for registration';
-        } else if (error.message.includes('user rejected')) {
-          errorMessage = 'Transaction was rejected by user';
-        } else if (error.message.includes('execution reverted')) {
-          errorMessage = 'Transaction failed - domain may not be available';
-        } else {
-          errorMessage = error.message;
-        }
+      setFormData(prev => ({
+        ...prev,
+        error: getErrorMessage(error, 'Registration failed')
+      }));
+    } finally {
+      setIsRegistering(false);
+    }
+  };
+
+  // Resubmit an expired or failed commitment with the stored secret
+  const handleRecommit = async (registration: PendingRegistration) => {
+    setIsRegistering(true);
+    setFormData(prev => ({ ...prev, error: null }));
+
+    try {
+      const result = await registrationManager.commit(registration.id, await getController());
+      if (!result.success) {
+        throw new Error(result.error);
       }
-      
+    } catch (error) {
+      console.error('Error resubmitting commitment:', error);
       setFormData(prev => ({
         ...prev,
-        error: errorMessage
+        error: getErrorMessage(error, 'Commitment failed')
       }));
     } finally {
       setIsRegistering(false);
     }
   };
 
+  const formatSeconds = (seconds: number) => {
+    if (seconds >= 3600) return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+    if (seconds >= 60) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+    return `${seconds}s`;
+  };
+
   const formatDomain = (domain: string) => {
     if (!domain) return '';
-    return domain.toLowerCase().replace(/[^a-z0-9-]/g, '');
+    // Keep what was typed (emoji, non-Latin scripts); normalization happens separately
+    return domain.trim().replace(/\.eth$/i, '').replace(/[\s.]/g, '');
   };
 
+  // Reconcile registrations restored from a previous visit with the controller
+  useEffect(() => {
+    if (!walletClient || !address) return;
+    const restored = registrationManager.getActive(address, ensChainId).filter(r => r.commitment);
+    if (restored.length === 0) return;
+
+    getController()
+      .then(controller => Promise.all(restored.map(r => registrationManager.sync(r.id, controller))))
+      .catch(error => console.error('Failed to sync pending registrations:', error));
+  }, [walletClient, address, ensChainId, getController]);
+
+  // Tick countdowns while a commitment is maturing
+  useEffect(() => {
+    if (!registrations.some(r => r.state === 'waiting' || r.state === 'ready')) return;
+    const interval = setInterval(() => setClock(tick => tick + 1), 1000);
+    return () => clearInterval(interval);
+  }, [registrations]);
+
   // Update price when duration changes
   useEffect(() => {
     if (formData.isAvailable && formData.domainName) {
@@ -269,6 +356,7 @@ const NewEns = () => {
     }));
     setPriceData(null);
     setRegistrationResult(null);
+    setSuggestions([]);
   }, [formData.domainName]);
 
   return (
@@ -303,6 +391,84 @@ const NewEns = () => {
       <div className="flex-1 p-4 overflow-y-auto [&::-webkit-scrollbar]:hidden [-ms-overflow-style:none] [scrollbar-width:none]">
         <div className="max-w-2xl mx-auto w-full space-y-6">
           
+          {/* Pending Registrations */}
+          {registrations.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Clock className="w-5 h-5" />
+                  <span>Pending Registrations</span>
+                </CardTitle>
+                <CardDescription>
+                  ENS registration is two transactions: a commitment, then the registration once the commitment has matured
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {registrations.map((registration) => {
+                  const timing = getTiming(registration);
+                  return (
+                    <div key={registration.id} className="p-4 rounded-lg border space-y-2">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-2">
+                          <span className="font-medium">{registration.name}</span>
+                          <Badge variant={registration.state === 'failed' || registration.state === 'expired' ? 'destructive' : 'secondary'}>
+                            {registration.state}
+                          </Badge>
+                        </div>
+                        <Button variant="ghost" size="sm" onClick={() => removeRegistration(registration.id)}>
+                          Discard
+                        </Button>
+                      </div>
+
+                      {registration.state === 'checked' && (
+                        <p className="text-sm text-muted-foreground">Commitment not submitted yet.</p>
+                      )}
+                      {(registration.state === 'committed' || registration.state === 'waiting') && (
+                        <p className="text-sm text-muted-foreground">
+                          Commitment confirmed. Registration opens in {formatSeconds(timing.secondsUntilReady)}.
+                        </p>
+                      )}
+                      {registration.state === 'ready' && (
+                        <p className={`text-sm ${timing.expiryWarning ? 'text-amber-600' : 'text-muted-foreground'}`}>
+                          {timing.expiryWarning && <AlertCircle className="w-4 h-4 inline mr-1" />}
+                          Ready to register. Commitment expires in {formatSeconds(timing.secondsUntilExpiry)}.
+                        </p>
+                      )}
+                      {registration.state === 'expired' && (
+                        <p className="text-sm text-red-600">Commitment expired before registration. Submit it again to continue.</p>
+                      )}
+                      {registration.state === 'failed' && registration.error && (
+                        <p className="text-sm text-red-600 break-all">{registration.error}</p>
+                      )}
+
+                      <div className="flex justify-end">
+                        {registration.state === 'ready' && (
+                          <Button
+                            size="sm"
+                            onClick={() => handleCompleteRegistration(registration)}
+                            disabled={isRegistering || !walletClient}
+                          >
+                            {isRegistering ? <Loader2 className="w-4 h-4 animate-spin" /> : <span>Complete Registration</span>}
+                          </Button>
+                        )}
+                        {(registration.state === 'checked' || registration.state === 'expired' || registration.state === 'failed') && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleRecommit(registration)}
+                            disabled={isRegistering || !walletClient}
+                          >
+                            {isRegistering ? <Loader2 className="w-4 h-4 animate-spin" /> : <span>Submit Commitment</span>}
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Domain Search */}
           <Card>
             <CardHeader>
@@ -331,15 +497,23 @@ const NewEns = () => {
                   </div>
                   <Button 
                     onClick={handleCheckAvailability}
-                    disabled={!formData.domainName || isChecking}
+                    disabled={!nameNormalization?.valid || isChecking}
                     className="px-6"
                   >
                     {isChecking ? 'Checking...' : 'Check'}
                   </Button>
                 </div>
-                <p className="text-xs text-muted-foreground">
-                  Only lowercase letters, numbers, and hyphens are allowed
-                </p>
+                {nameNormalization && !nameNormalization.valid ? (
+                  <p className="text-xs text-red-600">{nameNormalization.error}</p>
+                ) : nameNormalization?.changed ? (
+                  <p className="text-xs text-yellow-600">
+                    Will be registered as <span className="font-medium">{nameNormalization.normalized}</span>
+                  </p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    Names are normalized (ENSIP-15) before registration; emoji and other scripts are supported
+                  </p>
+                )}
               </div>
 
               {/* Error Display */}
@@ -362,7 +536,7 @@ const NewEns = () => {
                         <CheckCircle className="w-5 h-5 text-green-500" />
                         <span className="text-green-700 font-medium">Available!</span>
                         <Badge variant="secondary" className="bg-green-100 text-green-700">
-                          {formData.domainName}.eth
+                          {normalizedLabel}.eth
                         </Badge>
                       </>
                     ) : (
@@ -370,7 +544,7 @@ const NewEns = () => {
                         <CheckCircle className="w-5 h-5 text-red-500" />
                         <span className="text-red-700 font-medium">Not Available</span>
                         <Badge variant="destructive">
-                          {formData.domainName}.eth
+                          {normalizedLabel}.eth
                         </Badge>
                       </>
                     )}
@@ -378,6 +552,38 @@ const NewEns = () => {
                 </div>
               )}
 
+              {/* Suggestions for a taken name */}
+              {formData.isAvailable === false && !formData.error && (isSuggesting || suggestions.length > 0) && (
+                <div className="p-4 rounded-lg border space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <Lightbulb className="w-5 h-5 text-amber-500" />
+                    <span className="font-medium">Available alternatives</span>
+                    {isSuggesting && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+                  </div>
+                  {suggestions.map((suggestion) => (
+                    <div key={suggestion.name} className="flex items-center justify-between text-sm">
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium">{suggestion.name}</span>
+                        <Badge variant="outline">{suggestion.kind}</Badge>
+                      </div>
+                      {suggestion.kind === 'subname' ? (
+                        <span className="text-xs text-muted-foreground">Free subname of {suggestion.parent}</span>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleInputChange('domainName', suggestion.label)}
+                        >
+                          {parseFloat(suggestion.price).toFixed(4)} ETH
+                          {suggestion.hasPremium && ' (premium)'}
+                          <ArrowRight className="w-3 h-3 ml-1" />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Registration Success */}
               {registrationResult && (
                 <div className="p-4 rounded-lg border border-green-200 bg-green-50">
@@ -386,7 +592,7 @@ const NewEns = () => {
                     <span className="text-green-700 font-medium">Registration Successful!</span>
                   </div>
                   <p className="text-green-600 text-sm mt-1">
-                    Your domain {formData.domainName}.eth has been registered successfully.
+                    Your domain {registrationResult.data?.name || `${normalizedLabel}.eth`} has been registered successfully.
                   </p>
                   {registrationResult.transaction && (
                     <div className="mt-2">
@@ -423,9 +629,11 @@ const NewEns = () => {
                         className="flex flex-col h-auto py-3"
                       >
                         <span className="font-medium">{years} year{years > 1 ? 's' : ''}</span>
-                        <span className="text-xs text-muted-foreground">
-                          ${(parseFloat(formData.price) * years).toFixed(3)}
-                        </span>
+                        {priceData && (
+                          <span className="text-xs text-muted-foreground">
+                            {estimateForYears(priceData, years).toFixed(4)} ETH
+                          </span>
+                        )}
                       </Button>
                     ))}
                   </div>
@@ -453,6 +661,15 @@ const NewEns = () => {
                         <span>Total</span>
                         <span>{(parseFloat(priceData.total) + parseFloat(formData.gasEstimate)).toFixed(6)} ETH</span>
                       </div>
+                      {pricedQuote?.usd && (
+                        <div className="flex justify-between text-xs text-muted-foreground">
+                          <span>Registration in USD</span>
+                          <span>
+                            ≈ ${pricedQuote.usd.total.toFixed(2)}
+                            {pricedQuote.hasPremium && ` (premium $${pricedQuote.usd.premium.toFixed(2)})`}
+                          </span>
+                        </div>
+                      )}
                     </>
                   ) : (
                     <div className="flex justify-between text-sm">
@@ -483,7 +700,7 @@ const NewEns = () => {
                 {isRegistering ? (
                   <>
                     <Loader2 className="w-4 h-4 animate-spin" />
-                    <span>Registering...</span>
+                    <span>Committing...</span>
                   </>
                 ) : !isConnected ? (
                   <>
@@ -497,7 +714,7 @@ const NewEns = () => {
                   </>
                 ) : (
                   <>
-                    <span>Register Domain</span>
+                    <span>Start Registration (Step 1 of 2)</span>
                     <ArrowRight className="w-4 h-4" />
                   </>
                 )}
@@ -8,6 +8,7 @@ import { Badge } from "@/components/ui/badge";
 import { useAccount, useWalletClient, useChainId } from "wagmi";
 import { useBasePay } from "@/hooks/useBasePay";
 import { useNetworkSwitch } from "@/hooks/useNetworkSwitch";
+import { usePrimaryName } from "@/hooks/usePrimaryName";
 import { getTransactionUrl } from "@/abis/contracts/base/constants";
 import { 
   Send, 
@@ -97,6 +98,11 @@ const Payments = () => {
   const [isLoadingTransactions, setIsLoadingTransactions] = useState(false);
   const [transactionError, setTransactionError] = useState<string | null>(null);
 
+  // Primary names on the payment chain (ENSIP-19), e.g. a Base name rather than the mainnet one
+  const { name: accountName } = usePrimaryName(baseAccountInfo?.address, chainId);
+  const { name: ownerName } = usePrimaryName(baseAccountInfo?.owner || address, chainId);
+  const { name: recipientName } = usePrimaryName(formData.recipient, chainId);
+
   const handleInputChange = (field: keyof PaymentForm, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
     setError(null);
@@ -141,7 +147,7 @@ const Payments = () => {
       const result = await sendPayment(payment);
       
       setTxHash(result.hash);
-      setSuccess(`Successfully sent ${formData.amount} ${formData.token} to ${formatAddress(formData.recipient)}`);
+      setSuccess(`Successfully sent ${formData.amount} ${formData.token} to ${recipientName || formatAddress(formData.recipient)}`);
       
       // Emit new transaction event for real-time updates
       const newTransaction = {
@@ -553,15 +559,15 @@ const Payments = () => {
                   <div className="space-y-2">
                     <div className="flex items-center justify-between text-sm">
                       <span className="text-muted-foreground">Account Address:</span>
-                      <span className="font-mono text-xs">
-                        {formatAddress(baseAccountInfo.address || '0x...')}
+                      <span className="font-mono text-xs" title={baseAccountInfo.address}>
+                        {accountName || formatAddress(baseAccountInfo.address || '0x...')}
                       </span>
                     </div>
                     
                     <div className="flex items-center justify-between text-sm">
                       <span className="text-muted-foreground">Owner:</span>
-                      <span className="font-mono text-xs">
-                        {formatAddress(baseAccountInfo.owner || address || '0x...')}
+                      <span className="font-mono text-xs" title={baseAccountInfo.owner || address}>
+                        {ownerName || formatAddress(baseAccountInfo.owner || address || '0x...')}
                       </span>
                     </div>
                     
@@ -644,6 +650,11 @@ const Payments = () => {
                     onChange={(e) => handleInputChange('recipient', e.target.value)}
                     className="mt-1"
                   />
+                  {recipientName && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Primary name on {currentChain.name}: <span className="font-medium">{recipientName}</span>
+                    </p>
+                  )}
                 </div>
 
                 <div className="grid grid-cols-2 gap-4">
@@ -28,6 +28,7 @@ import {
   Sun,
   Moon
 } from "lucide-react";
+import { expiryMonitor } from "@/services/activities/expiryMonitor";
 
 const Settings = () => {
   const [isDarkMode, setIsDarkMode] = useState(false);
@@ -61,6 +62,18 @@ const Settings = () => {
     timezone: 'UTC'
   });
 
+  // Days before expiry at which ENS renewal reminders are raised
+  const [expiryThresholds, setExpiryThresholds] = useState("");
+
+  useEffect(() => {
+    setExpiryThresholds(expiryMonitor.getThresholds().join(", "));
+  }, []);
+
+  const saveExpiryThresholds = () => {
+    expiryMonitor.setThresholds(expiryThresholds.split(",").map(days => Number(days.trim())));
+    setExpiryThresholds(expiryMonitor.getThresholds().join(", "));
+  };
+
   // Initialize theme on component mount
   useEffect(() => {
     const isDark = document.documentElement.classList.contains('dark');
@@ -288,6 +301,18 @@ const Settings = () => {
                     onCheckedChange={(checked) => setNotifications({...notifications, transactions: checked})}
                   />
                 </div>
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>ENS Renewal Reminders</Label>
+                    <p className="text-sm text-muted-foreground">Days before a name expires to remind you, comma separated</p>
+                  </div>
+                  <Input
+                    className="w-40"
+                    value={expiryThresholds}
+                    onChange={(e) => setExpiryThresholds(e.target.value)}
+                    onBlur={saveExpiryThresholds}
+                  />
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -6,6 +6,8 @@ import { Address as AddressType, getAddress, isAddress } from "viem";
 import { normalize } from "viem/ens";
 import { useEnsAvatar, useEnsName } from "wagmi";
 import { BlockieAvatar } from "~~/components/scaffold-eth";
+import { useENSAvatar } from "~~/hooks/useENSAvatar";
+import { usePrimaryName } from "~~/hooks/usePrimaryName";
 import { useTargetNetwork } from "~~/hooks/scaffold-eth/useTargetNetwork";
 import { getBlockExplorerAddressLink } from "~~/utils/scaffold-eth";
 
@@ -73,6 +75,8 @@ type AddressProps = {
   format?: "short" | "long";
   size?: "xs" | "sm" | "base" | "lg" | "xl" | "2xl" | "3xl";
   onlyEnsOrAddress?: boolean;
+  // Show the primary name for this chain (ENSIP-19), e.g. the Base name in payments, instead of the mainnet one
+  chainId?: number;
 };
 
 export const Address = ({
@@ -81,26 +85,33 @@ export const Address = ({
   format,
   size = "base",
   onlyEnsOrAddress = false,
+  chainId,
 }: AddressProps) => {
   const checkSumAddress = address ? getAddress(address) : undefined;
 
   const { targetNetwork } = useTargetNetwork();
 
-  const { data: ens, isLoading: isEnsNameLoading } = useEnsName({
+  const { data: mainnetEns, isLoading: isMainnetEnsLoading } = useEnsName({
     address: checkSumAddress,
     chainId: 1,
     query: {
-      enabled: isAddress(checkSumAddress ?? ""),
+      enabled: !chainId && isAddress(checkSumAddress ?? ""),
     },
   });
+  const { name: chainEns, isLoading: isChainEnsLoading } = usePrimaryName(checkSumAddress, chainId);
+  const ens = chainId ? chainEns : mainnetEns;
+  const isEnsNameLoading = chainId ? isChainEnsLoading : isMainnetEnsLoading;
   const { data: ensAvatar } = useEnsAvatar({
     name: ens ? normalize(ens) : undefined,
     chainId: 1,
     query: {
-      enabled: Boolean(ens),
+      // Chain-specific names come from Sepolia ENS, their avatars are not on mainnet
+      enabled: Boolean(ens) && !chainId,
       gcTime: 30_000,
     },
   });
+  // Sepolia names get every ENSIP-12 form, including IPFS and verified NFT avatars
+  const { avatar: chainEnsAvatar } = useENSAvatar(chainId ? chainEns : undefined);
 
   const shortAddress = checkSumAddress?.slice(0, 6) + "..." + checkSumAddress?.slice(-4);
   const displayAddress = format === "long" ? checkSumAddress : shortAddress;
@@ -147,7 +158,7 @@ export const Address = ({
       <div className="shrink-0">
         <BlockieAvatar
           address={checkSumAddress}
-          ensImage={ensAvatar}
+          ensImage={chainId ? chainEnsAvatar : ensAvatar}
           size={(blockieSizeMap[blockieSize] * 24) / blockieSizeMap["base"]}
         />
       </div>
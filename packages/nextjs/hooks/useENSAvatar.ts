@@ -0,0 +1,50 @@
+import { useState, useEffect } from 'react';
+import { useENSDeployment } from '@/hooks/useENSDeployment';
+
+// Avatar image URLs by "chainId:name", shared by every component on the page
+const avatarCache = new Map<string, Promise<string | null>>();
+
+function fetchAvatar(name: string, chainId: number): Promise<string | null> {
+  const key = `${chainId}:${name.toLowerCase()}`;
+  let request = avatarCache.get(key);
+  if (!request) {
+    request = fetch(`/api/ens/name/${encodeURIComponent(name.toLowerCase())}/avatar?chainId=${chainId}`)
+      .then(response => response.json())
+      .then(result => (result.success ? result.data?.image || null : null))
+      .catch(() => null);
+    avatarCache.set(key, request);
+  }
+  return request;
+}
+
+/**
+ * Avatar image of an ENS name (ENSIP-12), null while loading or when the name has none.
+ * IPFS, Arweave and NFT avatars are resolved on the server, which checks NFT ownership.
+ */
+export function useENSAvatar(name?: string | null) {
+  const { chainId } = useENSDeployment();
+  const [avatar, setAvatar] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!name || !name.endsWith('.eth')) {
+      setAvatar(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    fetchAvatar(name, chainId).then(result => {
+      if (!cancelled) {
+        setAvatar(result);
+        setIsLoading(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [name, chainId]);
+
+  return { avatar, isLoading };
+}
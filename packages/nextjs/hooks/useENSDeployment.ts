@@ -0,0 +1,16 @@
+import { useGlobalState } from '@/services/store/store';
+import {
+  DEFAULT_ENS_CHAIN_ID,
+  ENS_DEPLOYMENTS,
+  ENSDeployment,
+  getENSDeployment
+} from '@/services/ensagent/deployments';
+
+/**
+ * ENS deployment of the network selected in the app. L2s read the ENS of their L1, and
+ * networks without ENS fall back to Sepolia.
+ */
+export function useENSDeployment(): ENSDeployment {
+  const chainId = useGlobalState(state => state.targetNetwork.id);
+  return getENSDeployment(chainId) || ENS_DEPLOYMENTS[DEFAULT_ENS_CHAIN_ID];
+}
@@ -0,0 +1,115 @@
+import { useState, useEffect, useCallback } from 'react';
+import { usePublicClient } from 'wagmi';
+import { namehash } from 'viem';
+import type { AbiEvent } from 'abitype';
+import { CONTRACT_ABIS } from '@/abis/contracts';
+import { useENSDeployment } from '@/hooks/useENSDeployment';
+import { LOG_QUERY_BLOCK_RANGE } from '@/services/ensagent/deployments';
+import { getEvents } from '@/hooks/scaffold-eth/useScaffoldEventHistory';
+import {
+  NameHistoryEntry,
+  NameHistoryLog,
+  NameHistoryQuery,
+  decodeNameHistory,
+  getHistoryResolvers,
+  getRegistryHistoryQueries,
+  getResolverHistoryQueries
+} from '@/services/ensagent/history';
+
+const findEvent = (query: NameHistoryQuery) =>
+  (CONTRACT_ABIS[query.source] as readonly any[]).find(
+    part => part.type === 'event' && part.name === query.event
+  ) as AbiEvent;
+
+/**
+ * Ownership, resolver and record changes of a name as a timeline, newest first. Logs are read
+ * in the browser through the scaffold event fetching, from the ENS deployment block in pages
+ * RPC endpoints accept, with block and transaction data for the time and sender of each change.
+ */
+export function useENSNameHistory(name?: string) {
+  const { chainId, ensContracts, blockExplorer, deploymentBlock } = useENSDeployment();
+  const publicClient = usePublicClient({ chainId });
+  const [entries, setEntries] = useState<NameHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!name || !name.endsWith('.eth') || !publicClient) {
+      setEntries([]);
+      return;
+    }
+
+    const fetchLogs = async (queries: NameHistoryQuery[], toBlock: bigint): Promise<NameHistoryLog[]> => {
+      const range = BigInt(LOG_QUERY_BLOCK_RANGE);
+      const results = await Promise.all(queries.map(async query => {
+        const events: any[] = [];
+        for (let start = BigInt(deploymentBlock); start <= toBlock; start += range) {
+          const end = start + range - 1n < toBlock ? start + range - 1n : toBlock;
+          const page = await getEvents(
+            {
+              address: query.address as `0x${string}`,
+              event: findEvent(query),
+              args: query.args,
+              fromBlock: start,
+              toBlock: end
+            },
+            publicClient,
+            { blockData: true, transactionData: true }
+          );
+          events.push(...(page || []));
+        }
+        return events.map((log: any): NameHistoryLog => ({
+          source: query.source,
+          address: query.address,
+          event: query.event,
+          args: log.args,
+          blockNumber: Number(log.blockNumber),
+          logIndex: log.logIndex,
+          txHash: log.transactionHash,
+          timestamp: log.blockData ? Number(log.blockData.timestamp) : undefined,
+          from: log.transactionData?.from
+        }));
+      }));
+      return results.flat();
+    };
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    (async () => {
+      const latest = await publicClient.getBlockNumber();
+      const registryLogs = await fetchLogs(getRegistryHistoryQueries(name, ensContracts), latest);
+      // Resolvers set before any NewResolver log are covered by the registry's current one
+      const current = await publicClient.readContract({
+        address: ensContracts.ENSRegistry as `0x${string}`,
+        abi: CONTRACT_ABIS.ENSRegistry,
+        functionName: 'resolver',
+        args: [namehash(name)]
+      }) as string;
+      const resolvers = getHistoryResolvers(registryLogs);
+      if (!/^0x0{40}$/.test(current) && !resolvers.some(resolver => resolver.toLowerCase() === current.toLowerCase())) {
+        resolvers.push(current);
+      }
+      const resolverLogs = await fetchLogs(getResolverHistoryQueries(name, resolvers), latest);
+      return decodeNameHistory([...registryLogs, ...resolverLogs], blockExplorer);
+    })()
+      .then(history => {
+        if (!cancelled) setEntries(history);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load name history');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [name, publicClient, ensContracts, blockExplorer, deploymentBlock, version]);
+
+  const refresh = useCallback(() => setVersion(current => current + 1), []);
+
+  return { entries, isLoading, error, refresh };
+}
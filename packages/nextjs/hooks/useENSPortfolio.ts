@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { PortfolioName } from '@/services/ensagent/portfolio';
+import { useENSDeployment } from '@/hooks/useENSDeployment';
+
+/**
+ * .eth names an address holds, with expiry, resolver and primary-name status.
+ * Dates arrive as JSON, so use `expires` (unix seconds) rather than the Date fields.
+ */
+export function useENSPortfolio(address?: string) {
+  const { chainId } = useENSDeployment();
+  const [names, setNames] = useState<PortfolioName[]>([]);
+  const [primaryName, setPrimaryName] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      setNames([]);
+      setPrimaryName(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    fetch(`/api/ens/address/${address}/portfolio?chainId=${chainId}`)
+      .then(response => response.json())
+      .then(result => {
+        if (cancelled) return;
+        if (result.success) {
+          setNames(result.data.names);
+          setPrimaryName(result.data.primaryName);
+        } else {
+          setError(result.error || 'Failed to load names');
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load names');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [address, chainId, version]);
+
+  // The server keeps the scan, so a refresh only reads blocks mined since the last one
+  const refresh = useCallback(() => setVersion(current => current + 1), []);
+
+  return { names, primaryName, isLoading, error, refresh };
+}
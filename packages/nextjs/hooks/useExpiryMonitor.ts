@@ -0,0 +1,23 @@
+import { useEffect } from 'react';
+import { expiryMonitor } from '@/services/activities/expiryMonitor';
+import { useENSDeployment } from '@/hooks/useENSDeployment';
+
+/**
+ * Watch the ENS names of the connected wallet on the app's ENS deployment and post
+ * renewal reminders to the activity feed as they reach the configured thresholds
+ */
+export function useExpiryMonitor(address?: string) {
+  const { chainId } = useENSDeployment();
+
+  useEffect(() => {
+    if (!address) {
+      expiryMonitor.stop();
+      return;
+    }
+
+    expiryMonitor.start(address, chainId);
+    return () => {
+      expiryMonitor.stop();
+    };
+  }, [address, chainId]);
+}
@@ -0,0 +1,39 @@
+import { useState, useEffect } from 'react';
+import { useENSDeployment } from '@/hooks/useENSDeployment';
+import { fetchPrimaryName, subscribePrimaryNames } from '@/services/ensagent/primaryNames';
+
+/**
+ * Primary ENS name of an address on a chain (ENSIP-19). L2s like Base get their own primary
+ * name, falling back to the default name for all EVM chains.
+ */
+export function usePrimaryName(address?: string, chainId?: number) {
+  const { chainId: ensChainId } = useENSDeployment();
+  const [name, setName] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [version, setVersion] = useState(0);
+
+  // Look the name up again when it is invalidated
+  useEffect(() => subscribePrimaryNames(() => setVersion(current => current + 1)), []);
+
+  useEffect(() => {
+    if (!address || !chainId || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      setName(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    fetchPrimaryName(address, chainId, ensChainId).then(result => {
+      if (!cancelled) {
+        setName(result);
+        setIsLoading(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [address, chainId, ensChainId, version]);
+
+  return { name, isLoading };
+}
@@ -0,0 +1,38 @@
+import { useState, useEffect } from 'react';
+import { registrationManager } from '@/services/ensagent/registration';
+import { PendingRegistration } from '@/services/ensagent/types';
+
+export function useRegistrations(owner?: string, chainId?: number) {
+  const [registrations, setRegistrations] = useState<PendingRegistration[]>([]);
+
+  useEffect(() => {
+    // Load unfinished registrations persisted in the browser
+    setRegistrations(registrationManager.getActive(owner, chainId));
+
+    // Subscribe to updates
+    const unsubscribe = registrationManager.subscribe(() => {
+      setRegistrations(registrationManager.getActive(owner, chainId));
+    });
+
+    return unsubscribe;
+  }, [owner, chainId]);
+
+  // Advance registrations when their commitment matures or expires
+  useEffect(() => {
+    const cleanups = registrations
+      .filter(r => r.state === 'committed' || r.state === 'waiting' || r.state === 'ready')
+      .map(r => registrationManager.watch(r.id));
+
+    return () => cleanups.forEach(cleanup => cleanup());
+  }, [registrations]);
+
+  const removeRegistration = (id: string) => {
+    registrationManager.remove(id);
+  };
+
+  return {
+    registrations,
+    removeRegistration,
+    getTiming: (registration: PendingRegistration) => registrationManager.getTiming(registration),
+  };
+}
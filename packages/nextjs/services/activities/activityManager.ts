@@ -3,7 +3,7 @@ export interface Activity {
   id: string;
   title: string;
   description: string;
-  type: 'ens_registration' | 'ens_resolution' | 'ens_update' | 'ens_availability' | 'payment' | 'credential' | 'transaction' | 'balance_check' | 'error';
+  type: 'ens_registration' | 'ens_resolution' | 'ens_update' | 'ens_availability' | 'ens_expiry' | 'payment' | 'credential' | 'transaction' | 'balance_check' | 'error';
   timestamp: Date;
   txHash?: string;
   ensName?: string;
@@ -153,6 +153,17 @@ class ActivityManager {
     });
   }
 
+  createENSExpiryActivity(ensName: string, description: string, released: boolean, renewPrompt: string) {
+    return this.addActivity({
+      title: released ? `ENS Name Released: ${ensName}` : `ENS Renewal Due: ${ensName}`,
+      description,
+      type: 'ens_expiry',
+      ensName,
+      status: released ? 'failed' : 'pending',
+      metadata: { renewPrompt },
+    });
+  }
+
   createPaymentActivity(to: string, amount: string, token: string = 'ETH', txHash?: string) {
     return this.addActivity({
       title: `Payment to ${to}`,
@@ -0,0 +1,126 @@
+// Expiry Monitor raising renewal reminders for owned ENS names in the activity feed
+import { activityManager } from './activityManager';
+import {
+  DEFAULT_EXPIRY_THRESHOLDS,
+  NameExpiry,
+  formatExpiry,
+  getExpiryWarningKey,
+  getNameExpiry,
+  getRenewalPrompt
+} from '../ensagent/expiry';
+
+const THRESHOLDS_KEY = 'ens_expiry_thresholds';
+const WARNINGS_KEY = 'ens_expiry_warnings';
+const DEFAULT_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+class ExpiryMonitor {
+  private thresholds: number[] = DEFAULT_EXPIRY_THRESHOLDS;
+  // Warnings already raised, so each threshold is only reported once per registration
+  private warned: Set<string> = new Set();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private address: string | null = null;
+  private chainId: number | null = null;
+
+  constructor() {
+    this.loadState();
+  }
+
+  getThresholds(): number[] {
+    return [...this.thresholds];
+  }
+
+  // Set the warning thresholds, in days before expiry
+  setThresholds(thresholds: number[]) {
+    const valid = [...new Set(thresholds.filter(days => Number.isInteger(days) && days > 0))].sort((a, b) => b - a);
+    this.thresholds = valid.length > 0 ? valid : DEFAULT_EXPIRY_THRESHOLDS;
+    this.saveState();
+  }
+
+  // Check an address on an ENS deployment now and then periodically, replacing any address watched before
+  start(address: string, chainId: number, intervalMs: number = DEFAULT_INTERVAL_MS) {
+    if (this.timer && this.address === address && this.chainId === chainId) return;
+    this.stop();
+    this.address = address;
+    this.chainId = chainId;
+    this.check(address, chainId);
+    this.timer = setInterval(() => this.check(address, chainId), intervalMs);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.address = null;
+    this.chainId = null;
+  }
+
+  // Read the expiry of every name the address holds and raise the warnings that are due
+  async check(address: string, chainId: number): Promise<NameExpiry[]> {
+    try {
+      const response = await fetch(`/api/ens/address/${address}/expiry?thresholds=${this.thresholds.join(',')}&chainId=${chainId}`);
+      const result = await response.json();
+      if (!result.success) {
+        console.error('Failed to check name expiry:', result.error);
+        return [];
+      }
+
+      // Recomputed locally, dates do not survive the JSON response
+      const expiries: NameExpiry[] = result.data.names.map((entry: NameExpiry) =>
+        getNameExpiry({ name: entry.name, label: null, labelHash: '', isWrapped: entry.isWrapped, expires: entry.expires }, this.thresholds));
+
+      for (const expiry of expiries) {
+        const warningKey = getExpiryWarningKey(expiry);
+        const key = warningKey && `${chainId}:${warningKey}`;
+        if (!key || this.warned.has(key)) continue;
+
+        const released = expiry.status === 'released';
+        activityManager.createENSExpiryActivity(
+          expiry.name,
+          formatExpiry(expiry),
+          released,
+          released ? `Register ${expiry.name}` : getRenewalPrompt(expiry.name)
+        );
+        this.warned.add(key);
+      }
+      this.saveState();
+      return expiries;
+    } catch (error) {
+      console.error('Failed to check name expiry:', error);
+      return [];
+    }
+  }
+
+  // Save thresholds and raised warnings to localStorage
+  private saveState() {
+    try {
+      if (typeof window !== 'undefined') {
+        localStorage.setItem(THRESHOLDS_KEY, JSON.stringify(this.thresholds));
+        localStorage.setItem(WARNINGS_KEY, JSON.stringify([...this.warned]));
+      }
+    } catch (error) {
+      console.error('Failed to save expiry monitor state:', error);
+    }
+  }
+
+  // Load thresholds and raised warnings from localStorage
+  private loadState() {
+    try {
+      if (typeof window !== 'undefined') {
+        const thresholds = localStorage.getItem(THRESHOLDS_KEY);
+        if (thresholds) {
+          this.thresholds = JSON.parse(thresholds);
+        }
+        const warned = localStorage.getItem(WARNINGS_KEY);
+        if (warned) {
+          this.warned = new Set(JSON.parse(warned));
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load expiry monitor state:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const expiryMonitor = new ExpiryMonitor();
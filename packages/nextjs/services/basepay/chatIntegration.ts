@@ -2,12 +2,17 @@ import { PaymentAgent, createPaymentAgent } from './agent';
 import { PayAIService, createPayAIService, OPENROUTER_API_KEY } from './payai';
 import { PaymentAgentResponse, ChatMessage, PaymentRequest, BASE_SEPOLIA_NETWORK } from './types';
 import { WalletClient } from 'viem';
+import { describeNormalizedName } from '../ensagent/normalize';
 import { paymentENSResolver, PaymentENSResolver } from './ensResolver';
 import { ensRegistrationService, ENSRegistrationRequest } from './ensRegistration';
+import { chatSessionStore, ChatSession, createSessionId } from '../session';
 
 export interface PaymentChatIntegration {
   initialize(walletClient: WalletClient | null): Promise<void>;
   processMessage(message: string, userAddress?: string): Promise<PaymentAgentResponse>;
+  processSessionMessage(message: string, userAddress?: string, sessionId?: string): Promise<PaymentAgentResponse>;
+  getSession(userAddress?: string, sessionId?: string): Promise<ChatSession>;
+  clearSession(userAddress?: string, sessionId?: string): Promise<void>;
   getConversationHistory(): ChatMessage[];
   clearConversationHistory(): void;
   getAgentStatus(): any;
@@ -21,6 +26,7 @@ class PaymentChatIntegrationImpl implements PaymentChatIntegration {
   private paymentAgent: PaymentAgent | null = null;
   private payAIService: PayAIService | null = null;
   private initialized: boolean = false;
+  private sessionId: string = createSessionId();
 
   async initialize(walletClient: WalletClient | null): Promise<void> {
     try {
@@ -101,6 +107,61 @@ class PaymentChatIntegrationImpl implements PaymentChatIntegration {
     }
   }
 
+  /**
+   * Process a message within a stored per-user session (server-side).
+   * Each session gets its own AI service so pending payments never leak between callers.
+   */
+  async processSessionMessage(message: string, userAddress?: string, sessionId?: string): Promise<PaymentAgentResponse> {
+    if (!this.initialized) {
+      return {
+        success: false,
+        error: 'Payment integration not initialized'
+      };
+    }
+
+    if (typeof window !== 'undefined' || !this.paymentAgent) {
+      return this.processMessage(message, userAddress);
+    }
+
+    const paymentAgent = this.paymentAgent;
+    try {
+      return await chatSessionStore.withSession('payment', userAddress, sessionId, async session => {
+        // The integration's LLM provider is reused, so stateful providers (e.g. a replay script) carry across turns
+        const aiService = createPayAIService(paymentAgent, OPENROUTER_API_KEY, {
+          llmProvider: this.payAIService?.getLLMProvider() || undefined
+        });
+        aiService.restoreSessionState(session);
+
+        const response = await aiService.processMessage(message, userAddress);
+
+        const state = aiService.exportSessionState();
+        session.history = state.history;
+        session.context = state.context;
+        return response;
+      });
+    } catch (error) {
+      console.error('Error processing payment session message:', error);
+      return {
+        success: false,
+        error: `Failed to process message: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Get a stored chat session
+   */
+  async getSession(userAddress?: string, sessionId?: string): Promise<ChatSession> {
+    return chatSessionStore.load('payment', userAddress, sessionId);
+  }
+
+  /**
+   * Clear a stored chat session
+   */
+  async clearSession(userAddress?: string, sessionId?: string): Promise<void> {
+    await chatSessionStore.clear('payment', userAddress, sessionId);
+  }
+
   /**
    * Process message via API route (client-side)
    */
@@ -113,7 +174,8 @@ class PaymentChatIntegrationImpl implements PaymentChatIntegration {
         },
         body: JSON.stringify({
           message,
-          userAddress
+          userAddress,
+          sessionId: this.sessionId
         })
       });
 
@@ -167,7 +229,9 @@ class PaymentChatIntegrationImpl implements PaymentChatIntegration {
       const paymentDetails = await this.extractPaymentDetails(message);
       if (paymentDetails) {
         // Use ENS name for display if available, otherwise use formatted address
-        const displayRecipient = paymentDetails.ensName || this.formatAddress(paymentDetails.to);
+        const displayRecipient = paymentDetails.ensName
+          ? PaymentENSResolver.describeName(paymentDetails.ensName, paymentDetails.ensInput)
+          : this.formatAddress(paymentDetails.to);
         
         // For direct processing, we'll return a confirmation request
         return {
@@ -189,11 +253,16 @@ class PaymentChatIntegrationImpl implements PaymentChatIntegration {
         };
       } else {
         // If extraction failed, it might be due to ENS resolution failure
-        const ensName = PaymentENSResolver.extractENSName(message);
-        if (ensName) {
+        const nameMatch = PaymentENSResolver.findENSName(message);
+        if (nameMatch && !nameMatch.valid) {
           return {
             success: false,
-            error: `Could not resolve ENS name "${ensName}". Please check the name and try again.`
+            error: `"${nameMatch.input}" is not a valid ENS name. ${nameMatch.error}`
+          };
+        } else if (nameMatch) {
+          return {
+            success: false,
+            error: `Could not resolve ENS name "${nameMatch.normalized}". Please check the name and try again.`
           };
         } else {
           return {
@@ -238,8 +307,13 @@ class PaymentChatIntegrationImpl implements PaymentChatIntegration {
       const token = amountMatch[2].toUpperCase() as 'ETH' | 'USDC';
       
       // First try to extract ENS name
-      const ensName = PaymentENSResolver.extractENSName(message);
-      if (ensName) {
+      const nameMatch = PaymentENSResolver.findENSName(message);
+      if (nameMatch && !nameMatch.valid) {
+        console.error(`Invalid ENS name ${nameMatch.input}:`, nameMatch.error);
+        return null;
+      }
+      if (nameMatch) {
+        const ensName = nameMatch.normalized;
         console.log(`Found ENS name in payment: ${ensName}`);
         
         // Resolve ENS name to address
@@ -250,7 +324,8 @@ class PaymentChatIntegrationImpl implements PaymentChatIntegration {
             to: resolution.address as `0x${string}`, 
             amount, 
             token,
-            ensName // Store original ENS name for display
+            ensName, // Store ENS name for display
+            ensInput: nameMatch.changed ? nameMatch.input : undefined
           };
         } else {
           console.error(`Failed to resolve ENS name ${ensName}:`, resolution.error);
@@ -301,13 +376,20 @@ class PaymentChatIntegrationImpl implements PaymentChatIntegration {
    */
   private async handleENSRegistration(message: string, userAddress?: string): Promise<PaymentAgentResponse> {
     try {
-      const ensName = PaymentENSResolver.extractENSName(message);
-      if (!ensName) {
+      const nameMatch = PaymentENSResolver.findENSName(message);
+      if (!nameMatch) {
         return {
           success: false,
           error: 'Please specify an ENS name to register (e.g., "register myname.eth")'
         };
       }
+      if (!nameMatch.valid) {
+        return {
+          success: false,
+          error: `"${nameMatch.input}" is not a valid ENS name. ${nameMatch.error}`
+        };
+      }
+      const ensName = nameMatch.normalized;
 
       if (!userAddress) {
         return {
@@ -342,7 +424,7 @@ class PaymentChatIntegrationImpl implements PaymentChatIntegration {
       return {
         success: true,
         data: {
-          message: `${ensName} is available for registration${priceDisplay}. ENS registration requires a two-step process:\n\n1. Commit to registration (prevents front-running)\n2. Wait 60 seconds\n3. Complete registration\n\nWould you like to start the registration process?`,
+          message: `${describeNormalizedName(nameMatch)} is available for registration${priceDisplay}. ENS registration requires a two-step process:\n\n1. Commit to registration (prevents front-running)\n2. Wait 60 seconds\n3. Complete registration\n\nWould you like to start the registration process?`,
           type: 'ens_registration',
           timestamp: new Date().toISOString(),
           needsConfirmation: true
@@ -363,13 +445,20 @@ class PaymentChatIntegrationImpl implements PaymentChatIntegration {
    */
   private async handleENSAvailabilityCheck(message: string): Promise<PaymentAgentResponse> {
     try {
-      const ensName = PaymentENSResolver.extractENSName(message);
-      if (!ensName) {
+      const nameMatch = PaymentENSResolver.findENSName(message);
+      if (!nameMatch) {
         return {
           success: false,
           error: 'Please specify an ENS name to check (e.g., "is myname.eth available?")'
         };
       }
+      if (!nameMatch.valid) {
+        return {
+          success: false,
+          error: `"${nameMatch.input}" is not a valid ENS name. ${nameMatch.error}`
+        };
+      }
+      const ensName = nameMatch.normalized;
 
       const label = ensName.replace('.eth', '');
       const availability = await ensRegistrationService.checkAvailability(label);
@@ -388,7 +477,7 @@ class PaymentChatIntegrationImpl implements PaymentChatIntegration {
         return {
           success: true,
           data: {
-            message: `✅ ${ensName} is available for registration!${priceDisplay}`,
+            message: `✅ ${describeNormalizedName(nameMatch)} is available for registration!${priceDisplay}`,
             type: 'ens_availability',
             timestamp: new Date().toISOString()
           },
@@ -431,13 +520,20 @@ class PaymentChatIntegrationImpl implements PaymentChatIntegration {
    */
   private async handleENSResolution(message: string): Promise<PaymentAgentResponse> {
     try {
-      const ensName = PaymentENSResolver.extractENSName(message);
-      if (!ensName) {
+      const nameMatch = PaymentENSResolver.findENSName(message);
+      if (!nameMatch) {
         return {
           success: false,
           error: 'Please specify an ENS name to resolve (e.g., "who is vitalik.eth?")'
         };
       }
+      if (!nameMatch.valid) {
+        return {
+          success: false,
+          error: `"${nameMatch.input}" is not a valid ENS name. ${nameMatch.error}`
+        };
+      }
+      const ensName = nameMatch.normalized;
 
       const resolution = await paymentENSResolver.resolveENSDetails(ensName);
       
@@ -1,6 +1,11 @@
 import { ethers } from 'ethers';
 import { WalletClient } from 'viem';
 import { paymentENSResolver } from './ensResolver';
+import { registrationManager } from '../ensagent/registration';
+import { getRentPriceQuote } from '../ensagent/pricing';
+import { normalizeENSName } from '../ensagent/normalize';
+import { RegistrationState } from '../ensagent/types';
+import { SEPOLIA_CHAIN_ID } from '../ensagent/deployments';
 
 export interface ENSRegistrationRequest {
   label: string; // The name without .eth (e.g., "alice" for "alice.eth")
@@ -21,6 +26,8 @@ export interface ENSRegistrationResponse {
     expires?: number;
     totalCost?: string;
     waitTime?: number; // Time to wait before registration in seconds
+    registrationId?: string; // Persisted workflow id, used to resume after a reload
+    state?: RegistrationState;
   };
   error?: string;
   message?: string;
@@ -103,6 +110,16 @@ export class ENSRegistrationService {
     try {
       // Remove .eth suffix if present
       const label = name.replace(/\.eth$/, '');
+
+      const normalization = normalizeENSName(`${label}.eth`);
+      if (!normalization.valid || normalization.changed) {
+        return {
+          success: false,
+          error: normalization.valid
+            ? `${label}.eth is not normalized, use ${normalization.normalized}`
+            : `Invalid ENS name ${label}.eth: ${normalization.error}`
+        };
+      }
       
       console.log(`Checking availability for: ${label}.eth`);
 
@@ -149,11 +166,11 @@ export class ENSRegistrationService {
       if (isAvailable) {
         try {
           const duration = 365 * 24 * 60 * 60; // 1 year in seconds
-          const priceData = await this.registrarController.rentPrice(label, duration);
+          const quote = await getRentPriceQuote(this.registrarController, `${label}.eth`, duration);
           price = {
-            base: ethers.formatEther(priceData.base),
-            premium: ethers.formatEther(priceData.premium),
-            total: ethers.formatEther(priceData.base + priceData.premium)
+            base: quote.base,
+            premium: quote.premium,
+            total: quote.total
           };
         } catch (error) {
           console.log('Error getting price:', error);
@@ -199,6 +216,17 @@ export class ENSRegistrationService {
 
       // Validate input
       const label = request.label.replace(/\.eth$/, '');
+
+      // Registering an unnormalized label would create a name that can never be resolved
+      const normalization = normalizeENSName(`${label}.eth`);
+      if (!normalization.valid || normalization.changed) {
+        return {
+          success: false,
+          error: normalization.valid
+            ? `${label}.eth is not normalized, register ${normalization.normalized} instead`
+            : `Invalid ENS name ${label}.eth: ${normalization.error}`
+        };
+      }
       
       if (label.length < 3) {
         return {
@@ -220,49 +248,58 @@ export class ENSRegistrationService {
       const MIN_DURATION = 28 * 24 * 60 * 60; // 28 days in seconds
       const duration = Math.max(request.duration, MIN_DURATION);
 
-      // Generate secret if not provided
-      const secret = request.secret ? ethers.id(request.secret) : ethers.randomBytes(32);
-      
-      // Set default resolver if not provided
-      const resolver = request.resolver || this.contracts.PublicResolver;
-
-      // Create registration object
-      const registration = {
-        label,
-        owner: request.owner,
-        duration,
-        secret,
-        resolver,
-        data: request.data || [],
-        reverseRecord: request.reverseRecord ? 1 : 0,
-        referrer: ethers.ZeroHash
-      };
+      // Get commitment ages
+      const [minCommitmentAge, maxCommitmentAge] = await Promise.all([
+        this.registrarController.minCommitmentAge(),
+        this.registrarController.maxCommitmentAge()
+      ]);
+      const waitTime = Number(minCommitmentAge);
+
+      // Resume an unfinished registration so the stored secret is reused
+      const pending = registrationManager.findActive(label, request.owner, SEPOLIA_CHAIN_ID)
+        || registrationManager.create({
+          name: label,
+          owner: request.owner,
+          duration,
+          chainId: SEPOLIA_CHAIN_ID,
+          resolver: request.resolver || this.contracts.PublicResolver,
+          data: request.data,
+          reverseRecord: request.reverseRecord,
+          secret: request.secret ? ethers.id(request.secret) : undefined,
+          minCommitmentAge: waitTime,
+          maxCommitmentAge: Number(maxCommitmentAge)
+        });
+      const registration = pending.params;
 
       // Step 1: Make commitment
       const commitmentHash = await this.registrarController.makeCommitment(registration);
-      
-      // Get commitment ages
-      const minCommitmentAge = await this.registrarController.minCommitmentAge();
-      const waitTime = Number(minCommitmentAge);
 
       // Check if commitment already exists
       const existingCommitment = await this.registrarController.commitments(commitmentHash);
       if (existingCommitment > 0) {
-        const timeSinceCommitment = Math.floor(Date.now() / 1000) - Number(existingCommitment);
-        if (timeSinceCommitment >= waitTime) {
+        const committed = registrationManager.markCommitted(pending.id, commitmentHash, Number(existingCommitment));
+
+        if (committed.state === 'ready') {
           // Commitment is ready, proceed to registration
-          return await this.executeRegistration(registration, walletClient);
-        } else {
+          return await this.executeRegistration(pending.id, walletClient);
+        }
+
+        if (committed.state === 'waiting') {
+          const remaining = registrationManager.getTiming(committed).secondsUntilReady;
           return {
             success: true,
             data: {
               commitmentHash: commitmentHash,
               commitmentTimestamp: Number(existingCommitment),
-              waitTime: waitTime - timeSinceCommitment
+              waitTime: remaining,
+              registrationId: committed.id,
+              state: committed.state
             },
-            message: `Commitment exists. Wait ${waitTime - timeSinceCommitment} seconds before registration.`
+            message: `Commitment exists. Wait ${remaining} seconds before registration.`
           };
         }
+
+        // Expired commitments can be submitted again with the same secret
       }
 
       // Create signer from wallet client
@@ -282,18 +319,24 @@ export class ENSRegistrationService {
         const commitTx = await registrarWithSigner.commit(commitmentHash);
         await commitTx.wait();
 
+        const commitmentTimestamp = Number(await this.registrarController.commitments(commitmentHash)) || Math.floor(Date.now() / 1000);
+        const committed = registrationManager.markCommitted(pending.id, commitmentHash, commitmentTimestamp, commitTx.hash);
+
         return {
           success: true,
           data: {
             commitmentHash: commitmentHash,
-            commitmentTimestamp: Math.floor(Date.now() / 1000),
-            waitTime: waitTime
+            commitmentTimestamp,
+            waitTime: waitTime,
+            registrationId: committed.id,
+            state: committed.state
           },
           message: `Commitment submitted! Wait ${waitTime} seconds (${Math.ceil(waitTime / 60)} minutes) before registration.`
         };
 
       } catch (error) {
         console.error('Error submitting commitment:', error);
+        registrationManager.markFailed(pending.id, `Failed to submit commitment: ${error}`);
         return {
           success: false,
           error: `Failed to submit commitment: ${error}`
@@ -313,9 +356,18 @@ export class ENSRegistrationService {
    * Execute the actual registration (after commitment wait time)
    */
   private async executeRegistration(
-    registration: any,
+    registrationId: string,
     walletClient: WalletClient
   ): Promise<ENSRegistrationResponse> {
+    const pending = registrationManager.get(registrationId);
+    if (!pending) {
+      return {
+        success: false,
+        error: 'Registration not found'
+      };
+    }
+    const registration = pending.params;
+
     try {
       // Get price for registration
       const priceData = await this.registrarController.rentPrice(
@@ -333,7 +385,8 @@ export class ENSRegistrationService {
         value: totalPrice
       });
 
-      const receipt = await registerTx.wait();
+      await registerTx.wait();
+      registrationManager.markRegistered(registrationId, registerTx.hash);
       
       // Calculate expiry
       const expires = Math.floor(Date.now() / 1000) + registration.duration;
@@ -343,13 +396,16 @@ export class ENSRegistrationService {
         data: {
           registrationTx: registerTx.hash,
           expires,
-          totalCost: ethers.formatEther(totalPrice)
+          totalCost: ethers.formatEther(totalPrice),
+          registrationId,
+          state: 'registered'
         },
         message: `Successfully registered ${registration.label}.eth!`
       };
 
     } catch (error) {
       console.error('Error executing registration:', error);
+      registrationManager.markFailed(registrationId, `Registration execution failed: ${error}`);
       return {
         success: false,
         error: `Registration execution failed: ${error}`
@@ -369,14 +425,14 @@ export class ENSRegistrationService {
       const cleanLabel = label.replace(/\.eth$/, '');
       const duration = durationInYears * 365 * 24 * 60 * 60; // Convert years to seconds
 
-      const priceData = await this.registrarController.rentPrice(cleanLabel, duration);
+      const quote = await getRentPriceQuote(this.registrarController, `${cleanLabel}.eth`, duration);
       
       return {
         success: true,
         price: {
-          base: ethers.formatEther(priceData.base),
-          premium: ethers.formatEther(priceData.premium),
-          total: ethers.formatEther(priceData.base + priceData.premium)
+          base: quote.base,
+          premium: quote.premium,
+          total: quote.total
         }
       };
     } catch (error) {
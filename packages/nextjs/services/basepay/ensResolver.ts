@@ -1,4 +1,12 @@
 import { ethers } from 'ethers';
+import {
+  NormalizedENSName,
+  describeNormalizedName,
+  findENSNames,
+  isNormalizedENSName,
+  normalizeENSName
+} from '../ensagent/normalize';
+import { decodeContentHash } from '../ensagent/contenthash';
 
 export interface ENSResolutionData {
   address?: string;
@@ -10,6 +18,7 @@ export interface ENSResolutionData {
     [key: string]: string;
   };
   contentHash?: string;
+  contentHashUrl?: string;
   avatar?: string;
   email?: string;
   url?: string;
@@ -55,7 +64,7 @@ export class PaymentENSResolver {
       if (!this.isValidENSName(name)) {
         return {
           success: false,
-          error: `Invalid ENS name format: ${name}`
+          error: this.getInvalidNameError(name)
         };
       }
 
@@ -142,7 +151,7 @@ export class PaymentENSResolver {
       if (!this.isValidENSName(name)) {
         return {
           success: false,
-          error: `Invalid ENS name format: ${name}`
+          error: this.getInvalidNameError(name)
         };
       }
 
@@ -197,7 +206,8 @@ export class PaymentENSResolver {
         try {
           const contentHash = await this.getContentHash(name, data.resolver);
           if (contentHash) {
-            data.contentHash = contentHash;
+            data.contentHash = contentHash.uri;
+            data.contentHashUrl = contentHash.gatewayUrl;
           }
         } catch (error) {
           console.log('Error getting content hash:', error);
@@ -287,9 +297,9 @@ export class PaymentENSResolver {
   }
 
   /**
-   * Get content hash for an ENS name
+   * Get content hash for an ENS name, decoded to a URI and gateway URL when the protocol is known
    */
-  private async getContentHash(name: string, resolverAddress: string): Promise<string | null> {
+  private async getContentHash(name: string, resolverAddress: string): Promise<{ uri: string; gatewayUrl?: string } | null> {
     try {
       const resolverABI = [
         'function contenthash(bytes32 node) external view returns (bytes memory)'
@@ -300,7 +310,8 @@ export class PaymentENSResolver {
       const contentHash = await resolver.contenthash(node);
 
       if (contentHash && contentHash !== '0x') {
-        return contentHash;
+        const decoded = decodeContentHash(contentHash);
+        return decoded ? { uri: decoded.uri, gatewayUrl: decoded.gatewayUrl } : { uri: contentHash };
       }
       return null;
     } catch (error) {
@@ -310,28 +321,55 @@ export class PaymentENSResolver {
   }
 
   /**
-   * Check if a string is a valid ENS name
+   * Check if a string is a valid, normalized ENS name
    */
   private isValidENSName(name: string): boolean {
-    // Basic ENS name validation
-    return /^[a-z0-9-]+\.eth$/i.test(name) || /^[a-z0-9-]+\.test$/i.test(name);
+    return PaymentENSResolver.isENSName(name) && isNormalizedENSName(name);
+  }
+
+  /**
+   * Explain why a name was rejected, pointing at the normalized form when there is one
+   */
+  private getInvalidNameError(name: string): string {
+    const result = normalizeENSName(name);
+    if (!result.valid) {
+      return `Invalid ENS name ${name}: ${result.error}`;
+    }
+    if (result.changed) {
+      return `ENS name ${name} is not normalized, use ${result.normalized}`;
+    }
+    return `Invalid ENS name format: ${name}`;
   }
 
   /**
    * Check if a string looks like an ENS name (for detection)
    */
   static isENSName(input: string): boolean {
-    return /^[a-z0-9-]+\.(eth|test)$/i.test(input);
+    const result = normalizeENSName(input);
+    return result.valid && /\.(eth|test)$/.test(result.normalized);
+  }
+
+  /**
+   * Find the first ENS name in a message along with its ENSIP-15 normalization
+   */
+  static findENSName(message: string): NormalizedENSName | null {
+    const [name] = findENSNames(message, ['eth', 'test']);
+    return name ? normalizeENSName(name) : null;
   }
 
   /**
-   * Extract ENS name from a message
+   * Extract ENS name from a message, normalized
    */
   static extractENSName(message: string): string | null {
-    // Look for ENS names in the message
-    const ensPattern = /([a-z0-9-]+\.(eth|test))/gi;
-    const match = message.match(ensPattern);
-    return match ? match[0].toLowerCase() : null;
+    const result = PaymentENSResolver.findENSName(message);
+    return result ? result.normalized : null;
+  }
+
+  /**
+   * Display name for a recipient, noting the typed spelling when normalization changed it
+   */
+  static describeName(ensName: string, ensInput?: string): string {
+    return ensInput ? describeNormalizedName(normalizeENSName(ensInput)) : ensName;
   }
 }
 
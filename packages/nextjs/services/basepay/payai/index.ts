@@ -1,12 +1,14 @@
-import OpenAI from 'openai';
 import { PaymentAgent } from '../agent';
 import { PaymentAgentResponse, ChatMessage, PaymentRequest, BatchPaymentRequest } from '../types';
 import { randomBytes } from 'crypto';
+import { describeNormalizedName } from '../../ensagent/normalize';
 import { paymentENSResolver, PaymentENSResolver } from '../ensResolver';
 import { ensRegistrationService } from '../ensRegistration';
+import { LLMProvider, LLMServiceOptions, applyOpenRouterDefaults, createLLMProvider, resolveLLMConfig } from '../../llm';
+import type { SessionMessage } from '../../session/types';
 
 export class PayAIService {
-  private openai: OpenAI;
+  private llm: LLMProvider | null;
   private paymentAgent: PaymentAgent;
   private systemPrompt: string;
   private conversationHistory: ChatMessage[] = [];
@@ -20,23 +22,22 @@ export class PayAIService {
     sessionData?: any;
   } = {};
 
-  constructor(paymentAgent: PaymentAgent, apiKey: string) {
+  constructor(paymentAgent: PaymentAgent, apiKey: string, options: LLMServiceOptions = {}) {
     this.paymentAgent = paymentAgent;
+    const { llmProvider, ...overrides } = options;
     
-    // Only create OpenAI client on server-side
-    if (typeof window === 'undefined') {
-      this.openai = new OpenAI({
-        baseURL: 'https://openrouter.ai/api/v1',
-        apiKey: apiKey,
-        defaultHeaders: {
-          'HTTP-Referer': 'https://ethaccra.com',
-          'X-Title': 'Payment Agent - Base Payment Assistant',
-        },
-      });
+    // Only create the LLM provider on server-side
+    if (llmProvider) {
+      this.llm = llmProvider;
+    } else if (typeof window === 'undefined') {
+      this.llm = createLLMProvider(applyOpenRouterDefaults(
+        resolveLLMConfig({}, overrides, 'PAY_AGENT'),
+        { apiKey, title: 'Payment Agent - Base Payment Assistant' }
+      ));
     } else {
-      // Browser environment - OpenAI client should not be used here
-      console.warn('PayAIService created in browser environment - OpenAI client will not be available');
-      this.openai = null as any; // This will cause methods to fail gracefully
+      // Browser environment - LLM provider should not be used here
+      console.warn('PayAIService created in browser environment - LLM provider will not be available');
+      this.llm = null; // This will cause methods to fail gracefully
     }
 
     this.systemPrompt = this.createSystemPrompt();
@@ -143,11 +144,16 @@ Remember: You are a helpful, secure, and knowledgeable payment assistant. Always
           return this.addToConversationAndReturn(await this.handlePaymentCommand(paymentDetails, message, userAddress));
         } else {
           // Check if it's an ENS resolution failure
-          const ensName = PaymentENSResolver.extractENSName(message);
-          if (ensName) {
+          const nameMatch = PaymentENSResolver.findENSName(message);
+          if (nameMatch && !nameMatch.valid) {
+            return this.addToConversationAndReturn({
+              success: false,
+              error: `"${nameMatch.input}" is not a valid ENS name. ${nameMatch.error}`
+            });
+          } else if (nameMatch) {
             return this.addToConversationAndReturn({
               success: false,
-              error: `Could not resolve ENS name "${ensName}". Please check the name and try again.`
+              error: `Could not resolve ENS name "${nameMatch.normalized}". Please check the name and try again.`
             });
           } else {
             return this.addToConversationAndReturn({
@@ -237,7 +243,9 @@ Remember: You are a helpful, secure, and knowledgeable payment assistant. Always
         
         if (isServerSide) {
           // On server-side, we can't execute payments directly - return a confirmation that needs client-side execution
-          const displayRecipient = paymentDetails.ensName || this.formatAddress(paymentDetails.to);
+          const displayRecipient = paymentDetails.ensName
+            ? PaymentENSResolver.describeName(paymentDetails.ensName, paymentDetails.ensInput)
+            : this.formatAddress(paymentDetails.to);
           return {
             success: true,
             data: {
@@ -261,7 +269,9 @@ Remember: You are a helpful, secure, and knowledgeable payment assistant. Always
             const paymentResult = await this.paymentAgent.sendPayment(paymentDetails);
             
             if (paymentResult.success) {
-              const displayRecipient = paymentDetails.ensName || this.formatAddress(paymentDetails.to);
+              const displayRecipient = paymentDetails.ensName
+                ? PaymentENSResolver.describeName(paymentDetails.ensName, paymentDetails.ensInput)
+                : this.formatAddress(paymentDetails.to);
               return {
                 success: true,
                 data: {
@@ -290,7 +300,9 @@ Remember: You are a helpful, secure, and knowledgeable payment assistant. Always
       
       // If not a confirmation, return the payment proposal
       const networkInfo = this.paymentAgent.getNetworkInfo();
-      const displayRecipient = paymentDetails.ensName || this.formatAddress(paymentDetails.to);
+      const displayRecipient = paymentDetails.ensName
+        ? PaymentENSResolver.describeName(paymentDetails.ensName, paymentDetails.ensInput)
+        : this.formatAddress(paymentDetails.to);
       
       // Check if we're running server-side without wallet access
       const isServerSide = typeof window === 'undefined';
@@ -374,8 +386,13 @@ Remember: You are a helpful, secure, and knowledgeable payment assistant. Always
       const token = amountMatch[2].toUpperCase() as 'ETH' | 'USDC';
       
       // First try to extract ENS name
-      const ensName = PaymentENSResolver.extractENSName(message);
-      if (ensName) {
+      const nameMatch = PaymentENSResolver.findENSName(message);
+      if (nameMatch && !nameMatch.valid) {
+        console.error(`Invalid ENS name ${nameMatch.input}:`, nameMatch.error);
+        return null;
+      }
+      if (nameMatch) {
+        const ensName = nameMatch.normalized;
         console.log(`Found ENS name in payment: ${ensName}`);
         
         // Resolve ENS name to address
@@ -386,7 +403,8 @@ Remember: You are a helpful, secure, and knowledgeable payment assistant. Always
             to: resolution.address as `0x${string}`, 
             amount, 
             token,
-            ensName // Store original ENS name for display
+            ensName, // Store ENS name for display
+            ensInput: nameMatch.changed ? nameMatch.input : undefined
           };
         } else {
           console.error(`Failed to resolve ENS name ${ensName}:`, resolution.error);
@@ -427,15 +445,14 @@ Remember: You are a helpful, secure, and knowledgeable payment assistant. Always
    * Get enhanced LLM response
    */
   private async getEnhancedLLMResponse(message: string, userAddress?: string): Promise<string> {
-    // If OpenAI client is not available (browser environment), return fallback
-    if (!this.openai) {
-      console.warn('OpenAI client not available, using fallback response');
+    // If the LLM provider is not available (browser environment), return fallback
+    if (!this.llm) {
+      console.warn('LLM provider not available, using fallback response');
       return this.getFallbackResponse(message);
     }
 
     try {
-      const completion = await this.openai.chat.completions.create({
-        model: 'openai/gpt-4o',
+      const completion = await this.llm.complete({
         messages: [
           {
             role: 'system',
@@ -446,12 +463,10 @@ Remember: You are a helpful, secure, and knowledgeable payment assistant. Always
             role: 'user',
             content: this.formatUserMessage(message, userAddress)
           }
-        ],
-        temperature: 0.7,
-        max_tokens: 1000
+        ]
       });
 
-      return completion.choices[0].message.content || 'I apologize, but I could not generate a response.';
+      return completion.content || 'I apologize, but I could not generate a response.';
     } catch (error) {
       console.error('LLM Error:', error);
       return this.getFallbackResponse(message);
@@ -543,6 +558,13 @@ Remember: You are a helpful, secure, and knowledgeable payment assistant. Always
     return `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  /**
+   * LLM provider of the service, null in the browser
+   */
+  getLLMProvider(): LLMProvider | null {
+    return this.llm;
+  }
+
   /**
    * Get conversation history
    */
@@ -565,6 +587,27 @@ Remember: You are a helpful, secure, and knowledgeable payment assistant. Always
     return { ...this.currentContext };
   }
 
+  /**
+   * Export history and context for the session store
+   */
+  exportSessionState(): { history: ChatMessage[]; context: Record<string, any> } {
+    return {
+      history: this.getConversationHistory(),
+      context: this.getCurrentContext()
+    };
+  }
+
+  /**
+   * Restore history and context loaded from the session store
+   */
+  restoreSessionState(state: { history: SessionMessage[]; context: Record<string, any> }): void {
+    this.conversationHistory = state.history.map(msg => ({
+      ...msg,
+      timestamp: new Date(msg.timestamp)
+    })) as ChatMessage[];
+    this.currentContext = { ...state.context };
+  }
+
   /**
    * Get agent status
    */
@@ -621,13 +664,20 @@ Remember: You are a helpful, secure, and knowledgeable payment assistant. Always
    */
   private async handleENSRegistration(message: string, userAddress?: string): Promise<PaymentAgentResponse> {
     try {
-      const ensName = PaymentENSResolver.extractENSName(message);
-      if (!ensName) {
+      const nameMatch = PaymentENSResolver.findENSName(message);
+      if (!nameMatch) {
         return {
           success: false,
           error: 'Please specify an ENS name to register (e.g., "register myname.eth")'
         };
       }
+      if (!nameMatch.valid) {
+        return {
+          success: false,
+          error: `"${nameMatch.input}" is not a valid ENS name. ${nameMatch.error}`
+        };
+      }
+      const ensName = nameMatch.normalized;
 
       if (!userAddress) {
         return {
@@ -662,7 +712,7 @@ Remember: You are a helpful, secure, and knowledgeable payment assistant. Always
       return {
         success: true,
         data: {
-          message: `${ensName} is available for registration${priceDisplay}. ENS registration requires a two-step process:\n\n1. Commit to registration (prevents front-running)\n2. Wait 60 seconds\n3. Complete registration\n\nWould you like to start the registration process?`,
+          message: `${describeNormalizedName(nameMatch)} is available for registration${priceDisplay}. ENS registration requires a two-step process:\n\n1. Commit to registration (prevents front-running)\n2. Wait 60 seconds\n3. Complete registration\n\nWould you like to start the registration process?`,
           type: 'ens_registration',
           timestamp: new Date().toISOString(),
           needsConfirmation: true
@@ -683,13 +733,20 @@ Remember: You are a helpful, secure, and knowledgeable payment assistant. Always
    */
   private async handleENSAvailabilityCheck(message: string): Promise<PaymentAgentResponse> {
     try {
-      const ensName = PaymentENSResolver.extractENSName(message);
-      if (!ensName) {
+      const nameMatch = PaymentENSResolver.findENSName(message);
+      if (!nameMatch) {
         return {
           success: false,
           error: 'Please specify an ENS name to check (e.g., "is myname.eth available?")'
         };
       }
+      if (!nameMatch.valid) {
+        return {
+          success: false,
+          error: `"${nameMatch.input}" is not a valid ENS name. ${nameMatch.error}`
+        };
+      }
+      const ensName = nameMatch.normalized;
 
       const label = ensName.replace('.eth', '');
       const availability = await ensRegistrationService.checkAvailability(label);
@@ -708,7 +765,7 @@ Remember: You are a helpful, secure, and knowledgeable payment assistant. Always
         return {
           success: true,
           data: {
-            message: `✅ ${ensName} is available for registration!${priceDisplay}`,
+            message: `✅ ${describeNormalizedName(nameMatch)} is available for registration!${priceDisplay}`,
             type: 'ens_availability',
             timestamp: new Date().toISOString()
           },
@@ -751,13 +808,20 @@ Remember: You are a helpful, secure, and knowledgeable payment assistant. Always
    */
   private async handleENSResolution(message: string): Promise<PaymentAgentResponse> {
     try {
-      const ensName = PaymentENSResolver.extractENSName(message);
-      if (!ensName) {
+      const nameMatch = PaymentENSResolver.findENSName(message);
+      if (!nameMatch) {
         return {
           success: false,
           error: 'Please specify an ENS name to resolve (e.g., "who is vitalik.eth?")'
         };
       }
+      if (!nameMatch.valid) {
+        return {
+          success: false,
+          error: `"${nameMatch.input}" is not a valid ENS name. ${nameMatch.error}`
+        };
+      }
+      const ensName = nameMatch.normalized;
 
       const resolution = await paymentENSResolver.resolveENSDetails(ensName);
       
@@ -895,8 +959,8 @@ Just tell me what you'd like to do! For example:
 }
 
 // Export factory function and API key
-export function createPayAIService(paymentAgent: PaymentAgent, apiKey: string): PayAIService {
-  return new PayAIService(paymentAgent, apiKey);
+export function createPayAIService(paymentAgent: PaymentAgent, apiKey: string, options?: LLMServiceOptions): PayAIService {
+  return new PayAIService(paymentAgent, apiKey, options);
 }
 
-export const OPENROUTER_API_KEY = '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';
\ No newline at end of file
+export { OPENROUTER_API_KEY } from '../../llm';
\ No newline at end of file
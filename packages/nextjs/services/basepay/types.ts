@@ -21,7 +21,8 @@ export interface PaymentRequest {
   token: 'ETH' | 'USDC';
   message?: string;
   gasless?: boolean;
-  ensName?: string; // Original ENS name for display purposes
+  ensName?: string; // Normalized ENS name for display purposes
+  ensInput?: string; // ENS name as typed, when normalization changed it
 }
 
 export interface PaymentResult {
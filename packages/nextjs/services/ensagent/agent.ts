@@ -3,33 +3,21 @@ import { ethers } from 'ethers';
 import { ENSContractManager } from './contracts';
 import { ENSOperations } from './operations';
 import { ENSAIService, OPENROUTER_API_KEY } from './ai';
-import { SEPOLIA_NETWORK } from '../../abis/constants';
-
-// Sepolia testnet configuration for ENS resolution
-const SEPOLIA_ENS_NETWORK = {
-  chainId: 11155111,
-  name: 'Ethereum Sepolia Testnet',
-  rpcUrl: 'https://eth-sepolia.g.alchemy.com/v2/__krcmuK9Ex84Kfc9l765YL9ljhsIYmJ',
-  blockExplorer: 'https://sepolia.etherscan.io',
-  ensContracts: {
-    ENSRegistry: '0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e',
-    BaseRegistrar: '0x57f1887a8bf19b14fc0df6fd9b2acc9af147ea85',
-    ETHRegistrarController: '0xfb3cE5D01e0f33f41DbB39035dB9745962F1f968',
-    DNSRegistrar: '0x5a07C75Ae469Bf3ee2657B588e8E6ABAC6741b4f',
-    ReverseRegistrar: '0xA0a1AbcDAe1a2a4A2EF8e9113Ff0e02DD81DC0C6',
-    NameWrapper: '0x0635513f179D50A207757E05759CbD106d7dFcE8',
-    PublicResolver: '0xE99638b40E4Fff0129D56f03b55b6bbC4BBE49b5',
-    UniversalResolver: '0x3c85752a5d47DD09D677C645Ff2A938B38fbFEbA',
-    OffchainDNSResolver: '0x179be112b24ad4cfc392ef8924dfa08c20ad8583'
-  }
-};
+import { getDeploymentConfig } from './deployments';
+import { chatSessionStore, ChatSession, isValidSessionId } from '../session';
+import { NameWrapperFuse } from './utils';
+import { ENSReverseChain, getChainCoinType } from './chains';
+import { DNSClient } from './dns';
+
 import { 
   ENSAgentConfig, 
   ENSAgentResponse, 
   ENSAgentCapabilities, 
   ENSNameInfo,
   ChatMessage,
-  ENSOperation
+  ENSOperation,
+  SubnameOptions,
+  ENSRecordUpdate
 } from './types';
 
 export class ENSAgent {
@@ -41,16 +29,7 @@ export class ENSAgent {
 
   constructor(config?: Partial<ENSAgentConfig>) {
     this.config = {
-      network: SEPOLIA_NETWORK,
-      contracts: SEPOLIA_NETWORK.ensContracts,
-      settings: {
-        defaultResolver: SEPOLIA_NETWORK.ensContracts.PublicResolver,
-        supportedTLDs: ['.eth', '.test'],
-        maxNameLength: 50,
-        registrationPrice: '0.01',
-        minCommitmentAge: 60,
-        minRegistrationDuration: 28 * 24 * 60 * 60
-      },
+      ...getDeploymentConfig(),
       ...config
     };
 
@@ -62,7 +41,7 @@ export class ENSAgent {
     
     // Only initialize AI service on server side
     if (typeof window === 'undefined') {
-      this.aiService = new ENSAIService(this, OPENROUTER_API_KEY);
+      this.aiService = new ENSAIService(this, OPENROUTER_API_KEY, this.config.llm);
     }
     
     this.isInitialized = true;
@@ -87,7 +66,7 @@ export class ENSAgent {
       
       // Re-initialize AI service with updated agent
       if (typeof window === 'undefined') {
-        this.aiService = new ENSAIService(this, OPENROUTER_API_KEY);
+        this.aiService = new ENSAIService(this, OPENROUTER_API_KEY, this.config.llm);
       }
       
       this.isInitialized = true;
@@ -105,6 +84,20 @@ export class ENSAgent {
     this.contractManager.setSigner(signer);
   }
 
+  /**
+   * Whether transactions are sent by the agent's signer rather than prepared for the user's wallet
+   */
+  hasSigner(): boolean {
+    return this.contractManager.hasSigner();
+  }
+
+  /**
+   * Set the DNS lookup layer used to import DNS names
+   */
+  setDNSClient(client: DNSClient): void {
+    this.contractManager.setDNSClient(client);
+  }
+
   /**
    * Process a chat message
    */
@@ -125,6 +118,61 @@ export class ENSAgent {
     }
   }
 
+  /**
+   * Process a chat message within a stored per-user session.
+   * `seedHistory` restores a client-held history when the store has no history for the session.
+   */
+  async processSessionMessage(
+    message: string,
+    userAddress?: string,
+    sessionId?: string,
+    seedHistory?: ChatMessage[]
+  ): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    // Sessions are stored server-side only
+    if (typeof window !== 'undefined') {
+      return await this.processMessage(message, userAddress);
+    }
+
+    return chatSessionStore.withSession('ens', userAddress, sessionId, async session => {
+      // The agent's LLM provider is reused, so stateful providers (e.g. a replay script) carry across turns
+      const aiService = new ENSAIService(this, OPENROUTER_API_KEY, {
+        ...this.config.llm,
+        llmProvider: this.aiService?.getLLMProvider()
+      });
+      // A stored session is authoritative, the client's copy only restores one that expired
+      const history = session.history.length === 0 && seedHistory ? seedHistory : session.history;
+      aiService.restoreSessionState({ history, context: session.context });
+
+      const response = await aiService.processMessage(message, userAddress);
+
+      const state = aiService.exportSessionState();
+      session.history = state.history;
+      session.context = state.context;
+      return response;
+    });
+  }
+
+  /**
+   * Get a stored chat session
+   */
+  async getSession(userAddress?: string, sessionId?: string): Promise<ChatSession> {
+    return chatSessionStore.load('ens', userAddress, sessionId);
+  }
+
+  /**
+   * Clear a stored chat session
+   */
+  async clearSession(userAddress?: string, sessionId?: string): Promise<void> {
+    await chatSessionStore.clear('ens', userAddress, sessionId);
+  }
+
   /**
    * Get comprehensive name information
    */
@@ -168,9 +216,10 @@ export class ENSAgent {
   }
 
   /**
-   * Resolve an address to a name (uses Sepolia for ENS resolution)
+   * Resolve an address to a name on the agent's ENS deployment. With a chain key or
+   * chain id, the chain-specific primary name is returned (ENSIP-19).
    */
-  async resolveAddress(address: string): Promise<ENSAgentResponse> {
+  async resolveAddress(address: string, chain?: string | number): Promise<ENSAgentResponse> {
     if (!this.isInitialized) {
       return {
         success: false,
@@ -178,22 +227,57 @@ export class ENSAgent {
       };
     }
 
-    // Create a Sepolia provider for ENS resolution
-    const sepoliaProvider = new ethers.JsonRpcProvider(SEPOLIA_ENS_NETWORK.rpcUrl);
-    const sepoliaContractManager = new ENSContractManager(sepoliaProvider, {
-      network: SEPOLIA_ENS_NETWORK,
-      contracts: SEPOLIA_ENS_NETWORK.ensContracts,
-      settings: {
-        defaultResolver: SEPOLIA_ENS_NETWORK.ensContracts.PublicResolver,
-        supportedTLDs: ['.eth', '.test'],
-        maxNameLength: 50,
-        registrationPrice: '0.01',
-        minCommitmentAge: 60,
-        minRegistrationDuration: 28 * 24 * 60 * 60
-      }
-    });
+    const coinType = chain === undefined ? undefined : getChainCoinType(chain, this.getReverseChains());
+    if (chain !== undefined && coinType === undefined) {
+      return {
+        success: false,
+        error: `Primary names are not supported on ${chain}`
+      };
+    }
+
+    return await this.contractManager.resolveAddress(address, coinType);
+  }
+
+  /**
+   * Get the primary names of an address on Ethereum and every supported L2
+   */
+  async getPrimaryNames(address: string): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.getPrimaryNames(address);
+  }
+
+  /**
+   * Create a registration commitment, submitting it when a signer is set
+   */
+  async createCommitment(name: string, owner: string, secret: string, duration: number): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.createCommitment(name, owner, secret, duration);
+  }
+
+  /**
+   * Commitment status of a registration
+   */
+  async getCommitmentStatus(name: string, owner: string, duration: number, secret: string): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
 
-    return await sepoliaContractManager.resolveAddress(address);
+    return await this.contractManager.getCommitmentStatus(name, owner, duration, secret);
   }
 
   /**
@@ -225,6 +309,34 @@ export class ENSAgent {
     return await this.contractManager.renewName(name, duration);
   }
 
+  /**
+   * Renew several .eth names in one transaction
+   */
+  async renewNames(names: string[], duration: number): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.renewNames(names, duration);
+  }
+
+  /**
+   * Get the total price of renewing several .eth names
+   */
+  async getBulkRenewalPrice(names: string[], duration: number): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.getBulkRenewalPrice(names, duration);
+  }
+
   /**
    * Get price for a name registration
    */
@@ -239,6 +351,21 @@ export class ENSAgent {
     return await this.contractManager.getPrice(name, duration);
   }
 
+  /**
+   * Suggest available alternatives to a name, including LLM synonyms when the AI service is available
+   */
+  async suggestNames(name: string, options: { owner?: string; duration?: number; limit?: number } = {}): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    const synonyms = this.aiService ? await this.aiService.getNameSynonyms(name) : [];
+    return await this.contractManager.suggestNames(name, { ...options, synonyms });
+  }
+
   /**
    * Transfer a name
    */
@@ -281,6 +408,76 @@ export class ENSAgent {
     return await this.contractManager.setAddressRecord(name, address, coinType);
   }
 
+  /**
+   * Set the contenthash record from an ipfs://, ipns://, bzz://, ar:// or onion URI
+   */
+  async setContentHash(name: string, uri: string): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.setContentHash(name, uri);
+  }
+
+  /**
+   * Preview a batch of record updates against the current values
+   */
+  async previewRecordUpdates(name: string, records: ENSRecordUpdate[]): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.previewRecordUpdates(name, records);
+  }
+
+  /**
+   * Set several records in a single resolver multicall
+   */
+  async setRecords(name: string, records: ENSRecordUpdate[]): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.setRecords(name, records);
+  }
+
+  /**
+   * Set the primary name of the connected wallet, or of a contract it owns, optionally on one chain
+   */
+  async setPrimaryName(name: string, forAddress?: string, chain?: string): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.setPrimaryName(name, forAddress, chain);
+  }
+
+  /**
+   * Clear the primary name of the connected wallet, or of a contract it owns, optionally on one chain
+   */
+  async clearPrimaryName(forAddress?: string, chain?: string): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.clearPrimaryName(forAddress, chain);
+  }
+
   /**
    * Set the resolver for a name
    */
@@ -295,6 +492,20 @@ export class ENSAgent {
     return await this.contractManager.setResolver(name, resolverAddress);
   }
 
+  /**
+   * Get the avatar of a name as an image URL (ENSIP-12)
+   */
+  async getAvatar(name: string): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.getAvatar(name);
+  }
+
   /**
    * Get a text record
    */
@@ -323,6 +534,325 @@ export class ENSAgent {
     return await this.contractManager.getAddressRecord(name, coinType);
   }
 
+  /**
+   * Resolve the address a name has for a coin type, falling back to the default EVM address
+   */
+  async resolveChainAddress(name: string, coinType?: number): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.resolveChainAddress(name, coinType);
+  }
+
+  /**
+   * Get address records for several coin types (all supported coins by default)
+   */
+  async getAddressRecords(name: string, coinTypes?: number[]): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.getAddressRecords(name, coinTypes);
+  }
+
+  /**
+   * Get the decoded contenthash record
+   */
+  async getContentHash(name: string): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.getContentHash(name);
+  }
+
+  /**
+   * Get NameWrapper data (wrapped owner, fuses, expiry)
+   */
+  async getWrappedData(name: string): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.getWrappedData(name);
+  }
+
+  /**
+   * Wrap a name in the NameWrapper
+   */
+  async wrapName(name: string, options: { resolver?: string; fuses?: NameWrapperFuse[] } = {}): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.wrapName(name, options);
+  }
+
+  /**
+   * Unwrap a wrapped name
+   */
+  async unwrapName(name: string, newOwner?: string): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.unwrapName(name, newOwner);
+  }
+
+  /**
+   * Check whether fuses can be burned on a wrapped name
+   */
+  async validateFuseBurn(name: string, fuses: NameWrapperFuse[]): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.validateFuseBurn(name, fuses);
+  }
+
+  /**
+   * Burn owner-controlled fuses on a wrapped name (irreversible)
+   */
+  async burnFuses(name: string, fuses: NameWrapperFuse[]): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.burnFuses(name, fuses);
+  }
+
+  /**
+   * Create a subname (e.g. pay.alice.eth), optionally pointing it at an address
+   */
+  async createSubname(name: string, options: SubnameOptions = {}): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.createSubname(name, options);
+  }
+
+  /**
+   * Delete a subname
+   */
+  async deleteSubname(name: string): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.deleteSubname(name);
+  }
+
+  /**
+   * List the subnames of a name
+   */
+  async listSubnames(parentName: string, fromBlock?: number): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.listSubnames(parentName, fromBlock);
+  }
+
+  /**
+   * List the .eth names an address holds, with their expiry
+   */
+  async getOwnedNames(address: string): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.getOwnedNames(address);
+  }
+
+  /**
+   * Get the expiry status of every .eth name an address holds
+   */
+  async getNameExpiries(address: string, thresholds?: number[]): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.getNameExpiries(address, thresholds);
+  }
+
+  /**
+   * Get the names an address holds with their expiry, resolver and primary-name status
+   */
+  async getPortfolio(address: string, thresholds?: number[]): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.getPortfolio(address, thresholds);
+  }
+
+  /**
+   * Get the ownership, resolver and record changes of a name, newest first
+   */
+  async getNameHistory(name: string, options?: { fromBlock?: number; limit?: number }): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.getNameHistory(name, options);
+  }
+
+  /**
+   * Check whether a DNS domain can be imported into ENS
+   */
+  async getDNSImportStatus(domain: string): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.getDNSImportStatus(domain);
+  }
+
+  /**
+   * Import a DNS domain into ENS with a DNSSEC proof
+   */
+  async importDNSName(domain: string, options: { resolver?: string; address?: string } = {}): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.importDNSName(domain, options);
+  }
+
+  /**
+   * Get the TXT record that resolves a DNS domain through ENS without importing it
+   */
+  async getOffchainDNSConfig(domain: string, address: string): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.getOffchainDNSConfig(domain, address);
+  }
+
+  /**
+   * Estimate gas and EIP-1559 fees for an operation
+   */
+  async estimateOperationGas(operation: ENSOperation, from?: string): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.estimateOperationGas(operation, from);
+  }
+
+  /**
+   * Build the unsigned transactions of an operation for the user's wallet to sign
+   */
+  async prepareOperation(operation: ENSOperation, from: string): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    return await this.contractManager.prepareOperation(operation, from);
+  }
+
+  /**
+   * Check a transaction the user's wallet sent. Once it is mined, the outcome is added to the
+   * user's chat session so the conversation knows the operation went through.
+   */
+  async confirmTransaction(
+    hash: string,
+    operation?: ENSOperation,
+    userAddress?: string,
+    sessionId?: string
+  ): Promise<ENSAgentResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: false,
+        error: 'ENS Agent not initialized'
+      };
+    }
+
+    const result = await this.contractManager.confirmTransaction(hash, operation, userAddress);
+    const status = result.transaction?.status;
+    // Only the sender's own session records the outcome, with the operation decoded from the transaction
+    if (typeof window === 'undefined' && userAddress && isValidSessionId(sessionId) && (status === 'confirmed' || status === 'failed')) {
+      await chatSessionStore.withSession('ens', userAddress, sessionId, async session => {
+        // The client may confirm the same hash again while polling
+        if (session.history.some(msg => msg.transaction?.hash === hash && msg.transaction?.status === status)) {
+          return;
+        }
+        session.history.push({
+          id: `tx_${hash}`,
+          role: 'assistant',
+          content: result.message || result.error || '',
+          timestamp: new Date(),
+          operation: result.transaction?.operation,
+          transaction: result.transaction
+        });
+      });
+    }
+    return result;
+  }
+
   /**
    * Get chat history
    */
@@ -412,6 +942,13 @@ export class ENSAgent {
     return { ...this.config.network };
   }
 
+  /**
+   * Chains with their own primary names (ENSIP-19) in this deployment
+   */
+  getReverseChains(): ENSReverseChain[] {
+    return this.contractManager.getReverseChains();
+  }
+
   /**
    * Get contract addresses
    */
@@ -1,10 +1,37 @@
-import OpenAI from 'openai';
 import { ENSAgent } from '../agent';
-import { ENSAgentResponse, ChatMessage, ENSOperation } from '../types';
+import { ENSAgentResponse, ChatMessage, ENSOperation, GasEstimate, ENSBatchOperation, ENSRecordUpdate, PreparedOperation, RegistrationState } from '../types';
 import { randomBytes } from 'crypto';
+import { ENSToolCall, getENSChatTools, parseENSToolCall } from './tools';
+import { NameWrapperFuse, OWNER_CONTROLLED_FUSES, getFuseWarnings, isSubdomain, isETH2LD, getParentDomain, normalizeName, formatDuration } from '../utils';
+import { ENSBulkPriceQuote, ENSPriceQuote, formatBulkPriceQuote, formatPriceQuote } from '../pricing';
+import { formatGasEstimate } from '../gas';
+import { ETH_COIN_TYPE, encodeCoinAddress, getCoinName, resolveCoinType } from '../coins';
+import { decodeContentHash, encodeContentHash, findContentHashURI } from '../contenthash';
+import { formatRecordDiff, isRecordKey, toRecordUpdate } from '../records';
+import { ENSReverseChain, findReverseChain, getReverseChain } from '../chains';
+import { NameExpiry, formatExpiry, getRenewalPrompt } from '../expiry';
+import type { PortfolioName } from '../portfolio';
+import type { NameHistoryEntry } from '../history';
+import { ENSNameSuggestion, formatNameSuggestions } from '../suggestions';
+import { NormalizedENSName, describeNormalizedName, findENSNames, normalizeENSName } from '../normalize';
+import { LLMProvider, LLMServiceOptions, applyOpenRouterDefaults, createLLMProvider, resolveLLMConfig } from '../../llm';
+import type { SessionMessage } from '../../session/types';
+
+// Commit-reveal progress of a chat registration, kept in the session between confirmations
+interface ChatRegistration {
+  name: string;
+  owner: string;
+  duration: number;
+  secret: string;
+  state: RegistrationState;
+  commitment?: string;
+  commitTxHash?: string;
+  committedAt?: number;
+  createdAt: number;
+}
 
 export class ENSAIService {
-  private openai: OpenAI;
+  private llm: LLMProvider;
   private ensAgent: ENSAgent;
   private systemPrompt: string;
   private conversationHistory: ChatMessage[] = [];
@@ -14,18 +41,16 @@ export class ENSAIService {
     pendingOperations?: string[];
     userAddress?: string;
     sessionData?: any;
+    pendingRegistrations?: Record<string, ChatRegistration>;
   } = {};
 
-  constructor(ensAgent: ENSAgent, apiKey: string) {
+  constructor(ensAgent: ENSAgent, apiKey: string, options: LLMServiceOptions = {}) {
     this.ensAgent = ensAgent;
-    this.openai = new OpenAI({
-      baseURL: 'https://openrouter.ai/api/v1',
-      apiKey: apiKey,
-      defaultHeaders: {
-        'HTTP-Referer': 'https://ethaccra.com', // Your site URL
-        'X-Title': 'ENS Agent - Ethereum Name Service Assistant', // Your site title
-      },
-    });
+    const { llmProvider, ...overrides } = options;
+    this.llm = llmProvider || createLLMProvider(applyOpenRouterDefaults(
+      resolveLLMConfig({}, overrides, 'ENS_AGENT'),
+      { apiKey, title: 'ENS Agent - Ethereum Name Service Assistant' }
+    ));
 
     this.systemPrompt = this.createSystemPrompt();
   }
@@ -34,6 +59,7 @@ export class ENSAIService {
    * Create comprehensive system prompt for ENS operations
    */
   private createSystemPrompt(): string {
+    const network = this.ensAgent.getNetworkInfo();
     return `You are an expert Ethereum Name Service (ENS) assistant. Your role is to help users interact with the ENS system by calling the appropriate ENS functions.
 
 ## Important Rules:
@@ -49,19 +75,19 @@ export class ENSAIService {
 3. Record Management: Set and retrieve text records, address records, and other resolver data
 4. Name Renewal: Extend the registration period for existing names
 5. Name Transfer: Transfer ownership of ENS names
-6. Availability Checking: Check if names are available for registration
+6. Availability Checking: Check if names are available for registration, suggesting available alternatives when a name is taken
 7. Price Calculation: Calculate registration and renewal costs
 8. Commitment/Reveal: Handle the two-step registration process for security
 
 ### Supported Record Types:
-- Address Records: Map names to Ethereum addresses (ETH, BTC, LTC, etc.)
+- Address Records: Map names to addresses on other coins and chains (ETH, BTC, LTC, DOGE, SOL, Base, Optimism, Arbitrum)
 - Text Records: Store arbitrary key-value pairs (email, url, description, etc.)
 - Content Hash: Store IPFS hashes for decentralized websites
 - ABI: Store contract ABI for smart contract interaction
 - Public Key: Store public keys for encryption/signing
 
 ### Network Information:
-- Current Network: Sepolia Testnet
+- Current Network: ${network.name} (chain id ${network.chainId})
 - Supported TLDs: .eth, .test
 - Default Resolver: Public Resolver contract
 - Registration Price: Dynamic pricing based on name length and demand
@@ -99,6 +125,7 @@ export class ENSAIService {
 - "How much does myname.eth cost?" → Calculate and explain pricing
 - "Is myname.eth available?" → Check availability and provide status
 - "Is blockdevrel.eth available?" → Check availability and provide clear yes/no answer
+- "Suggest names like alice.eth" → List available alternatives ranked by price and length
 
 ### Name Resolution:
 - "What's the address for myname.eth?" → Resolve name to address
@@ -108,17 +135,28 @@ export class ENSAIService {
 ### Record Management:
 - "Set my email for myname.eth" → Guide through setting text records
 - "Update the address for myname.eth" → Help update address records
-- "Add a website URL to myname.eth" → Set content hash or URL record
+- "Add a website URL to myname.eth" → Set the url text record
+- "Point myname.eth to ipfs://bafy..." → Set the content hash (ipfs, ipns, bzz, ar or onion)
+- "Make myname.eth my primary name" → Set the reverse record, the name must resolve to the wallet first
+- "Make myname.eth my primary name on Base" → Set the Base primary name (ENSIP-19), also OP, Arbitrum, Linea, Scroll or "all chains"
+- "Set email to me@x.com, url to https://x.com and avatar to ... on myname.eth" → Set all of them in one transaction
 
 ### Advanced Operations:
 - "Transfer myname.eth to 0x456..." → Guide through transfer process
 - "Renew myname.eth for 2 years" → Help with renewal
+- "Renew all my names expiring in the next 60 days for 1 year" → Renew several names in one transaction
+- "What names do I own?" → List the user's names with expiry, resolver and primary name
+- "Who changed the address of myname.eth and when?" → Show the ownership, resolver and record history of a name
 - "Set up a subdomain for myname.eth" → Explain subdomain management
+- "Create pay.myname.eth pointing to 0x..." → Create a subname with its address record
+- "List subnames of myname.eth" → Show existing subnames
+- "Wrap myname.eth" → Wrap the name in the NameWrapper
+- "Burn CANNOT_TRANSFER on myname.eth" → Explain fuses and warn that burning is irreversible
 
 ## Security Considerations
 
 ### Always Warn About:
-- Irreversible Operations: Transfers, certain record updates
+- Irreversible Operations: Transfers, certain record updates, burning NameWrapper fuses
 - Private Key Security: Never ask for or store private keys
 - Phishing: Warn about fake ENS interfaces
 - Gas Costs: Explain transaction fees
@@ -138,6 +176,7 @@ You have access to the following ENS contracts and operations:
 - ETH Registrar: .eth domain registration
 - Public Resolver: Standard record management
 - Reverse Registrar: Address-to-name resolution
+- Name Wrapper: ERC-1155 wrapped names and fuse permissions
 - Price Oracle: Dynamic pricing calculation
 
 ## Example Interactions
@@ -149,7 +188,7 @@ User: "What can I do with myname.eth?"
 Response: "With myname.eth, you can: 1) Set it to point to your wallet address, 2) Add text records like email and website, 3) Create subdomains, 4) Use it for decentralized websites, and more. What would you like to set up first?"
 
 User: "How do I set up a website with myname.eth?"
-Response: "To set up a website with myname.eth, you'll need to: 1) Upload your website to IPFS, 2) Set the content hash record, 3) Configure your resolver. Would you like me to guide you through this process?"
+Response: "To set up a website with myname.eth, you'll need to: 1) Upload your website to IPFS, 2) Point myname.eth to the ipfs:// URI so I can set the content hash record, 3) Open it through an IPFS gateway or an ENS-aware browser. Would you like me to guide you through this process?"
 
 Remember: You are a helpful, knowledgeable, and security-conscious ENS assistant. Always prioritize user education and security while making ENS operations accessible and easy to understand.`;
   }
@@ -175,127 +214,44 @@ Remember: You are a helpful, knowledgeable, and security-conscious ENS assistant
 
       const lowerMessage = message.toLowerCase();
       const ensName = this.extractENSName(message);
+
+      // Refuse names ENSIP-15 rejects before acting on them (confusables, mixed scripts, disallowed characters)
+      const invalidName = this.findInvalidENSName(message);
+      if (invalidName) {
+        return this.addToConversationAndReturn({
+          success: false,
+          error: `"${invalidName.input}" is not a valid ENS name. ${invalidName.error}`
+        });
+      }
       
       // Handle follow-up questions and context-based queries
       const contextualResponse = await this.handleContextualQuery(message, lowerMessage, ensName, userAddress);
       if (contextualResponse) {
-        return this.addToConversationAndReturn(contextualResponse);
+        return this.addToConversationAndReturn(await this.prepareProposal(contextualResponse, message, userAddress));
       }
 
-      // If we found an ENS name, determine the intent
-      if (ensName) {
-        console.log(`ENS name detected: ${ensName}`);
-        this.currentContext.lastENSName = ensName;
-        
-        // Check for registration commands
-        if (lowerMessage.includes('register') || lowerMessage.includes('buy') || lowerMessage.includes('get')) {
-          console.log(`Registration command detected for: ${ensName}`);
-          this.currentContext.lastOperation = 'register';
-          return this.addToConversationAndReturn(await this.handleRegistrationCommand(ensName, message, userAddress));
-        }
-        
-        // Check for renewal commands
-        if (lowerMessage.includes('renew') || lowerMessage.includes('extend')) {
-          console.log(`Renewal command detected for: ${ensName}`);
-          this.currentContext.lastOperation = 'renew';
-          return this.addToConversationAndReturn(await this.handleRenewalCommand(ensName, message, userAddress));
-        }
-        
-        // Check for set record commands
-        if (lowerMessage.includes('set') || lowerMessage.includes('update') || lowerMessage.includes('add')) {
-          console.log(`Set record command detected for: ${ensName}`);
-          this.currentContext.lastOperation = 'setRecord';
-          return this.addToConversationAndReturn(await this.handleSetRecordCommand(ensName, message, userAddress));
-        }
-        
-        // Check for transfer commands
-        if (lowerMessage.includes('transfer') || lowerMessage.includes('give') || lowerMessage.includes('send')) {
-          console.log(`Transfer command detected for: ${ensName}`);
-          this.currentContext.lastOperation = 'transfer';
-          return this.addToConversationAndReturn(await this.handleTransferCommand(ensName, message, userAddress));
-        }
-        
-        // Check for availability queries specifically
-        if (lowerMessage.includes('available') || lowerMessage.includes('is available') || lowerMessage.includes('check if')) {
-          console.log(`Availability check for: ${ensName}`);
-          this.currentContext.lastOperation = 'availability';
-          const availabilityData = await this.ensAgent.isNameAvailable(ensName);
-          console.log(`Availability check success: ${availabilityData.success}`);
-          
-          if (availabilityData.success) {
-            const isAvailable = availabilityData.data?.available;
-            const message = isAvailable 
-              ? `${ensName} is available for registration!`
-              : `${ensName} is already registered and not available.`;
-            
-            return this.addToConversationAndReturn({
-              success: true,
-              data: {
-                message,
-                type: 'availability_check',
-                ensName,
-                available: isAvailable,
-                timestamp: new Date().toISOString()
-              },
-              message
-            });
-          } else {
-            console.log(`Availability check failed: ${availabilityData.error}`);
-            return this.addToConversationAndReturn({
-              success: false,
-              error: `Failed to check availability for ${ensName}: ${availabilityData.error}`
-            });
-          }
-        }
-        
-        // Check for resolution or general info queries
-        if (lowerMessage.includes('resolve') || lowerMessage.includes('what') || lowerMessage.includes('info') || lowerMessage.includes('tell me about')) {
-          console.log(`ENS data query for: ${ensName}`);
-          this.currentContext.lastOperation = 'resolve';
-          // Use agent's getNameInfo method
-          const ensData = await this.ensAgent.getNameInfo(ensName);
-          console.log(`ENS data success: ${ensData.success}`);
-          if (ensData.success) {
-            console.log(`ENS data:`, ensData.data);
-            // Format the ENS data into a readable response
-            const formattedResponse = this.formatENSData(ensName, ensData.data);
-            return this.addToConversationAndReturn({
-              success: true,
-              data: {
-                message: formattedResponse,
-                type: 'ens_data',
-                ensData: ensData.data,
-                timestamp: new Date().toISOString()
-              },
-              message: formattedResponse
-            });
-          } else {
-            console.log(`ENS data failed: ${ensData.error}`);
-            // Return the error instead of falling back to LLM
-            return this.addToConversationAndReturn({
-              success: false,
-              error: `Failed to get ENS data for ${ensName}: ${ensData.error}`
-            });
-          }
-        }
-        
-        // If just mentioning an ENS name without clear intent, provide helpful options
-        console.log(`ENS name mentioned without clear intent: ${ensName}`);
-        return this.addToConversationAndReturn(await this.handleGeneralENSQuery(ensName, message, userAddress));
+      // Let the model pick the ENS operation and its arguments through tool calling
+      const selection = await this.selectToolCall(message, userAddress);
+      if (selection?.call) {
+        console.log(`Tool call selected: ${selection.call.name}`, selection.call.args);
+        return this.addToConversationAndReturn(await this.prepareProposal(await this.executeToolCall(selection.call, message, userAddress), message, userAddress));
       }
 
-      // For non-ENS queries, use enhanced LLM to determine what ENS function to call
-      const llmResponse = await this.getEnhancedLLMResponse(message, userAddress);
-      
-      return this.addToConversationAndReturn({
-        success: true,
-        data: {
-          message: llmResponse,
-          type: 'ai_response',
-          timestamp: new Date().toISOString()
-        },
-        message: llmResponse
-      });
+      if (selection?.reply) {
+        return this.addToConversationAndReturn({
+          success: true,
+          data: {
+            message: selection.reply,
+            type: 'ai_response',
+            timestamp: new Date().toISOString()
+          },
+          message: selection.reply
+        });
+      }
+
+      // Model unavailable or returned an unusable tool call, use deterministic keyword routing
+      const routed = await this.routeByKeywords(message, lowerMessage, ensName, userAddress);
+      return this.addToConversationAndReturn(await this.prepareProposal(routed, message, userAddress));
     } catch (error) {
       console.error('AI Service Error:', error);
       
@@ -314,20 +270,1781 @@ Remember: You are a helpful, knowledgeable, and security-conscious ENS assistant
     }
   }
 
+  /**
+   * Ask the model to select an ENS tool for the message.
+   * Returns null when the model cannot be reached or its tool call fails validation.
+   */
+  private async selectToolCall(message: string, userAddress?: string): Promise<{ call?: ENSToolCall; reply?: string } | null> {
+    try {
+      const completion = await this.llm.complete({
+        messages: [
+          {
+            role: 'system',
+            content: this.createEnhancedSystemPrompt()
+          },
+          ...this.buildContextualMessages(),
+          {
+            role: 'user',
+            content: this.formatUserMessage(message, userAddress)
+          }
+        ],
+        tools: getENSChatTools(),
+        toolChoice: 'auto',
+        temperature: 0
+      });
+
+      const toolCall = completion.toolCalls[0];
+
+      if (toolCall) {
+        const parsed = parseENSToolCall(toolCall.name, toolCall.arguments);
+        if (parsed.success && parsed.call) {
+          return { call: parsed.call };
+        }
+        console.warn(`Rejected tool call ${toolCall.name}: ${parsed.error}`);
+        return null;
+      }
+
+      return completion.content ? { reply: completion.content } : null;
+    } catch (error) {
+      console.error('Tool selection failed, falling back to keyword routing:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Execute a validated tool call through the matching handler
+   */
+  private async executeToolCall(call: ENSToolCall, message: string, userAddress?: string): Promise<ENSAgentResponse> {
+    const { args } = call;
+    const duration = args.durationDays ? args.durationDays * 24 * 60 * 60 : undefined;
+
+    if (args.name) {
+      this.currentContext.lastENSName = args.name;
+    }
+
+    switch (call.name) {
+      case 'isNameAvailable':
+        this.currentContext.lastOperation = 'availability';
+        return await this.handleAvailabilityCheck(args.name, userAddress);
+      case 'suggestNames':
+        this.currentContext.lastOperation = 'suggestions';
+        return await this.handleNameSuggestionsQuery(args.name, userAddress);
+      case 'getNameInfo':
+        this.currentContext.lastOperation = 'resolve';
+        return await this.handleNameInfoQuery(args.name);
+      case 'getPrice':
+        this.currentContext.lastOperation = 'price';
+        return await this.handlePriceQuery(args.name, duration);
+      case 'resolveName':
+        this.currentContext.lastOperation = 'resolve';
+        return await this.handleResolveNameQuery(args.name);
+      case 'resolveAddress':
+        this.currentContext.lastOperation = 'reverseResolve';
+        return await this.handleReverseResolution(args.address, args.chain ? getReverseChain(args.chain, this.ensAgent.getReverseChains()) : undefined);
+      case 'getPrimaryNames':
+        this.currentContext.lastOperation = 'reverseResolve';
+        return await this.handlePrimaryNamesQuery(args.address);
+      case 'registerName':
+        this.currentContext.lastOperation = 'register';
+        return await this.handleRegistrationCommand(args.name, message, userAddress, duration);
+      case 'renewName':
+        this.currentContext.lastOperation = 'renew';
+        return await this.handleRenewalCommand(args.name, message, userAddress, duration);
+      case 'renewNames':
+        this.currentContext.lastOperation = 'bulkRenew';
+        return await this.handleBulkRenewalCommand(userAddress, args.names, args.withinDays, duration);
+      case 'transferName':
+        this.currentContext.lastOperation = 'transfer';
+        return await this.handleTransferCommand(args.name, message, userAddress, args.recipient);
+      case 'setPrimaryName':
+        this.currentContext.lastOperation = 'setPrimaryName';
+        return await this.handleSetPrimaryNameCommand(
+          args.name,
+          userAddress,
+          args.address,
+          args.chain ? getReverseChain(args.chain, this.ensAgent.getReverseChains()) : undefined
+        );
+      case 'clearPrimaryName':
+        this.currentContext.lastOperation = 'clearPrimaryName';
+        return await this.handleClearPrimaryNameCommand(userAddress, args.address, args.chain ? getReverseChain(args.chain, this.ensAgent.getReverseChains()) : undefined);
+      case 'getNameExpiries':
+        this.currentContext.lastOperation = 'expiry';
+        return await this.handleExpiryQuery(args.address || userAddress);
+      case 'getPortfolio':
+        this.currentContext.lastOperation = 'portfolio';
+        return await this.handlePortfolioQuery(args.address || userAddress);
+      case 'getNameHistory':
+        this.currentContext.lastOperation = 'history';
+        return await this.handleNameHistoryQuery(args.name);
+      case 'importDNSName':
+        this.currentContext.lastOperation = 'importDNSName';
+        return args.offchain
+          ? await this.handleOffchainDNSCommand(args.domain, args.address || userAddress)
+          : await this.handleDNSImportCommand(args.domain, userAddress);
+      case 'setTextRecord':
+        this.currentContext.lastOperation = 'setRecord';
+        return await this.handleSetRecordCommand(args.name, message, userAddress, { type: args.key, value: args.value });
+      case 'setAddressRecord':
+        this.currentContext.lastOperation = 'setRecord';
+        return await this.handleSetRecordCommand(args.name, message, userAddress, {
+          type: getCoinName(this.toolCoinType(args)),
+          value: args.address,
+          coinType: this.toolCoinType(args)
+        });
+      case 'setRecords':
+        this.currentContext.lastOperation = 'setRecord';
+        return await this.handleSetRecordsCommand(
+          args.name,
+          args.records.map((record: { key: string; value: string }) => toRecordUpdate(record.key, record.value))
+        );
+      case 'setResolver':
+        this.currentContext.lastOperation = 'setResolver';
+        return this.handleSetResolverCommand(args.name, args.resolverAddress);
+      case 'setContentHash':
+        this.currentContext.lastOperation = 'setRecord';
+        return this.handleSetContentHashCommand(args.name, args.uri);
+      case 'getTextRecord':
+        return await this.handleGetRecordQuery(args.name, { key: args.key });
+      case 'getAddressRecord':
+        return await this.handleGetRecordQuery(args.name, { coinType: this.toolCoinType(args) });
+      case 'getContentHash':
+        return await this.handleGetContentHashQuery(args.name);
+      case 'wrapName':
+        this.currentContext.lastOperation = 'wrap';
+        return await this.handleWrapCommand(args.name, args.fuses || []);
+      case 'unwrapName':
+        this.currentContext.lastOperation = 'unwrap';
+        return await this.handleUnwrapCommand(args.name);
+      case 'getFuses':
+        return await this.handleFusesQuery(args.name);
+      case 'burnFuses':
+        this.currentContext.lastOperation = 'burnFuses';
+        return await this.handleBurnFusesCommand(args.name, args.fuses);
+      case 'createSubname':
+        this.currentContext.lastOperation = 'createSubname';
+        return await this.handleCreateSubnameCommand(args.name, message, userAddress, {
+          address: args.address,
+          owner: args.owner,
+          resolver: args.resolverAddress
+        });
+      case 'deleteSubname':
+        this.currentContext.lastOperation = 'deleteSubname';
+        return await this.handleDeleteSubnameCommand(args.name, userAddress);
+      case 'listSubnames':
+        return await this.handleListSubnamesQuery(args.name);
+      default:
+        return {
+          success: false,
+          error: `Unsupported ENS tool: ${call.name}`
+        };
+    }
+  }
+
+  /**
+   * Attach the gas estimate and the normalized name to a proposal before it is shown
+   */
+  private async prepareProposal(response: ENSAgentResponse, message: string, userAddress?: string): Promise<ENSAgentResponse> {
+    return this.attachNormalizationNotice(await this.attachGasEstimate(response, userAddress), message);
+  }
+
+  /**
+   * First name in the message that cannot be normalized
+   */
+  private findInvalidENSName(message: string): NormalizedENSName | null {
+    return findENSNames(message).map(normalizeENSName).find(result => !result.valid) || null;
+  }
+
+  /**
+   * Show the normalized form when the name in a proposal differs from what the user typed
+   */
+  private attachNormalizationNotice(response: ENSAgentResponse, message: string): ENSAgentResponse {
+    const isProposal = response.data?.needsConfirmation || (response.transaction && !response.transaction.hash);
+    const name: string | undefined = response.data?.ensName || response.transaction?.ensName;
+    if (!response.success || !isProposal || !name) {
+      return response;
+    }
+
+    const normalization = findENSNames(message)
+      .map(normalizeENSName)
+      .find(result => result.valid && result.changed && result.normalized === name);
+    if (!normalization) {
+      return response;
+    }
+
+    const notice = `Using ${describeNormalizedName(normalization)}.`;
+    const text = response.data?.message ? `${notice}\n\n${response.data.message}` : notice;
+    return {
+      ...response,
+      message: response.message ? `${notice}\n${response.message}` : notice,
+      data: { ...response.data, message: text, normalization: { input: normalization.input, normalized: normalization.normalized } }
+    };
+  }
+
+  /**
+   * Attach a gas and fee estimate to proposals awaiting confirmation
+   */
+  private async attachGasEstimate(response: ENSAgentResponse, userAddress?: string): Promise<ENSAgentResponse> {
+    if (!response.success || !response.transaction || response.transaction.hash) {
+      return response;
+    }
+
+    const operation = this.proposalToOperation(response, userAddress);
+    if (!operation) {
+      return response;
+    }
+
+    const estimate = await this.ensAgent.estimateOperationGas(operation, userAddress);
+    if (!estimate.success) {
+      console.warn(`Gas estimation failed for ${operation.type} ${operation.name}: ${estimate.error}`);
+      return response;
+    }
+
+    const gasEstimate: GasEstimate = estimate.data;
+    const feeLine = `Estimated network fee: ${formatGasEstimate(gasEstimate)}.`;
+    const message = response.message ? `${response.message}\n${feeLine}` : feeLine;
+    return {
+      ...response,
+      message,
+      data: { ...response.data, message, gasEstimate },
+      transaction: { ...response.transaction, gasEstimate }
+    };
+  }
+
+  /**
+   * Map a chat proposal to the operation it would send
+   */
+  private proposalToOperation(response: ENSAgentResponse, userAddress?: string): ENSOperation | null {
+    const data = response.data || {};
+    const name: string | undefined = data.ensName;
+    if (!name) {
+      return null;
+    }
+
+    switch (data.type) {
+      case 'registration_ready':
+      case 'name_available':
+        return { type: 'register', name, data: { owner: userAddress, duration: data.duration } };
+      case 'renewal_ready':
+        return { type: 'renew', name, data: { duration: data.duration } };
+      case 'bulk_renewal_ready':
+        return { type: 'bulkRenew', name, data: { names: data.names, duration: data.duration } };
+      case 'set_record_ready': {
+        const record = data.record;
+        return record.coinType !== undefined || record.type === 'ETH' || record.type.toLowerCase() === 'address'
+          ? { type: 'setRecord', name, data: { coinType: record.coinType ?? ETH_COIN_TYPE, address: record.value } }
+          : { type: 'setRecord', name, data: { key: record.type, value: record.value } };
+      }
+      case 'set_records_ready':
+        return { type: 'setRecords', name, data: { records: data.records } };
+      case 'set_resolver_ready':
+        return { type: 'setResolver', name, data: { resolverAddress: data.resolverAddress } };
+      case 'set_contenthash_ready':
+        return { type: 'setRecord', name, data: { contentHash: data.contentHash.uri } };
+      case 'transfer_ready':
+        return { type: 'transfer', name, data: { newOwner: data.recipientAddress } };
+      case 'set_primary_name_ready':
+        return { type: 'setPrimaryName', name, data: { address: data.contractAddress, chain: data.chain } };
+      case 'clear_primary_name_ready':
+        return { type: 'clearPrimaryName', name, data: { address: data.contractAddress, chain: data.chain } };
+      case 'dns_import_ready':
+        return { type: 'importDNSName', name, data: { resolver: data.resolverAddress, address: data.address } };
+      case 'wrap_ready':
+        return { type: 'wrap', name, data: { fuses: data.fuses } };
+      case 'unwrap_ready':
+        return { type: 'unwrap', name };
+      case 'burn_fuses_ready':
+        return { type: 'burnFuses', name, data: { fuses: data.fuses } };
+      case 'create_subname_ready':
+        return { type: 'createSubname', name, data: { owner: data.owner, resolver: data.resolverAddress, address: data.address } };
+      case 'delete_subname_ready':
+        return { type: 'deleteSubname', name };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Deterministic keyword routing, used when the model is unavailable
+   */
+  private async routeByKeywords(message: string, lowerMessage: string, ensName: string | null, userAddress?: string): Promise<ENSAgentResponse> {
+    // If we found an ENS name, determine the intent
+    if (ensName) {
+      console.log(`ENS name detected: ${ensName}`);
+      this.currentContext.lastENSName = ensName;
+
+      // Check for NameWrapper commands first, "unwrap" contains "wrap"
+      if (lowerMessage.includes('fuse')) {
+        const fuses = this.extractFuses(message);
+        if (lowerMessage.includes('burn') && fuses.length > 0) {
+          console.log(`Burn fuses command detected for: ${ensName}`);
+          this.currentContext.lastOperation = 'burnFuses';
+          return await this.handleBurnFusesCommand(ensName, fuses);
+        }
+        return await this.handleFusesQuery(ensName);
+      }
+
+      if (lowerMessage.includes('unwrap')) {
+        console.log(`Unwrap command detected for: ${ensName}`);
+        this.currentContext.lastOperation = 'unwrap';
+        return await this.handleUnwrapCommand(ensName);
+      }
+
+      if (lowerMessage.includes('wrap')) {
+        console.log(`Wrap command detected for: ${ensName}`);
+        this.currentContext.lastOperation = 'wrap';
+        return await this.handleWrapCommand(ensName, this.extractFuses(message));
+      }
+
+      // History of a name ("who changed alice.eth's address and when") before records, which also say "address"
+      if (/\b(history|audit|activity|changed|changes|who (set|updated|owned))\b/.test(lowerMessage)) {
+        console.log(`Name history query for: ${ensName}`);
+        this.currentContext.lastOperation = 'history';
+        return await this.handleNameHistoryQuery(ensName);
+      }
+
+      // Primary name commands ("make alice.eth my primary name on base") before records, they also say "set"
+      if (/\b(primary name|reverse record)\b/.test(lowerMessage)) {
+        const contractAddress = this.extractContractAddress(message, userAddress);
+        const chain = findReverseChain(message, this.ensAgent.getReverseChains());
+        if (/\b(clear|remove|unset|delete)\b/.test(lowerMessage)) {
+          this.currentContext.lastOperation = 'clearPrimaryName';
+          return await this.handleClearPrimaryNameCommand(userAddress, contractAddress, chain);
+        }
+        this.currentContext.lastOperation = 'setPrimaryName';
+        return await this.handleSetPrimaryNameCommand(ensName, userAddress, contractAddress, chain);
+      }
+
+      // Content hash commands ("point alice.eth to ipfs://...") before subnames, which also use "pointing".
+      // A URI among several records is left to the batch record path below.
+      const contentURI = findContentHashURI(message);
+      if (contentURI && this.extractRecordsFromMessage(message).length < 2) {
+        console.log(`Set contenthash command detected for: ${ensName}`);
+        this.currentContext.lastOperation = 'setRecord';
+        return this.handleSetContentHashCommand(ensName, contentURI);
+      }
+
+      if (/\b(content ?hash|website|ipfs)\b/.test(lowerMessage) && !/\b(set|update|add|change)\b/.test(lowerMessage)) {
+        return await this.handleGetContentHashQuery(ensName);
+      }
+
+      // Check for subname commands before registration, "create pay.alice.eth pointing to 0x..."
+      const mentionsSubname = lowerMessage.includes('subname') || lowerMessage.includes('subdomain');
+      if (mentionsSubname && (lowerMessage.includes('list') || lowerMessage.includes('show'))) {
+        return await this.handleListSubnamesQuery(ensName);
+      }
+
+      if (isSubdomain(ensName) && (lowerMessage.includes('delete') || lowerMessage.includes('remove'))) {
+        console.log(`Delete subname command detected for: ${ensName}`);
+        this.currentContext.lastOperation = 'deleteSubname';
+        return await this.handleDeleteSubnameCommand(ensName, userAddress);
+      }
+
+      if (mentionsSubname || (isSubdomain(ensName) && /\b(create|make|new|pointing)\b/.test(lowerMessage))) {
+        console.log(`Create subname command detected for: ${ensName}`);
+        this.currentContext.lastOperation = 'createSubname';
+        return await this.handleCreateSubnameCommand(ensName, message, userAddress);
+      }
+      
+      // Reading a coin address ("what is the BTC address of alice.eth")
+      const coinQuery = lowerMessage.match(/\b([a-z0-9]+)\s+(?:address|addr)\b/);
+      const queriedCoinType = coinQuery ? resolveCoinType(coinQuery[1]) : undefined;
+      if (queriedCoinType !== undefined && !/\b(set|update|add|change)\b/.test(lowerMessage)) {
+        return await this.handleGetRecordQuery(ensName, { coinType: queriedCoinType });
+      }
+
+      // Check for registration commands
+      if (lowerMessage.includes('register') || lowerMessage.includes('buy')) {
+        this.currentContext.lastOperation = 'register';
+        return await this.handleRegistrationCommand(ensName, message, userAddress);
+      }
+      
+      // Check for renewal commands, several names go into one bulk renewal
+      if (lowerMessage.includes('renew') || lowerMessage.includes('extend')) {
+        const names = [...new Set(findENSNames(message).map(name => normalizeName(name)))];
+        if (names.length > 1) {
+          console.log(`Bulk renewal command detected for: ${names.join(', ')}`);
+          this.currentContext.lastOperation = 'bulkRenew';
+          return await this.handleBulkRenewalCommand(userAddress, names, undefined, this.extractBulkRenewalTerms(message).duration);
+        }
+        console.log(`Renewal command detected for: ${ensName}`);
+        this.currentContext.lastOperation = 'renew';
+        return await this.handleRenewalCommand(ensName, message, userAddress);
+      }
+      
+      // Check for set record commands
+      if (lowerMessage.includes('set') || lowerMessage.includes('update') || lowerMessage.includes('add')) {
+        console.log(`Set record command detected for: ${ensName}`);
+        this.currentContext.lastOperation = 'setRecord';
+        return await this.handleSetRecordCommand(ensName, message, userAddress);
+      }
+      
+      // Check for transfer commands
+      if (lowerMessage.includes('transfer') || lowerMessage.includes('give') || lowerMessage.includes('send')) {
+        console.log(`Transfer command detected for: ${ensName}`);
+        this.currentContext.lastOperation = 'transfer';
+        return await this.handleTransferCommand(ensName, message, userAddress);
+      }
+      
+      // Alternatives to a name ("suggest names like alice.eth") before availability, which they may also mention
+      if (/\b(suggest|suggestions?|alternatives?|similar)\b/.test(lowerMessage)) {
+        console.log(`Name suggestions for: ${ensName}`);
+        this.currentContext.lastOperation = 'suggestions';
+        return await this.handleNameSuggestionsQuery(ensName, userAddress);
+      }
+
+      // Check for availability queries specifically
+      if (lowerMessage.includes('available') || lowerMessage.includes('is available') || lowerMessage.includes('check if')) {
+        console.log(`Availability check for: ${ensName}`);
+        this.currentContext.lastOperation = 'availability';
+        return await this.handleAvailabilityCheck(ensName, userAddress);
+      }
+      
+      // Check for resolution or general info queries
+      if (lowerMessage.includes('resolve') || lowerMessage.includes('what') || lowerMessage.includes('info') || lowerMessage.includes('tell me about')) {
+        console.log(`ENS data query for: ${ensName}`);
+        this.currentContext.lastOperation = 'resolve';
+        return await this.handleNameInfoQuery(ensName);
+      }
+
+      // "get me alice.eth" registers; a plain "get" is usually a lookup, handled above
+      if (/\bget (me|the name)\b/.test(lowerMessage)) {
+        this.currentContext.lastOperation = 'register';
+        return await this.handleRegistrationCommand(ensName, message, userAddress);
+      }
+      
+      // If just mentioning an ENS name without clear intent, provide helpful options
+      console.log(`ENS name mentioned without clear intent: ${ensName}`);
+      return await this.handleGeneralENSQuery(ensName, message, userAddress);
+    }
+
+    // Renewing the user's names together ("renew all my names expiring in the next 60 days for 1 year"),
+    // before the expiry report, which the same message also matches
+    if (/\b(renew|extend)\b/.test(lowerMessage) && /\b(all|every|each)\b/.test(lowerMessage)) {
+      const { withinDays, duration } = this.extractBulkRenewalTerms(message);
+      this.currentContext.lastOperation = 'bulkRenew';
+      return await this.handleBulkRenewalCommand(this.extractContractAddress(message, userAddress) || userAddress, undefined, withinDays, duration);
+    }
+
+    // Expiry of the user's names ("which of my names expire soon")
+    if (/\b(expir(e|es|ing|y|ation)|renewals? due)\b/.test(lowerMessage)) {
+      const address = this.extractContractAddress(message, userAddress) || userAddress;
+      if (!address) {
+        return {
+          success: false,
+          error: 'Please connect your wallet so I can check when your names expire.'
+        };
+      }
+      this.currentContext.lastOperation = 'expiry';
+      return await this.handleExpiryQuery(address);
+    }
+
+    // DNS domains ("import example.com into ENS", "resolve example.com offchain")
+    const dnsDomain = this.extractDNSDomain(message);
+    if (dnsDomain && /\b(import|claim|dnssec|dns|offchain|gasless)\b/.test(lowerMessage)) {
+      this.currentContext.lastOperation = 'importDNSName';
+      return /\b(offchain|gasless)\b/.test(lowerMessage)
+        ? await this.handleOffchainDNSCommand(dnsDomain, this.extractContractAddress(message, userAddress) || userAddress)
+        : await this.handleDNSImportCommand(dnsDomain, userAddress);
+    }
+
+    // Primary name of the user's wallet or a contract ("what is my primary name on base", "clear my primary name")
+    if (/\b(primary names?|reverse records?)\b/.test(lowerMessage)) {
+      const contractAddress = this.extractContractAddress(message, userAddress);
+      const chain = findReverseChain(message, this.ensAgent.getReverseChains());
+      if (/\b(clear|remove|unset|delete)\b/.test(lowerMessage)) {
+        this.currentContext.lastOperation = 'clearPrimaryName';
+        return await this.handleClearPrimaryNameCommand(userAddress, contractAddress, chain);
+      }
+      const address = contractAddress || userAddress;
+      if (address) {
+        this.currentContext.lastOperation = 'reverseResolve';
+        return /\b(primary names|every chain|all chains|each chain|multichain)\b/.test(lowerMessage)
+          ? await this.handlePrimaryNamesQuery(address)
+          : await this.handleReverseResolution(address, chain);
+      }
+    }
+
+    // Names the user holds ("what names do I own", "show my ENS portfolio")
+    const listsNames = /\bnames\b/.test(lowerMessage) && /\b(own|hold|my)\b/.test(lowerMessage)
+      && !/\b(register|renew|transfer|set|suggest)\b/.test(lowerMessage);
+    if (/\bportfolio\b/.test(lowerMessage) || listsNames) {
+      this.currentContext.lastOperation = 'portfolio';
+      return await this.handlePortfolioQuery(this.extractContractAddress(message, userAddress) || userAddress);
+    }
+
+    // For non-ENS queries, use enhanced LLM to determine what ENS function to call
+    const llmResponse = await this.getEnhancedLLMResponse(message, userAddress);
+    
+    return {
+      success: true,
+      data: {
+        message: llmResponse,
+        type: 'ai_response',
+        timestamp: new Date().toISOString()
+      },
+      message: llmResponse
+    };
+  }
+
+  /**
+   * Handle availability check
+   */
+  private async handleAvailabilityCheck(ensName: string, userAddress?: string): Promise<ENSAgentResponse> {
+    const availabilityData = await this.ensAgent.isNameAvailable(ensName);
+    console.log(`Availability check success: ${availabilityData.success}`);
+    
+    if (!availabilityData.success) {
+      console.log(`Availability check failed: ${availabilityData.error}`);
+      return {
+        success: false,
+        error: `Failed to check availability for ${ensName}: ${availabilityData.error}`
+      };
+    }
+
+    const isAvailable = availabilityData.data?.available;
+    // A taken name comes with ranked alternatives the user could register instead
+    const suggestions: ENSNameSuggestion[] = isAvailable ? [] : await this.findNameSuggestions(ensName, userAddress);
+    const message = isAvailable 
+      ? `${ensName} is available for registration!`
+      : `${ensName} is already registered and not available.${suggestions.length > 0 ? `\n\nAvailable alternatives, cheapest first:\n${formatNameSuggestions(suggestions)}` : ''}`;
+    
+    return {
+      success: true,
+      data: {
+        message,
+        type: 'availability_check',
+        ensName,
+        available: isAvailable,
+        suggestions,
+        timestamp: new Date().toISOString()
+      },
+      message
+    };
+  }
+
+  /**
+   * Handle asking for alternatives to a name, ranked by price and length
+   */
+  private async handleNameSuggestionsQuery(ensName: string, userAddress?: string): Promise<ENSAgentResponse> {
+    const result = await this.ensAgent.suggestNames(ensName, { owner: userAddress });
+    if (!result.success) {
+      return {
+        success: false,
+        error: `Failed to suggest names like ${ensName}: ${result.error}`
+      };
+    }
+
+    const suggestions: ENSNameSuggestion[] = result.data.suggestions;
+    const message = suggestions.length > 0
+      ? `Available names like ${ensName}, cheapest first:\n${formatNameSuggestions(suggestions)}\n\nSay "register <name>" to register one of them.`
+      : `I checked ${result.data.checked} alternatives to ${ensName} but none of them are available. Try a different word.`;
+
+    return {
+      success: true,
+      data: {
+        message,
+        type: 'name_suggestions',
+        ensName,
+        suggestions,
+        timestamp: new Date().toISOString()
+      },
+      message
+    };
+  }
+
+  /**
+   * Ranked alternatives to a taken name, empty when they cannot be loaded
+   */
+  private async findNameSuggestions(ensName: string, userAddress?: string): Promise<ENSNameSuggestion[]> {
+    const result = await this.ensAgent.suggestNames(ensName, { owner: userAddress, limit: 5 });
+    if (!result.success) {
+      console.warn(`Name suggestions failed for ${ensName}: ${result.error}`);
+      return [];
+    }
+    return result.data.suggestions;
+  }
+
+  /**
+   * Handle comprehensive name info query
+   */
+  private async handleNameInfoQuery(ensName: string): Promise<ENSAgentResponse> {
+    // Use agent's getNameInfo method
+    const ensData = await this.ensAgent.getNameInfo(ensName);
+    console.log(`ENS data success: ${ensData.success}`);
+
+    if (!ensData.success) {
+      console.log(`ENS data failed: ${ensData.error}`);
+      // Return the error instead of falling back to LLM
+      return {
+        success: false,
+        error: `Failed to get ENS data for ${ensName}: ${ensData.error}`
+      };
+    }
+
+    // Format the ENS data into a readable response
+    const formattedResponse = this.formatENSData(ensName, ensData.data);
+    return {
+      success: true,
+      data: {
+        message: formattedResponse,
+        type: 'ens_data',
+        ensData: ensData.data,
+        timestamp: new Date().toISOString()
+      },
+      message: formattedResponse
+    };
+  }
+
+  /**
+   * Handle price query
+   */
+  private async handlePriceQuery(ensName: string, duration: number = 365 * 24 * 60 * 60): Promise<ENSAgentResponse> {
+    const costData = await this.ensAgent.getPrice(ensName, duration);
+    if (!costData.success) {
+      return {
+        success: false,
+        error: `Failed to calculate cost for ${ensName}: ${costData.error}`
+      };
+    }
+
+    const quote: ENSPriceQuote = costData.data;
+    const days = Math.round(duration / (24 * 60 * 60));
+    const message = `The cost to register ${ensName} for ${days} days is ${formatPriceQuote(quote)}.`;
+    return {
+      success: true,
+      data: {
+        message,
+        type: 'price_info',
+        ensName,
+        duration,
+        cost: quote.total,
+        base: quote.base,
+        premium: quote.premium,
+        priceQuote: quote,
+        timestamp: new Date().toISOString()
+      },
+      message
+    };
+  }
+
+  /**
+   * Handle forward resolution (name to address)
+   */
+  private async handleResolveNameQuery(ensName: string): Promise<ENSAgentResponse> {
+    const resolution = await this.ensAgent.resolveName(ensName);
+    if (!resolution.success) {
+      return {
+        success: false,
+        error: `Failed to resolve ${ensName}: ${resolution.error}`
+      };
+    }
+
+    const address = resolution.data?.address;
+    const hasAddress = address && address !== '0x0000000000000000000000000000000000000000';
+    const message = hasAddress ? `${ensName} resolves to ${address}` : `${ensName} does not resolve to an address.`;
+    return {
+      success: true,
+      data: {
+        message,
+        type: 'name_resolution',
+        ensName,
+        address: hasAddress ? address : null,
+        timestamp: new Date().toISOString()
+      },
+      message
+    };
+  }
+
+  /**
+   * Handle reverse resolution (address to name), on Ethereum or one chain
+   */
+  private async handleReverseResolution(address: string, chain?: ENSReverseChain): Promise<ENSAgentResponse> {
+    const resolution = await this.ensAgent.resolveAddress(address, chain?.key);
+    if (!resolution.success) {
+      return {
+        success: false,
+        error: `Failed to reverse resolve ${address}: ${resolution.error}`
+      };
+    }
+
+    const name = resolution.data?.name;
+    const unverifiedName = resolution.data?.unverifiedName;
+    const onChain = chain ? ` on ${chain.name}` : '';
+    const message = name
+      ? `${address} has the primary name ${name}${onChain}`
+      : unverifiedName
+        ? `${address} has a reverse record for ${unverifiedName}${onChain}, but ${unverifiedName} does not resolve back to it, so it is not shown as the primary name.`
+        : `${address} has no primary ENS name set${onChain}.`;
+    return {
+      success: true,
+      data: {
+        message,
+        type: 'reverse_resolution',
+        address,
+        ensName: name || null,
+        chain: chain?.key,
+        timestamp: new Date().toISOString()
+      },
+      message
+    };
+  }
+
+  /**
+   * Handle listing the primary names of an address on Ethereum and each L2
+   */
+  private async handlePrimaryNamesQuery(address: string): Promise<ENSAgentResponse> {
+    const result = await this.ensAgent.getPrimaryNames(address);
+    if (!result.success) {
+      return {
+        success: false,
+        error: `Failed to look up the primary names of ${address}: ${result.error}`
+      };
+    }
+
+    const describe = (name?: string | null, unverifiedName?: string | null) =>
+      name || (unverifiedName ? `not verified (${unverifiedName} does not resolve back)` : 'not set');
+    const lines = [
+      `• Ethereum: ${describe(result.data?.name, result.data?.unverifiedName)}`,
+      ...(result.data?.chains || []).map((entry: any) =>
+        `• ${entry.chainName}: ${entry.error ? 'lookup failed' : describe(entry.name, entry.unverifiedName)}`)
+    ];
+    const message = `Primary names of ${address}:\n${lines.join('\n')}`;
+    return {
+      success: true,
+      data: {
+        message,
+        type: 'primary_names',
+        address,
+        ensName: result.data?.name || null,
+        primaryNames: result.data?.chains,
+        timestamp: new Date().toISOString()
+      },
+      message
+    };
+  }
+
+  /**
+   * Handle listing the expiry of every name an address holds, with renewal suggestions
+   */
+  private async handleExpiryQuery(address?: string): Promise<ENSAgentResponse> {
+    if (!address) {
+      return {
+        success: false,
+        error: 'Please connect your wallet so I can check when your names expire.'
+      };
+    }
+
+    const result = await this.ensAgent.getNameExpiries(address);
+    if (!result.success) {
+      return {
+        success: false,
+        error: `Failed to check the expiry of names held by ${address}: ${result.error}`
+      };
+    }
+
+    const names: NameExpiry[] = result.data.names;
+    const attention = names.filter(expiry => expiry.status !== 'active');
+    const active = names.length - attention.length;
+    let message: string;
+    if (names.length === 0) {
+      message = `${address} does not hold any .eth names.`;
+    } else if (attention.length === 0) {
+      message = `All ${names.length} name(s) held by ${address} are registered for more than ${Math.max(...result.data.thresholds)} days. The next one, ${formatExpiry(names[0])}.`;
+    } else {
+      const lines = attention.map(expiry => `• ${formatExpiry(expiry)}`);
+      const others = active > 0 ? `\n${active} other name(s) are not due for renewal yet.` : '';
+      message = `Names held by ${address} that need attention:\n${lines.join('\n')}${others}`;
+    }
+
+    // Released names can only be registered again, the others renewed
+    const suggestions = attention.map(expiry =>
+      expiry.status === 'released' ? `Register ${expiry.name}` : getRenewalPrompt(expiry.name));
+    if (attention.filter(expiry => expiry.status !== 'released').length > 1) {
+      suggestions.unshift(`Renew all my names expiring in the next ${Math.max(...result.data.thresholds)} days for 1 year`);
+    }
+    return {
+      success: true,
+      data: {
+        message,
+        type: 'expiry_report',
+        address,
+        names,
+        suggestions,
+        timestamp: new Date().toISOString()
+      },
+      message
+    };
+  }
+
+  /**
+   * Handle listing the names an address holds, with expiry, resolver and primary-name status
+   */
+  private async handlePortfolioQuery(address?: string): Promise<ENSAgentResponse> {
+    if (!address) {
+      return {
+        success: false,
+        error: 'Please connect your wallet so I can list the names you hold.'
+      };
+    }
+
+    const result = await this.ensAgent.getPortfolio(address);
+    if (!result.success) {
+      return {
+        success: false,
+        error: `Failed to list the names held by ${address}: ${result.error}`
+      };
+    }
+
+    const names: PortfolioName[] = result.data.names;
+    const primaryName: string | null = result.data.primaryName;
+    let message: string;
+    if (names.length === 0) {
+      message = `${address} does not hold any .eth names.`;
+    } else {
+      const lines = names.map(entry => {
+        const details = [
+          entry.resolver ? (entry.resolvedAddress ? `points to ${entry.resolvedAddress}` : 'no address record') : 'no resolver',
+          entry.isWrapped ? 'wrapped' : null,
+          entry.isPrimary ? 'primary name' : null
+        ].filter(Boolean);
+        return `• ${formatExpiry(entry.expiry)}; ${details.join(', ')}`;
+      });
+      const primary = primaryName ? '' : '\nNone of them is set as the primary name.';
+      message = `${address} holds ${names.length} .eth name(s):\n${lines.join('\n')}${primary}`;
+    }
+
+    const suggestions = names
+      .filter(entry => entry.label && entry.expiry.status !== 'released')
+      .flatMap(entry => [
+        // Subnames are renewed through the .eth name they are under
+        ...(entry.expiry.status !== 'active' && isETH2LD(entry.name) ? [getRenewalPrompt(entry.name)] : []),
+        ...(!primaryName && entry.resolvedAddress?.toLowerCase() === address.toLowerCase() ? [`Make ${entry.name} my primary name`] : [])
+      ]);
+    return {
+      success: true,
+      data: {
+        message,
+        type: 'portfolio',
+        address,
+        primaryName,
+        names,
+        suggestions,
+        timestamp: new Date().toISOString()
+      },
+      message
+    };
+  }
+
+  /**
+   * Handle showing who changed a name and when: ownership, resolver, records and renewals
+   */
+  private async handleNameHistoryQuery(ensName: string): Promise<ENSAgentResponse> {
+    const result = await this.ensAgent.getNameHistory(ensName, { limit: 20 });
+    if (!result.success) {
+      return {
+        success: false,
+        error: `Failed to load the history of ${ensName}: ${result.error}`
+      };
+    }
+
+    const entries: NameHistoryEntry[] = result.data.entries;
+    let message: string;
+    if (entries.length === 0) {
+      message = `No ownership, resolver or record changes are recorded for ${ensName}.`;
+    } else {
+      const lines = entries.map(entry => {
+        const when = entry.timestamp ? new Date(entry.timestamp * 1000).toLocaleString() : `block ${entry.blockNumber}`;
+        return `• ${when}: ${entry.summary}${entry.from ? ` (by ${entry.from})` : ''}\n  ${entry.txUrl}`;
+      });
+      const more = result.data.total > entries.length ? `\nShowing the latest ${entries.length} of ${result.data.total} changes.` : '';
+      message = `History of ${ensName}, newest first:\n${lines.join('\n')}${more}`;
+    }
+
+    return {
+      success: true,
+      data: {
+        message,
+        type: 'name_history',
+        ensName,
+        entries,
+        total: result.data.total,
+        timestamp: new Date().toISOString()
+      },
+      message
+    };
+  }
+
+  /**
+   * Handle renewing several .eth names in one transaction: the names given, or every name the
+   * address holds that expires within a number of days
+   */
+  private async handleBulkRenewalCommand(
+    address?: string,
+    names?: string[],
+    withinDays?: number,
+    duration: number = 365 * 24 * 60 * 60
+  ): Promise<ENSAgentResponse> {
+    try {
+      let expiries: NameExpiry[] = [];
+      let unlabelled = 0;
+      if (!names || names.length === 0) {
+        if (!address) {
+          return {
+            success: false,
+            error: 'Please connect your wallet so I can find the names to renew.'
+          };
+        }
+
+        const result = await this.ensAgent.getNameExpiries(address);
+        if (!result.success) {
+          return {
+            success: false,
+            error: `Failed to list the names held by ${address}: ${result.error}`
+          };
+        }
+
+        // Released names can only be registered again, and names without a known label cannot be renewed by name
+        const cutoff = Math.floor(Date.now() / 1000) + (withinDays ?? 0) * 24 * 60 * 60;
+        const due = (result.data.names as NameExpiry[]).filter(expiry =>
+          expiry.status !== 'released' && (withinDays === undefined || expiry.expires <= cutoff));
+        expiries = due.filter(expiry => !expiry.name.startsWith('['));
+        unlabelled = due.length - expiries.length;
+        names = expiries.map(expiry => expiry.name);
+      }
+
+      const window = withinDays !== undefined ? ` that expire within ${withinDays} days` : '';
+      if (names.length === 0) {
+        const message = unlabelled > 0
+          ? `${unlabelled} name(s) held by ${address}${window} were registered without a label this agent knows, renew them on the ENS app.`
+          : `${address} holds no .eth names${window} that can be renewed.`;
+        return {
+          success: true,
+          data: { message, type: 'expiry_report', address, names: [], timestamp: new Date().toISOString() },
+          message
+        };
+      }
+
+      const quoteResult = await this.ensAgent.getBulkRenewalPrice(names, duration);
+      if (!quoteResult.success) {
+        return {
+          success: false,
+          error: `Failed to calculate renewal cost: ${quoteResult.error}`
+        };
+      }
+
+      const quote: ENSBulkPriceQuote = quoteResult.data;
+      const term = duration % (365 * 24 * 60 * 60) === 0
+        ? `${duration / (365 * 24 * 60 * 60)} year(s)`
+        : formatDuration(duration);
+      const lines = quote.quotes.map(nameQuote => {
+        const expiry = expiries.find(entry => entry.name === nameQuote.name);
+        return `• ${expiry ? formatExpiry(expiry) : nameQuote.name}: ${parseFloat(nameQuote.total).toFixed(6)} ETH`;
+      });
+      const skipped = unlabelled > 0 ? `\n${unlabelled} other name(s) have no known label and are left out.` : '';
+      const message = `I can renew ${quote.names.length} name(s)${window} for ${term} in a single transaction:\n${lines.join('\n')}\nTotal: ${formatBulkPriceQuote(quote)}.${skipped} Would you like me to proceed with the renewal?`;
+
+      return {
+        success: true,
+        data: {
+          message,
+          type: 'bulk_renewal_ready',
+          ensName: quote.names[0],
+          names: quote.names,
+          duration,
+          cost: quote.totalWei,
+          costEth: quote.total,
+          priceQuote: quote,
+          timestamp: new Date().toISOString(),
+          needsConfirmation: true
+        },
+        message,
+        transaction: {
+          type: 'bulkRenew',
+          ensName: quote.names[0],
+          duration,
+          cost: quote.totalWei,
+          status: 'pending'
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to process bulk renewal: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Handle making a name the primary name of the user's wallet, or of a contract they own
+   */
+  private async handleSetPrimaryNameCommand(
+    ensName: string,
+    userAddress?: string,
+    contractAddress?: string,
+    chain?: ENSReverseChain
+  ): Promise<ENSAgentResponse> {
+    const address = contractAddress || userAddress;
+    if (!address) {
+      return {
+        success: false,
+        error: `Please connect your wallet so I know which address should use ${ensName} as its primary name.`
+      };
+    }
+
+    // A primary name only verifies when the name resolves back to the same address, on that chain
+    const forward = await this.ensAgent.resolveChainAddress(ensName, chain?.coinType);
+    if (!forward.success) {
+      return {
+        success: false,
+        error: `Failed to resolve ${ensName}: ${forward.error}`
+      };
+    }
+    if (forward.data?.address?.toLowerCase() !== address.toLowerCase()) {
+      return {
+        success: false,
+        error: `${ensName} resolves to ${forward.data?.address || 'no address'}${chain ? ` on ${chain.name}` : ''}, not ${address}. Set the ${chain ? `${chain.name} address (coin type ${chain.coinType})` : 'ETH address'} of ${ensName} to ${address} first, a primary name is only shown when it resolves back to the same address.`
+      };
+    }
+
+    const current = await this.ensAgent.resolveAddress(address, chain?.key);
+    const currentName: string | null = current.success ? current.data?.name : null;
+    const target = contractAddress ? `the contract ${address}` : 'your wallet';
+    const onChain = chain ? ` on ${chain.name}` : '';
+    if (currentName === ensName) {
+      const message = `${ensName} is already the primary name of ${target}${onChain}.`;
+      return {
+        success: true,
+        data: { message, type: 'reverse_resolution', address, ensName, chain: chain?.key, timestamp: new Date().toISOString() },
+        message
+      };
+    }
+
+    const replacing = currentName ? `, replacing ${currentName}` : '';
+    // L2 reverse records are written on the L2 itself, the default record on the ENS chain
+    const switchNote = chain?.rpcUrl ? ` The transaction is sent on ${chain.name}, so your wallet will switch there.` : '';
+    const message = `I can set ${ensName} as the primary name of ${target}${onChain}${replacing}. Apps will show ${ensName} instead of the address.${switchNote} Would you like me to proceed?`;
+    return {
+      success: true,
+      data: {
+        message,
+        type: 'set_primary_name_ready',
+        ensName,
+        address,
+        contractAddress,
+        currentName,
+        chain: chain?.key,
+        chainId: chain?.rpcUrl ? chain.chainId : undefined,
+        timestamp: new Date().toISOString(),
+        needsConfirmation: true
+      },
+      message,
+      transaction: {
+        type: 'setPrimaryName',
+        ensName,
+        status: 'pending'
+      }
+    };
+  }
+
+  /**
+   * Handle removing the primary name of the user's wallet, or of a contract they own
+   */
+  private async handleClearPrimaryNameCommand(
+    userAddress?: string,
+    contractAddress?: string,
+    chain?: ENSReverseChain
+  ): Promise<ENSAgentResponse> {
+    const address = contractAddress || userAddress;
+    if (!address) {
+      return {
+        success: false,
+        error: 'Please connect your wallet so I know which primary name to clear.'
+      };
+    }
+
+    const current = await this.ensAgent.resolveAddress(address, chain?.key);
+    if (!current.success) {
+      return {
+        success: false,
+        error: `Failed to read the primary name of ${address}: ${current.error}`
+      };
+    }
+
+    const currentName: string | null = current.data?.name || current.data?.unverifiedName || null;
+    if (!currentName) {
+      return {
+        success: false,
+        error: `${address} has no primary name to clear${chain ? ` on ${chain.name}` : ''}.`
+      };
+    }
+
+    const target = contractAddress ? `the contract ${address}` : 'your wallet';
+    const onChain = chain ? ` on ${chain.name}` : '';
+    const message = `I can clear the primary name ${currentName} from ${target}${onChain}. Apps will show the plain address again. Would you like me to proceed?`;
+    return {
+      success: true,
+      data: {
+        message,
+        type: 'clear_primary_name_ready',
+        ensName: currentName,
+        address,
+        contractAddress,
+        chain: chain?.key,
+        chainId: chain?.rpcUrl ? chain.chainId : undefined,
+        timestamp: new Date().toISOString(),
+        needsConfirmation: true
+      },
+      message,
+      transaction: {
+        type: 'clearPrimaryName',
+        ensName: currentName,
+        status: 'pending'
+      }
+    };
+  }
+
+  /**
+   * Handle importing a DNS domain into ENS with the DNSSEC proof of its "_ens" TXT record
+   */
+  private async handleDNSImportCommand(domain: string, userAddress?: string): Promise<ENSAgentResponse> {
+    const status = await this.ensAgent.getDNSImportStatus(domain);
+    if (!status.success) {
+      return {
+        success: false,
+        error: status.error
+      };
+    }
+
+    const { domain: dnsName, dnsOwner, ensOwner, proofError, imported } = status.data;
+    const offchainHint = `To make ${dnsName} resolve without a transaction instead, ask me to set it up offchain.`;
+    if (imported || !dnsOwner) {
+      const message = imported ? `${status.message}.` : `${status.message} ${offchainHint}`;
+      return {
+        success: true,
+        data: { ...status.data, message, type: 'dns_import_status', ensName: dnsName, timestamp: new Date().toISOString() },
+        message
+      };
+    }
+    if (proofError) {
+      return {
+        success: false,
+        error: `${dnsName} cannot be imported yet: ${proofError}. Make sure DNSSEC is enabled with a supported algorithm (RSASHA256 or ECDSAP256SHA256). ${offchainHint}`
+      };
+    }
+
+    // The owner may also point the name at the PublicResolver in the same transaction
+    const isOwner = !!userAddress && userAddress.toLowerCase() === dnsOwner.toLowerCase();
+    const resolverAddress = isOwner ? this.ensAgent.getContractAddresses().PublicResolver : undefined;
+    const replacing = ensOwner ? `, replacing the current ENS owner ${ensOwner}` : '';
+    const ownerNote = isOwner
+      ? ` It will be owned by your wallet and resolve to it through the PublicResolver.`
+      : ` The _ens.${dnsName} record names ${dnsOwner} as owner, so that address will own it, not your wallet.`;
+    const message = `I can import ${dnsName} into ENS by submitting its DNSSEC proof${replacing}.${ownerNote} Would you like me to proceed?`;
+    return {
+      success: true,
+      data: {
+        message,
+        type: 'dns_import_ready',
+        ensName: dnsName,
+        owner: dnsOwner,
+        resolverAddress,
+        address: isOwner ? dnsOwner : undefined,
+        timestamp: new Date().toISOString(),
+        needsConfirmation: true
+      },
+      message,
+      transaction: {
+        type: 'importDNSName',
+        ensName: dnsName,
+        status: 'pending'
+      }
+    };
+  }
+
+  /**
+   * Handle setting up offchain resolution of a DNS domain, which only needs a TXT record
+   */
+  private async handleOffchainDNSCommand(domain: string, address?: string): Promise<ENSAgentResponse> {
+    if (!address) {
+      return {
+        success: false,
+        error: `Please connect your wallet or give me the address ${domain} should resolve to.`
+      };
+    }
+
+    const result = await this.ensAgent.getOffchainDNSConfig(domain, address);
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error
+      };
+    }
+
+    const message = `${result.message}.`;
+    return {
+      success: true,
+      data: { ...result.data, message, type: 'dns_offchain_config', ensName: result.data.domain, timestamp: new Date().toISOString() },
+      message
+    };
+  }
+
+  /**
+   * DNS domain in the message, names under the ENS TLDs are left to the ENS routing
+   */
+  private extractDNSDomain(message: string): string | undefined {
+    const matches = message.match(/(?<![\w@.-])(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z][a-z0-9-]{1,62}(?![\w@-])/gi) || [];
+    return matches.map(match => match.toLowerCase()).find(domain => !/\.(eth|test)$/.test(domain));
+  }
+
+  /**
+   * Window and term of a bulk renewal, "renew all my names expiring in the next 60 days for 1 year"
+   */
+  private extractBulkRenewalTerms(message: string): { withinDays?: number; duration?: number } {
+    const toDays = (count: string | undefined, unit: string) =>
+      (count && /^\d+$/.test(count) ? Number(count) : 1) * ({ day: 1, week: 7, month: 30, year: 365 } as Record<string, number>)[unit.toLowerCase()];
+    const window = message.match(/\b(?:within|in)\s+(?:the\s+)?(?:next\s+)?(\d+|an?|one)\s*(day|week|month|year)s?\b/i);
+    const term = message.match(/\bfor\s+(?:another\s+)?(\d+|an?|one)?\s*(day|week|month|year)s?\b/i);
+    return {
+      withinDays: window ? toDays(window[1], window[2]) : undefined,
+      duration: term ? toDays(term[1], term[2]) * 24 * 60 * 60 : undefined
+    };
+  }
+
+  /**
+   * Address in the message other than the user's own wallet, e.g. a contract they own
+   */
+  private extractContractAddress(message: string, userAddress?: string): string | undefined {
+    const match = message.match(/0x[a-fA-F0-9]{40}/);
+    if (!match || match[0].toLowerCase() === userAddress?.toLowerCase()) {
+      return undefined;
+    }
+    return match[0];
+  }
+
+  /**
+   * Handle reading a single text or address record
+   */
+  private async handleGetRecordQuery(ensName: string, record: { key?: string; coinType?: number }): Promise<ENSAgentResponse> {
+    const result = record.key
+      ? await this.ensAgent.getTextRecord(ensName, record.key)
+      : await this.ensAgent.getAddressRecord(ensName, record.coinType ?? 60);
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: `Failed to read record for ${ensName}: ${result.error}`
+      };
+    }
+
+    const label = record.key || `${getCoinName(record.coinType ?? ETH_COIN_TYPE)} address`;
+    const value = record.key ? result.data?.value : result.data?.address;
+    const message = value ? `${label} for ${ensName}: ${value}` : `${ensName} has no ${label} record set.`;
+    return {
+      success: true,
+      data: {
+        message,
+        type: 'record_value',
+        ensName,
+        record: { type: label, value: value || null },
+        timestamp: new Date().toISOString()
+      },
+      message
+    };
+  }
+
+  /**
+   * Handle reading the contenthash (decentralized website) of a name
+   */
+  private async handleGetContentHashQuery(ensName: string): Promise<ENSAgentResponse> {
+    const result = await this.ensAgent.getContentHash(ensName);
+    if (!result.success) {
+      return {
+        success: false,
+        error: `Failed to read contenthash for ${ensName}: ${result.error}`
+      };
+    }
+
+    const contentHash = result.data?.contentHash;
+    const message = contentHash
+      ? `${ensName} points to ${contentHash.uri}. You can open it through a gateway at ${contentHash.gatewayUrl}`
+      : result.message || `${ensName} has no contenthash set.`;
+    return {
+      success: true,
+      data: {
+        message,
+        type: 'contenthash_info',
+        ensName,
+        contentHash: contentHash || null,
+        timestamp: new Date().toISOString()
+      },
+      message
+    };
+  }
+
+  /**
+   * Handle pointing a name to a decentralized website
+   */
+  private handleSetContentHashCommand(ensName: string, uri: string): ENSAgentResponse {
+    let contentHash;
+    try {
+      contentHash = decodeContentHash(encodeContentHash(uri));
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+    if (!contentHash) {
+      return {
+        success: false,
+        error: `Could not encode ${uri} as a contenthash`
+      };
+    }
+
+    const message = `I can point ${ensName} to ${contentHash.uri}. Once set, it will be viewable at ${contentHash.gatewayUrl} and in ENS-aware browsers. Would you like me to proceed?`;
+    return {
+      success: true,
+      data: {
+        message,
+        type: 'set_contenthash_ready',
+        ensName,
+        contentHash,
+        timestamp: new Date().toISOString(),
+        needsConfirmation: true
+      },
+      message,
+      transaction: {
+        type: 'setRecord',
+        ensName,
+        status: 'pending'
+      }
+    };
+  }
+
+  /**
+   * Handle set resolver command
+   */
+  private handleSetResolverCommand(ensName: string, resolverAddress: string): ENSAgentResponse {
+    const message = `I can set the resolver for ${ensName} to ${resolverAddress}. Records stored on the current resolver will no longer be used. Would you like me to proceed?`;
+    return {
+      success: true,
+      data: {
+        message,
+        type: 'set_resolver_ready',
+        ensName,
+        resolverAddress,
+        timestamp: new Date().toISOString(),
+        needsConfirmation: true
+      },
+      message,
+      transaction: {
+        type: 'setResolver',
+        ensName,
+        status: 'pending'
+      }
+    };
+  }
+
+  /**
+   * Handle wrap command
+   */
+  private async handleWrapCommand(ensName: string, fuses: NameWrapperFuse[]): Promise<ENSAgentResponse> {
+    const wrapped = await this.ensAgent.getWrappedData(ensName);
+    if (!wrapped.success) {
+      return {
+        success: false,
+        error: `Failed to check wrap status for ${ensName}: ${wrapped.error}`
+      };
+    }
+    if (wrapped.data?.isWrapped) {
+      return {
+        success: false,
+        error: `${ensName} is already wrapped.`
+      };
+    }
+
+    const secondLevel = isETH2LD(ensName);
+    if (fuses.length > 0 && !secondLevel) {
+      return {
+        success: false,
+        error: `Fuses can only be burned while wrapping .eth names. Wrap ${ensName} first, then burn fuses.`
+      };
+    }
+    if (fuses.length > 0 && !fuses.includes('CANNOT_UNWRAP')) {
+      fuses = ['CANNOT_UNWRAP', ...fuses];
+    }
+
+    const warnings = getFuseWarnings(fuses);
+    const message = [
+      `I can wrap ${ensName} in the NameWrapper. It becomes an ERC-1155 token and you stay the owner.`,
+      secondLevel ? 'This needs an approval transaction for the registrar first if you have not approved the NameWrapper yet.' : 'This needs the NameWrapper to be approved on the registry first if it is not already.',
+      ...warnings.map(warning => `⚠️ ${warning}`),
+      'Would you like me to proceed?'
+    ].join('\n');
+
+    return {
+      success: true,
+      data: {
+        message,
+        type: 'wrap_ready',
+        ensName,
+        fuses,
+        warnings,
+        timestamp: new Date().toISOString(),
+        needsConfirmation: true
+      },
+      message,
+      transaction: {
+        type: 'wrap',
+        ensName,
+        status: 'pending'
+      }
+    };
+  }
+
+  /**
+   * Handle unwrap command
+   */
+  private async handleUnwrapCommand(ensName: string): Promise<ENSAgentResponse> {
+    const wrapped = await this.ensAgent.getWrappedData(ensName);
+    if (!wrapped.success) {
+      return {
+        success: false,
+        error: `Failed to check wrap status for ${ensName}: ${wrapped.error}`
+      };
+    }
+    if (!wrapped.data?.isWrapped) {
+      return {
+        success: false,
+        error: `${ensName} is not wrapped.`
+      };
+    }
+    if (wrapped.data.fuseNames.includes('CANNOT_UNWRAP')) {
+      return {
+        success: false,
+        error: `${ensName} has the CANNOT_UNWRAP fuse burned and can never be unwrapped.`
+      };
+    }
+
+    const message = `I can unwrap ${ensName}. It will be removed from the NameWrapper and any fuse protections will no longer apply. Would you like me to proceed?`;
+    return {
+      success: true,
+      data: {
+        message,
+        type: 'unwrap_ready',
+        ensName,
+        timestamp: new Date().toISOString(),
+        needsConfirmation: true
+      },
+      message,
+      transaction: {
+        type: 'unwrap',
+        ensName,
+        status: 'pending'
+      }
+    };
+  }
+
+  /**
+   * Handle fuse status query
+   */
+  private async handleFusesQuery(ensName: string): Promise<ENSAgentResponse> {
+    const wrapped = await this.ensAgent.getWrappedData(ensName);
+    if (!wrapped.success) {
+      return {
+        success: false,
+        error: `Failed to read fuses for ${ensName}: ${wrapped.error}`
+      };
+    }
+
+    const { isWrapped, fuseNames, expiry } = wrapped.data;
+    const message = !isWrapped
+      ? `${ensName} is not wrapped, so it has no fuses.`
+      : fuseNames.length > 0
+        ? `${ensName} is wrapped with these fuses burned: ${fuseNames.join(', ')}.${expiry ? ` Fuses expire on ${new Date(expiry * 1000).toLocaleDateString()}.` : ''}`
+        : `${ensName} is wrapped with no fuses burned.`;
+
+    return {
+      success: true,
+      data: {
+        message,
+        type: 'fuse_info',
+        ensName,
+        isWrapped,
+        fuses: fuseNames,
+        expiry,
+        timestamp: new Date().toISOString()
+      },
+      message
+    };
+  }
+
+  /**
+   * Handle burn fuses command, always surfacing the irreversible warnings
+   */
+  private async handleBurnFusesCommand(ensName: string, fuses: NameWrapperFuse[]): Promise<ENSAgentResponse> {
+    const validation = await this.ensAgent.validateFuseBurn(ensName, fuses);
+    if (!validation.success) {
+      return {
+        success: false,
+        error: `Cannot burn fuses on ${ensName}: ${validation.error}`
+      };
+    }
+
+    const { fuses: toBurn, warnings } = validation.data;
+    if (toBurn.length === 0) {
+      return {
+        success: false,
+        error: `${fuses.join(', ')} already burned on ${ensName}.`
+      };
+    }
+
+    const message = [
+      `I can burn ${toBurn.join(', ')} on ${ensName}.`,
+      ...warnings.map((warning: string) => `⚠️ ${warning}`),
+      'This cannot be undone. Are you absolutely sure you want to proceed?'
+    ].join('\n');
+
+    return {
+      success: true,
+      data: {
+        message,
+        type: 'burn_fuses_ready',
+        ensName,
+        fuses: toBurn,
+        warnings,
+        irreversible: true,
+        timestamp: new Date().toISOString(),
+        needsConfirmation: true
+      },
+      message,
+      transaction: {
+        type: 'burnFuses',
+        ensName,
+        status: 'pending'
+      }
+    };
+  }
+
+  /**
+   * Handle create subname command
+   */
+  private async handleCreateSubnameCommand(
+    ensName: string,
+    message: string,
+    userAddress?: string,
+    options: { address?: string; owner?: string; resolver?: string } = {}
+  ): Promise<ENSAgentResponse> {
+    try {
+      if (!isSubdomain(ensName)) {
+        return {
+          success: false,
+          error: `Please give the full subname you want to create, e.g. "create pay.${ensName} pointing to 0x..."`
+        };
+      }
+
+      const parentName = getParentDomain(ensName);
+      const [parent, existing] = await Promise.all([
+        this.ensAgent.getWrappedData(parentName),
+        this.ensAgent.getWrappedData(ensName)
+      ]);
+      if (!parent.success || !existing.success) {
+        return {
+          success: false,
+          error: `Failed to check ${parentName}: ${parent.error || existing.error}`
+        };
+      }
+      if (parent.data.owner === '0x0000000000000000000000000000000000000000') {
+        return {
+          success: false,
+          error: `${parentName} is not registered, so subnames cannot be created under it.`
+        };
+      }
+      if (userAddress && parent.data.owner.toLowerCase() !== userAddress.toLowerCase()) {
+        return {
+          success: false,
+          error: `Only the owner of ${parentName} (${parent.data.owner}) can create subnames under it.`
+        };
+      }
+      if (parent.data.fuseNames.includes('CANNOT_CREATE_SUBDOMAIN')) {
+        return {
+          success: false,
+          error: `${parentName} has the CANNOT_CREATE_SUBDOMAIN fuse burned, so no new subnames can be created.`
+        };
+      }
+      if (existing.data.owner !== '0x0000000000000000000000000000000000000000') {
+        return {
+          success: false,
+          error: `${ensName} already exists and is owned by ${existing.data.owner}.`
+        };
+      }
+
+      // Use the tool-provided address, else the first address in the message
+      const address = options.address || message.match(/0x[a-fA-F0-9]{40}/)?.[0];
+      const owner = options.owner || userAddress;
+      const responseMessage = [
+        `I can create ${ensName} under ${parentName}${parent.data.isWrapped ? ' through the NameWrapper' : ''}.`,
+        address ? `It will resolve to ${address}.` : 'It will not point to an address yet, you can add one later.',
+        owner && owner.toLowerCase() !== userAddress?.toLowerCase() ? `Ownership will then be transferred to ${owner}.` : '',
+        'Would you like me to proceed?'
+      ].filter(Boolean).join(' ');
+
+      return {
+        success: true,
+        data: {
+          message: responseMessage,
+          type: 'create_subname_ready',
+          ensName,
+          parentName,
+          address: address || null,
+          owner: owner || null,
+          resolverAddress: options.resolver || null,
+          isWrapped: parent.data.isWrapped,
+          timestamp: new Date().toISOString(),
+          needsConfirmation: true
+        },
+        message: responseMessage,
+        transaction: {
+          type: 'createSubname',
+          ensName,
+          status: 'pending'
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to process subname creation: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Handle delete subname command
+   */
+  private async handleDeleteSubnameCommand(ensName: string, userAddress?: string): Promise<ENSAgentResponse> {
+    if (!isSubdomain(ensName)) {
+      return {
+        success: false,
+        error: `${ensName} is not a subname. Only subnames can be deleted.`
+      };
+    }
+
+    const parentName = getParentDomain(ensName);
+    const [parent, existing] = await Promise.all([
+      this.ensAgent.getWrappedData(parentName),
+      this.ensAgent.getWrappedData(ensName)
+    ]);
+    if (!parent.success || !existing.success) {
+      return {
+        success: false,
+        error: `Failed to check ${ensName}: ${parent.error || existing.error}`
+      };
+    }
+    if (existing.data.owner === '0x0000000000000000000000000000000000000000') {
+      return {
+        success: false,
+        error: `${ensName} does not exist.`
+      };
+    }
+    if (userAddress && parent.data.owner.toLowerCase() !== userAddress.toLowerCase()) {
+      return {
+        success: false,
+        error: `Only the owner of ${parentName} can delete its subnames.`
+      };
+    }
+    if (existing.data.fuseNames.includes('PARENT_CANNOT_CONTROL')) {
+      return {
+        success: false,
+        error: `${ensName} has PARENT_CANNOT_CONTROL burned and can no longer be deleted by ${parentName}.`
+      };
+    }
+
+    const message = `I can delete ${ensName}. Its owner and resolver will be cleared and it will stop resolving. Would you like me to proceed?`;
+    return {
+      success: true,
+      data: {
+        message,
+        type: 'delete_subname_ready',
+        ensName,
+        parentName,
+        timestamp: new Date().toISOString(),
+        needsConfirmation: true
+      },
+      message,
+      transaction: {
+        type: 'deleteSubname',
+        ensName,
+        status: 'pending'
+      }
+    };
+  }
+
+  /**
+   * Handle list subnames query
+   */
+  private async handleListSubnamesQuery(ensName: string): Promise<ENSAgentResponse> {
+    const result = await this.ensAgent.listSubnames(ensName);
+    if (!result.success) {
+      return {
+        success: false,
+        error: `Failed to list subnames of ${ensName}: ${result.error}`
+      };
+    }
+
+    const subnames = result.data.subnames;
+    const message = subnames.length > 0
+      ? `${ensName} has ${subnames.length} subname(s):\n${subnames.map((subname: any) => `• ${subname.name} (owner ${subname.owner})`).join('\n')}`
+      : `${ensName} has no subnames yet.`;
+
+    return {
+      success: true,
+      data: {
+        message,
+        type: 'subname_list',
+        ensName,
+        subnames,
+        timestamp: new Date().toISOString()
+      },
+      message
+    };
+  }
+
   /**
    * Handle registration command
    */
-  private async handleRegistrationCommand(ensName: string, message: string, userAddress?: string): Promise<ENSAgentResponse> {
+  private async handleRegistrationCommand(ensName: string, message: string, userAddress?: string, durationOverride?: number): Promise<ENSAgentResponse> {
     try {
-      // Extract duration from message (default to 1 year)
-      const duration = this.extractDurationFromMessage(message) || 365 * 24 * 60 * 60;
+      // Use the tool-provided duration, else extract it from the message (default to 1 year)
+      const duration = durationOverride || this.extractDurationFromMessage(message) || 365 * 24 * 60 * 60;
+
+      if (isSubdomain(ensName)) {
+        return {
+          success: false,
+          error: `${ensName} is a subname and cannot be registered. The owner of ${getParentDomain(ensName)} can create it instead, e.g. "create ${ensName} pointing to 0x..."`
+        };
+      }
       
       // Check if name is available first using agent's method
       const availabilityData = await this.ensAgent.isNameAvailable(ensName);
       if (availabilityData.success && !availabilityData.data?.available) {
+        const pending = userAddress ? this.getChatRegistration(ensName, userAddress) : undefined;
+        if (pending) {
+          this.setChatRegistration(pending.name, undefined);
+          if (pending.state === 'committed' || pending.state === 'ready') {
+            return {
+              success: true,
+              data: { message: `${ensName} is now registered.`, type: 'registration_completed', ensName, owner: userAddress },
+              message: `${ensName} is now registered. Your domain is active on the blockchain.`
+            };
+          }
+        }
+
+        const suggestions = await this.findNameSuggestions(ensName, userAddress);
         return {
           success: false,
-          error: `${ensName} is already registered. Please choose a different name.`
+          error: suggestions.length > 0
+            ? `${ensName} is already registered. These are available instead:\n${formatNameSuggestions(suggestions)}`
+            : `${ensName} is already registered. Please choose a different name.`
         };
       }
       
@@ -340,8 +2057,9 @@ Remember: You are a helpful, knowledgeable, and security-conscious ENS assistant
         };
       }
       
-      const cost = costData.data?.total || '0.01'; // ETH amount
-      const costWei = (parseFloat(cost) * 1e18).toString();
+      const quote: ENSPriceQuote = costData.data;
+      const cost = quote.total; // ETH amount
+      const costWei = quote.totalWei;
       
       // Check if this is a confirmation (user said yes, go ahead, etc.)
       const lowerMessage = message.toLowerCase();
@@ -349,64 +2067,30 @@ Remember: You are a helpful, knowledgeable, and security-conscious ENS assistant
                            lowerMessage.includes('go ahead') || lowerMessage.includes('do it') ||
                            lowerMessage.includes('proceed') || lowerMessage.includes('register now');
       
-      // If user is confirming and we have a user address, execute the registration
+      // Confirmations advance the commit-reveal: the first commits, the next registers with the same secret
       if (isConfirmation && userAddress) {
-        console.log(`Executing on-chain registration for ${ensName}...`);
-        
-        // Generate a secret for the commitment
-        const secret = this.generateRegistrationSecret();
-        
-        try {
-          // Execute the actual registration through the ENS agent
-          const registrationResult = await this.ensAgent.registerName(ensName, userAddress, duration, secret);
-          
-          if (registrationResult.success) {
-            return {
-              success: true,
-              data: {
-                message: `Successfully registered ${ensName}! Transaction hash: ${registrationResult.transaction?.hash}`,
-                type: 'registration_completed',
-                ensName,
-                duration,
-                cost: costWei,
-                costEth: cost,
-                owner: userAddress,
-                txHash: registrationResult.transaction?.hash,
-                timestamp: new Date().toISOString()
-              },
-              message: `Successfully registered ${ensName}! Your domain is now active on the blockchain.`,
-              transaction: registrationResult.transaction
-            };
-          } else {
-            return {
-              success: false,
-              error: `Registration failed: ${registrationResult.error}. Please check your wallet and try again.`
-            };
-          }
-        } catch (registrationError) {
-          console.error('Registration execution failed:', registrationError);
-          return {
-            success: false,
-            error: `Registration failed: ${registrationError}. Please ensure you have sufficient ETH and try again.`
-          };
-        }
+        const pending = this.getChatRegistration(ensName, userAddress);
+        return pending
+          ? await this.completeChatRegistration(pending, quote)
+          : await this.startChatRegistration(ensName, userAddress, duration);
       }
       
       // If not a confirmation, return the registration proposal
       return {
         success: true,
         data: {
-          message: `I can register ${ensName} for ${Math.floor(duration / (365 * 24 * 60 * 60))} year(s). The cost is ${cost} ETH. Would you like me to proceed with the registration?`,
+          message: `I can register ${ensName} for ${Math.floor(duration / (365 * 24 * 60 * 60))} year(s). The cost is ${formatPriceQuote(quote)}. Would you like me to proceed with the registration?`,
           type: 'registration_ready',
           ensName,
           duration,
           cost: costWei,
           costEth: cost,
+          priceQuote: quote,
           owner: userAddress,
           timestamp: new Date().toISOString(),
           needsConfirmation: true
         },
-        message: `I can register ${ensName} for ${Math.floor(duration / (365 * 24 * 60 * 60))} year(s). The cost is ${cost} ETH. Would you like me to proceed with the registration?`,
+        message: `I can register ${ensName} for ${Math.floor(duration / (365 * 24 * 60 * 60))} year(s). The cost is ${formatPriceQuote(quote)}. Would you like me to proceed with the registration?`,
         transaction: {
           type: 'register',
           ensName,
@@ -427,9 +2111,16 @@ Remember: You are a helpful, knowledgeable, and security-conscious ENS assistant
   /**
    * Handle renewal command
    */
-  private async handleRenewalCommand(ensName: string, message: string, userAddress?: string): Promise<ENSAgentResponse> {
+  private async handleRenewalCommand(ensName: string, message: string, userAddress?: string, durationOverride?: number): Promise<ENSAgentResponse> {
     try {
-      const duration = this.extractDurationFromMessage(message) || 365 * 24 * 60 * 60;
+      const duration = durationOverride || this.extractDurationFromMessage(message) || 365 * 24 * 60 * 60;
+
+      if (isSubdomain(ensName)) {
+        return {
+          success: false,
+          error: `${ensName} is a subname and cannot be renewed on its own. Renew ${getParentDomain(ensName)} instead.`
+        };
+      }
       
       // Calculate renewal cost using agent's method
       const costData = await this.ensAgent.getPrice(ensName, duration);
@@ -440,8 +2131,9 @@ Remember: You are a helpful, knowledgeable, and security-conscious ENS assistant
         };
       }
       
-      const cost = costData.data?.total || '0.01'; // ETH amount
-      const costWei = (parseFloat(cost) * 1e18).toString();
+      const quote: ENSPriceQuote = costData.data;
+      const cost = quote.total; // ETH amount
+      const costWei = quote.totalWei;
       
       // Check if this is a confirmation
       const lowerMessage = message.toLowerCase();
@@ -492,16 +2184,17 @@ Remember: You are a helpful, knowledgeable, and security-conscious ENS assistant
       return {
         success: true,
         data: {
-          message: `I can renew ${ensName} for ${Math.floor(duration / (365 * 24 * 60 * 60))} year(s). The cost is ${cost} ETH. Would you like me to proceed with the renewal?`,
+          message: `I can renew ${ensName} for ${Math.floor(duration / (365 * 24 * 60 * 60))} year(s). The cost is ${formatPriceQuote(quote)}. Would you like me to proceed with the renewal?`,
           type: 'renewal_ready',
           ensName,
           duration,
           cost: costWei,
           costEth: cost,
+          priceQuote: quote,
           timestamp: new Date().toISOString(),
           needsConfirmation: true
         },
-        message: `I can renew ${ensName} for ${Math.floor(duration / (365 * 24 * 60 * 60))} year(s). The cost is ${cost} ETH. Would you like me to proceed with the renewal?`,
+        message: `I can renew ${ensName} for ${Math.floor(duration / (365 * 24 * 60 * 60))} year(s). The cost is ${formatPriceQuote(quote)}. Would you like me to proceed with the renewal?`,
         transaction: {
           type: 'renew',
           ensName,
@@ -521,10 +2214,23 @@ Remember: You are a helpful, knowledgeable, and security-conscious ENS assistant
   /**
    * Handle set record command
    */
-  private async handleSetRecordCommand(ensName: string, message: string, userAddress?: string): Promise<ENSAgentResponse> {
+  private async handleSetRecordCommand(
+    ensName: string,
+    message: string,
+    userAddress?: string,
+    recordOverride?: { type: string; value: string; coinType?: number }
+  ): Promise<ENSAgentResponse> {
     try {
-      // Extract record type and value from message
-      const record = this.extractRecordFromMessage(message);
+      // Several records in one message go out as a single multicall
+      if (!recordOverride) {
+        const records = this.extractRecordsFromMessage(message);
+        if (records.length > 1) {
+          return await this.handleSetRecordsCommand(ensName, records);
+        }
+      }
+
+      // Use the tool-provided record, else extract record type and value from message
+      const record = recordOverride || this.extractRecordFromMessage(message);
       if (!record) {
         return {
           success: false,
@@ -532,6 +2238,24 @@ Remember: You are a helpful, knowledgeable, and security-conscious ENS assistant
         };
       }
       
+      // Address records must encode for their coin type (ENSIP-9/11) before anything is proposed
+      if (record.coinType !== undefined) {
+        if (!record.value) {
+          return {
+            success: false,
+            error: `Please provide the ${record.type} address to set for ${ensName}. For example: "Set my ${record.type} address for ${ensName} to ..."`
+          };
+        }
+        try {
+          encodeCoinAddress(record.coinType, record.value);
+        } catch (encodeError: any) {
+          return {
+            success: false,
+            error: encodeError.message
+          };
+        }
+      }
+
       // Check if this is a confirmation
       const lowerMessage = message.toLowerCase();
       const isConfirmation = lowerMessage.includes('yes') || lowerMessage.includes('confirm') || 
@@ -546,9 +2270,9 @@ Remember: You are a helpful, knowledgeable, and security-conscious ENS assistant
           let setRecordResult;
           
           // Use appropriate method based on record type
-          if (record.type === 'ETH' || record.type.toLowerCase() === 'address') {
+          if (record.coinType !== undefined || record.type === 'ETH' || record.type.toLowerCase() === 'address') {
             // Set address record
-            const coinType = record.type === 'ETH' ? 60 : 60; // Default to ETH
+            const coinType = record.coinType ?? ETH_COIN_TYPE; // Default to ETH
             setRecordResult = await this.ensAgent.setAddressRecord(ensName, record.value, coinType);
           } else {
             // Set text record
@@ -617,6 +2341,62 @@ Remember: You are a helpful, knowledgeable, and security-conscious ENS assistant
     }
   }
 
+  /**
+   * Handle setting several records at once, proposing one multicall with a record-by-record diff
+   */
+  private async handleSetRecordsCommand(ensName: string, records: ENSRecordUpdate[]): Promise<ENSAgentResponse> {
+    const preview = await this.ensAgent.previewRecordUpdates(ensName, records);
+    if (!preview.success) {
+      return {
+        success: false,
+        error: `Failed to read the current records of ${ensName}: ${preview.error}`
+      };
+    }
+
+    const batch = preview.data as ENSBatchOperation;
+    const diff = formatRecordDiff(batch.changes);
+    if (batch.changes.some(change => change.error)) {
+      return {
+        success: false,
+        error: `Some records for ${ensName} are invalid, nothing was submitted:\n${diff}`
+      };
+    }
+    if (!batch.canExecute) {
+      return {
+        success: true,
+        data: {
+          message: `All records for ${ensName} already have these values:\n${diff}`,
+          type: 'records_unchanged',
+          ensName,
+          changes: batch.changes,
+          timestamp: new Date().toISOString()
+        },
+        message: `All records for ${ensName} already have these values:\n${diff}`
+      };
+    }
+
+    const changedCount = batch.operation.data.records.length;
+    const message = `I can update ${changedCount} record${changedCount === 1 ? '' : 's'} on ${ensName} in a single transaction:\n${diff}\nWould you like me to proceed?`;
+    return {
+      success: true,
+      data: {
+        message,
+        type: 'set_records_ready',
+        ensName,
+        changes: batch.changes,
+        records: batch.operation.data.records,
+        timestamp: new Date().toISOString(),
+        needsConfirmation: true
+      },
+      message,
+      transaction: {
+        type: 'setRecords',
+        ensName,
+        status: 'pending'
+      }
+    };
+  }
+
   /**
    * Extract duration from message using operations
    */
@@ -654,8 +2434,14 @@ Remember: You are a helpful, knowledgeable, and security-conscious ENS assistant
   /**
    * Extract record from message using operations
    */
-  private extractRecordFromMessage(message: string): { type: string; value: string } | null {
+  private extractRecordFromMessage(message: string): { type: string; value: string; coinType?: number } | null {
     try {
+      // "Set my BTC address for alice.eth to bc1..." names a coin, so it is a multi-coin address record
+      const coinRecord = this.extractCoinAddressFromMessage(message);
+      if (coinRecord) {
+        return coinRecord;
+      }
+
       // Access operations through the agent
       const operations = this.ensAgent.getOperations();
       if (operations && typeof operations.extractRecordFromMessage === 'function') {
@@ -695,13 +2481,65 @@ Remember: You are a helpful, knowledgeable, and security-conscious ENS assistant
     }
   }
 
+  /**
+   * Extract every "key to value" record from a message, e.g.
+   * "set email to a@b.com, url to https://alice.xyz and BTC address to bc1..."
+   */
+  private extractRecordsFromMessage(message: string): ENSRecordUpdate[] {
+    const pattern = /(?<![\w.-])([a-z][\w.-]*)(?:\s+address)?(?:\s*[:=]\s*|\s+(?:to|as)\s+)("[^"]*"|'[^']*'|[^\s,;]+)/gi;
+    const records: ENSRecordUpdate[] = [];
+    for (const match of message.matchAll(pattern)) {
+      if (!isRecordKey(match[1])) continue;
+      const value = match[2].replace(/^["']|["']$/g, '').replace(/[.!?]+$/, '');
+      records.push(toRecordUpdate(match[1], value));
+    }
+    return records;
+  }
+
+  /**
+   * Extract a coin address record ("BTC address ... to bc1...") from a message
+   */
+  private extractCoinAddressFromMessage(message: string): { type: string; value: string; coinType: number } | null {
+    const coinMatch = message.match(/\b([a-z0-9]+)\s+(?:address|addr|wallet)\b/i);
+    const coinType = coinMatch ? resolveCoinType(coinMatch[1]) : undefined;
+    if (coinType === undefined) {
+      return null;
+    }
+
+    // The address is whichever word encodes for this coin, ignoring quotes and trailing punctuation
+    const value = message
+      .split(/\s+/)
+      .map(word => word.replace(/^["'`]+|["'`.,!?]+$/g, ''))
+      .find(word => {
+        try {
+          encodeCoinAddress(coinType, word);
+          return true;
+        } catch {
+          return false;
+        }
+      });
+
+    return { type: getCoinName(coinType), value: value || '', coinType };
+  }
+
+  /**
+   * Coin type from tool arguments: an explicit coinType, else the coin symbol, else ETH
+   */
+  private toolCoinType(args: Record<string, any>): number {
+    if (typeof args.coinType === 'number') {
+      return args.coinType;
+    }
+    const coinType = typeof args.coin === 'string' ? resolveCoinType(args.coin) : undefined;
+    return coinType ?? ETH_COIN_TYPE;
+  }
+
   /**
    * Handle transfer command
    */
-  private async handleTransferCommand(ensName: string, message: string, userAddress?: string): Promise<ENSAgentResponse> {
+  private async handleTransferCommand(ensName: string, message: string, userAddress?: string, recipientOverride?: string): Promise<ENSAgentResponse> {
     try {
-      // Extract recipient address from message
-      const addressMatch = message.match(/0x[a-fA-F0-9]{40}/);
+      // Use the tool-provided recipient, else extract recipient address from message
+      const addressMatch = recipientOverride ? [recipientOverride] : message.match(/0x[a-fA-F0-9]{40}/);
       if (!addressMatch) {
         return {
           success: false,
@@ -746,20 +2584,24 @@ Remember: You are a helpful, knowledgeable, and security-conscious ENS assistant
       if (availabilityData.success && availabilityData.data?.available) {
         // Name is available - suggest registration
         const costData = await this.ensAgent.getPrice(ensName, 365 * 24 * 60 * 60);
-        const cost = costData.data?.total || '0.01';
-        const costWei = (parseFloat(cost) * 1e18).toString();
+        const quote: ENSPriceQuote | null = costData.success ? costData.data : null;
+        const costWei = quote?.totalWei;
+        const availableMessage = quote
+          ? `${ensName} is available! You can register it for 1 year for ${formatPriceQuote(quote)}. Would you like to register it?`
+          : `${ensName} is available! Would you like to register it?`;
         
         return {
           success: true,
           data: {
-            message: `${ensName} is available! You can register it for 1 year for ${cost} ETH. Would you like to register it?`,
+            message: availableMessage,
             type: 'name_available',
             ensName,
             cost: costWei,
-            costEth: cost,
+            costEth: quote?.total,
+            priceQuote: quote,
             timestamp: new Date().toISOString()
           },
-          message: `${ensName} is available! You can register it for 1 year for ${cost} ETH. Would you like to register it?`,
+          message: availableMessage,
           transaction: {
             type: 'register',
             ensName,
@@ -843,7 +2685,7 @@ Remember: You are a helpful, knowledgeable, and security-conscious ENS assistant
             // For set record, we need the original record details from context
             if (this.currentContext.sessionData?.pendingRecord) {
               const pendingRecord = this.currentContext.sessionData.pendingRecord;
-              return await this.handleSetRecordCommand(lastENSName, `yes set ${pendingRecord.type} for ${lastENSName} to ${pendingRecord.value}`, userAddress);
+              return await this.handleSetRecordCommand(lastENSName, `yes set ${pendingRecord.type} for ${lastENSName} to ${pendingRecord.value}`, userAddress, pendingRecord);
             }
           }
         }
@@ -852,17 +2694,19 @@ Remember: You are a helpful, knowledgeable, and security-conscious ENS assistant
         if (lowerMessage.includes('cost') || lowerMessage.includes('price') || lowerMessage.includes('how much')) {
           const costData = await this.ensAgent.getPrice(lastENSName, 365 * 24 * 60 * 60);
           if (costData.success) {
-            const cost = costData.data?.total || '0.01';
+            const quote: ENSPriceQuote = costData.data;
+            const priceMessage = `The cost to register ${lastENSName} for 1 year is ${formatPriceQuote(quote)}.`;
             return {
               success: true,
               data: {
-                message: `The cost to register ${lastENSName} for 1 year is ${cost} ETH.`,
+                message: priceMessage,
                 type: 'price_info',
                 ensName: lastENSName,
-                cost,
+                cost: quote.total,
+                priceQuote: quote,
                 timestamp: new Date().toISOString()
               },
-              message: `The cost to register ${lastENSName} for 1 year is ${cost} ETH.`
+              message: priceMessage
             };
           }
         }
@@ -965,8 +2809,7 @@ Remember: You are a helpful, knowledgeable, and security-conscious ENS assistant
     try {
       console.log('Attempting enhanced LLM call with message:', message);
       
-      const completion = await this.openai.chat.completions.create({
-        model: 'openai/gpt-4o',
+      const completion = await this.llm.complete({
         messages: [
           {
             role: 'system',
@@ -977,12 +2820,10 @@ Remember: You are a helpful, knowledgeable, and security-conscious ENS assistant
             role: 'user',
             content: this.formatUserMessage(message, userAddress)
           }
-        ],
-        temperature: 0.7,
-        max_tokens: 1000
+        ]
       });
 
-      const response = completion.choices[0].message.content || 'I apologize, but I could not generate a response.';
+      const response = completion.content || 'I apologize, but I could not generate a response.';
       console.log('Enhanced LLM response received:', response);
       return response;
     } catch (error) {
@@ -1011,8 +2852,7 @@ Remember: You are a helpful, knowledgeable, and security-conscious ENS assistant
     try {
       console.log('Attempting LLM call with message:', message);
       
-      const completion = await this.openai.chat.completions.create({
-        model: 'openai/gpt-4o',
+      const completion = await this.llm.complete({
         messages: [
           {
             role: 'system',
@@ -1022,12 +2862,10 @@ Remember: You are a helpful, knowledgeable, and security-conscious ENS assistant
             role: 'user',
             content: this.formatUserMessage(message, userAddress)
           }
-        ],
-        temperature: 0.7,
-        max_tokens: 1000
+        ]
       });
 
-      const response = completion.choices[0].message.content || 'I apologize, but I could not generate a response.';
+      const response = completion.content || 'I apologize, but I could not generate a response.';
       console.log('LLM response received:', response);
       return response;
     } catch (error) {
@@ -1101,6 +2939,38 @@ Remember: You are a helpful, knowledgeable, and security-conscious ENS assistant
     return context;
   }
 
+  /**
+   * Ask the LLM for single-word alternatives to a name's label, empty when it has none or fails
+   */
+  async getNameSynonyms(name: string): Promise<string[]> {
+    const label = name.replace(/\.eth$/, '').split('.').pop() || '';
+    try {
+      const completion = await this.llm.complete({
+        messages: [
+          {
+            role: 'system',
+            content: 'You suggest alternatives for ENS names. Reply with only a JSON array of up to 6 lowercase single words or short compounds with the same meaning or feel, without the .eth suffix.'
+          },
+          {
+            role: 'user',
+            content: `Alternatives for "${label}"`
+          }
+        ],
+        temperature: 0.7,
+        maxTokens: 100
+      });
+
+      const match = completion.content?.match(/\[[\s\S]*\]/);
+      const synonyms: unknown = match ? JSON.parse(match[0]) : [];
+      return Array.isArray(synonyms)
+        ? synonyms.filter((synonym): synonym is string => typeof synonym === 'string' && synonym.trim().length > 0).slice(0, 6)
+        : [];
+    } catch (error) {
+      console.warn(`Could not get synonyms for ${label}:`, error);
+      return [];
+    }
+  }
+
   /**
    * Get suggested operations based on context
    */
@@ -1234,6 +3104,13 @@ Just ask me what you'd like to do with ENS! For example:
     this.currentContext = {};
   }
 
+  /**
+   * LLM provider of the service, shared with the per-session services of the same agent
+   */
+  getLLMProvider(): LLMProvider {
+    return this.llm;
+  }
+
   /**
    * Get current context
    */
@@ -1262,6 +3139,27 @@ Just ask me what you'd like to do with ENS! For example:
     this.currentContext = { ...this.currentContext, ...updates };
   }
 
+  /**
+   * Export history and context for the session store
+   */
+  exportSessionState(): { history: ChatMessage[]; context: Record<string, any> } {
+    return {
+      history: this.getConversationHistory(),
+      context: this.getCurrentContext()
+    };
+  }
+
+  /**
+   * Restore history and context loaded from the session store
+   */
+  restoreSessionState(state: { history: SessionMessage[]; context: Record<string, any> }): void {
+    this.conversationHistory = state.history.map(msg => ({
+      ...msg,
+      timestamp: new Date(msg.timestamp)
+    })) as ChatMessage[];
+    this.currentContext = { ...state.context };
+  }
+
   /**
    * Test method to verify context awareness is working
    */
@@ -1279,6 +3177,173 @@ Just ask me what you'd like to do with ENS! For example:
     };
   }
 
+  private getChatRegistration(ensName: string, owner: string): ChatRegistration | undefined {
+    const pending = this.currentContext.pendingRegistrations?.[ensName.toLowerCase()];
+    return pending && pending.owner.toLowerCase() === owner.toLowerCase() ? pending : undefined;
+  }
+
+  private setChatRegistration(ensName: string, registration: ChatRegistration | undefined): void {
+    const pendingRegistrations = { ...this.currentContext.pendingRegistrations };
+    if (registration) {
+      pendingRegistrations[ensName.toLowerCase()] = registration;
+    } else {
+      delete pendingRegistrations[ensName.toLowerCase()];
+    }
+    this.currentContext.pendingRegistrations = pendingRegistrations;
+  }
+
+  /**
+   * Prepared registration without its commitment secret, which would otherwise end up in the chat history
+   */
+  private withoutSecret(prepared: PreparedOperation): PreparedOperation {
+    const result = { ...prepared, operation: { ...prepared.operation, data: { ...prepared.operation.data } } };
+    delete result.secret;
+    delete result.operation.data.secret;
+    return result;
+  }
+
+  /**
+   * First confirmation: commit with a new secret, or prepare the commit for the user's wallet,
+   * and keep the secret in the session for the register step
+   */
+  private async startChatRegistration(ensName: string, owner: string, duration: number): Promise<ENSAgentResponse> {
+    const secret = this.generateRegistrationSecret();
+    const registration: ChatRegistration = { name: ensName, owner, duration, secret, state: 'checked', createdAt: Date.now() };
+
+    if (this.ensAgent.hasSigner()) {
+      const commitResult = await this.ensAgent.createCommitment(ensName, owner, secret, duration);
+      if (!commitResult.success) {
+        return {
+          success: false,
+          error: `Registration failed: ${commitResult.error}. Please check your wallet and try again.`
+        };
+      }
+
+      const status = await this.ensAgent.getCommitmentStatus(ensName, owner, duration, secret);
+      const minCommitmentAge = status.data?.minCommitmentAge ?? 60;
+      this.setChatRegistration(ensName, {
+        ...registration,
+        state: 'committed',
+        commitment: commitResult.data.commitment,
+        commitTxHash: commitResult.data.txHash,
+        committedAt: commitResult.data.committedAt
+      });
+
+      const message = `Commitment for ${ensName} submitted. Wait ${minCommitmentAge} seconds, then say "yes, register ${ensName}" to complete the registration.`;
+      return {
+        success: true,
+        data: { message, type: 'registration_committed', ensName, duration, owner, txHash: commitResult.data.txHash, commitmentAge: minCommitmentAge },
+        message,
+        transaction: commitResult.transaction
+      };
+    }
+
+    const prepared = await this.ensAgent.prepareOperation({ type: 'commit', name: ensName, data: { owner, duration, secret } }, owner);
+    if (!prepared.success) {
+      return {
+        success: false,
+        error: `Registration failed: ${prepared.error}`
+      };
+    }
+
+    this.setChatRegistration(ensName, registration);
+
+    // The secret stays in the session, the register step is prepared from it
+    const commit = this.withoutSecret(prepared.data);
+    const message = `Send the commit transaction for ${ensName} from your wallet. ${commit.commitmentAge} seconds after it is mined, say "yes, register ${ensName}" to complete the registration.`;
+    return {
+      success: true,
+      data: { ...commit, message, type: 'registration_commit', ensName, duration, owner },
+      message
+    };
+  }
+
+  /**
+   * Later confirmations: register with the session's secret once the commitment has matured
+   */
+  private async completeChatRegistration(registration: ChatRegistration, quote: ENSPriceQuote): Promise<ENSAgentResponse> {
+    const { name, owner, duration, secret } = registration;
+
+    const status = await this.ensAgent.getCommitmentStatus(name, owner, duration, secret);
+    if (!status.success) {
+      return {
+        success: false,
+        error: `Registration failed: ${status.error}`
+      };
+    }
+
+    const { commitment, committedAt, minCommitmentAge, maxCommitmentAge } = status.data;
+    if (!committedAt) {
+      return {
+        success: false,
+        error: `The commitment for ${name} is not on chain yet. Send the commit transaction from your wallet, wait for it to be mined, then confirm again.`
+      };
+    }
+
+    const age = Math.floor(Date.now() / 1000) - committedAt;
+    if (age >= maxCommitmentAge) {
+      this.setChatRegistration(name, undefined);
+      return {
+        success: false,
+        error: `The commitment for ${name} expired. Confirm again to start a new registration.`
+      };
+    }
+
+    this.setChatRegistration(name, { ...registration, commitment, committedAt, state: age >= minCommitmentAge ? 'ready' : 'waiting' });
+    if (age < minCommitmentAge) {
+      const message = `The commitment for ${name} is not ready yet. Wait ${minCommitmentAge - age} more seconds, then confirm again.`;
+      return {
+        success: true,
+        data: { message, type: 'registration_waiting', ensName: name, secondsUntilReady: minCommitmentAge - age },
+        message
+      };
+    }
+
+    if (!this.ensAgent.hasSigner()) {
+      const prepared = await this.ensAgent.prepareOperation({ type: 'reveal', name, data: { owner, duration, secret } }, owner);
+      if (!prepared.success) {
+        return {
+          success: false,
+          error: `Registration failed: ${prepared.error}`
+        };
+      }
+
+      const reveal = this.withoutSecret(prepared.data);
+      const message = `Send the register transaction for ${name} from your wallet. The cost is ${formatPriceQuote(quote)}.`;
+      return {
+        success: true,
+        data: { ...reveal, message, type: 'registration_register', ensName: name, duration, owner, cost: quote.totalWei, costEth: quote.total },
+        message
+      };
+    }
+
+    const registrationResult = await this.ensAgent.registerName(name, owner, duration, secret);
+    if (!registrationResult.success) {
+      return {
+        success: false,
+        error: `Registration failed: ${registrationResult.error}. Please check your wallet and try again.`
+      };
+    }
+
+    this.setChatRegistration(name, undefined);
+    return {
+      success: true,
+      data: {
+        message: `Successfully registered ${name}! Transaction hash: ${registrationResult.transaction?.hash}`,
+        type: 'registration_completed',
+        ensName: name,
+        duration,
+        cost: quote.totalWei,
+        costEth: quote.total,
+        owner,
+        txHash: registrationResult.transaction?.hash,
+        timestamp: new Date().toISOString()
+      },
+      message: `Successfully registered ${name}! Your domain is now active on the blockchain.`,
+      transaction: registrationResult.transaction
+    };
+  }
+
   /**
    * Generate a secure random secret for ENS registration
    */
@@ -1381,37 +3446,29 @@ Just ask me what you'd like to do with ENS! For example:
 
 ## Function Calling Guidelines
 
-You have access to the following ENS functions through the agent:
-
-### Core Functions:
-- isNameAvailable(name): Check if an ENS name is available for registration
-- getNameInfo(name): Get comprehensive information about an ENS name
-- getPrice(name, duration): Calculate registration/renewal cost
-- resolveName(name): Resolve ENS name to address
-- resolveAddress(address): Resolve address to ENS name (reverse resolution)
-- registerName(name, owner, duration, secret): Register a new ENS name
-- renewName(name, duration): Renew an existing ENS name
-- transferName(name, recipient): Transfer ENS name ownership
-- setTextRecord(name, key, value): Set a text record for an ENS name
-- setAddressRecord(name, address, coinType): Set an address record for an ENS name
-- setResolver(name, resolverAddress): Set the resolver for an ENS name
-- getTextRecord(name, key): Get a text record from an ENS name
-- getAddressRecord(name, coinType): Get an address record from an ENS name
+ENS operations are exposed to you as tools. Each tool mirrors an ENS agent method and has a typed argument schema.
 
 ### Function Selection Rules:
-1. Always call the appropriate function based on user intent
-2. Use context from previous messages to understand follow-up questions
+1. Call exactly one tool when the user asks for an ENS operation, with arguments taken from the message
+2. Pick the tool from the user's intent, not from single words ("get me the address of x.eth" is resolveName, not registerName)
 3. If a user asks about "it" or "that", use the last ENS name from context
-4. Provide clear feedback about what function is being called and why
-5. Handle errors gracefully and suggest alternatives
+4. Write tools (registerName, renewName, transferName, setTextRecord, setAddressRecord, setResolver) only prepare a proposal; the user confirms before anything is sent
+5. Durations are in days; use 365 per year and 365 when no duration is given
+6. Reply in plain text without calling a tool for general questions about ENS
 
 ### Context Awareness:
 - Remember the last ENS name mentioned in conversation
 - Remember the last operation performed
 - Use conversation history to understand follow-up questions
-- Maintain context across multiple turns of conversation
+- Maintain context across multiple turns of conversation`;
+  }
 
-When calling functions, always explain what you're doing and why.`;
+  /**
+   * Extract owner-controlled fuse names ("CANNOT_TRANSFER" or "cannot transfer") from a message
+   */
+  private extractFuses(message: string): NameWrapperFuse[] {
+    const normalized = message.toUpperCase().replace(/[\s-]+/g, '_');
+    return OWNER_CONTROLLED_FUSES.filter(fuse => normalized.includes(fuse));
   }
 
   /**
@@ -1425,16 +3482,14 @@ When calling functions, always explain what you're doing and why.`;
         return operations.extractNameFromMessage(message);
       }
       
-      // Fallback to direct regex if operations method fails
-      const ensPattern = /([a-z0-9-]+\.eth)/gi;
-      const match = message.match(ensPattern);
-      return match ? match[0].toLowerCase() : null;
+      // Fallback to direct extraction if operations method fails
+      const [name] = findENSNames(message);
+      return name ? normalizeName(name) : null;
     } catch (error) {
       console.error('Error extracting ENS name:', error);
-      // Fallback to direct regex
-      const ensPattern = /([a-z0-9-]+\.eth)/gi;
-      const match = message.match(ensPattern);
-      return match ? match[0].toLowerCase() : null;
+      // Fallback to direct extraction
+      const [name] = findENSNames(message);
+      return name ? normalizeName(name) : null;
     }
   }
 
@@ -1464,7 +3519,7 @@ When calling functions, always explain what you're doing and why.`;
     if (data.addresses && Object.keys(data.addresses).length > 0) {
       response += `\nAddress Records:\n`;
       Object.entries(data.addresses).forEach(([coinType, address]) => {
-        const coinName = this.getCoinName(coinType);
+        const coinName = getCoinName(Number(coinType));
         response += `• ${coinName}: \`${address}\`\n`;
       });
     }
@@ -1479,7 +3534,7 @@ When calling functions, always explain what you're doing and why.`;
     
     // Content hash
     if (data.contentHash) {
-      response += `\nContent Hash: \`${data.contentHash}\`\n`;
+      response += `\nWebsite: ${data.contentHash.uri} (${data.contentHash.gatewayUrl})\n`;
     }
     
     // Availability status
@@ -1489,30 +3544,12 @@ When calling functions, always explain what you're doing and why.`;
     
     return response;
   }
-
-  /**
-   * Get coin name from coin type
-   */
-  private getCoinName(coinType: string): string {
-    const coinTypes: { [key: string]: string } = {
-      '60': 'ETH',
-      '0': 'BTC',
-      '2': 'LTC',
-      '3': 'DOGE',
-      '22': 'MONA',
-      '144': 'XRP',
-      '145': 'BCH',
-      '714': 'BNB',
-      '966': 'MATIC'
-    };
-    return coinTypes[coinType] || `Coin ${coinType}`;
-  }
 }
 
 // Export a factory function to create the AI service
-export function createENSAIService(ensAgent: ENSAgent, apiKey: string): ENSAIService {
-  return new ENSAIService(ensAgent, apiKey);
+export function createENSAIService(ensAgent: ENSAgent, apiKey: string, options?: LLMServiceOptions): ENSAIService {
+  return new ENSAIService(ensAgent, apiKey, options);
 }
 
-// Export the API key for easy access
-export const OPENROUTER_API_KEY = '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';
+// OpenRouter key from the environment, empty when it is not set
+export { OPENROUTER_API_KEY } from '../../llm';
@@ -0,0 +1,541 @@
+// ENS Agent Tool Definitions for LLM function calling
+import type { ChatCompletionTool } from 'openai/resources/chat/completions';
+import { validateENSName, isValidAddress, normalizeName, OWNER_CONTROLLED_FUSES } from '../utils';
+import { COIN_FORMATS } from '../coins';
+
+/**
+ * Subset of JSON Schema used to describe tool arguments
+ */
+export interface ToolParameterSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, ToolParameterSchema>;
+  items?: ToolParameterSchema;
+  minItems?: number;
+  required?: string[];
+  additionalProperties?: boolean;
+  enum?: (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  format?: 'ens-name' | 'address';
+}
+
+export interface ENSToolDefinition {
+  name: ENSToolName;
+  description: string;
+  parameters: ToolParameterSchema;
+}
+
+export type ENSToolName =
+  | 'isNameAvailable'
+  | 'suggestNames'
+  | 'getNameInfo'
+  | 'getPrice'
+  | 'resolveName'
+  | 'resolveAddress'
+  | 'registerName'
+  | 'renewName'
+  | 'renewNames'
+  | 'transferName'
+  | 'getPrimaryNames'
+  | 'setPrimaryName'
+  | 'clearPrimaryName'
+  | 'setTextRecord'
+  | 'setAddressRecord'
+  | 'setRecords'
+  | 'setResolver'
+  | 'setContentHash'
+  | 'getTextRecord'
+  | 'getAddressRecord'
+  | 'getContentHash'
+  | 'wrapName'
+  | 'unwrapName'
+  | 'getFuses'
+  | 'burnFuses'
+  | 'createSubname'
+  | 'deleteSubname'
+  | 'listSubnames'
+  | 'importDNSName'
+  | 'getNameExpiries'
+  | 'getPortfolio'
+  | 'getNameHistory';
+
+export interface ENSToolCall {
+  name: ENSToolName;
+  args: Record<string, any>;
+}
+
+const nameParam: ToolParameterSchema = {
+  type: 'string',
+  format: 'ens-name',
+  description: 'Full ENS name including the TLD, e.g. "alice.eth"'
+};
+
+const durationParam: ToolParameterSchema = {
+  type: 'integer',
+  minimum: 28,
+  maximum: 365 * 100,
+  description: 'Duration in days (minimum 28). Use 365 per year requested, default 365 when the user does not say.'
+};
+
+const coinParam: ToolParameterSchema = {
+  type: 'string',
+  enum: COIN_FORMATS.map(format => format.symbol),
+  description: 'Coin or chain of the address: ETH (default), BTC, LTC, DOGE, SOL, or the L2s OP, BASE, ARB1'
+};
+
+const coinTypeParam: ToolParameterSchema = {
+  type: 'integer',
+  minimum: 0,
+  description: 'SLIP-44 / ENSIP-11 coin type, only for coins not listed in coin (EVM chains use 0x80000000 | chainId)'
+};
+
+const chainParam: ToolParameterSchema = {
+  type: 'string',
+  // The supported chains depend on the deployment, unknown ones are rejected when the tool runs
+  description: 'Chain of a chain-specific primary name (ENSIP-19): an L2 such as "base" or "optimism", or "default" for every EVM chain. Omit for Ethereum.'
+};
+
+const addressParam = (description: string): ToolParameterSchema => ({
+  type: 'string',
+  format: 'address',
+  description
+});
+
+const fusesParam = (description: string): ToolParameterSchema => ({
+  type: 'array',
+  items: { type: 'string', enum: OWNER_CONTROLLED_FUSES },
+  description
+});
+
+const objectSchema = (properties: Record<string, ToolParameterSchema>, required: string[]): ToolParameterSchema => ({
+  type: 'object',
+  properties,
+  required,
+  additionalProperties: false
+});
+
+/**
+ * Tools exposed to the model. Names mirror the ENSAgent methods they map to.
+ */
+export const ENS_TOOLS: ENSToolDefinition[] = [
+  {
+    name: 'isNameAvailable',
+    description: 'Check whether an ENS name is available for registration.',
+    parameters: objectSchema({ name: nameParam }, ['name'])
+  },
+  {
+    name: 'suggestNames',
+    description: 'Suggest available alternatives to an ENS name (suffixes, prefixes, hyphenated forms, synonyms and subnames under names the user owns), ranked by price and length. Use when the user asks for ideas or alternatives.',
+    parameters: objectSchema({ name: nameParam }, ['name'])
+  },
+  {
+    name: 'getNameInfo',
+    description: 'Get owner, resolver, expiry, address and text records for an ENS name.',
+    parameters: objectSchema({ name: nameParam }, ['name'])
+  },
+  {
+    name: 'getPrice',
+    description: 'Quote the registration or renewal cost of an ENS name.',
+    parameters: objectSchema({ name: nameParam, durationDays: durationParam }, ['name'])
+  },
+  {
+    name: 'resolveName',
+    description: 'Resolve an ENS name to the Ethereum address it points to (e.g. "what is the address of vitalik.eth").',
+    parameters: objectSchema({ name: nameParam }, ['name'])
+  },
+  {
+    name: 'resolveAddress',
+    description: 'Reverse resolve an Ethereum address to its primary ENS name, on Ethereum or on one chain.',
+    parameters: objectSchema({ address: addressParam('Ethereum address to look up'), chain: chainParam }, ['address'])
+  },
+  {
+    name: 'getPrimaryNames',
+    description: 'List the primary names of an address on Ethereum and every L2 the ENS deployment supports.',
+    parameters: objectSchema({ address: addressParam('Ethereum address to look up') }, ['address'])
+  },
+  {
+    name: 'registerName',
+    description: 'Propose registering an available ENS name for the connected user. The user must confirm before anything is sent.',
+    parameters: objectSchema({ name: nameParam, durationDays: durationParam }, ['name'])
+  },
+  {
+    name: 'renewName',
+    description: 'Propose extending the registration of an existing ENS name.',
+    parameters: objectSchema({ name: nameParam, durationDays: durationParam }, ['name'])
+  },
+  {
+    name: 'renewNames',
+    description: 'Propose renewing several .eth names in one transaction, either the names listed or every name of the user expiring within a number of days ("renew all my names expiring in the next 60 days").',
+    parameters: objectSchema(
+      {
+        names: { type: 'array', minItems: 2, items: nameParam, description: 'Names to renew, omit to pick the user\'s own names by expiry' },
+        withinDays: { type: 'integer', minimum: 1, maximum: 3650, description: 'Only renew the user\'s names expiring within this many days, omit for all of them' },
+        durationDays: durationParam
+      },
+      []
+    )
+  },
+  {
+    name: 'transferName',
+    description: 'Propose transferring ownership of an ENS name to another address.',
+    parameters: objectSchema({ name: nameParam, recipient: addressParam('Address of the new owner') }, ['name', 'recipient'])
+  },
+  {
+    name: 'setPrimaryName',
+    description: 'Propose making an ENS name the primary name (reverse record) of the user\'s wallet, or of a contract the user owns. The name must resolve to that address.',
+    parameters: objectSchema(
+      {
+        name: nameParam,
+        address: addressParam('Contract the user owns, only when not setting the primary name of their own wallet'),
+        chain: chainParam
+      },
+      ['name']
+    )
+  },
+  {
+    name: 'clearPrimaryName',
+    description: 'Propose removing the primary name of the user\'s wallet, or of a contract the user owns.',
+    parameters: objectSchema(
+      {
+        address: addressParam('Contract the user owns, only when not clearing the primary name of their own wallet'),
+        chain: chainParam
+      },
+      []
+    )
+  },
+  {
+    name: 'setTextRecord',
+    description: 'Propose setting a text record (email, url, avatar, description, com.twitter, ...) on an ENS name.',
+    parameters: objectSchema(
+      {
+        name: nameParam,
+        key: { type: 'string', minLength: 1, maxLength: 100, description: 'Text record key, e.g. "email" or "com.github"' },
+        value: { type: 'string', maxLength: 1024, description: 'Value to store' }
+      },
+      ['name', 'key', 'value']
+    )
+  },
+  {
+    name: 'setAddressRecord',
+    description: 'Propose setting the address record of an ENS name for a coin or chain (ENSIP-9/11).',
+    parameters: objectSchema(
+      {
+        name: nameParam,
+        address: { type: 'string', minLength: 1, description: 'Address in the native format of the coin, e.g. bc1... for BTC or 0x... for EVM chains' },
+        coin: coinParam,
+        coinType: coinTypeParam
+      },
+      ['name', 'address']
+    )
+  },
+  {
+    name: 'setRecords',
+    description: 'Propose setting several records on one ENS name in a single transaction. Use instead of separate set calls when the user gives more than one record.',
+    parameters: objectSchema(
+      {
+        name: nameParam,
+        records: {
+          type: 'array',
+          minItems: 2,
+          items: objectSchema(
+            {
+              key: { type: 'string', minLength: 1, maxLength: 100, description: 'Text record key (email, url, avatar, com.twitter, ...), a coin symbol (ETH, BTC, SOL, BASE, ...) for an address record, or "contenthash"' },
+              value: { type: 'string', maxLength: 1024, description: 'Value to store, an empty string clears the record' }
+            },
+            ['key', 'value']
+          ),
+          description: 'Records to set'
+        }
+      },
+      ['name', 'records']
+    )
+  },
+  {
+    name: 'setResolver',
+    description: 'Propose changing the resolver contract of an ENS name.',
+    parameters: objectSchema({ name: nameParam, resolverAddress: addressParam('Resolver contract address') }, ['name', 'resolverAddress'])
+  },
+  {
+    name: 'setContentHash',
+    description: 'Propose pointing an ENS name to a decentralized website by setting its contenthash record (ENSIP-7).',
+    parameters: objectSchema(
+      {
+        name: nameParam,
+        uri: { type: 'string', minLength: 1, description: 'Content URI: ipfs://<cid>, ipns://<key>, bzz://<hash>, ar://<tx id> or an .onion address' }
+      },
+      ['name', 'uri']
+    )
+  },
+  {
+    name: 'getTextRecord',
+    description: 'Read a single text record from an ENS name.',
+    parameters: objectSchema(
+      { name: nameParam, key: { type: 'string', minLength: 1, description: 'Text record key' } },
+      ['name', 'key']
+    )
+  },
+  {
+    name: 'getAddressRecord',
+    description: 'Read the address record of an ENS name for a coin or chain.',
+    parameters: objectSchema(
+      { name: nameParam, coin: coinParam, coinType: coinTypeParam },
+      ['name']
+    )
+  },
+  {
+    name: 'getContentHash',
+    description: 'Read the contenthash (decentralized website) of an ENS name with its gateway URL.',
+    parameters: objectSchema({ name: nameParam }, ['name'])
+  },
+  {
+    name: 'wrapName',
+    description: 'Propose wrapping an ENS name in the NameWrapper so it becomes an ERC-1155 token with fuse permissions.',
+    parameters: objectSchema(
+      {
+        name: nameParam,
+        fuses: fusesParam('Fuses to burn while wrapping (.eth names only). Irreversible, only include when the user explicitly asks.')
+      },
+      ['name']
+    )
+  },
+  {
+    name: 'unwrapName',
+    description: 'Propose unwrapping a wrapped ENS name back to a plain registry name.',
+    parameters: objectSchema({ name: nameParam }, ['name'])
+  },
+  {
+    name: 'getFuses',
+    description: 'Show whether an ENS name is wrapped and which NameWrapper fuses are burned.',
+    parameters: objectSchema({ name: nameParam }, ['name'])
+  },
+  {
+    name: 'burnFuses',
+    description: 'Propose permanently burning NameWrapper fuses on a wrapped name (e.g. CANNOT_UNWRAP, CANNOT_TRANSFER). This is irreversible.',
+    parameters: objectSchema(
+      { name: nameParam, fuses: { ...fusesParam('Fuses to burn'), minItems: 1 } },
+      ['name', 'fuses']
+    )
+  },
+  {
+    name: 'createSubname',
+    description: 'Propose creating a subname under a name the user owns, e.g. "create pay.alice.eth pointing to 0x...".',
+    parameters: objectSchema(
+      {
+        name: { ...nameParam, description: 'Full subname to create, e.g. "pay.alice.eth"' },
+        address: addressParam('Address the subname should resolve to'),
+        owner: addressParam('Owner of the new subname, defaults to the connected user'),
+        resolverAddress: addressParam('Resolver contract, defaults to the public resolver')
+      },
+      ['name']
+    )
+  },
+  {
+    name: 'deleteSubname',
+    description: 'Propose deleting a subname from its parent name.',
+    parameters: objectSchema({ name: { ...nameParam, description: 'Full subname to delete, e.g. "pay.alice.eth"' } }, ['name'])
+  },
+  {
+    name: 'listSubnames',
+    description: 'List the existing subnames of an ENS name.',
+    parameters: objectSchema({ name: nameParam }, ['name'])
+  },
+  {
+    name: 'importDNSName',
+    description: 'Import a DNS domain the user owns (e.g. "example.com") into ENS with a DNSSEC proof, or with offchain true, explain the TXT record that makes it resolve through ENS without a transaction.',
+    parameters: objectSchema(
+      {
+        domain: { type: 'string', minLength: 3, maxLength: 253, description: 'DNS domain, e.g. "example.com"' },
+        offchain: { type: 'boolean', description: 'Resolve the domain offchain through a TXT record instead of claiming it onchain' },
+        address: addressParam('Address the domain should resolve to offchain, only when not the user\'s own wallet')
+      },
+      ['domain']
+    )
+  },
+  {
+    name: 'getNameExpiries',
+    description: 'List when the .eth names of the user (or another address) expire, including names in the 90-day grace period, with renewal suggestions.',
+    parameters: objectSchema({ address: addressParam('Address to check, only when not the user\'s own wallet') }, [])
+  },
+  {
+    name: 'getPortfolio',
+    description: 'List the .eth names the user (or another address) holds, including wrapped names, with expiry, resolver, the address each name points to and which one is the primary name.',
+    parameters: objectSchema({ address: addressParam('Address to list, only when not the user\'s own wallet') }, [])
+  },
+  {
+    name: 'getNameHistory',
+    description: 'Show who changed an ENS name and when: registration, renewals, ownership transfers, resolver changes and address, text and content hash record changes, newest first with transaction links.',
+    parameters: objectSchema({ name: nameParam }, ['name'])
+  }
+];
+
+/**
+ * Convert a tool parameter schema into plain JSON Schema for the model
+ */
+function toJSONSchema(schema: ToolParameterSchema): Record<string, unknown> {
+  const { format, properties, items, ...rest } = schema;
+  const result: Record<string, unknown> = { ...rest };
+
+  if (format === 'address') {
+    result.pattern = '^0x[a-fA-F0-9]{40}$';
+  }
+
+  if (items) {
+    result.items = toJSONSchema(items);
+  }
+
+  if (properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(properties).map(([key, value]) => [key, toJSONSchema(value)])
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Get the tool list in OpenAI chat completion format
+ */
+export function getENSChatTools(): ChatCompletionTool[] {
+  return ENS_TOOLS.map(tool => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: toJSONSchema(tool.parameters)
+    }
+  }));
+}
+
+/**
+ * Validates a value against a tool parameter schema
+ */
+export function validateAgainstSchema(
+  schema: ToolParameterSchema,
+  value: unknown,
+  path: string = 'arguments'
+): { valid: boolean; error?: string } {
+  switch (schema.type) {
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { valid: false, error: `${path} must be an object` };
+      }
+
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (record[key] === undefined || record[key] === null) {
+          return { valid: false, error: `${path}.${key} is required` };
+        }
+      }
+
+      for (const [key, fieldValue] of Object.entries(record)) {
+        const fieldSchema = schema.properties?.[key];
+        if (!fieldSchema) {
+          if (schema.additionalProperties === false) {
+            return { valid: false, error: `${path}.${key} is not allowed` };
+          }
+          continue;
+        }
+        if (fieldValue === undefined || fieldValue === null) continue;
+
+        const result = validateAgainstSchema(fieldSchema, fieldValue, `${path}.${key}`);
+        if (!result.valid) return result;
+      }
+
+      return { valid: true };
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return { valid: false, error: `${path} must be an array` };
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        return { valid: false, error: `${path} must have at least ${schema.minItems} item(s)` };
+      }
+      if (schema.items) {
+        for (let i = 0; i < value.length; i++) {
+          const result = validateAgainstSchema(schema.items, value[i], `${path}[${i}]`);
+          if (!result.valid) return result;
+        }
+      }
+      return { valid: true };
+    }
+    case 'string': {
+      if (typeof value !== 'string') {
+        return { valid: false, error: `${path} must be a string` };
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return { valid: false, error: `${path} must be at least ${schema.minLength} characters` };
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        return { valid: false, error: `${path} must be at most ${schema.maxLength} characters` };
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return { valid: false, error: `${path} must be one of ${schema.enum.join(', ')}` };
+      }
+      if (schema.format === 'ens-name') {
+        const nameValidation = validateENSName(normalizeName(value));
+        if (!nameValidation.valid) {
+          return { valid: false, error: `${path}: ${nameValidation.error}` };
+        }
+      }
+      if (schema.format === 'address' && !isValidAddress(value)) {
+        return { valid: false, error: `${path} must be a valid Ethereum address` };
+      }
+      return { valid: true };
+    }
+    case 'integer':
+    case 'number': {
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        return { valid: false, error: `${path} must be a number` };
+      }
+      if (schema.type === 'integer' && !Number.isInteger(value)) {
+        return { valid: false, error: `${path} must be an integer` };
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return { valid: false, error: `${path} must be at least ${schema.minimum}` };
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        return { valid: false, error: `${path} must be at most ${schema.maximum}` };
+      }
+      return { valid: true };
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? { valid: true } : { valid: false, error: `${path} must be a boolean` };
+    default:
+      return { valid: false, error: `${path} has an unsupported schema type` };
+  }
+}
+
+/**
+ * Parse and validate a raw tool call returned by the model
+ */
+export function parseENSToolCall(
+  name: string,
+  rawArguments: string
+): { success: boolean; call?: ENSToolCall; error?: string } {
+  const tool = ENS_TOOLS.find(t => t.name === name);
+  if (!tool) {
+    return { success: false, error: `Unknown ENS tool: ${name}` };
+  }
+
+  let args: unknown;
+  try {
+    args = rawArguments ? JSON.parse(rawArguments) : {};
+  } catch {
+    return { success: false, error: `Arguments for ${name} are not valid JSON` };
+  }
+
+  const validation = validateAgainstSchema(tool.parameters, args);
+  if (!validation.valid) {
+    return { success: false, error: validation.error };
+  }
+
+  const normalized = { ...(args as Record<string, any>) };
+  if (typeof normalized.name === 'string') {
+    normalized.name = normalizeName(normalized.name);
+  }
+
+  return { success: true, call: { name: tool.name, args: normalized } };
+}
@@ -0,0 +1,212 @@
+// ENSIP-12 avatars: HTTP, IPFS, Arweave, data URI and NFT avatar records resolved to an image URL
+import { ethers } from 'ethers';
+
+export type AvatarRecordType = 'http' | 'ipfs' | 'ipns' | 'ar' | 'data' | 'erc721' | 'erc1155';
+
+export interface AvatarGateways {
+  /** IPFS HTTP gateway, "/ipfs/<cid>" and "/ipns/<name>" are appended */
+  ipfs: string;
+  /** Arweave HTTP gateway, the transaction id is appended */
+  arweave: string;
+}
+
+export const DEFAULT_AVATAR_GATEWAYS: AvatarGateways = {
+  ipfs: 'https://ipfs.io',
+  arweave: 'https://arweave.net'
+};
+
+// Public RPCs to verify NFT avatars on chains other than the ENS chain, by chain id
+export const DEFAULT_AVATAR_RPC_URLS: Record<number, string> = {
+  1: 'https://ethereum-rpc.publicnode.com',
+  10: 'https://mainnet.optimism.io',
+  137: 'https://polygon-rpc.com',
+  8453: 'https://mainnet.base.org',
+  42161: 'https://arb1.arbitrum.io/rpc'
+};
+
+// Token reads for NFT avatars
+export const ERC721_AVATAR_ABI = [
+  'function ownerOf(uint256 tokenId) view returns (address)',
+  'function tokenURI(uint256 tokenId) view returns (string)'
+];
+export const ERC1155_AVATAR_ABI = [
+  'function balanceOf(address account, uint256 id) view returns (uint256)',
+  'function uri(uint256 id) view returns (string)'
+];
+
+export const AVATAR_CACHE_TTL_MS = 10 * 60 * 1000;
+const METADATA_TIMEOUT_MS = 10_000;
+
+export interface AvatarNFT {
+  chainId: number;
+  standard: 'erc721' | 'erc1155';
+  contract: string;
+  tokenId: string;
+}
+
+export interface ParsedAvatarRecord {
+  type: AvatarRecordType;
+  /** URI to load, the record itself except for NFTs */
+  uri: string;
+  nft?: AvatarNFT;
+}
+
+export interface ENSAvatar {
+  name: string;
+  /** Raw "avatar" text record, empty when none is set */
+  record: string;
+  type: AvatarRecordType | null;
+  /** HTTP(S) or data URL to render, null when there is no usable avatar */
+  image: string | null;
+  nft?: AvatarNFT & {
+    /** Address holding the token, the resolved address or owner of the name when verified */
+    owner: string | null;
+    verified: boolean;
+    tokenURI: string | null;
+  };
+  /** Why the record did not produce an image */
+  error?: string;
+  expiresAt: number;
+}
+
+/**
+ * Resolved avatars by chain and name, kept for a few minutes so lists of addresses do not repeat
+ * record, ownership and metadata lookups
+ */
+export class AvatarCache {
+  private avatars: Map<string, ENSAvatar> = new Map();
+
+  get(chainId: number, name: string): ENSAvatar | null {
+    const avatar = this.avatars.get(`${chainId}:${name}`);
+    if (!avatar) return null;
+
+    if (avatar.expiresAt <= Date.now()) {
+      this.avatars.delete(`${chainId}:${name}`);
+      return null;
+    }
+    return avatar;
+  }
+
+  set(chainId: number, avatar: ENSAvatar): void {
+    this.avatars.set(`${chainId}:${avatar.name}`, avatar);
+  }
+
+  delete(chainId: number, name: string): void {
+    this.avatars.delete(`${chainId}:${name}`);
+  }
+
+  clear(): void {
+    this.avatars.clear();
+  }
+}
+
+export const avatarCache = new AvatarCache();
+
+/**
+ * Gateway settings from the environment: ENS_IPFS_GATEWAY and ENS_ARWEAVE_GATEWAY
+ */
+export function getAvatarConfigFromEnv(): { ipfsGateway?: string; arweaveGateway?: string } {
+  if (typeof process === 'undefined' || !process.env) return {};
+
+  const config: { ipfsGateway?: string; arweaveGateway?: string } = {};
+  if (process.env.ENS_IPFS_GATEWAY) config.ipfsGateway = process.env.ENS_IPFS_GATEWAY;
+  if (process.env.ENS_ARWEAVE_GATEWAY) config.arweaveGateway = process.env.ENS_ARWEAVE_GATEWAY;
+  return config;
+}
+
+/**
+ * Parse an avatar text record in any ENSIP-12 form:
+ * https://, ipfs://, ipns://, ar://, data: and eip155:<chain>/(erc721|erc1155):<contract>/<id>
+ */
+export function parseAvatarRecord(record: string): ParsedAvatarRecord | null {
+  const value = record.trim();
+
+  const nft = value.match(/^eip155:(\d+)\/(erc721|erc1155):(0x[0-9a-fA-F]{40})\/(\d+)$/i);
+  if (nft) {
+    const standard = nft[2].toLowerCase() as 'erc721' | 'erc1155';
+    return {
+      type: standard,
+      uri: value,
+      nft: { chainId: Number(nft[1]), standard, contract: nft[3], tokenId: nft[4] }
+    };
+  }
+
+  if (/^data:/i.test(value)) return { type: 'data', uri: value };
+  if (/^https?:\/\//i.test(value)) return { type: 'http', uri: value };
+  if (/^ipfs:\/\//i.test(value)) return { type: 'ipfs', uri: value };
+  if (/^ipns:\/\//i.test(value)) return { type: 'ipns', uri: value };
+  if (/^ar:\/\//i.test(value)) return { type: 'ar', uri: value };
+
+  // Gateway paths and bare CIDs, which ENSIP-12 also allows for IPFS
+  const ipfsPath = value.match(/^\/?(ipfs|ipns)\/(.+)$/i);
+  if (ipfsPath) return { type: ipfsPath[1].toLowerCase() as 'ipfs' | 'ipns', uri: `${ipfsPath[1].toLowerCase()}://${ipfsPath[2]}` };
+  if (/^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{58,})(\/.*)?$/.test(value)) return { type: 'ipfs', uri: `ipfs://${value}` };
+
+  return null;
+}
+
+/**
+ * HTTP(S) or data URL for an avatar or metadata URI, through the configured gateways
+ */
+export function resolveAvatarURI(uri: string, gateways: AvatarGateways = DEFAULT_AVATAR_GATEWAYS): string | null {
+  const value = uri.trim();
+  const trim = (gateway: string) => gateway.replace(/\/+$/, '');
+
+  if (/^(https?:\/\/|data:)/i.test(value)) return value;
+
+  // "ipfs://ipfs/<cid>" shows up in older metadata
+  const ipfs = value.match(/^ipfs:\/\/(?:ipfs\/)?(.+)$/i);
+  if (ipfs) return `${trim(gateways.ipfs)}/ipfs/${ipfs[1]}`;
+
+  const ipns = value.match(/^ipns:\/\/(.+)$/i);
+  if (ipns) return `${trim(gateways.ipfs)}/ipns/${ipns[1]}`;
+
+  const arweave = value.match(/^ar:\/\/(.+)$/i);
+  if (arweave) return `${trim(gateways.arweave)}/${arweave[1]}`;
+
+  const parsed = parseAvatarRecord(value);
+  return parsed && !parsed.nft && parsed.uri !== value ? resolveAvatarURI(parsed.uri, gateways) : null;
+}
+
+/**
+ * Token URI with the ERC-1155 "{id}" placeholder filled in (lowercase hex, 64 characters)
+ */
+export function expandTokenURI(uri: string, nft: AvatarNFT): string {
+  if (nft.standard !== 'erc1155') return uri;
+  return uri.replace(/\{id\}/g, BigInt(nft.tokenId).toString(16).padStart(64, '0'));
+}
+
+/**
+ * Image of an NFT from its token URI: inline JSON metadata, or metadata fetched through the gateways
+ */
+export async function fetchNFTImage(
+  tokenURI: string,
+  gateways: AvatarGateways = DEFAULT_AVATAR_GATEWAYS,
+  fetchFn: typeof fetch = fetch
+): Promise<string | null> {
+  let metadata: any;
+  const inline = tokenURI.match(/^data:application\/json([^,]*),([\s\S]*)$/i);
+  if (inline) {
+    metadata = JSON.parse(/;base64$/i.test(inline[1]) ? ethers.toUtf8String(ethers.decodeBase64(inline[2])) : decodeURIComponent(inline[2]));
+  } else {
+    const url = resolveAvatarURI(tokenURI, gateways);
+    if (!url) {
+      throw new Error(`Unsupported token URI ${tokenURI}`);
+    }
+    const response = await fetchFn(url, { signal: AbortSignal.timeout(METADATA_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`Token metadata request returned ${response.status}`);
+    }
+    metadata = await response.json();
+  }
+
+  // "image" is the ERC-721/1155 metadata field, some collections only set "image_url" or "image_data"
+  const image = metadata?.image || metadata?.image_url;
+  if (typeof image === 'string' && image) {
+    return resolveAvatarURI(image, gateways);
+  }
+  if (typeof metadata?.image_data === 'string' && metadata.image_data) {
+    return `data:image/svg+xml;base64,${ethers.encodeBase64(ethers.toUtf8Bytes(metadata.image_data))}`;
+  }
+  return null;
+}
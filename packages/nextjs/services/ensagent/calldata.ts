@@ -0,0 +1,120 @@
+// ENS operations decoded from transaction calldata, so confirmations do not rely on the caller's description
+import { ethers } from 'ethers';
+import { CONTRACT_ABIS } from '../../abis/contracts';
+import { decodeDNSName } from './dns';
+import { ENSOperation } from './types';
+
+// Contracts the prepared transactions call, named as in CONTRACT_ABIS. Resolver calls decode with the PublicResolver ABI.
+export type ENSCallContract =
+  | 'ETHRegistrarController'
+  | 'StaticBulkRenewal'
+  | 'ENSRegistry'
+  | 'BaseRegistrar'
+  | 'NameWrapper'
+  | 'ReverseRegistrar'
+  | 'DNSRegistrar'
+  | 'PublicResolver';
+
+export const ENS_CALL_CONTRACTS: ENSCallContract[] = [
+  'ETHRegistrarController',
+  'StaticBulkRenewal',
+  'ENSRegistry',
+  'BaseRegistrar',
+  'NameWrapper',
+  'ReverseRegistrar',
+  'DNSRegistrar',
+  'PublicResolver'
+];
+
+/**
+ * Operation a transaction performs. `name` is set when the calldata carries the name itself and
+ * `node` when it only carries the namehash, which a claimed name can be checked against.
+ * Commits and approvals carry neither.
+ */
+export interface DecodedENSCall {
+  type: ENSOperation['type'];
+  method: string;
+  name?: string;
+  node?: string;
+  names?: string[];
+}
+
+const ETH_NODE = ethers.namehash('eth');
+
+const childNode = (parentNode: string, labelHash: string) =>
+  ethers.solidityPackedKeccak256(['bytes32', 'bytes32'], [parentNode, labelHash]);
+
+/**
+ * Decode the calldata of a call to an ENS contract, undefined when it is not an operation the agent prepares
+ */
+export function decodeENSCall(contract: ENSCallContract, data: string): DecodedENSCall | undefined {
+  const contractInterface = new ethers.Interface(CONTRACT_ABIS[contract]);
+  const call = contractInterface.parseTransaction({ data });
+  if (!call) return undefined;
+
+  const method = call.name;
+  const args = call.args;
+  // .eth registrar tokens are labelhashes, NameWrapper tokens are namehashes
+  const tokenNode = (id: bigint) => contract === 'BaseRegistrar' ? childNode(ETH_NODE, ethers.toBeHex(id, 32)) : ethers.toBeHex(id, 32);
+
+  switch (method) {
+    case 'commit':
+      return { type: 'commit', method };
+    case 'register':
+      return contract === 'ETHRegistrarController' ? { type: 'register', method, name: `${args[0].label}.eth` } : undefined;
+    case 'renew':
+      return contract === 'ETHRegistrarController' ? { type: 'renew', method, name: `${args[0]}.eth` } : undefined;
+    case 'renewAll': {
+      const names = (args[0] as string[]).map(label => `${label}.eth`);
+      return { type: 'bulkRenew', method, name: names[0], names };
+    }
+    case 'setText':
+    case 'setAddr':
+    case 'setContenthash':
+      return { type: 'setRecord', method, node: args[0] };
+    case 'multicall': {
+      // Every record update in the multicall must be for the same name
+      const nodes = new Set((args[0] as string[]).map(inner => contractInterface.parseTransaction({ data: inner })?.args[0]));
+      const [node] = [...nodes];
+      return nodes.size === 1 && typeof node === 'string' ? { type: 'setRecords', method, node } : undefined;
+    }
+    case 'setName':
+      return args[0] ? { type: 'setPrimaryName', method, name: args[0] } : { type: 'clearPrimaryName', method };
+    case 'setNameForAddr':
+      return args[3] ? { type: 'setPrimaryName', method, name: args[3] } : { type: 'clearPrimaryName', method };
+    case 'setResolver':
+      return { type: 'setResolver', method, node: args[0] };
+    case 'setOwner':
+      return { type: 'transfer', method, node: args[0] };
+    case 'safeTransferFrom':
+      return { type: 'transfer', method, node: tokenNode(args[2]) };
+    case 'approve':
+      return { type: 'wrap', method, node: tokenNode(args[1]) };
+    case 'setApprovalForAll':
+      return { type: 'wrap', method };
+    case 'wrapETH2LD':
+      return { type: 'wrap', method, name: `${args[0]}.eth` };
+    case 'wrap':
+      return { type: 'wrap', method, name: decodeDNSName(args[0]) };
+    case 'unwrapETH2LD':
+      return { type: 'unwrap', method, node: childNode(ETH_NODE, args[0]) };
+    case 'unwrap':
+      return { type: 'unwrap', method, node: childNode(args[0], args[1]) };
+    case 'setFuses':
+      return { type: 'burnFuses', method, node: args[0] };
+    case 'setSubnodeRecord': {
+      // The registry takes the labelhash, the NameWrapper the label itself
+      const labelHash = contract === 'NameWrapper' ? ethers.keccak256(ethers.toUtf8Bytes(args[1])) : args[1];
+      return {
+        type: args[2] === ethers.ZeroAddress ? 'deleteSubname' : 'createSubname',
+        method,
+        node: childNode(args[0], labelHash)
+      };
+    }
+    case 'proveAndClaim':
+    case 'proveAndClaimWithResolver':
+      return { type: 'importDNSName', method, name: decodeDNSName(args[0]) };
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,179 @@
+// EIP-3668 CCIP-Read: follow OffchainLookup reverts through their gateways
+import { ethers } from 'ethers';
+
+// Passed as a gateway to the UniversalResolver to run the batch gateway locally (ENSIP-21)
+export const LOCAL_BATCH_GATEWAY = 'x-batch-gateway:true';
+export const DEFAULT_CCIP_GATEWAYS = [LOCAL_BATCH_GATEWAY];
+
+// EIP-3668 suggests a small limit on chained lookups
+const MAX_CCIP_REDIRECTS = 4;
+const GATEWAY_TIMEOUT_MS = 10000;
+
+const OFFCHAIN_LOOKUP_INTERFACE = new ethers.Interface([
+  'error OffchainLookup(address sender, string[] urls, bytes callData, bytes4 callbackFunction, bytes extraData)'
+]);
+
+const BATCH_GATEWAY_INTERFACE = new ethers.Interface([
+  'function query((address sender, string[] urls, bytes data)[] requests) returns (bool[] failures, bytes[] responses)',
+  'error HttpError(uint16 status, string message)'
+]);
+
+export interface CCIPReadOptions {
+  /** Sent to every offchain lookup instead of the URLs the contract asked for, e.g. a local stand-in gateway */
+  gatewayOverride?: string;
+  maxRedirects?: number;
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+}
+
+export interface OffchainLookup {
+  sender: string;
+  urls: string[];
+  callData: string;
+  callbackFunction: string;
+  extraData: string;
+}
+
+class GatewayError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'GatewayError';
+  }
+}
+
+/**
+ * Read CCIP-Read settings from the environment: ENS_CCIP_GATEWAYS (comma separated
+ * batch gateways for the UniversalResolver) and ENS_CCIP_GATEWAY_OVERRIDE
+ */
+export function getCCIPConfigFromEnv(): { ccipGateways?: string[]; ccipGatewayOverride?: string } {
+  if (typeof process === 'undefined' || !process.env) return {};
+
+  const config: { ccipGateways?: string[]; ccipGatewayOverride?: string } = {};
+  const gateways = process.env.ENS_CCIP_GATEWAYS?.split(',').map(url => url.trim()).filter(Boolean);
+  if (gateways && gateways.length > 0) config.ccipGateways = gateways;
+  if (process.env.ENS_CCIP_GATEWAY_OVERRIDE) config.ccipGatewayOverride = process.env.ENS_CCIP_GATEWAY_OVERRIDE;
+  return config;
+}
+
+/**
+ * Decode OffchainLookup revert data, or null for any other revert
+ */
+export function parseOffchainLookup(revertData: string): OffchainLookup | null {
+  try {
+    const parsed = OFFCHAIN_LOOKUP_INTERFACE.parseError(revertData);
+    if (!parsed || parsed.name !== 'OffchainLookup') return null;
+    const [sender, urls, callData, callbackFunction, extraData] = parsed.args;
+    return { sender, urls: [...urls], callData, callbackFunction, extraData };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Revert data carried by an ethers call error, if any
+ */
+export function getRevertData(error: any): string | null {
+  const data = error?.data ?? error?.info?.error?.data ?? error?.error?.data;
+  return typeof data === 'string' && ethers.isHexString(data) && data.length >= 10 ? data : null;
+}
+
+/**
+ * eth_call that follows OffchainLookup reverts: fetch the gateway response and call the
+ * callback with it, until the contract returns or the redirect limit is reached
+ */
+export async function ccipReadCall(
+  provider: ethers.Provider,
+  transaction: { to: string; data: string },
+  options: CCIPReadOptions = {}
+): Promise<string> {
+  const maxRedirects = options.maxRedirects ?? MAX_CCIP_REDIRECTS;
+  let data = transaction.data;
+
+  for (let redirect = 0; redirect <= maxRedirects; redirect++) {
+    try {
+      return await provider.call({ to: transaction.to, data });
+    } catch (error) {
+      const revertData = getRevertData(error);
+      const lookup = revertData ? parseOffchainLookup(revertData) : null;
+      if (!lookup) {
+        throw error;
+      }
+      if (lookup.sender.toLowerCase() !== transaction.to.toLowerCase()) {
+        throw new Error(`OffchainLookup sender ${lookup.sender} does not match ${transaction.to}`);
+      }
+
+      const response = await fetchCCIPResponse(lookup.sender, lookup.urls, lookup.callData, options);
+      data = ethers.concat([
+        lookup.callbackFunction,
+        ethers.AbiCoder.defaultAbiCoder().encode(['bytes', 'bytes'], [response, lookup.extraData])
+      ]);
+    }
+  }
+
+  throw new Error(`CCIP-Read gave up after ${maxRedirects} redirects`);
+}
+
+/**
+ * Ask each gateway in turn. Per EIP-3668 a 4xx answer is final, other failures try the next URL.
+ */
+async function fetchCCIPResponse(sender: string, urls: string[], callData: string, options: CCIPReadOptions): Promise<string> {
+  const targets = [...new Set(urls.map(url => (url === LOCAL_BATCH_GATEWAY ? url : options.gatewayOverride || url)))];
+  const failures: string[] = [];
+
+  for (const url of targets) {
+    try {
+      return url === LOCAL_BATCH_GATEWAY
+        ? await runLocalBatchGateway(callData, options)
+        : await fetchGateway(url, sender, callData, options);
+    } catch (error: any) {
+      failures.push(`${url}: ${error?.message || error}`);
+      if (error instanceof GatewayError && error.status >= 400 && error.status < 500) {
+        throw error;
+      }
+    }
+  }
+
+  throw new Error(`All CCIP-Read gateways failed (${failures.join('; ') || 'no gateway URLs'})`);
+}
+
+async function fetchGateway(url: string, sender: string, callData: string, options: CCIPReadOptions): Promise<string> {
+  const fetchFn = options.fetch || fetch;
+  const lowerSender = sender.toLowerCase();
+  const href = url.replace('{sender}', lowerSender).replace('{data}', callData);
+  const request: RequestInit = url.includes('{data}')
+    ? { method: 'GET' }
+    : { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ data: callData, sender: lowerSender }) };
+
+  const response = await fetchFn(href, { ...request, signal: AbortSignal.timeout(options.timeoutMs ?? GATEWAY_TIMEOUT_MS) });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new GatewayError(response.status, body?.message || response.statusText || `HTTP ${response.status}`);
+  }
+  if (!body || !ethers.isHexString(body.data)) {
+    throw new Error('gateway response has no hex data');
+  }
+  return body.data;
+}
+
+/**
+ * Answer a batch gateway query(...) locally by running each lookup against its own gateways
+ */
+async function runLocalBatchGateway(callData: string, options: CCIPReadOptions): Promise<string> {
+  const [requests] = BATCH_GATEWAY_INTERFACE.decodeFunctionData('query', callData);
+  const results = await Promise.all((requests as any[]).map(async request => {
+    try {
+      return { failed: false, response: await fetchCCIPResponse(request.sender, [...request.urls], request.data, options) };
+    } catch (error: any) {
+      const status = error instanceof GatewayError ? error.status : 500;
+      return {
+        failed: true,
+        response: BATCH_GATEWAY_INTERFACE.encodeErrorResult('HttpError', [status, error?.message || String(error)])
+      };
+    }
+  }));
+
+  return BATCH_GATEWAY_INTERFACE.encodeFunctionResult('query', [
+    results.map(result => result.failed),
+    results.map(result => result.response)
+  ]);
+}
@@ -0,0 +1,130 @@
+// Per-chain primary names (ENSIP-19): reverse records on L2s and the default EVM reverse record
+import { ETH_COIN_TYPE, evmChainIdToCoinType } from './coins';
+
+export interface ENSReverseChain {
+  key: string;
+  name: string;
+  chainId: number;
+  coinType: number;
+  /** Registrar the reverse record is written to, on the chain itself */
+  reverseRegistrar: string;
+  /** L1 resolver for "<coinType>.reverse" that reads the L2 registrar through CCIP-Read */
+  reverseResolver: string;
+  /** Public RPC of the L2, the default record lives on the ENS chain itself */
+  rpcUrl?: string;
+  aliases: string[];
+}
+
+// ENSIP-19 default coin type: the fallback primary name for every EVM chain
+export const DEFAULT_EVM_COIN_TYPE = evmChainIdToCoinType(0);
+
+// Same L2ReverseRegistrar address on every rollup
+const L2_REVERSE_REGISTRAR = '0x00000BeEF055f7934784D6d81b6BC86665630dbA';
+
+/**
+ * Reverse records of Sepolia ENS: the default record, written on Sepolia and used by EVM chains
+ * without their own, and the L2 testnets with a reverse resolver deployed
+ */
+export const SEPOLIA_REVERSE_CHAINS: ENSReverseChain[] = [
+  {
+    key: 'default',
+    name: 'All EVM chains',
+    chainId: 0,
+    coinType: DEFAULT_EVM_COIN_TYPE,
+    reverseRegistrar: '0x4F382928805ba0e23B30cFB75fC9E848e82DFD47',
+    reverseResolver: '0x9DC60e7BD81cCc96774C55214fF389D42Ae5E9Ac',
+    aliases: ['default', 'all chains', 'every chain', 'evm']
+  },
+  {
+    key: 'base',
+    name: 'Base Sepolia',
+    chainId: 84532,
+    coinType: evmChainIdToCoinType(84532),
+    reverseRegistrar: L2_REVERSE_REGISTRAR,
+    reverseResolver: '0xaF3b3f636bE80b6709F5Bd3A374d6ac0D0a7c7aA',
+    rpcUrl: 'https://sepolia.base.org',
+    aliases: ['base', 'base sepolia']
+  },
+  {
+    key: 'optimism',
+    name: 'OP Sepolia',
+    chainId: 11155420,
+    coinType: evmChainIdToCoinType(11155420),
+    reverseRegistrar: L2_REVERSE_REGISTRAR,
+    reverseResolver: '0xc9Ae189772BD48e01410AB3Be933637ee9D3AA5f',
+    rpcUrl: 'https://sepolia.optimism.io',
+    aliases: ['optimism', 'op', 'op sepolia', 'optimism sepolia']
+  },
+  {
+    key: 'arbitrum',
+    name: 'Arbitrum Sepolia',
+    chainId: 421614,
+    coinType: evmChainIdToCoinType(421614),
+    reverseRegistrar: L2_REVERSE_REGISTRAR,
+    reverseResolver: '0x926f94D2aDC77C86Cb0050892097D49AADd02e8B',
+    rpcUrl: 'https://sepolia-rollup.arbitrum.io/rpc',
+    aliases: ['arbitrum', 'arb', 'arbitrum sepolia']
+  },
+  {
+    key: 'linea',
+    name: 'Linea Sepolia',
+    chainId: 59141,
+    coinType: evmChainIdToCoinType(59141),
+    reverseRegistrar: L2_REVERSE_REGISTRAR,
+    reverseResolver: '0x083dA1Dbc0F379ccda6AC81A934207c3D8a8a205',
+    rpcUrl: 'https://rpc.sepolia.linea.build',
+    aliases: ['linea', 'linea sepolia']
+  },
+  {
+    key: 'scroll',
+    name: 'Scroll Sepolia',
+    chainId: 534351,
+    coinType: evmChainIdToCoinType(534351),
+    reverseRegistrar: L2_REVERSE_REGISTRAR,
+    reverseResolver: '0x9Fa59673e43F15bDB8722Fdaf5C2107574B99062',
+    rpcUrl: 'https://sepolia-rpc.scroll.io',
+    aliases: ['scroll', 'scroll sepolia']
+  }
+];
+
+/**
+ * Look up one of a deployment's reverse chains by key, alias, chain id or coin type
+ */
+export function getReverseChain(chain: string | number, chains: ENSReverseChain[]): ENSReverseChain | undefined {
+  if (typeof chain === 'number') {
+    return chains.find(entry => entry.chainId === chain || entry.coinType === chain);
+  }
+  const lower = chain.trim().toLowerCase();
+  if (/^\d+$/.test(lower)) {
+    return getReverseChain(Number(lower), chains);
+  }
+  return chains.find(entry => entry.key === lower || entry.aliases.includes(lower));
+}
+
+/**
+ * Coin type to reverse resolve with for a chain: ETH for Ethereum and Sepolia, the chain's own
+ * ENSIP-11 coin type otherwise. Unknown EVM chain ids fall back to the default record on lookup.
+ */
+export function getChainCoinType(chain: string | number, chains: ENSReverseChain[]): number | undefined {
+  if (typeof chain === 'string' && /^\d+$/.test(chain.trim())) {
+    return getChainCoinType(Number(chain), chains);
+  }
+  if (chain === 1 || chain === 11155111 || chain === 'ethereum' || chain === 'sepolia') {
+    return ETH_COIN_TYPE;
+  }
+  const known = getReverseChain(chain, chains);
+  if (known) {
+    return known.coinType;
+  }
+  const chainId = Number(chain);
+  return Number.isInteger(chainId) && chainId > 0 && chainId < 0x80000000 ? evmChainIdToCoinType(chainId) : undefined;
+}
+
+/**
+ * Find the chain a chat message mentions, e.g. "my primary name on Base"
+ */
+export function findReverseChain(message: string, chains: ENSReverseChain[]): ENSReverseChain | undefined {
+  const lower = message.toLowerCase();
+  const match = lower.match(/\b(?:on|for|in)\s+(all chains|every chain|[a-z]+(?:\s+sepolia)?)\b/);
+  return match ? getReverseChain(match[1], chains) : undefined;
+}
@@ -2,6 +2,14 @@
 import { ENSAgent } from './agent';
 import { ENSAgentResponse, ChatMessage as ENSChatMessage } from './types';
 import { ethers } from 'ethers';
+import { createSessionId } from '../session';
+import { useGlobalState } from '../store/store';
+import { ENSPriceQuote, formatPriceQuote, withUsdPrice } from './pricing';
+import { formatGasEstimate, withUsdGas } from './gas';
+import { GasEstimate } from './types';
+import { findENSNames } from './normalize';
+import { normalizeName } from './utils';
+import { invalidatePrimaryName } from './primaryNames';
 
 export interface ChatMessage {
   id: string;
@@ -33,6 +41,7 @@ export class ENSChatIntegration {
   private agent: ENSAgent;
   private isInitialized: boolean = false;
   private conversationHistory: ChatMessage[] = [];
+  private sessionId: string = createSessionId();
 
   constructor() {
     this.agent = new ENSAgent();
@@ -80,6 +89,9 @@ export class ENSChatIntegration {
         body: JSON.stringify({
           message,
           userAddress,
+          sessionId: this.sessionId,
+          // ENS of the network selected in the app, the server maps L2s to their L1 deployment
+          chainId: useGlobalState.getState().targetNetwork.id,
           conversationHistory: this.conversationHistory.slice(-10) // Send last 10 messages for context
         })
       });
@@ -87,6 +99,11 @@ export class ENSChatIntegration {
       const result = await response.json();
       
       if (result.success) {
+        // Names shown for the address are stale once its primary name changed
+        const operation = result.transaction?.operation;
+        if (result.transaction?.status === 'confirmed' && (operation?.type === 'setPrimaryName' || operation?.type === 'clearPrimaryName')) {
+          invalidatePrimaryName(operation.data?.address || userAddress);
+        }
         const chatMessage = this.convertToChatMessage(message, result);
         this.conversationHistory.push(chatMessage);
         return {
@@ -171,21 +188,49 @@ export class ENSChatIntegration {
       metadata: {
         ensQuery: this.extractENSName(userMessage),
         action: response.data,
-        confidence: response.success ? 0.9 : 0.1
+        confidence: response.success ? 0.9 : 0.1,
+        suggestions: response.data?.suggestions
       }
     };
 
+    // Price quotes and fee estimates come from the server in ETH, add USD from the native price in the store
+    const nativePrice = useGlobalState.getState().nativeCurrency.price;
+    let quote: ENSPriceQuote | undefined = response.data?.priceQuote || undefined;
+    if (quote) {
+      quote = withUsdPrice(quote, nativePrice);
+      if (quote.usd) {
+        chatMessage.content = chatMessage.content.replace(
+          formatPriceQuote(response.data.priceQuote),
+          formatPriceQuote(quote)
+        );
+        chatMessage.metadata!.action = { ...chatMessage.metadata!.action, priceQuote: quote };
+      }
+    }
+
+    let gasEstimate: GasEstimate | undefined = response.data?.gasEstimate || undefined;
+    if (gasEstimate) {
+      gasEstimate = withUsdGas(gasEstimate, nativePrice);
+      if (gasEstimate.feeUsd !== undefined) {
+        chatMessage.content = chatMessage.content.replace(
+          formatGasEstimate(response.data.gasEstimate),
+          formatGasEstimate(gasEstimate)
+        );
+        chatMessage.metadata!.action = { ...chatMessage.metadata!.action, gasEstimate };
+      }
+    }
+
     // Add pending actions if it's a transaction
     if (response.transaction) {
       const operationType = response.transaction.type || response.data?.type;
       const ensName = response.transaction.ensName || this.extractENSName(userMessage);
-      const cost = response.data?.costEth || response.data?.price || '0.01 ETH';
+      const cost = quote ? formatPriceQuote(quote) : response.data?.price;
       
       chatMessage.pendingAction = {
         type: 'ens_operation',
         description: this.getOperationDescription(operationType),
         ensName: ensName,
         cost: cost,
+        gasEstimate,
         txHash: response.transaction.hash
       };
 
@@ -220,9 +265,8 @@ export class ENSChatIntegration {
    * Extract ENS name from message
    */
   private extractENSName(message: string): string | undefined {
-    const ensPattern = /([a-z0-9-]+\.eth)/gi;
-    const match = message.match(ensPattern);
-    return match ? match[0].toLowerCase() : undefined;
+    const [name] = findENSNames(message);
+    return name ? normalizeName(name) : undefined;
   }
 
   /**
@@ -233,14 +277,36 @@ export class ENSChatIntegration {
       'register': 'Registering ENS name',
       'renew': 'Renewing ENS name',
       'setRecord': 'Setting ENS record',
+      'setRecords': 'Setting ENS records',
       'transfer': 'Transferring ENS name',
       'resolve': 'Resolving ENS name',
       'commit': 'Creating commitment',
       'reveal': 'Revealing commitment',
       'registration_ready': 'Ready to register ENS name',
       'renewal_ready': 'Ready to renew ENS name',
+      'bulkRenew': 'Renewing ENS names',
+      'bulk_renewal_ready': 'Ready to renew ENS names',
       'set_record_ready': 'Ready to set ENS record',
+      'set_records_ready': 'Ready to set ENS records',
+      'set_contenthash_ready': 'Ready to set content hash',
+      'contenthash_info': 'Content hash',
       'transfer_ready': 'Ready to transfer ENS name',
+      'setPrimaryName': 'Setting primary name',
+      'clearPrimaryName': 'Clearing primary name',
+      'set_primary_name_ready': 'Ready to set primary name',
+      'clear_primary_name_ready': 'Ready to clear primary name',
+      'reverse_resolution': 'Primary name',
+      'primary_names': 'Primary names by chain',
+      'importDNSName': 'Importing DNS name',
+      'dns_import_ready': 'Ready to import DNS name',
+      'dns_import_status': 'DNS import status',
+      'dns_offchain_config': 'Offchain DNS resolution',
+      'expiry_report': 'Name expiry',
+      'portfolio': 'ENS names',
+      'name_history': 'Name history',
+      'create_subname_ready': 'Ready to create subname',
+      'delete_subname_ready': 'Ready to delete subname',
+      'subname_list': 'Subnames',
       'name_available': 'ENS name is available',
       'name_registered': 'ENS name is registered',
       'general_query': 'ENS name query'
@@ -278,10 +344,18 @@ export class ENSChatIntegration {
   }
 
   /**
-   * Clear conversation history
+   * Clear conversation history and start a new server-side session
    */
   clearConversationHistory(): void {
     this.conversationHistory = [];
+    this.sessionId = createSessionId();
+  }
+
+  /**
+   * Get the session id sent with chat requests
+   */
+  getSessionId(): string {
+    return this.sessionId;
   }
 
   /**
@@ -0,0 +1,323 @@
+// Multi-coin address encoding for resolver addr records (ENSIP-9 and ENSIP-11)
+import { ethers } from 'ethers';
+import { decodeBase58, encodeBase58 } from './encoding';
+
+// ENSIP-11: EVM chains use 0x80000000 | chainId as their coin type
+const EVM_COIN_TYPE_FLAG = 0x80000000;
+
+export const ETH_COIN_TYPE = 60;
+
+export interface CoinFormat {
+  symbol: string;
+  name: string;
+  coinType: number;
+  /** Encode a human readable address into the bytes stored by the resolver */
+  encode(address: string): Uint8Array;
+  /** Decode resolver bytes back into a human readable address */
+  decode(data: Uint8Array): string;
+}
+
+/**
+ * Convert an EVM chain id to its ENSIP-11 coin type
+ */
+export function evmChainIdToCoinType(chainId: number): number {
+  return (EVM_COIN_TYPE_FLAG | chainId) >>> 0;
+}
+
+/**
+ * Convert an ENSIP-11 coin type back to its chain id, or null for non-EVM coin types
+ */
+export function coinTypeToEvmChainId(coinType: number): number | null {
+  if (coinType === ETH_COIN_TYPE) return 1;
+  return coinType >= EVM_COIN_TYPE_FLAG ? coinType - EVM_COIN_TYPE_FLAG : null;
+}
+
+// Base58Check
+
+function base58CheckChecksum(payload: Uint8Array): Uint8Array {
+  return ethers.getBytes(ethers.sha256(ethers.sha256(payload))).slice(0, 4);
+}
+
+function decodeBase58Check(value: string): Uint8Array {
+  const data = decodeBase58(value);
+  if (data.length < 5) {
+    throw new Error('address is too short');
+  }
+  const payload = data.slice(0, -4);
+  if (ethers.hexlify(base58CheckChecksum(payload)) !== ethers.hexlify(data.slice(-4))) {
+    throw new Error('invalid checksum');
+  }
+  return payload;
+}
+
+function encodeBase58Check(payload: Uint8Array): string {
+  return encodeBase58(ethers.getBytes(ethers.concat([payload, base58CheckChecksum(payload)])));
+}
+
+// Bech32 and bech32m (BIP-173, BIP-350)
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+
+function bech32Polymod(values: number[]): number {
+  const generators = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    generators.forEach((generator, i) => {
+      if ((top >>> i) & 1) checksum ^= generator;
+    });
+  }
+  return checksum >>> 0;
+}
+
+function bech32HrpExpand(hrp: string): number[] {
+  const chars = [...hrp].map(char => char.charCodeAt(0));
+  return [...chars.map(c => c >> 5), 0, ...chars.map(c => c & 31)];
+}
+
+function convertBits(data: number[], fromBits: number, toBits: number, pad: boolean): number[] {
+  let accumulator = 0;
+  let bits = 0;
+  const result: number[] = [];
+  const maxValue = (1 << toBits) - 1;
+  for (const value of data) {
+    accumulator = (accumulator << fromBits) | value;
+    bits += fromBits;
+    while (bits >= toBits) {
+      bits -= toBits;
+      result.push((accumulator >> bits) & maxValue);
+    }
+  }
+  if (pad && bits > 0) {
+    result.push((accumulator << (toBits - bits)) & maxValue);
+  } else if (!pad && (bits >= fromBits || ((accumulator << (toBits - bits)) & maxValue))) {
+    throw new Error('invalid padding');
+  }
+  return result;
+}
+
+function decodeSegwit(hrp: string, address: string): { version: number; program: Uint8Array } {
+  const lower = address.toLowerCase();
+  if (address !== lower && address !== address.toUpperCase()) {
+    throw new Error('mixed case bech32 address');
+  }
+  const separator = lower.lastIndexOf('1');
+  if (lower.slice(0, separator) !== hrp) {
+    throw new Error(`expected a ${hrp}1... address`);
+  }
+  const words = [...lower.slice(separator + 1)].map(char => {
+    const index = BECH32_CHARSET.indexOf(char);
+    if (index === -1) throw new Error(`invalid bech32 character "${char}"`);
+    return index;
+  });
+  if (words.length < 7) {
+    throw new Error('address is too short');
+  }
+
+  const version = words[0];
+  const expected = version === 0 ? BECH32_CONST : BECH32M_CONST;
+  if (bech32Polymod([...bech32HrpExpand(hrp), ...words]) !== expected) {
+    throw new Error('invalid checksum');
+  }
+
+  const program = convertBits(words.slice(1, -6), 5, 8, false);
+  if (version > 16 || program.length < 2 || program.length > 40 || (version === 0 && program.length !== 20 && program.length !== 32)) {
+    throw new Error('invalid witness program');
+  }
+  return { version, program: new Uint8Array(program) };
+}
+
+function encodeSegwit(hrp: string, version: number, program: Uint8Array): string {
+  const words = [version, ...convertBits([...program], 8, 5, true)];
+  const constant = version === 0 ? BECH32_CONST : BECH32M_CONST;
+  const polymod = bech32Polymod([...bech32HrpExpand(hrp), ...words, 0, 0, 0, 0, 0, 0]) ^ constant;
+  const checksum = [0, 1, 2, 3, 4, 5].map(i => (polymod >>> (5 * (5 - i))) & 31);
+  return `${hrp}1${[...words, ...checksum].map(word => BECH32_CHARSET[word]).join('')}`;
+}
+
+// Bitcoin-style script encodings (P2PKH, P2SH and segwit scriptPubkeys)
+
+function bitcoinStyleFormat(
+  symbol: string,
+  name: string,
+  coinType: number,
+  p2pkhVersions: number[],
+  p2shVersions: number[],
+  hrp?: string
+): CoinFormat {
+  return {
+    symbol,
+    name,
+    coinType,
+    encode(address: string): Uint8Array {
+      if (hrp && address.toLowerCase().startsWith(`${hrp}1`)) {
+        const { version, program } = decodeSegwit(hrp, address);
+        const opcode = version === 0 ? 0 : 0x50 + version;
+        return ethers.getBytes(ethers.concat([new Uint8Array([opcode, program.length]), program]));
+      }
+
+      const payload = decodeBase58Check(address);
+      if (payload.length !== 21) {
+        throw new Error('invalid address length');
+      }
+      const hash = payload.slice(1);
+      if (p2pkhVersions.includes(payload[0])) {
+        return ethers.getBytes(ethers.concat(['0x76a914', hash, '0x88ac']));
+      }
+      if (p2shVersions.includes(payload[0])) {
+        return ethers.getBytes(ethers.concat(['0xa914', hash, '0x87']));
+      }
+      throw new Error(`unrecognised ${symbol} address version`);
+    },
+    decode(data: Uint8Array): string {
+      const hex = ethers.hexlify(data);
+      if (data.length === 25 && hex.startsWith('0x76a914') && hex.endsWith('88ac')) {
+        return encodeBase58Check(ethers.getBytes(ethers.concat([new Uint8Array([p2pkhVersions[0]]), data.slice(3, 23)])));
+      }
+      if (data.length === 23 && hex.startsWith('0xa914') && hex.endsWith('87')) {
+        return encodeBase58Check(ethers.getBytes(ethers.concat([new Uint8Array([p2shVersions[0]]), data.slice(2, 22)])));
+      }
+      if (hrp && data.length >= 4 && (data[0] === 0 || (data[0] >= 0x51 && data[0] <= 0x60)) && data[1] === data.length - 2) {
+        const version = data[0] === 0 ? 0 : data[0] - 0x50;
+        return encodeSegwit(hrp, version, data.slice(2));
+      }
+      throw new Error(`unrecognised ${symbol} script`);
+    }
+  };
+}
+
+function evmFormat(symbol: string, name: string, coinType: number): CoinFormat {
+  return {
+    symbol,
+    name,
+    coinType,
+    encode(address: string): Uint8Array {
+      if (!ethers.isAddress(address)) {
+        throw new Error('invalid EVM address');
+      }
+      return ethers.getBytes(ethers.getAddress(address));
+    },
+    decode(data: Uint8Array): string {
+      if (data.length !== 20) {
+        throw new Error('invalid EVM address length');
+      }
+      return ethers.getAddress(ethers.hexlify(data));
+    }
+  };
+}
+
+const solanaFormat: CoinFormat = {
+  symbol: 'SOL',
+  name: 'Solana',
+  coinType: 501,
+  encode(address: string): Uint8Array {
+    const data = decodeBase58(address);
+    if (data.length !== 32) {
+      throw new Error('invalid Solana address length');
+    }
+    return data;
+  },
+  decode(data: Uint8Array): string {
+    if (data.length !== 32) {
+      throw new Error('invalid Solana address length');
+    }
+    return encodeBase58(data);
+  }
+};
+
+export const COIN_FORMATS: CoinFormat[] = [
+  evmFormat('ETH', 'Ethereum', ETH_COIN_TYPE),
+  bitcoinStyleFormat('BTC', 'Bitcoin', 0, [0x00], [0x05], 'bc'),
+  bitcoinStyleFormat('LTC', 'Litecoin', 2, [0x30], [0x32, 0x05], 'ltc'),
+  bitcoinStyleFormat('DOGE', 'Dogecoin', 3, [0x1e], [0x16]),
+  solanaFormat,
+  evmFormat('OP', 'Optimism', evmChainIdToCoinType(10)),
+  evmFormat('BASE', 'Base', evmChainIdToCoinType(8453)),
+  evmFormat('ARB1', 'Arbitrum One', evmChainIdToCoinType(42161))
+];
+
+// Names users type for each supported coin, matched case-insensitively
+const COIN_ALIASES: Record<string, number> = {
+  eth: ETH_COIN_TYPE,
+  ethereum: ETH_COIN_TYPE,
+  btc: 0,
+  bitcoin: 0,
+  ltc: 2,
+  litecoin: 2,
+  doge: 3,
+  dogecoin: 3,
+  sol: 501,
+  solana: 501,
+  op: evmChainIdToCoinType(10),
+  optimism: evmChainIdToCoinType(10),
+  base: evmChainIdToCoinType(8453),
+  arb: evmChainIdToCoinType(42161),
+  arb1: evmChainIdToCoinType(42161),
+  arbitrum: evmChainIdToCoinType(42161)
+};
+
+/**
+ * Look up the format for a coin type
+ */
+export function getCoinFormat(coinType: number): CoinFormat | undefined {
+  return COIN_FORMATS.find(format => format.coinType === coinType);
+}
+
+/**
+ * Resolve a coin symbol or name ("btc", "Base") to its coin type
+ */
+export function resolveCoinType(coin: string): number | undefined {
+  return COIN_ALIASES[coin.trim().toLowerCase()];
+}
+
+/**
+ * Display name for a coin type, e.g. "BTC" or "Chain 137" for unlisted EVM chains
+ */
+export function getCoinName(coinType: number): string {
+  const format = getCoinFormat(coinType);
+  if (format) return format.symbol;
+
+  const chainId = coinTypeToEvmChainId(coinType);
+  return chainId !== null ? `Chain ${chainId}` : `Coin ${coinType}`;
+}
+
+/**
+ * Encode an address for setAddr(node, coinType, bytes). Unlisted EVM chains use the EVM encoding.
+ */
+export function encodeCoinAddress(coinType: number, address: string): string {
+  const format = getCoinFormat(coinType)
+    || (coinTypeToEvmChainId(coinType) !== null ? evmFormat(getCoinName(coinType), getCoinName(coinType), coinType) : undefined);
+  if (!format) {
+    throw new Error(`Unsupported coin type ${coinType}`);
+  }
+
+  try {
+    return ethers.hexlify(format.encode(address.trim()));
+  } catch (error: any) {
+    throw new Error(`Invalid ${format.symbol} address ${address}: ${error?.message || error}`);
+  }
+}
+
+/**
+ * Decode addr(node, coinType) bytes, falling back to the raw hex for unsupported coin types
+ */
+export function decodeCoinAddress(coinType: number, data: string): string {
+  if (!data || data === '0x') {
+    return '';
+  }
+
+  const format = getCoinFormat(coinType)
+    || (coinTypeToEvmChainId(coinType) !== null ? evmFormat(getCoinName(coinType), getCoinName(coinType), coinType) : undefined);
+  if (!format) {
+    return data;
+  }
+
+  try {
+    return format.decode(ethers.getBytes(data));
+  } catch {
+    return data;
+  }
+}
@@ -0,0 +1,260 @@
+// Contenthash record encoding for decentralized websites (ENSIP-7)
+import { ethers } from 'ethers';
+import {
+  decodeBase32,
+  decodeBase36,
+  decodeBase58,
+  decodeBase64Url,
+  decodeVarint,
+  encodeBase32,
+  encodeBase36,
+  encodeBase64Url,
+  encodeVarint
+} from './encoding';
+
+export type ContentHashProtocol = 'ipfs' | 'ipns' | 'bzz' | 'ar' | 'onion' | 'onion3';
+
+export interface DecodedContentHash {
+  protocol: ContentHashProtocol;
+  value: string;
+  uri: string;
+  gatewayUrl: string;
+}
+
+// Multicodec codes of the contenthash namespaces
+const CONTENTHASH_CODECS: Record<ContentHashProtocol, number> = {
+  ipfs: 0xe3,
+  ipns: 0xe5,
+  bzz: 0xe4,
+  ar: 0xb29910,
+  onion: 0x01bc,
+  onion3: 0x01bd
+};
+
+// Multicodec codes used inside CIDs
+const DAG_PB_CODEC = 0x70;
+const LIBP2P_KEY_CODEC = 0x72;
+const SWARM_MANIFEST_CODEC = 0xfa;
+const KECCAK_256_MULTIHASH = 0x1b;
+
+// Matches contenthash URIs in free text: ipfs://, ipns://, bzz://, ar://, /ipfs/ paths and .onion hosts
+const CONTENTHASH_URI_PATTERN = /(?:\b(?:ipfs|ipns|bzz|ar|arweave|onion3?):\/\/[^\s"'<>]+|\/ip[fn]s\/[^\s"'<>]+|\b[a-z2-7]{16}(?:[a-z2-7]{40})?\.onion\b)/i;
+
+/**
+ * Encode a URI such as ipfs://bafy..., ipns://k51..., bzz://<hash>, ar://<tx> or <address>.onion
+ * into contenthash bytes for setContenthash
+ */
+export function encodeContentHash(uri: string): string {
+  const { protocol, value } = parseContentHashURI(uri);
+
+  let payload: Uint8Array;
+  switch (protocol) {
+    case 'ipfs':
+      payload = parseCID(value, DAG_PB_CODEC);
+      break;
+    case 'ipns':
+      if (value.includes('.')) {
+        throw new Error('DNSLink names cannot be stored in a contenthash, use the IPNS key (k51...) instead');
+      }
+      payload = parseCID(value, LIBP2P_KEY_CODEC);
+      break;
+    case 'bzz': {
+      if (!/^(0x)?[0-9a-fA-F]{64}$/.test(value)) {
+        throw new Error('Swarm references must be a 32-byte hex hash');
+      }
+      const hash = ethers.getBytes(value.startsWith('0x') ? value : `0x${value}`);
+      payload = concatBytes(
+        encodeVarint(1),
+        encodeVarint(SWARM_MANIFEST_CODEC),
+        encodeVarint(KECCAK_256_MULTIHASH),
+        encodeVarint(hash.length),
+        hash
+      );
+      break;
+    }
+    case 'ar': {
+      const txId = decodeBase64Url(value);
+      if (txId.length !== 32) {
+        throw new Error('Arweave transaction ids are 43 base64url characters');
+      }
+      payload = txId;
+      break;
+    }
+    case 'onion':
+    case 'onion3': {
+      const expectedLength = protocol === 'onion' ? 16 : 56;
+      if (!new RegExp(`^[a-z2-7]{${expectedLength}}$`).test(value)) {
+        throw new Error(`${protocol} addresses are ${expectedLength} base32 characters`);
+      }
+      payload = ethers.toUtf8Bytes(value);
+      break;
+    }
+  }
+
+  return ethers.hexlify(concatBytes(encodeVarint(CONTENTHASH_CODECS[protocol]), payload));
+}
+
+/**
+ * Decode contenthash bytes returned by a resolver, or null when empty or unrecognised
+ */
+export function decodeContentHash(data: string): DecodedContentHash | null {
+  if (!data || data === '0x') {
+    return null;
+  }
+
+  try {
+    const bytes = ethers.getBytes(data);
+    const codec = decodeVarint(bytes);
+    const payload = bytes.slice(codec.length);
+    const protocol = (Object.keys(CONTENTHASH_CODECS) as ContentHashProtocol[])
+      .find(key => CONTENTHASH_CODECS[key] === codec.value);
+
+    let value: string;
+    switch (protocol) {
+      case 'ipfs':
+        value = `b${encodeBase32(payload)}`;
+        break;
+      case 'ipns': {
+        // IPNS keys are conventionally shown in base36, other CIDs in base32
+        const cidCodec = decodeVarint(payload, 1);
+        value = cidCodec.value === LIBP2P_KEY_CODEC ? `k${encodeBase36(payload)}` : `b${encodeBase32(payload)}`;
+        break;
+      }
+      case 'bzz':
+        value = ethers.hexlify(payload.slice(-32)).slice(2);
+        break;
+      case 'ar':
+        value = encodeBase64Url(payload);
+        break;
+      case 'onion':
+      case 'onion3':
+        value = ethers.toUtf8String(payload);
+        break;
+      default:
+        return null;
+    }
+
+    return {
+      protocol,
+      value,
+      uri: `${protocol}://${value}`,
+      gatewayUrl: getContentHashGatewayUrl(protocol, value)
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * HTTP gateway URL for viewing content in a regular browser
+ */
+export function getContentHashGatewayUrl(protocol: ContentHashProtocol, value: string): string {
+  switch (protocol) {
+    case 'ipfs':
+      return `https://ipfs.io/ipfs/${value}`;
+    case 'ipns':
+      return `https://ipfs.io/ipns/${value}`;
+    case 'bzz':
+      return `https://api.gateway.ethswarm.org/bzz/${value}/`;
+    case 'ar':
+      return `https://arweave.net/${value}`;
+    case 'onion':
+    case 'onion3':
+      // Onion services need Tor, there is no public HTTP gateway
+      return `http://${value}.onion`;
+  }
+}
+
+/**
+ * Find a contenthash URI in a chat message
+ */
+export function findContentHashURI(message: string): string | null {
+  const match = message.match(CONTENTHASH_URI_PATTERN);
+  return match ? match[0].replace(/[.,!?)]+$/, '') : null;
+}
+
+/**
+ * Split a URI into its protocol and value, accepting ipfs://x, /ipfs/x and x.onion forms
+ */
+function parseContentHashURI(uri: string): { protocol: ContentHashProtocol; value: string } {
+  const trimmed = uri.trim();
+
+  const pathMatch = trimmed.match(/^\/(ipfs|ipns)\/([^/?#]+)\/?$/i);
+  if (pathMatch) {
+    return { protocol: pathMatch[1].toLowerCase() as ContentHashProtocol, value: pathMatch[2] };
+  }
+
+  const onionHost = trimmed.match(/^(?:https?:\/\/)?([a-z2-7]{16}|[a-z2-7]{56})\.onion\/?$/i);
+  if (onionHost) {
+    const host = onionHost[1].toLowerCase();
+    return { protocol: host.length === 16 ? 'onion' : 'onion3', value: host };
+  }
+
+  const uriMatch = trimmed.match(/^([a-z0-9]+):\/\/([^/?#]+)\/?$/i);
+  if (!uriMatch) {
+    throw new Error(`Unsupported content URI "${uri}", use ipfs://, ipns://, bzz://, ar:// or an onion address`);
+  }
+
+  const scheme = uriMatch[1].toLowerCase();
+  const value = uriMatch[2];
+  if (scheme === 'arweave') {
+    return { protocol: 'ar', value };
+  }
+  if (scheme === 'onion' || scheme === 'onion3') {
+    const host = value.toLowerCase().replace(/\.onion$/, '');
+    return { protocol: host.length === 16 ? 'onion' : 'onion3', value: host };
+  }
+  if (scheme in CONTENTHASH_CODECS) {
+    return { protocol: scheme as ContentHashProtocol, value };
+  }
+  throw new Error(`Unsupported content protocol "${scheme}", use ipfs, ipns, bzz, ar or onion`);
+}
+
+/**
+ * Parse a CID string into CIDv1 bytes. CIDv0 and bare base58 multihashes
+ * (including libp2p peer ids) are upgraded to CIDv1 with the given codec.
+ */
+function parseCID(value: string, defaultCodec: number): Uint8Array {
+  let bytes: Uint8Array;
+  if (value.startsWith('Qm') || value.startsWith('12D3Koo')) {
+    bytes = concatBytes(encodeVarint(1), encodeVarint(defaultCodec), decodeBase58(value));
+  } else {
+    const multibase = value[0];
+    const body = value.slice(1);
+    switch (multibase) {
+      case 'b':
+      case 'B':
+        bytes = decodeBase32(body);
+        break;
+      case 'k':
+      case 'K':
+        bytes = decodeBase36(body);
+        break;
+      case 'z':
+        bytes = decodeBase58(body);
+        break;
+      case 'f':
+      case 'F':
+        bytes = ethers.getBytes(`0x${body}`);
+        break;
+      default:
+        throw new Error(`Unsupported CID "${value}"`);
+    }
+  }
+
+  if (bytes[0] !== 1) {
+    throw new Error(`Unsupported CID version in "${value}"`);
+  }
+  // Version, content codec and a multihash (code, length, digest) must all be present
+  const codec = decodeVarint(bytes, 1);
+  const hashCode = decodeVarint(bytes, 1 + codec.length);
+  const hashLength = decodeVarint(bytes, 1 + codec.length + hashCode.length);
+  if (bytes.length !== 1 + codec.length + hashCode.length + hashLength.length + hashLength.value) {
+    throw new Error(`Malformed CID "${value}"`);
+  }
+  return bytes;
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  return ethers.getBytes(ethers.concat(parts));
+}
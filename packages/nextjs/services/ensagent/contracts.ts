@@ -1,29 +1,112 @@
 // ENS Contract Interaction Module
 import { ethers } from 'ethers';
 import { CONTRACT_ABIS } from '../../abis/contracts';
-import { SEPOLIA_NETWORK } from '../../abis/constants';
-import { ENSAgentConfig, ENSOperation, ENSAgentResponse } from './types';
+import {
+  ENSAgentConfig,
+  ENSOperation,
+  ENSAgentResponse,
+  WrappedNameData,
+  SubnameOptions,
+  SubnameInfo,
+  OwnedName,
+  ENSBulkRenewalResult,
+  ENSRecordUpdate,
+  ENSBatchOperation,
+  ENSTransaction,
+  PreparedOperation
+} from './types';
+import { buildRegistrationParams } from './registration';
+import { getRentPriceQuote, getBulkRentPriceQuote, formatPriceQuote, formatBulkPriceQuote, getPaymentValue } from './pricing';
+import { GasEstimateStep, estimateTransactionsGas, formatGasEstimate } from './gas';
+import { PREPARED_OPERATION_TYPES, toPreparedTransactions } from './transactions';
+import { COIN_FORMATS, ETH_COIN_TYPE, encodeCoinAddress, decodeCoinAddress, getCoinName } from './coins';
+import { encodeContentHash, decodeContentHash } from './contenthash';
+import { DEFAULT_CCIP_GATEWAYS, ccipReadCall, getCCIPConfigFromEnv, getRevertData } from './ccip';
+import { LOG_QUERY_BLOCK_RANGE, getDeploymentConfig } from './deployments';
+import { DEFAULT_EVM_COIN_TYPE, ENSReverseChain, getReverseChain } from './chains';
+import { DNSClient, DNS_TYPES, DoHClient, decodeDNSName, dnsNamehash, encodeDNSName, normalizeDNSName } from './dns';
+import { DNSSECProof, buildDNSSECProof, parseENS1Record, parseENSOwnerRecord, parseTrustAnchorKeyTags } from './dnssec';
+import { DEFAULT_EXPIRY_THRESHOLDS, GRACE_PERIOD_DAYS, getNameExpiry } from './expiry';
+import { ENSNameSuggestion, MulticallRequest, aggregateCalls, generateNameCandidates, rankNameSuggestions } from './suggestions';
+import { normalizeENSName } from './normalize';
+import { ENS_CALL_CONTRACTS, decodeENSCall } from './calldata';
+import {
+  AVATAR_CACHE_TTL_MS,
+  AvatarCache,
+  AvatarGateways,
+  DEFAULT_AVATAR_GATEWAYS,
+  DEFAULT_AVATAR_RPC_URLS,
+  ENSAvatar,
+  ERC1155_AVATAR_ABI,
+  ERC721_AVATAR_ABI,
+  avatarCache,
+  expandTokenURI,
+  fetchNFTImage,
+  getAvatarConfigFromEnv,
+  parseAvatarRecord,
+  resolveAvatarURI
+} from './avatar';
+import {
+  NameHistoryLog,
+  NameHistoryQuery,
+  decodeNameHistory,
+  getHistoryResolvers,
+  getRegistryHistoryQueries,
+  getResolverHistoryQueries
+} from './history';
+import {
+  PortfolioCache,
+  PortfolioName,
+  PortfolioScan,
+  createPortfolioScan,
+  getHeldLabelHashes,
+  portfolioCache,
+  recordTransfer
+} from './portfolio';
+import { diffRecordUpdate, encodeRecordCall, formatRecordDiff, validateRecordUpdate, getRecordLabel } from './records';
+import {
+  NAME_WRAPPER_FUSES,
+  NameWrapperFuse,
+  OWNER_CONTROLLED_FUSES,
+  decodeFuses,
+  encodeFuses,
+  getFuseWarnings,
+  isSubdomain,
+  getParentDomain,
+  validateLabel,
+  normalizeName,
+  encodeUnknownLabel,
+  isETH2LD
+} from './utils';
 
 export class ENSContractManager {
   private provider: ethers.Provider;
   private signer: ethers.Signer | null = null;
   private config: ENSAgentConfig;
+  // Plaintext labels seen for subnames, keyed by labelhash
+  private knownLabels: Map<string, string> = new Map();
+  // DNS lookups for importing DNS names, swapped for fixtures in tests
+  private dnsClient: DNSClient = new DoHClient();
+  // Owned-name scans and recovered labels, shared by every manager in the process and keyed by chain
+  private portfolios: PortfolioCache = portfolioCache;
+  // Resolved avatars, shared by every manager in the process and keyed by chain
+  private avatars: AvatarCache = avatarCache;
 
   constructor(provider: ethers.Provider, config?: Partial<ENSAgentConfig>) {
     this.provider = provider;
+    const defaults = getDeploymentConfig();
     this.config = {
-      network: SEPOLIA_NETWORK,
-      contracts: SEPOLIA_NETWORK.ensContracts,
+      ...defaults,
+      ...config,
       settings: {
-        defaultResolver: SEPOLIA_NETWORK.ensContracts.PublicResolver,
-        supportedTLDs: ['.eth', '.test'],
-        maxNameLength: 50,
-        registrationPrice: '0.01',
-        minCommitmentAge: 60,
-        minRegistrationDuration: 28 * 24 * 60 * 60
-      },
-      ...config
-          };
+        ...defaults.settings,
+        ccipGateways: DEFAULT_CCIP_GATEWAYS,
+        ...getCCIPConfigFromEnv(),
+        ...getAvatarConfigFromEnv(),
+        // Settings passed in add to the defaults and environment instead of replacing them
+        ...config?.settings
+      }
+    };
     console.log(`ENS Contract Manager initialized with RPC: ${this.config.network.rpcUrl}`);
   }
 
@@ -31,13 +114,30 @@ export class ENSContractManager {
     this.signer = signer;
   }
 
+  hasSigner(): boolean {
+    return this.signer !== null;
+  }
+
+  setDNSClient(client: DNSClient) {
+    this.dnsClient = client;
+  }
+
+  // Address of an ENS contract on the configured network, which may not deploy all of them
+  private getContractAddress(contract: keyof ENSAgentConfig['contracts']): string {
+    const address = this.config.contracts[contract];
+    if (!address || address === ethers.ZeroAddress) {
+      throw new Error(`${contract} is not deployed on ${this.config.network.name}`);
+    }
+    return address;
+  }
+
   // ENS Registry Contract
   private getENSRegistry() {
     console.log(`Creating ENS Registry contract with address: ${this.config.contracts.ENSRegistry}`);
     console.log(`Provider: ${this.provider}`);
     console.log(`Signer: ${this.signer}`);
     return new ethers.Contract(
-      this.config.contracts.ENSRegistry,
+      this.getContractAddress('ENSRegistry'),
       CONTRACT_ABIS.ENSRegistry,
       this.signer || this.provider
     );
@@ -46,7 +146,7 @@ export class ENSContractManager {
   // Base Registrar Contract
   private getBaseRegistrar() {
     return new ethers.Contract(
-      this.config.contracts.BaseRegistrar,
+      this.getContractAddress('BaseRegistrar'),
       CONTRACT_ABIS.BaseRegistrar,
       this.signer || this.provider
     );
@@ -55,39 +155,102 @@ export class ENSContractManager {
   // ETH Registrar Controller Contract
   private getETHRegistrarController() {
     return new ethers.Contract(
-      this.config.contracts.ETHRegistrarController,
+      this.getContractAddress('ETHRegistrarController'),
       CONTRACT_ABIS.ETHRegistrarController,
       this.signer || this.provider
     );
   }
 
-  // Public Resolver Contract
-  private getPublicResolver() {
+  // Static Bulk Renewal Contract, renews through the ETH Registrar Controller
+  private getBulkRenewal() {
     return new ethers.Contract(
-      this.config.contracts.PublicResolver,
-      CONTRACT_ABIS.PublicResolver,
+      this.getContractAddress('StaticBulkRenewal'),
+      CONTRACT_ABIS.StaticBulkRenewal,
       this.signer || this.provider
     );
   }
 
+  // Resolver a name is set to in the registry, the PublicResolver when it has none
+  private async getNameResolver(node: string, runner: ethers.ContractRunner = this.signer || this.provider) {
+    const current: string = await this.getENSRegistry().resolver(node);
+    return new ethers.Contract(
+      current !== ethers.ZeroAddress ? current : this.config.contracts.PublicResolver,
+      CONTRACT_ABIS.PublicResolver,
+      runner
+    );
+  }
+
   // Reverse Registrar Contract
   private getReverseRegistrar() {
     return new ethers.Contract(
-      this.config.contracts.ReverseRegistrar,
+      this.getContractAddress('ReverseRegistrar'),
       CONTRACT_ABIS.ReverseRegistrar,
       this.signer || this.provider
     );
   }
 
+  // Reverse registrar of a chain's primary names (ENSIP-19), on that chain
+  private getChainReverseRegistrar(chain: ENSReverseChain, runner: ethers.ContractRunner) {
+    return new ethers.Contract(chain.reverseRegistrar, CONTRACT_ABIS.DefaultReverseRegistrar, runner);
+  }
+
+  // Chains with their own primary names in this deployment
+  getReverseChains(): ENSReverseChain[] {
+    return this.config.reverseChains || [];
+  }
+
+  // Provider of the chain a reverse record lives on
+  private getChainProvider(chain: ENSReverseChain): ethers.Provider {
+    return chain.rpcUrl ? new ethers.JsonRpcProvider(chain.rpcUrl, chain.chainId, { staticNetwork: true }) : this.provider;
+  }
+
+  // Provider of the chain an NFT avatar lives on, null when no RPC is known for it
+  private getAvatarProvider(chainId: number): ethers.Provider | null {
+    if (chainId === this.config.network.chainId) return this.provider;
+    const rpcUrl = { ...DEFAULT_AVATAR_RPC_URLS, ...this.config.settings.avatarRpcUrls }[chainId];
+    return rpcUrl ? new ethers.JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true }) : null;
+  }
+
+  private getAvatarGateways(): AvatarGateways {
+    return {
+      ipfs: this.config.settings.ipfsGateway || DEFAULT_AVATAR_GATEWAYS.ipfs,
+      arweave: this.config.settings.arweaveGateway || DEFAULT_AVATAR_GATEWAYS.arweave
+    };
+  }
+
+  // Name Wrapper Contract
+  private getNameWrapper() {
+    return new ethers.Contract(
+      this.getContractAddress('NameWrapper'),
+      CONTRACT_ABIS.NameWrapper,
+      this.signer || this.provider
+    );
+  }
+
   // Universal Resolver Contract
   private getUniversalResolver() {
     return new ethers.Contract(
-      this.config.contracts.UniversalResolver,
+      this.getContractAddress('UniversalResolver'),
       CONTRACT_ABIS.UniversalResolver,
       this.signer || this.provider
     );
   }
 
+  // DNS Registrar Contract
+  private getDNSRegistrar() {
+    return new ethers.Contract(
+      this.getContractAddress('DNSRegistrar'),
+      CONTRACT_ABIS.DNSRegistrar,
+      this.signer || this.provider
+    );
+  }
+
+  // DNSSEC oracle the DNS Registrar verifies proofs with
+  private async getDNSSECOracle() {
+    const oracle: string = await this.getDNSRegistrar().oracle();
+    return new ethers.Contract(oracle, CONTRACT_ABIS.DNSSECImpl, this.provider);
+  }
+
   /**
    * Check if a name is available for registration
    */
@@ -122,12 +285,16 @@ export class ENSContractManager {
       const node = ethers.namehash(name);
       console.log(`Node hash: ${node}`);
       console.log(`Registry address: ${this.config.contracts.ENSRegistry}`);
-      const owner = await registry.owner(node);
-      console.log(`Owner: ${owner}`);
+      const registryOwner = await registry.owner(node);
+
+      // Wrapped names are owned by the NameWrapper in the registry; the real owner holds the ERC-1155 token
+      const isWrapped = this.isNameWrapper(registryOwner);
+      const owner = isWrapped ? await this.getNameWrapper().ownerOf(BigInt(node)) : registryOwner;
+      console.log(`Owner: ${owner}${isWrapped ? ' (wrapped)' : ''}`);
       
       return {
         success: true,
-        data: { owner },
+        data: { owner, isWrapped, registryOwner },
         message: `Owner: ${owner}`
       };
     } catch (error) {
@@ -161,36 +328,94 @@ export class ENSContractManager {
     }
   }
 
+  /**
+   * Call the UniversalResolver, following CCIP-Read lookups and turning its custom errors into messages
+   */
+  private async callUniversalResolver(data: string, name: string): Promise<string> {
+    try {
+      return await ccipReadCall(
+        this.provider,
+        { to: this.config.contracts.UniversalResolver, data },
+        { gatewayOverride: this.config.settings.ccipGatewayOverride }
+      );
+    } catch (error) {
+      const reason = this.parseUniversalResolverError(getRevertData(error));
+      if (!reason) {
+        throw error;
+      }
+      throw Object.assign(new Error(this.describeUniversalResolverError(reason, name)), { reason: reason.name, args: reason.args });
+    }
+  }
+
+  private parseUniversalResolverError(revertData: string | null): ethers.ErrorDescription | null {
+    if (!revertData) return null;
+    try {
+      return this.getUniversalResolver().interface.parseError(revertData);
+    } catch {
+      return null;
+    }
+  }
+
+  private describeUniversalResolverError(reason: ethers.ErrorDescription, name: string): string {
+    switch (reason.name) {
+      case 'ResolverNotFound':
+        return `No resolver is set for ${name}`;
+      case 'ResolverNotContract':
+        return `The resolver for ${name} is not a contract`;
+      case 'UnsupportedResolverProfile':
+        return `The resolver for ${name} does not support this record`;
+      case 'HttpError':
+        return `CCIP-Read gateway error ${reason.args[0]}: ${reason.args[1]}`;
+      case 'ReverseAddressMismatch':
+        return `The primary name ${reason.args[0]} does not resolve back to this address`;
+      case 'ResolverError': {
+        // Offchain resolvers report gateway failures as a nested HttpError
+        const inner = this.parseUniversalResolverError(reason.args[0]);
+        return inner ? this.describeUniversalResolverError(inner, name) : `The resolver for ${name} reverted (${reason.args[0]})`;
+      }
+      default:
+        return `UniversalResolver error ${reason.name}`;
+    }
+  }
+
+  /**
+   * Read a resolver record through the UniversalResolver, which finds the name's resolver
+   * (including wildcard, offchain and L2 resolvers) and follows CCIP-Read. Returns null when
+   * the name has no resolver or its resolver does not support the record.
+   */
+  private async resolveRecord(name: string, fragment: string, args: any[] = []): Promise<ethers.Result | null> {
+    const universalResolver = this.getUniversalResolver();
+    const resolverInterface = new ethers.Interface(CONTRACT_ABIS.PublicResolver);
+    const data = universalResolver.interface.encodeFunctionData('resolveWithGateways', [
+      ethers.dnsEncode(name),
+      resolverInterface.encodeFunctionData(fragment, [ethers.namehash(name), ...args]),
+      this.config.settings.ccipGateways || DEFAULT_CCIP_GATEWAYS
+    ]);
+
+    try {
+      const response = await this.callUniversalResolver(data, name);
+      const [result] = universalResolver.interface.decodeFunctionResult('resolveWithGateways', response);
+      return resolverInterface.decodeFunctionResult(fragment, result);
+    } catch (error: any) {
+      if (error?.reason === 'ResolverNotFound' || error?.reason === 'UnsupportedResolverProfile') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
   /**
    * Resolve a name to an address
    */
   async resolveName(name: string): Promise<ENSAgentResponse> {
     try {
-      // Try Universal Resolver first
-      try {
-        const universalResolver = this.getUniversalResolver();
-        const address = await universalResolver.resolve(name);
-        
-        if (address && address !== '0x0000000000000000000000000000000000000000') {
-          return {
-            success: true,
-            data: { address },
-            message: `${name} resolves to ${address}`
-          };
-        }
-      } catch (universalError) {
-        console.log('Universal resolver failed, trying standard resolver:', universalError);
-      }
+      const result = await this.resolveRecord(name, 'addr(bytes32)');
+      const address: string | null = result && result[0] !== ethers.ZeroAddress ? result[0] : null;
 
-      // Fallback to standard resolver
-      const resolver = this.getPublicResolver();
-      const node = ethers.namehash(name);
-      const address = await resolver.addr(node);
-      
       return {
         success: true,
         data: { address },
-        message: `${name} resolves to ${address}`
+        message: address ? `${name} resolves to ${address}` : `${name} does not resolve to an address`
       };
     } catch (error) {
       return {
@@ -201,95 +426,166 @@ export class ENSContractManager {
   }
 
   /**
-   * Resolve an address to a name (reverse lookup)
+   * Resolve the address a name has for a coin type. EVM chains without their own
+   * address record fall back to the default EVM address (ENSIP-19).
    */
-  async resolveAddress(address: string): Promise<ENSAgentResponse> {
-    try {
-      const reverseRegistrar = this.getReverseRegistrar();
-      const name = await reverseRegistrar.defaultReverseResolver(address);
-      
-      return {
-        success: true,
-        data: { name },
-        message: `${address} resolves to ${name || 'No reverse record'}`
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: `Failed to resolve address: ${error}`
-      };
+  async resolveChainAddress(name: string, coinType: number = ETH_COIN_TYPE): Promise<ENSAgentResponse> {
+    if (coinType === ETH_COIN_TYPE) {
+      return await this.resolveName(name);
+    }
+
+    const record = await this.getAddressRecord(name, coinType);
+    if (!record.success || record.data?.address || coinType <= DEFAULT_EVM_COIN_TYPE) {
+      return record;
     }
+    return await this.getAddressRecord(name, DEFAULT_EVM_COIN_TYPE);
   }
 
   /**
-   * Get a text record for a name
+   * Resolve an address to its primary name (reverse lookup), on Ethereum or, given an
+   * ENSIP-11 coin type, on another chain. The name is only returned when it resolves back
+   * to the same address, otherwise it is reported as `unverifiedName`.
    */
-  async getTextRecord(name: string, key: string): Promise<ENSAgentResponse> {
+  async resolveAddress(address: string, coinType: number = ETH_COIN_TYPE): Promise<ENSAgentResponse> {
     try {
-      const resolver = this.getPublicResolver();
-      const node = ethers.namehash(name);
-      const value = await resolver.text(node, key);
+      const universalResolver = this.getUniversalResolver();
+      const data = universalResolver.interface.encodeFunctionData('reverseWithGateways', [
+        address,
+        coinType,
+        this.config.settings.ccipGateways || DEFAULT_CCIP_GATEWAYS
+      ]);
+
+      let name: string | null = null;
+      let unverifiedName: string | null = null;
+      try {
+        const response = await this.callUniversalResolver(data, address);
+        [name] = universalResolver.interface.decodeFunctionResult('reverseWithGateways', response);
+      } catch (error: any) {
+        if (error?.reason === 'ReverseAddressMismatch') {
+          unverifiedName = error.args[0];
+        } else if (error?.reason !== 'ResolverNotFound') {
+          throw error;
+        }
+      }
+
+      // Forward-verify: a reverse record anyone could set only counts when the name points back
+      if (name) {
+        const forward = await this.resolveChainAddress(name, coinType);
+        if (!forward.success || forward.data?.address?.toLowerCase() !== address.toLowerCase()) {
+          unverifiedName = name;
+          name = null;
+        }
+      }
       
       return {
         success: true,
-        data: { key, value },
-        message: `${key}: ${value}`
+        data: { name: name || null, verified: !!name, unverifiedName, coinType },
+        message: name
+          ? `${address} resolves to ${name}`
+          : unverifiedName ? `${address} claims ${unverifiedName}, which does not resolve back to it` : `${address} has no reverse record`
       };
     } catch (error) {
       return {
         success: false,
-        error: `Failed to get text record: ${error}`
+        error: `Failed to resolve address: ${error}`
       };
     }
   }
 
   /**
-   * Get an address record for a name
+   * Primary names of an address on Ethereum and on each of the deployment's reverse chains (ENSIP-19),
+   * every one forward-verified
    */
-  async getAddressRecord(name: string, coinType: number = 60): Promise<ENSAgentResponse> {
+  async getPrimaryNames(address: string, chains: ENSReverseChain[] = this.getReverseChains()): Promise<ENSAgentResponse> {
     try {
-      const resolver = this.getPublicResolver();
-      const node = ethers.namehash(name);
-      const address = await resolver.addr(node, coinType);
-      
+      const [ethereum, ...results] = await Promise.all([
+        this.resolveAddress(address),
+        ...chains.map(chain => this.resolveAddress(address, chain.coinType))
+      ]);
+      if (!ethereum.success) {
+        return ethereum;
+      }
+
+      const names = chains.map((chain, index) => ({
+        chain: chain.key,
+        chainName: chain.name,
+        chainId: chain.chainId,
+        coinType: chain.coinType,
+        name: results[index].success ? results[index].data?.name : null,
+        unverifiedName: results[index].success ? results[index].data?.unverifiedName : null,
+        error: results[index].success ? undefined : results[index].error
+      }));
+
       return {
         success: true,
-        data: { coinType, address },
-        message: `Address (${coinType}): ${address}`
+        data: { address, name: ethereum.data?.name, unverifiedName: ethereum.data?.unverifiedName, chains: names },
+        message: `${address} has a primary name on ${names.filter(entry => entry.name).length + (ethereum.data?.name ? 1 : 0)} chain(s)`
       };
     } catch (error) {
       return {
         success: false,
-        error: `Failed to get address record: ${error}`
+        error: `Failed to get primary names: ${error}`
       };
     }
   }
 
   /**
-   * Set a text record for a name
+   * Set the primary name (reverse record) of the signer, or of a contract the signer owns.
+   * With a chain, the ENSIP-19 reverse record of that L2 (or the default for all EVM chains)
+   * is set instead, from a wallet connected to that chain. The name must already resolve
+   * to the address so the primary name verifies.
    */
-  async setTextRecord(name: string, key: string, value: string): Promise<ENSAgentResponse> {
+  async setPrimaryName(name: string, forAddress?: string, chain?: string): Promise<ENSAgentResponse> {
     try {
       if (!this.signer) {
         return {
           success: false,
-          error: 'Signer required for setting records'
+          error: 'Signer required for setting the primary name'
         };
       }
 
-      const resolver = this.getPublicResolver();
-      const node = ethers.namehash(name);
-      
-      const tx = await resolver.setText(node, key, value);
+      const reverseChain = chain ? getReverseChain(chain, this.getReverseChains()) : undefined;
+      if (chain && !reverseChain) {
+        return {
+          success: false,
+          error: `Primary names are not supported on ${chain}`
+        };
+      }
+
+      const signerAddress = await this.signer.getAddress();
+      const address = forAddress ? ethers.getAddress(forAddress) : signerAddress;
+
+      const forward = await this.resolveChainAddress(name, reverseChain?.coinType);
+      if (!forward.success) {
+        return forward;
+      }
+      if (forward.data?.address?.toLowerCase() !== address.toLowerCase()) {
+        const record = reverseChain ? `${reverseChain.name} address (coin type ${reverseChain.coinType})` : 'ETH address';
+        return {
+          success: false,
+          error: `${name} resolves to ${forward.data?.address || 'no address'}. Set its ${record} to ${address} first so the primary name verifies.`
+        };
+      }
+
+      const unauthorized = await this.checkReverseAuthorization(address, signerAddress, reverseChain);
+      if (unauthorized) {
+        return {
+          success: false,
+          error: unauthorized
+        };
+      }
+
+      const tx = await this.sendReverseRecord(this.signer, address, signerAddress, name, reverseChain);
       await tx.wait();
-      
+
+      const onChain = reverseChain ? ` on ${reverseChain.name}` : '';
       return {
         success: true,
-        data: { key, value, txHash: tx.hash },
-        message: `Set ${key} to ${value}`,
+        data: { name, address, chain: reverseChain?.key, txHash: tx.hash },
+        message: `Set ${name} as the primary name of ${address}${onChain}`,
         transaction: {
           hash: tx.hash,
-          operation: { type: 'setRecord', name, data: { key, value } },
+          operation: { type: 'setPrimaryName', name, data: { address, chain: reverseChain?.key } },
           status: 'confirmed',
           timestamp: new Date()
         }
@@ -297,36 +593,54 @@ export class ENSContractManager {
     } catch (error) {
       return {
         success: false,
-        error: `Failed to set text record: ${error}`
+        error: `Failed to set primary name: ${error}`
       };
     }
   }
 
   /**
-   * Set an address record for a name
+   * Clear the primary name of the signer, or of a contract the signer owns,
+   * on Ethereum or on a single chain
    */
-  async setAddressRecord(name: string, address: string, coinType: number = 60): Promise<ENSAgentResponse> {
+  async clearPrimaryName(forAddress?: string, chain?: string): Promise<ENSAgentResponse> {
     try {
       if (!this.signer) {
         return {
           success: false,
-          error: 'Signer required for setting records'
+          error: 'Signer required for clearing the primary name'
         };
       }
 
-      const resolver = this.getPublicResolver();
-      const node = ethers.namehash(name);
-      
-      const tx = await resolver.setAddr(node, coinType, address);
+      const reverseChain = chain ? getReverseChain(chain, this.getReverseChains()) : undefined;
+      if (chain && !reverseChain) {
+        return {
+          success: false,
+          error: `Primary names are not supported on ${chain}`
+        };
+      }
+
+      const signerAddress = await this.signer.getAddress();
+      const address = forAddress ? ethers.getAddress(forAddress) : signerAddress;
+
+      const unauthorized = await this.checkReverseAuthorization(address, signerAddress, reverseChain);
+      if (unauthorized) {
+        return {
+          success: false,
+          error: unauthorized
+        };
+      }
+
+      const tx = await this.sendReverseRecord(this.signer, address, signerAddress, '', reverseChain);
       await tx.wait();
-      
+
+      const onChain = reverseChain ? ` on ${reverseChain.name}` : '';
       return {
         success: true,
-        data: { coinType, address, txHash: tx.hash },
-        message: `Set address (${coinType}) to ${address}`,
+        data: { address, chain: reverseChain?.key, txHash: tx.hash },
+        message: `Cleared the primary name of ${address}${onChain}`,
         transaction: {
           hash: tx.hash,
-          operation: { type: 'setRecord', name, data: { coinType, address } },
+          operation: { type: 'clearPrimaryName', name: '', data: { address, chain: reverseChain?.key } },
           status: 'confirmed',
           timestamp: new Date()
         }
@@ -334,160 +648,1949 @@ export class ENSContractManager {
     } catch (error) {
       return {
         success: false,
-        error: `Failed to set address record: ${error}`
+        error: `Failed to clear primary name: ${error}`
       };
     }
   }
 
   /**
-   * Set the resolver for a name
+   * Write a reverse record through the ReverseRegistrar, or through the registrar of a chain,
+   * which only accepts transactions sent on that chain
    */
-  async setResolver(name: string, resolverAddress: string): Promise<ENSAgentResponse> {
+  private async sendReverseRecord(
+    signer: ethers.Signer,
+    address: string,
+    signerAddress: string,
+    primaryName: string,
+    chain?: ENSReverseChain
+  ): Promise<ethers.ContractTransactionResponse> {
+    if (!chain) {
+      const reverseRegistrar = this.getReverseRegistrar();
+      return address === signerAddress
+        ? await reverseRegistrar.setName(primaryName)
+        : await reverseRegistrar.setNameForAddr(address, signerAddress, await reverseRegistrar.defaultResolver(), primaryName);
+    }
+
+    const expectedChainId = chain.rpcUrl ? chain.chainId : this.config.network.chainId;
+    const network = await signer.provider?.getNetwork();
+    if (!network || Number(network.chainId) !== expectedChainId) {
+      const chainName = chain.rpcUrl ? chain.name : this.config.network.name;
+      throw new Error(`Switch your wallet to ${chainName} (chain id ${expectedChainId}) to change this primary name`);
+    }
+
+    const registrar = this.getChainReverseRegistrar(chain, signer);
+    return address === signerAddress
+      ? await registrar.setName(primaryName)
+      : await registrar.setNameForAddr(address, primaryName);
+  }
+
+  /**
+   * Whether the signer may set the reverse record of an address, mirroring the
+   * registrar's checks. Returns the reason when it may not.
+   */
+  private async checkReverseAuthorization(address: string, signerAddress: string, chain?: ENSReverseChain): Promise<string | null> {
+    if (address.toLowerCase() === signerAddress.toLowerCase()) {
+      return null;
+    }
+    // Registry operators only count for the ReverseRegistrar, the chain registrars skip them
+    if (!chain && await this.getENSRegistry().isApprovedForAll(address, signerAddress)) {
+      return null;
+    }
+
+    const provider = chain ? this.getChainProvider(chain) : this.provider;
+    const code = await provider.getCode(address);
+    if (code === '0x') {
+      return `${address} is another wallet. Only that wallet, or an operator it approved, can set its primary name.`;
+    }
+
+    // Contracts are covered when they are Ownable and the signer is the owner
     try {
-      if (!this.signer) {
-        return {
-          success: false,
-          error: 'Signer required for setting resolver'
-        };
-      }
+      const ownable = new ethers.Contract(address, ['function owner() view returns (address)'], provider);
+      const owner: string = await ownable.owner();
+      return owner.toLowerCase() === signerAddress.toLowerCase()
+        ? null
+        : `The contract ${address} is owned by ${owner}, not ${signerAddress}`;
+    } catch {
+      return `The contract ${address} has no owner() function, so its primary name can only be set by the contract itself`;
+    }
+  }
 
-      const registry = this.getENSRegistry();
-      const node = ethers.namehash(name);
-      
-      const tx = await registry.setResolver(node, resolverAddress);
-      await tx.wait();
+  /**
+   * Get a text record for a name
+   */
+  async getTextRecord(name: string, key: string): Promise<ENSAgentResponse> {
+    try {
+      const result = await this.resolveRecord(name, 'text', [key]);
+      const value: string = result ? result[0] : '';
       
       return {
         success: true,
-        data: { resolver: resolverAddress, txHash: tx.hash },
-        message: `Set resolver to ${resolverAddress}`,
-        transaction: {
-          hash: tx.hash,
-          operation: { type: 'setResolver', name, data: { resolver: resolverAddress } },
-          status: 'confirmed',
-          timestamp: new Date()
-        }
+        data: { key, value },
+        message: `${key}: ${value}`
       };
     } catch (error) {
       return {
         success: false,
-        error: `Failed to set resolver: ${error}`
+        error: `Failed to get text record: ${error}`
       };
     }
   }
 
   /**
-   * Create a commitment for name registration
+   * Get the avatar of a name (ENSIP-12) as an image URL. NFT avatars only count when the
+   * token is held by the address the name resolves to or by the owner of the name.
    */
-  async createCommitment(name: string, owner: string, secret: string): Promise<ENSAgentResponse> {
+  async getAvatar(name: string): Promise<ENSAgentResponse> {
     try {
-      const controller = this.getETHRegistrarController();
-      const label = name.split('.')[0];
-      const labelHash = ethers.keccak256(ethers.toUtf8Bytes(label));
-      
-      const commitment = ethers.keccak256(
-        ethers.AbiCoder.defaultAbiCoder().encode(
-          ['bytes32', 'address', 'bytes32'],
-          [labelHash, owner, secret]
-        )
-      );
-      
+      const normalized = normalizeName(name);
+      let avatar = this.avatars.get(this.config.network.chainId, normalized);
+      if (!avatar) {
+        avatar = await this.resolveAvatar(normalized);
+        this.avatars.set(this.config.network.chainId, avatar);
+      }
+
       return {
         success: true,
-        data: { commitment, secret },
-        message: 'Commitment created successfully'
+        data: avatar,
+        message: avatar.image
+          ? `Avatar of ${normalized}: ${avatar.image.startsWith('data:') ? 'inline image' : avatar.image}`
+          : avatar.error || `${normalized} has no avatar`
       };
     } catch (error) {
       return {
         success: false,
-        error: `Failed to create commitment: ${error}`
+        error: `Failed to get avatar: ${error}`
+      };
+    }
+  }
+
+  // Read the avatar record and turn it into an image URL, verifying NFT ownership on the token's chain
+  private async resolveAvatar(name: string): Promise<ENSAvatar> {
+    const result = await this.resolveRecord(name, 'text', ['avatar']);
+    const record: string = result ? result[0] : '';
+    const avatar: ENSAvatar = { name, record, type: null, image: null, expiresAt: Date.now() + AVATAR_CACHE_TTL_MS };
+    if (!record) {
+      return avatar;
+    }
+
+    const parsed = parseAvatarRecord(record);
+    if (!parsed) {
+      return { ...avatar, error: `Unsupported avatar record: ${record}` };
+    }
+    const gateways = this.getAvatarGateways();
+    if (!parsed.nft) {
+      return { ...avatar, type: parsed.type, image: resolveAvatarURI(parsed.uri, gateways) };
+    }
+
+    const nft = parsed.nft;
+    const provider = this.getAvatarProvider(nft.chainId);
+    if (!provider) {
+      return {
+        ...avatar,
+        type: parsed.type,
+        nft: { ...nft, owner: null, verified: false, tokenURI: null },
+        error: `No RPC is configured for chain ${nft.chainId}, add it to avatarRpcUrls`
       };
     }
+
+    const [resolved, owner] = await Promise.all([this.resolveName(name), this.getOwner(name)]);
+    const candidates: string[] = [...new Set(
+      [resolved.success ? resolved.data.address : null, owner.success ? owner.data.owner : null]
+        .filter((address): address is string => Boolean(address) && address !== ethers.ZeroAddress)
+        .map(address => ethers.getAddress(address))
+    )];
+
+    let holder: string | null;
+    let tokenURI: string;
+    if (nft.standard === 'erc721') {
+      const token = new ethers.Contract(nft.contract, ERC721_AVATAR_ABI, provider);
+      const [tokenOwner, uri]: [string, string] = await Promise.all([token.ownerOf(nft.tokenId), token.tokenURI(nft.tokenId)]);
+      holder = candidates.find(address => address.toLowerCase() === tokenOwner.toLowerCase()) || null;
+      tokenURI = uri;
+    } else {
+      const token = new ethers.Contract(nft.contract, ERC1155_AVATAR_ABI, provider);
+      const balances: bigint[] = await Promise.all(candidates.map(address => token.balanceOf(address, nft.tokenId)));
+      holder = candidates.find((_, index) => balances[index] > 0n) || null;
+      tokenURI = expandTokenURI(await token.uri(nft.tokenId), nft);
+    }
+
+    const details = { ...nft, owner: holder, verified: Boolean(holder), tokenURI };
+    if (!holder) {
+      return { ...avatar, type: parsed.type, nft: details, error: `The avatar NFT is not held by the owner of ${name}` };
+    }
+    const image = await fetchNFTImage(tokenURI, gateways);
+    return {
+      ...avatar,
+      type: parsed.type,
+      image,
+      nft: details,
+      ...(image ? {} : { error: 'The NFT metadata has no image' })
+    };
   }
 
   /**
-   * Register a name
+   * Get an address record for a name, decoded for its coin type (ENSIP-9/11)
    */
-  async registerName(name: string, owner: string, duration: number, secret: string): Promise<ENSAgentResponse> {
+  async getAddressRecord(name: string, coinType: number = 60): Promise<ENSAgentResponse> {
     try {
-      if (!this.signer) {
-        return {
-          success: false,
-          error: 'Signer required for registration'
-        };
-      }
-
-      const controller = this.getETHRegistrarController();
-      const label = name.split('.')[0];
-      const labelHash = ethers.keccak256(ethers.toUtf8Bytes(label));
-      
-      // Calculate price
-      const price = await controller.rentPrice(label, duration);
-      
-      // Create commitment
-      const commitment = ethers.keccak256(
-        ethers.AbiCoder.defaultAbiCoder().encode(
-          ['bytes32', 'address', 'bytes32'],
-          [labelHash, owner, secret]
-        )
-      );
-      
-      const tx = await controller.register(label, owner, duration, secret, [], true, {
-        value: price.base + price.premium
-      });
-      
-      await tx.wait();
+      const result = await this.resolveRecord(name, 'addr(bytes32,uint256)', [coinType]);
+      const raw: string = result ? result[0] : '0x';
+      const address = decodeCoinAddress(coinType, raw);
+      const coin = getCoinName(coinType);
       
       return {
         success: true,
-        data: { name, owner, duration, txHash: tx.hash },
-        message: `Registered ${name} for ${owner}`,
-        transaction: {
-          hash: tx.hash,
-          operation: { type: 'register', name, data: { owner, duration } },
-          status: 'confirmed',
-          timestamp: new Date()
-        }
+        data: { coinType, coin, address, raw },
+        message: address ? `${coin} address: ${address}` : `No ${coin} address set`
       };
     } catch (error) {
       return {
         success: false,
-        error: `Failed to register name: ${error}`
+        error: `Failed to get address record: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Get the address records of a name for several coin types, keyed by coin type
+   */
+  async getAddressRecords(
+    name: string,
+    coinTypes: number[] = COIN_FORMATS.map(format => format.coinType)
+  ): Promise<ENSAgentResponse> {
+    try {
+      const results = await Promise.all(coinTypes.map(coinType => this.getAddressRecord(name, coinType)));
+      const addresses: Record<string, string> = {};
+      results.forEach((result, index) => {
+        if (result.success && result.data?.address) {
+          addresses[String(coinTypes[index])] = result.data.address;
+        }
+      });
+
+      return {
+        success: true,
+        data: { addresses },
+        message: `Found ${Object.keys(addresses).length} address records for ${name}`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get address records: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Get the contenthash record of a name, decoded to a URI and gateway URL (ENSIP-7)
+   */
+  async getContentHash(name: string): Promise<ENSAgentResponse> {
+    try {
+      const result = await this.resolveRecord(name, 'contenthash');
+      const raw: string = result ? result[0] : '0x';
+      const contentHash = decodeContentHash(raw);
+
+      return {
+        success: true,
+        data: { contentHash, raw },
+        message: contentHash
+          ? `${name} points to ${contentHash.uri}`
+          : raw && raw !== '0x' ? `${name} has an unrecognised contenthash ${raw}` : `${name} has no contenthash set`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get contenthash: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Set the contenthash record of a name from an ipfs://, ipns://, bzz://, ar:// or onion URI
+   */
+  async setContentHash(name: string, uri: string): Promise<ENSAgentResponse> {
+    try {
+      if (!this.signer) {
+        return {
+          success: false,
+          error: 'Signer required for setting records'
+        };
+      }
+
+      let encoded: string;
+      try {
+        encoded = encodeContentHash(uri);
+      } catch (error: any) {
+        return {
+          success: false,
+          error: error.message
+        };
+      }
+
+      const node = ethers.namehash(name);
+      const resolver = await this.getNameResolver(node);
+
+      const tx = await resolver.setContenthash(node, encoded);
+      await tx.wait();
+
+      const contentHash = decodeContentHash(encoded);
+      return {
+        success: true,
+        data: { contentHash, txHash: tx.hash },
+        message: `Set contenthash of ${name} to ${contentHash?.uri || uri}`,
+        transaction: {
+          hash: tx.hash,
+          operation: { type: 'setRecord', name, data: { contentHash: uri } },
+          status: 'confirmed',
+          timestamp: new Date()
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to set contenthash: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Set a text record for a name
+   */
+  async setTextRecord(name: string, key: string, value: string): Promise<ENSAgentResponse> {
+    try {
+      if (!this.signer) {
+        return {
+          success: false,
+          error: 'Signer required for setting records'
+        };
+      }
+
+      const node = ethers.namehash(name);
+      const resolver = await this.getNameResolver(node);
+      
+      const tx = await resolver.setText(node, key, value);
+      await tx.wait();
+      
+      return {
+        success: true,
+        data: { key, value, txHash: tx.hash },
+        message: `Set ${key} to ${value}`,
+        transaction: {
+          hash: tx.hash,
+          operation: { type: 'setRecord', name, data: { key, value } },
+          status: 'confirmed',
+          timestamp: new Date()
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to set text record: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Set an address record for a name
+   */
+  async setAddressRecord(name: string, address: string, coinType: number = 60): Promise<ENSAgentResponse> {
+    try {
+      if (!this.signer) {
+        return {
+          success: false,
+          error: 'Signer required for setting records'
+        };
+      }
+
+      let encoded: string;
+      try {
+        encoded = encodeCoinAddress(coinType, address);
+      } catch (error: any) {
+        return {
+          success: false,
+          error: error.message
+        };
+      }
+
+      const node = ethers.namehash(name);
+      const resolver = await this.getNameResolver(node);
+      
+      const tx = await resolver['setAddr(bytes32,uint256,bytes)'](node, coinType, encoded);
+      await tx.wait();
+      
+      return {
+        success: true,
+        data: { coinType, coin: getCoinName(coinType), address, txHash: tx.hash },
+        message: `Set ${getCoinName(coinType)} address to ${address}`,
+        transaction: {
+          hash: tx.hash,
+          operation: { type: 'setRecord', name, data: { coinType, address } },
+          status: 'confirmed',
+          timestamp: new Date()
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to set address record: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Compare record updates with the values currently set, validating each one
+   */
+  async previewRecordUpdates(name: string, records: ENSRecordUpdate[]): Promise<ENSAgentResponse> {
+    try {
+      if (records.length === 0) {
+        return {
+          success: false,
+          error: 'No records to update'
+        };
+      }
+
+      const node = ethers.namehash(name);
+      const resolver = await this.getNameResolver(node);
+      const stored: string[] = await Promise.all(records.map(record => {
+        switch (record.kind) {
+          case 'text':
+            return resolver.text(node, record.key);
+          case 'address':
+            return resolver['addr(bytes32,uint256)'](node, record.coinType);
+          case 'contenthash':
+            return resolver.contenthash(node);
+        }
+      }));
+
+      const changes = records.map((record, index) => diffRecordUpdate(record, stored[index]));
+      const batch: ENSBatchOperation = {
+        name,
+        resolver: await resolver.getAddress(),
+        changes,
+        operation: {
+          type: 'setRecords',
+          name,
+          data: { records: changes.filter(change => change.changed).map(change => change.record) }
+        },
+        canExecute: changes.every(change => !change.error) && changes.some(change => change.changed)
+      };
+
+      return {
+        success: true,
+        data: batch,
+        message: `Record changes for ${name}:\n${formatRecordDiff(changes)}`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to preview record updates: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Set several records in one transaction through the multicall of the name's resolver
+   */
+  async setRecords(name: string, records: ENSRecordUpdate[]): Promise<ENSAgentResponse> {
+    try {
+      if (!this.signer) {
+        return {
+          success: false,
+          error: 'Signer required for setting records'
+        };
+      }
+      if (records.length === 0) {
+        return {
+          success: false,
+          error: 'No records to update'
+        };
+      }
+
+      // Reject the whole batch before submitting if any record would not encode
+      const invalid = records
+        .map(record => ({ label: getRecordLabel(record), error: validateRecordUpdate(record) }))
+        .filter(result => result.error);
+      if (invalid.length > 0) {
+        return {
+          success: false,
+          error: `Invalid records: ${invalid.map(result => `${result.label} (${result.error})`).join(', ')}`
+        };
+      }
+
+      const node = ethers.namehash(name);
+      const resolver = await this.getNameResolver(node);
+      const calls = records.map(record => encodeRecordCall(resolver.interface, node, record));
+
+      const tx = await resolver.multicall(calls);
+      await tx.wait();
+
+      return {
+        success: true,
+        data: { records, txHash: tx.hash },
+        message: `Set ${records.length} records on ${name}: ${records.map(getRecordLabel).join(', ')}`,
+        transaction: {
+          hash: tx.hash,
+          operation: { type: 'setRecords', name, data: { records } },
+          status: 'confirmed',
+          timestamp: new Date()
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to set records: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Set the resolver for a name
+   */
+  async setResolver(name: string, resolverAddress: string): Promise<ENSAgentResponse> {
+    try {
+      if (!this.signer) {
+        return {
+          success: false,
+          error: 'Signer required for setting resolver'
+        };
+      }
+
+      const registry = this.getENSRegistry();
+      const node = ethers.namehash(name);
+      
+      const tx = await registry.setResolver(node, resolverAddress);
+      await tx.wait();
+      
+      return {
+        success: true,
+        data: { resolver: resolverAddress, txHash: tx.hash },
+        message: `Set resolver to ${resolverAddress}`,
+        transaction: {
+          hash: tx.hash,
+          operation: { type: 'setResolver', name, data: { resolver: resolverAddress } },
+          status: 'confirmed',
+          timestamp: new Date()
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to set resolver: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Create a commitment for name registration, submitting it when a signer is set
+   */
+  async createCommitment(name: string, owner: string, secret: string, duration: number = 365 * 24 * 60 * 60): Promise<ENSAgentResponse> {
+    try {
+      const controller = this.getETHRegistrarController();
+      const params = buildRegistrationParams({
+        name,
+        owner,
+        duration,
+        secret,
+        resolver: this.config.contracts.PublicResolver
+      });
+
+      const commitment = await controller.makeCommitment(params);
+
+      if (!this.signer) {
+        return {
+          success: true,
+          data: { commitment, secret },
+          message: 'Commitment created successfully'
+        };
+      }
+
+      const tx = await controller.commit(commitment);
+      await tx.wait();
+      const committedAt = Number(await controller.commitments(commitment));
+
+      return {
+        success: true,
+        data: { commitment, secret, committedAt, txHash: tx.hash },
+        message: 'Commitment submitted successfully',
+        transaction: {
+          hash: tx.hash,
+          operation: { type: 'commit', name, data: { owner, duration } },
+          status: 'confirmed',
+          timestamp: new Date()
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create commitment: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Commitment of a registration, when it was committed (0 when not on chain) and the controller's commitment ages
+   */
+  async getCommitmentStatus(name: string, owner: string, duration: number, secret: string): Promise<ENSAgentResponse> {
+    try {
+      const controller = this.getETHRegistrarController();
+      const params = buildRegistrationParams({
+        name,
+        owner,
+        duration,
+        secret,
+        resolver: this.config.contracts.PublicResolver
+      });
+
+      const commitment = await controller.makeCommitment(params);
+      const [committedAt, minCommitmentAge, maxCommitmentAge] = await Promise.all([
+        controller.commitments(commitment),
+        controller.minCommitmentAge(),
+        controller.maxCommitmentAge()
+      ]);
+
+      return {
+        success: true,
+        data: {
+          commitment,
+          committedAt: Number(committedAt),
+          minCommitmentAge: Number(minCommitmentAge),
+          maxCommitmentAge: Number(maxCommitmentAge)
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get commitment status: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Register a name. Requires a commitment for the same parameters older than minCommitmentAge.
+   */
+  async registerName(name: string, owner: string, duration: number, secret: string): Promise<ENSAgentResponse> {
+    try {
+      if (!this.signer) {
+        return {
+          success: false,
+          error: 'Signer required for registration'
+        };
+      }
+
+      const controller = this.getETHRegistrarController();
+      const params = buildRegistrationParams({
+        name,
+        owner,
+        duration,
+        secret,
+        resolver: this.config.contracts.PublicResolver
+      });
+
+      const commitment = await controller.makeCommitment(params);
+      const committedAt = Number(await controller.commitments(commitment));
+      if (!committedAt) {
+        return {
+          success: false,
+          error: 'No commitment found for this registration. Submit a commitment first.'
+        };
+      }
+
+      // Calculate price
+      const price = await controller.rentPrice(params.label, duration);
+
+      const tx = await controller.register(params, {
+        value: price.base + price.premium
+      });
+      
+      await tx.wait();
+      
+      return {
+        success: true,
+        data: { name, owner, duration, txHash: tx.hash },
+        message: `Registered ${name} for ${owner}`,
+        transaction: {
+          hash: tx.hash,
+          operation: { type: 'register', name, data: { owner, duration } },
+          status: 'confirmed',
+          timestamp: new Date()
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to register name: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Renew a name. The controller's renew takes a referrer after the duration, which is
+   * left empty (the zero hash) like the referrer of registrations.
+   */
+  async renewName(name: string, duration: number): Promise<ENSAgentResponse> {
+    try {
+      if (!this.signer) {
+        return {
+          success: false,
+          error: 'Signer required for renewal'
+        };
+      }
+
+      const controller = this.getETHRegistrarController();
+      const label = name.split('.')[0];
+      
+      const price = await controller.rentPrice(label, duration);
+      
+      const tx = await controller.renew(label, duration, ethers.ZeroHash, {
+        value: price.base + price.premium
+      });
+      
+      await tx.wait();
+      
+      return {
+        success: true,
+        data: { name, duration, txHash: tx.hash },
+        message: `Renewed ${name} for ${duration} seconds`,
+        transaction: {
+          hash: tx.hash,
+          operation: { type: 'renew', name, data: { duration } },
+          status: 'confirmed',
+          timestamp: new Date()
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to renew name: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Quote renewing several .eth names for the same duration
+   */
+  async getBulkRenewalPrice(names: string[], duration: number): Promise<ENSAgentResponse> {
+    try {
+      const renewable = this.validateBulkRenewalNames(names);
+      const quote = await getBulkRentPriceQuote(this.getBulkRenewal(), this.getETHRegistrarController(), renewable, duration);
+
+      return {
+        success: true,
+        data: quote,
+        message: `Price to renew ${renewable.join(', ')}: ${formatBulkPriceQuote(quote)}`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get bulk renewal price: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Renew several .eth names in one StaticBulkRenewal transaction. A name past its grace
+   * period would revert the whole batch, so those are reported and left out.
+   */
+  async renewNames(names: string[], duration: number): Promise<ENSAgentResponse> {
+    try {
+      if (!this.signer) {
+        return {
+          success: false,
+          error: 'Signer required for renewal'
+        };
+      }
+
+      const requested = this.validateBulkRenewalNames(names);
+      const baseRegistrar = this.getBaseRegistrar();
+      const bulkRenewal = this.getBulkRenewal();
+      const now = Math.floor(Date.now() / 1000);
+      const nameExpires = async (name: string) =>
+        Number(await baseRegistrar.nameExpires(BigInt(ethers.keccak256(ethers.toUtf8Bytes(name.split('.')[0])))));
+
+      const previous = await Promise.all(requested.map(nameExpires));
+      const skipped: ENSBulkRenewalResult[] = [];
+      const renewable: string[] = [];
+      requested.forEach((name, index) => {
+        const expires = previous[index];
+        if (expires === 0) {
+          skipped.push({ name, renewed: false, previousExpires: expires, error: 'not registered' });
+        } else if (expires + GRACE_PERIOD_DAYS * 24 * 60 * 60 <= now) {
+          skipped.push({ name, renewed: false, previousExpires: expires, error: 'released after its grace period, register it again instead' });
+        } else {
+          renewable.push(name);
+        }
+      });
+
+      if (renewable.length === 0) {
+        return {
+          success: false,
+          error: `None of the names can be renewed: ${skipped.map(result => `${result.name} (${result.error})`).join(', ')}`
+        };
+      }
+
+      const quote = await getBulkRentPriceQuote(bulkRenewal, this.getETHRegistrarController(), renewable, duration);
+      const tx = await bulkRenewal.renewAll(quote.labels, duration, ethers.ZeroHash, { value: getPaymentValue(quote) });
+      await tx.wait();
+
+      const renewed = await Promise.all(renewable.map(async (name, index): Promise<ENSBulkRenewalResult> => {
+        const previousExpires = previous[requested.indexOf(name)];
+        const expires = await nameExpires(name);
+        return {
+          name,
+          renewed: expires > previousExpires,
+          previousExpires,
+          expires,
+          costWei: quote.quotes[index].totalWei
+        };
+      }));
+      const results = [...renewed, ...skipped];
+      const succeeded = renewed.filter(result => result.renewed);
+
+      return {
+        success: true,
+        data: { names: succeeded.map(result => result.name), results, duration, total: quote.total, totalWei: quote.totalWei, txHash: tx.hash },
+        message: `Renewed ${succeeded.length} of ${requested.length} name(s) for ${duration} seconds`,
+        transaction: {
+          hash: tx.hash,
+          operation: { type: 'bulkRenew', name: renewable[0], data: { names: renewable, duration } },
+          status: 'confirmed',
+          timestamp: new Date()
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to renew names: ${error}`
+      };
+    }
+  }
+
+  // Normalized, de-duplicated second-level .eth names, the only names the registrar renews
+  private validateBulkRenewalNames(names: string[]): string[] {
+    const normalized = [...new Set(names.map(name => normalizeName(name)))];
+    if (normalized.length === 0) {
+      throw new Error('No names to renew');
+    }
+    for (const name of normalized) {
+      const [label, tld, ...rest] = name.split('.');
+      if (tld !== 'eth' || rest.length > 0) {
+        throw new Error(`${name} is not a second-level .eth name and cannot be renewed`);
+      }
+      const validation = validateLabel(label);
+      if (!validation.valid) {
+        throw new Error(`${name}: ${validation.error}`);
+      }
+    }
+    return normalized;
+  }
+
+  /**
+   * Get price for a name registration from the controller's rentPrice, split into base and premium
+   */
+  async getPrice(name: string, duration: number): Promise<ENSAgentResponse> {
+    try {
+      if (isSubdomain(name)) {
+        return {
+          success: false,
+          error: `${name} is a subname and is not priced by the registrar`
+        };
+      }
+
+      const quote = await getRentPriceQuote(this.getETHRegistrarController(), name, duration);
+      
+      return {
+        success: true,
+        data: quote,
+        message: `Price for ${name}: ${formatPriceQuote(quote)}`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get price: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Suggest available alternatives to a name, checking the availability and rent price of
+   * every candidate in one multicall. Subname candidates go under the .eth names the owner holds.
+   */
+  async suggestNames(
+    name: string,
+    options: { owner?: string; synonyms?: string[]; duration?: number; limit?: number } = {}
+  ): Promise<ENSAgentResponse> {
+    try {
+      const normalized = normalizeENSName(name);
+      if (!normalized.valid) {
+        return {
+          success: false,
+          error: `Invalid ENS name: ${normalized.error}`
+        };
+      }
+
+      const duration = options.duration || 365 * 24 * 60 * 60;
+      const now = Math.floor(Date.now() / 1000);
+      let ownedNames: string[] = [];
+      if (options.owner) {
+        const owned = await this.getOwnedNames(options.owner);
+        if (owned.success) {
+          ownedNames = (owned.data.names as OwnedName[])
+            .filter(entry => entry.name && entry.expires > now)
+            .map(entry => entry.name);
+        }
+      }
+
+      const candidates = generateNameCandidates(normalized.normalized, { synonyms: options.synonyms, ownedNames });
+      const controller = this.getETHRegistrarController();
+      const registry = this.getENSRegistry();
+      const controllerAddress = await controller.getAddress();
+      const registryAddress = await registry.getAddress();
+
+      // .eth candidates need available() and rentPrice(), subnames only need to not exist yet
+      const calls: MulticallRequest[] = candidates.flatMap(candidate => candidate.kind === 'subname'
+        ? [{ target: registryAddress, callData: registry.interface.encodeFunctionData('recordExists', [ethers.namehash(candidate.name)]) }]
+        : [
+            { target: controllerAddress, callData: controller.interface.encodeFunctionData('available', [candidate.label]) },
+            { target: controllerAddress, callData: controller.interface.encodeFunctionData('rentPrice', [candidate.label, duration]) }
+          ]);
+      const results = await aggregateCalls(this.provider, calls);
+
+      let index = 0;
+      const checked = candidates.map((candidate): ENSNameSuggestion => {
+        const length = [...candidate.label].length;
+        if (candidate.kind === 'subname') {
+          const exists = results[index++];
+          const available = exists.success && !registry.interface.decodeFunctionResult('recordExists', exists.returnData)[0];
+          return { ...candidate, available, length, priceWei: '0', price: '0.0', hasPremium: false };
+        }
+
+        const [availableResult, priceResult] = [results[index++], results[index++]];
+        if (!availableResult.success || !priceResult.success) {
+          return { ...candidate, available: false, length, priceWei: '0', price: '0.0', hasPremium: false };
+        }
+        const available: boolean = controller.interface.decodeFunctionResult('available', availableResult.returnData)[0];
+        const [price] = controller.interface.decodeFunctionResult('rentPrice', priceResult.returnData);
+        const total: bigint = price.base + price.premium;
+        return {
+          ...candidate,
+          available,
+          length,
+          priceWei: total.toString(),
+          price: ethers.formatEther(total),
+          hasPremium: price.premium > BigInt(0)
+        };
+      });
+
+      const suggestions = rankNameSuggestions(checked).slice(0, options.limit || 10);
+
+      return {
+        success: true,
+        data: { name: normalized.normalized, duration, suggestions, checked: candidates.length },
+        message: suggestions.length > 0
+          ? `Found ${suggestions.length} available alternative(s) to ${normalized.normalized}`
+          : `No available alternatives found for ${normalized.normalized}`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to suggest names: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Transfer ownership of a name
+   */
+  async transferName(name: string, newOwner: string): Promise<ENSAgentResponse> {
+    try {
+      if (!this.signer) {
+        return {
+          success: false,
+          error: 'Signer required for transfer'
+        };
+      }
+
+      const registry = this.getENSRegistry();
+      const node = ethers.namehash(name);
+      const wrapped = await this.readWrappedData(node);
+
+      let tx;
+      if (wrapped.isWrapped) {
+        if (wrapped.fuses & NAME_WRAPPER_FUSES.CANNOT_TRANSFER) {
+          return {
+            success: false,
+            error: `${name} has the CANNOT_TRANSFER fuse burned and can never be transferred`
+          };
+        }
+        const from = await this.signer.getAddress();
+        tx = await this.getNameWrapper().safeTransferFrom(from, newOwner, BigInt(node), 1, '0x');
+      } else {
+        tx = await registry.setOwner(node, newOwner);
+      }
+      await tx.wait();
+      
+      return {
+        success: true,
+        data: { name, newOwner, isWrapped: wrapped.isWrapped, txHash: tx.hash },
+        message: `Transferred ${name} to ${newOwner}`,
+        transaction: {
+          hash: tx.hash,
+          operation: { type: 'transfer', name, data: { newOwner } },
+          status: 'confirmed',
+          timestamp: new Date()
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to transfer name: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Get NameWrapper data (wrapped owner, fuses, expiry) for a name
+   */
+  async getWrappedData(name: string): Promise<ENSAgentResponse> {
+    try {
+      const data = await this.readWrappedData(ethers.namehash(name));
+      return {
+        success: true,
+        data,
+        message: data.isWrapped
+          ? `${name} is wrapped. Fuses: ${data.fuseNames.join(', ') || 'none'}`
+          : `${name} is not wrapped`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get wrapped name data: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Wrap a name in the NameWrapper, approving the wrapper first if needed.
+   * Fuses passed here are burned immediately and cannot be undone.
+   */
+  async wrapName(name: string, options: { resolver?: string; fuses?: NameWrapperFuse[] } = {}): Promise<ENSAgentResponse> {
+    try {
+      if (!this.signer) {
+        return {
+          success: false,
+          error: 'Signer required for wrapping'
+        };
+      }
+
+      const node = ethers.namehash(name);
+      const wrapped = await this.readWrappedData(node);
+      if (wrapped.isWrapped) {
+        return {
+          success: false,
+          error: `${name} is already wrapped`
+        };
+      }
+
+      const fuses = options.fuses || [];
+      const invalidFuses = fuses.filter(fuse => !OWNER_CONTROLLED_FUSES.includes(fuse));
+      if (invalidFuses.length > 0) {
+        return {
+          success: false,
+          error: `Only owner-controlled fuses can be burned. Invalid: ${invalidFuses.join(', ')}`
+        };
+      }
+      if (fuses.length > 0 && !fuses.includes('CANNOT_UNWRAP')) {
+        return {
+          success: false,
+          error: 'CANNOT_UNWRAP must be burned together with any other fuse'
+        };
+      }
+
+      const owner = await this.signer.getAddress();
+      const registry = this.getENSRegistry();
+      const wrapper = this.getNameWrapper();
+      const wrapperAddress = this.config.contracts.NameWrapper;
+      const currentResolver = await registry.resolver(node);
+      const resolver = options.resolver || (currentResolver !== ethers.ZeroAddress ? currentResolver : this.config.contracts.PublicResolver);
+
+      let tx;
+      if (isETH2LD(name)) {
+        const label = name.split('.')[0];
+        const tokenId = BigInt(ethers.keccak256(ethers.toUtf8Bytes(label)));
+        const baseRegistrar = this.getBaseRegistrar();
+
+        const registrant = await baseRegistrar.ownerOf(tokenId);
+        if (registrant.toLowerCase() !== owner.toLowerCase()) {
+          return {
+            success: false,
+            error: `Only the registrant of ${name} can wrap it`
+          };
+        }
+
+        const [approvedForAll, approved] = await Promise.all([
+          baseRegistrar.isApprovedForAll(owner, wrapperAddress),
+          baseRegistrar.getApproved(tokenId)
+        ]);
+        if (!approvedForAll && approved.toLowerCase() !== wrapperAddress.toLowerCase()) {
+          const approveTx = await baseRegistrar.approve(wrapperAddress, tokenId);
+          await approveTx.wait();
+        }
+
+        tx = await wrapper.wrapETH2LD(label, owner, encodeFuses(fuses), resolver);
+      } else {
+        if (fuses.length > 0) {
+          return {
+            success: false,
+            error: 'Fuses can only be burned while wrapping .eth second-level names. Wrap first, then burn fuses.'
+          };
+        }
+
+        const registryOwner = await registry.owner(node);
+        if (registryOwner.toLowerCase() !== owner.toLowerCase()) {
+          return {
+            success: false,
+            error: `Only the owner of ${name} can wrap it`
+          };
+        }
+
+        if (!(await registry.isApprovedForAll(owner, wrapperAddress))) {
+          const approveTx = await registry.setApprovalForAll(wrapperAddress, true);
+          await approveTx.wait();
+        }
+
+        tx = await wrapper.wrap(ethers.dnsEncode(name), owner, resolver);
+      }
+      await tx.wait();
+
+      return {
+        success: true,
+        data: { name, owner, resolver, fuses, warnings: getFuseWarnings(fuses), txHash: tx.hash },
+        message: `Wrapped ${name}`,
+        transaction: {
+          hash: tx.hash,
+          operation: { type: 'wrap', name, data: { resolver, fuses } },
+          status: 'confirmed',
+          timestamp: new Date()
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to wrap name: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Unwrap a name. For .eth names the registrant and registry controller are set to `newOwner`.
+   */
+  async unwrapName(name: string, newOwner?: string): Promise<ENSAgentResponse> {
+    try {
+      if (!this.signer) {
+        return {
+          success: false,
+          error: 'Signer required for unwrapping'
+        };
+      }
+
+      const node = ethers.namehash(name);
+      const wrapped = await this.readWrappedData(node);
+      if (!wrapped.isWrapped) {
+        return {
+          success: false,
+          error: `${name} is not wrapped`
+        };
+      }
+      if (wrapped.fuses & NAME_WRAPPER_FUSES.CANNOT_UNWRAP) {
+        return {
+          success: false,
+          error: `${name} has the CANNOT_UNWRAP fuse burned and can never be unwrapped`
+        };
+      }
+
+      const owner = newOwner || await this.signer.getAddress();
+      const wrapper = this.getNameWrapper();
+      const [label, ...parentLabels] = name.split('.');
+      const labelHash = ethers.keccak256(ethers.toUtf8Bytes(label));
+
+      const tx = isETH2LD(name)
+        ? await wrapper.unwrapETH2LD(labelHash, owner, owner)
+        : await wrapper.unwrap(ethers.namehash(parentLabels.join('.')), labelHash, owner);
+      await tx.wait();
+
+      return {
+        success: true,
+        data: { name, owner, txHash: tx.hash },
+        message: `Unwrapped ${name}`,
+        transaction: {
+          hash: tx.hash,
+          operation: { type: 'unwrap', name, data: { owner } },
+          status: 'confirmed',
+          timestamp: new Date()
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to unwrap name: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Check whether the given owner-controlled fuses can be burned on a wrapped name
+   */
+  async validateFuseBurn(name: string, fuses: NameWrapperFuse[]): Promise<ENSAgentResponse> {
+    try {
+      const invalid = fuses.filter(fuse => !OWNER_CONTROLLED_FUSES.includes(fuse));
+      if (fuses.length === 0 || invalid.length > 0) {
+        return {
+          success: false,
+          error: invalid.length > 0
+            ? `Only owner-controlled fuses can be burned. Invalid: ${invalid.join(', ')}`
+            : 'No fuses specified'
+        };
+      }
+
+      const wrapped = await this.readWrappedData(ethers.namehash(name));
+      if (!wrapped.isWrapped) {
+        return {
+          success: false,
+          error: `${name} must be wrapped before fuses can be burned`
+        };
+      }
+      if (wrapped.fuses & NAME_WRAPPER_FUSES.CANNOT_BURN_FUSES) {
+        return {
+          success: false,
+          error: `${name} has CANNOT_BURN_FUSES burned, no more fuses can be burned`
+        };
+      }
+      if (!(wrapped.fuses & NAME_WRAPPER_FUSES.PARENT_CANNOT_CONTROL)) {
+        return {
+          success: false,
+          error: `The parent of ${name} must burn PARENT_CANNOT_CONTROL before owner fuses can be burned`
+        };
+      }
+
+      const unwrapBurned = (wrapped.fuses & NAME_WRAPPER_FUSES.CANNOT_UNWRAP) !== 0 || fuses.includes('CANNOT_UNWRAP');
+      if (!unwrapBurned && fuses.some(fuse => fuse !== 'CANNOT_UNWRAP')) {
+        return {
+          success: false,
+          error: 'CANNOT_UNWRAP must be burned before (or together with) any other fuse'
+        };
+      }
+
+      const newFuses = fuses.filter(fuse => !(wrapped.fuses & NAME_WRAPPER_FUSES[fuse]));
+      return {
+        success: true,
+        data: { name, fuses: newFuses, alreadyBurned: fuses.filter(fuse => !newFuses.includes(fuse)), warnings: getFuseWarnings(newFuses) },
+        message: `Fuses can be burned on ${name}`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to validate fuses: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Burn owner-controlled fuses on a wrapped name. This is irreversible.
+   */
+  async burnFuses(name: string, fuses: NameWrapperFuse[]): Promise<ENSAgentResponse> {
+    try {
+      if (!this.signer) {
+        return {
+          success: false,
+          error: 'Signer required for burning fuses'
+        };
+      }
+
+      const validation = await this.validateFuseBurn(name, fuses);
+      if (!validation.success) {
+        return validation;
+      }
+
+      const node = ethers.namehash(name);
+      const tx = await this.getNameWrapper().setFuses(node, encodeFuses(validation.data.fuses));
+      await tx.wait();
+
+      return {
+        success: true,
+        data: { ...validation.data, txHash: tx.hash },
+        message: `Burned ${validation.data.fuses.join(', ')} on ${name}`,
+        transaction: {
+          hash: tx.hash,
+          operation: { type: 'burnFuses', name, data: { fuses: validation.data.fuses } },
+          status: 'confirmed',
+          timestamp: new Date()
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to burn fuses: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Create a subname under a name the signer controls, through the NameWrapper when the
+   * parent is wrapped and the registry otherwise. The resolver and address are set in the same flow.
+   */
+  async createSubname(name: string, options: SubnameOptions = {}): Promise<ENSAgentResponse> {
+    try {
+      if (!this.signer) {
+        return {
+          success: false,
+          error: 'Signer required for creating subnames'
+        };
+      }
+
+      if (!isSubdomain(name)) {
+        return {
+          success: false,
+          error: `${name} is not a subname. Use a name like pay.${name}`
+        };
+      }
+
+      const label = name.split('.')[0];
+      const labelValidation = validateLabel(label);
+      if (!labelValidation.valid) {
+        return {
+          success: false,
+          error: labelValidation.error
+        };
+      }
+
+      const registry = this.getENSRegistry();
+      const parentName = getParentDomain(name);
+      const parentNode = ethers.namehash(parentName);
+      const node = ethers.namehash(name);
+      const labelHash = ethers.keccak256(ethers.toUtf8Bytes(label));
+
+      const signerAddress = await this.signer.getAddress();
+      const owner = options.owner || signerAddress;
+      const resolver = options.resolver || this.config.contracts.PublicResolver;
+      const ttl = options.ttl || 0;
+
+      const parent = await this.readWrappedData(parentNode);
+      if (parent.owner.toLowerCase() !== signerAddress.toLowerCase()) {
+        return {
+          success: false,
+          error: `Only the owner of ${parentName} can create subnames under it`
+        };
+      }
+      if (parent.isWrapped && parent.fuses & NAME_WRAPPER_FUSES.CANNOT_CREATE_SUBDOMAIN) {
+        return {
+          success: false,
+          error: `${parentName} has the CANNOT_CREATE_SUBDOMAIN fuse burned`
+        };
+      }
+      if ((await registry.owner(node)) !== ethers.ZeroAddress) {
+        return {
+          success: false,
+          error: `${name} already exists`
+        };
+      }
+
+      // The address record can only be written while the signer owns the subname,
+      // so create it for the signer first and hand it over afterwards.
+      const initialOwner = options.address ? signerAddress : owner;
+      const txHashes: string[] = [];
+
+      const createTx = parent.isWrapped
+        ? await this.getNameWrapper().setSubnodeRecord(parentNode, label, initialOwner, resolver, ttl, 0, parent.expiry)
+        : await registry.setSubnodeRecord(parentNode, labelHash, initialOwner, resolver, ttl);
+      await createTx.wait();
+      txHashes.push(createTx.hash);
+      this.knownLabels.set(labelHash, label);
+
+      if (options.address) {
+        const resolverContract = new ethers.Contract(resolver, CONTRACT_ABIS.PublicResolver, this.signer);
+        const addrTx = await resolverContract.setAddr(node, 60, options.address);
+        await addrTx.wait();
+        txHashes.push(addrTx.hash);
+      }
+
+      if (initialOwner.toLowerCase() !== owner.toLowerCase()) {
+        const transferTx = parent.isWrapped
+          ? await this.getNameWrapper().safeTransferFrom(signerAddress, owner, BigInt(node), 1, '0x')
+          : await registry.setOwner(node, owner);
+        await transferTx.wait();
+        txHashes.push(transferTx.hash);
+      }
+
+      return {
+        success: true,
+        data: { name, parent: parentName, owner, resolver, address: options.address, isWrapped: parent.isWrapped, txHashes },
+        message: `Created ${name}${options.address ? ` pointing to ${options.address}` : ''}`,
+        transaction: {
+          hash: createTx.hash,
+          operation: { type: 'createSubname', name, data: { owner, resolver, address: options.address } },
+          status: 'confirmed',
+          timestamp: new Date()
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create subname: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Delete a subname by clearing its owner and resolver from the parent
+   */
+  async deleteSubname(name: string): Promise<ENSAgentResponse> {
+    try {
+      if (!this.signer) {
+        return {
+          success: false,
+          error: 'Signer required for deleting subnames'
+        };
+      }
+
+      if (!isSubdomain(name)) {
+        return {
+          success: false,
+          error: `${name} is not a subname`
+        };
+      }
+
+      const label = name.split('.')[0];
+      const parentName = getParentDomain(name);
+      const parentNode = ethers.namehash(parentName);
+      const labelHash = ethers.keccak256(ethers.toUtf8Bytes(label));
+      const signerAddress = await this.signer.getAddress();
+
+      const parent = await this.readWrappedData(parentNode);
+      if (parent.owner.toLowerCase() !== signerAddress.toLowerCase()) {
+        return {
+          success: false,
+          error: `Only the owner of ${parentName} can delete its subnames`
+        };
+      }
+
+      let tx;
+      if (parent.isWrapped) {
+        const child = await this.readWrappedData(ethers.namehash(name));
+        if (child.fuses & NAME_WRAPPER_FUSES.PARENT_CANNOT_CONTROL) {
+          return {
+            success: false,
+            error: `${name} has PARENT_CANNOT_CONTROL burned and cannot be deleted by the parent`
+          };
+        }
+        tx = await this.getNameWrapper().setSubnodeRecord(parentNode, label, ethers.ZeroAddress, ethers.ZeroAddress, 0, 0, 0);
+      } else {
+        tx = await this.getENSRegistry().setSubnodeRecord(parentNode, labelHash, ethers.ZeroAddress, ethers.ZeroAddress, 0);
+      }
+      await tx.wait();
+
+      return {
+        success: true,
+        data: { name, parent: parentName, txHash: tx.hash },
+        message: `Deleted ${name}`,
+        transaction: {
+          hash: tx.hash,
+          operation: { type: 'deleteSubname', name },
+          status: 'confirmed',
+          timestamp: new Date()
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to delete subname: ${error}`
+      };
+    }
+  }
+
+  /**
+   * List existing subnames of a name from registry NewOwner events.
+   * Labels are recovered from NameWrapped events or names created through this manager,
+   * otherwise shown as [labelhash].
+   */
+  async listSubnames(parentName: string, fromBlock: number = this.getDeploymentBlock()): Promise<ENSAgentResponse> {
+    try {
+      const registry = this.getENSRegistry();
+      const wrapper = this.getNameWrapper();
+      const parentNode = ethers.namehash(parentName);
+      const latest = await this.provider.getBlockNumber();
+
+      const events = await this.queryLogs(registry, registry.filters.NewOwner(parentNode), fromBlock, latest);
+      const labelHashes = [...new Set(events.map(event => event.args.label as string))];
+
+      const records = await Promise.all(labelHashes.map(async labelHash => {
+        const node = ethers.keccak256(ethers.concat([parentNode, labelHash]));
+        const registryOwner: string = await registry.owner(node);
+        return { labelHash, node, registryOwner };
+      }));
+      const current = records.filter(record => record.registryOwner !== ethers.ZeroAddress);
+
+      // Labels of wrapped subnames come from their NameWrapped events, read for all of them at once
+      const unlabelled = current
+        .filter(record => this.isNameWrapper(record.registryOwner) && !this.knownLabels.has(record.labelHash))
+        .map(record => record.node);
+      if (unlabelled.length > 0) {
+        const wrappedEvents = await this.queryLogs(wrapper, wrapper.filters.NameWrapped(unlabelled), fromBlock, latest);
+        for (const event of wrappedEvents) {
+          const dnsName = ethers.getBytes(event.args.name);
+          const label = ethers.toUtf8String(dnsName.slice(1, 1 + dnsName[0]));
+          this.knownLabels.set(ethers.keccak256(ethers.toUtf8Bytes(label)), label);
+        }
+      }
+
+      const existing = await Promise.all(current.map(async ({ labelHash, node, registryOwner }): Promise<SubnameInfo> => {
+        const isWrapped = this.isNameWrapper(registryOwner);
+        const label = this.knownLabels.get(labelHash) || null;
+        return {
+          name: `${label || encodeUnknownLabel(labelHash)}.${parentName}`,
+          label,
+          labelHash,
+          node,
+          owner: isWrapped ? await wrapper.ownerOf(BigInt(node)) : registryOwner,
+          isWrapped
+        };
+      }));
+
+      return {
+        success: true,
+        data: { parent: parentName, subnames: existing },
+        message: `Found ${existing.length} subname(s) of ${parentName}`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to list subnames: ${error}`
+      };
+    }
+  }
+
+  /**
+   * List the .eth names an address holds, in the BaseRegistrar or wrapped in the NameWrapper
+   * (subnames included), with the registrar expiry of their .eth name. The registrar reports no
+   * owner for names in their grace period, so unwrapped holders come from the last Transfer
+   * event of each name.
+   */
+  async getOwnedNames(address: string, fromBlock: number = this.getDeploymentBlock()): Promise<ENSAgentResponse> {
+    try {
+      const owner = ethers.getAddress(address);
+      const scan = await this.scanOwnedNames(owner, fromBlock);
+      const baseRegistrar = this.getBaseRegistrar();
+      const wrapper = this.getNameWrapper();
+      const now = Math.floor(Date.now() / 1000);
+
+      const unwrapped = await Promise.all(getHeldLabelHashes(scan).map(async (labelHash): Promise<OwnedName | null> => {
+        const expires = Number(await baseRegistrar.nameExpires(BigInt(labelHash)));
+        // Active names may have been re-registered by someone else after a release
+        if (expires > now) {
+          const currentOwner: string = await baseRegistrar.ownerOf(BigInt(labelHash)).catch(() => ethers.ZeroAddress);
+          if (currentOwner.toLowerCase() !== owner.toLowerCase()) return null;
+        }
+        return { name: '', label: null, labelHash, isWrapped: false, expires };
+      }));
+
+      const wrapped = await Promise.all([...scan.wrappedNames].map(async ([node, encodedName]): Promise<OwnedName | null> => {
+        const name = encodedName ? decodeDNSName(encodedName) : null;
+        // Wrapped DNS names have no .eth registration to expire with
+        if (!name || !name.endsWith('.eth')) {
+          return null;
+        }
+        const currentOwner: string = await wrapper.ownerOf(BigInt(node));
+        if (currentOwner.toLowerCase() !== owner.toLowerCase()) {
+          return null;
+        }
+        const labels = name.split('.');
+        const labelHash = ethers.keccak256(ethers.toUtf8Bytes(labels[0]));
+        // Subnames last as long as the .eth name they are under
+        const registration = ethers.keccak256(ethers.toUtf8Bytes(labels[labels.length - 2]));
+        const expires = Number(await baseRegistrar.nameExpires(BigInt(registration)));
+        return { name, label: labels[0], labelHash, isWrapped: true, expires };
+      }));
+
+      // .eth names can show up both unwrapped and wrapped, subnames are told apart by name
+      const names = [...new Map([...unwrapped, ...wrapped]
+        .filter((entry): entry is OwnedName => entry !== null)
+        .map(entry => [!entry.name || isETH2LD(entry.name) ? entry.labelHash : entry.name, entry])).values()];
+      await this.labelOwnedNames(names.filter(entry => !entry.label), scan.fromBlock, scan.toBlock);
+      names.sort((a, b) => a.expires - b.expires);
+
+      return {
+        success: true,
+        data: { address: owner, names, scannedToBlock: scan.toBlock },
+        message: `${owner} holds ${names.length} .eth name(s)`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to list owned names: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Portfolio of the .eth names an address holds: expiry, resolver, the address each name
+   * resolves to, and which of them is the holder's primary name
+   */
+  async getPortfolio(address: string, thresholds: number[] = DEFAULT_EXPIRY_THRESHOLDS): Promise<ENSAgentResponse> {
+    const owned = await this.getOwnedNames(address);
+    if (!owned.success) {
+      return owned;
+    }
+
+    try {
+      const holder: string = owned.data.address;
+      const registry = this.getENSRegistry();
+      const [primary, names] = await Promise.all([
+        this.resolveAddress(holder),
+        Promise.all((owned.data.names as OwnedName[]).map(async (entry): Promise<PortfolioName> => {
+          const expiry = getNameExpiry(entry, thresholds);
+          // Names without a known label cannot be resolved, released names no longer belong to the holder's records
+          const resolver: string = entry.label && expiry.status !== 'released'
+            ? await registry.resolver(ethers.namehash(entry.name))
+            : ethers.ZeroAddress;
+          const resolved = resolver !== ethers.ZeroAddress ? await this.resolveName(entry.name) : null;
+          return {
+            ...entry,
+            expiry,
+            resolver: resolver !== ethers.ZeroAddress ? resolver : null,
+            resolvedAddress: resolved?.success ? resolved.data.address : null,
+            isPrimary: false
+          };
+        }))
+      ]);
+
+      const primaryName: string | null = primary.success ? primary.data.name : null;
+      for (const entry of names) {
+        entry.isPrimary = entry.name === primaryName;
+      }
+
+      return {
+        success: true,
+        data: { address: holder, primaryName, names, scannedToBlock: owned.data.scannedToBlock },
+        message: `${holder} holds ${names.length} .eth name(s)${primaryName ? `, ${primaryName} is the primary name` : ''}`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to load portfolio: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Audit trail of a name: registry ownership and resolver changes, registration and renewals,
+   * and record changes on every resolver it has used, newest first with who made each change
+   */
+  async getNameHistory(name: string, options: { fromBlock?: number; limit?: number } = {}): Promise<ENSAgentResponse> {
+    const { fromBlock = this.getDeploymentBlock(), limit = 100 } = options;
+
+    try {
+      const normalized = normalizeName(name);
+      const node = ethers.namehash(normalized);
+      const latest = await this.provider.getBlockNumber();
+
+      // Resolvers come from the NewResolver logs, plus the current one in case it predates fromBlock
+      const registryLogs = await this.queryNameHistory(getRegistryHistoryQueries(normalized, this.config.contracts), fromBlock, latest);
+      const resolvers = getHistoryResolvers(registryLogs);
+      const current: string = await this.getENSRegistry().resolver(node);
+      if (current !== ethers.ZeroAddress && !resolvers.includes(ethers.getAddress(current))) {
+        resolvers.push(ethers.getAddress(current));
+      }
+      const resolverLogs = await this.queryNameHistory(getResolverHistoryQueries(normalized, resolvers), fromBlock, latest);
+
+      const decoded = decodeNameHistory([...registryLogs, ...resolverLogs], this.config.network.blockExplorer);
+      const entries = decoded.slice(0, limit);
+
+      // Block times and senders are only looked up for the entries returned
+      const timestamps = new Map<number, number>();
+      const senders = new Map<string, string>();
+      await Promise.all([
+        ...[...new Set(entries.map(entry => entry.blockNumber))].map(async blockNumber => {
+          const block = await this.provider.getBlock(blockNumber);
+          if (block) timestamps.set(blockNumber, block.timestamp);
+        }),
+        ...[...new Set(entries.map(entry => entry.txHash))].map(async txHash => {
+          const transaction = await this.provider.getTransaction(txHash);
+          if (transaction) senders.set(txHash, transaction.from);
+        })
+      ]);
+      for (const entry of entries) {
+        entry.timestamp = timestamps.get(entry.blockNumber);
+        entry.from = senders.get(entry.txHash);
+      }
+
+      return {
+        success: true,
+        data: { name: normalized, node, resolvers, total: decoded.length, entries },
+        message: decoded.length > 0
+          ? `${decoded.length} change(s) recorded for ${normalized}${decoded.length > limit ? `, showing the latest ${limit}` : ''}`
+          : `No changes recorded for ${normalized}`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to load name history: ${error}`
+      };
+    }
+  }
+
+  // Fetch the logs of each history query, filtering on its indexed arguments
+  private async queryNameHistory(queries: NameHistoryQuery[], fromBlock: number, toBlock: number): Promise<NameHistoryLog[]> {
+    const results = await Promise.all(queries.map(async query => {
+      const contract = new ethers.Contract(query.address, CONTRACT_ABIS[query.source], this.provider);
+      const fragment = contract.interface.getEvent(query.event);
+      if (!fragment) {
+        throw new Error(`${query.event} is not an event of ${query.source}`);
+      }
+      const values = fragment.inputs.map(input => (input.indexed ? query.args[input.name] ?? null : null));
+      const events = await this.queryLogs(contract, contract.filters[query.event](...values), fromBlock, toBlock);
+      return events.map((event): NameHistoryLog => ({
+        source: query.source,
+        address: query.address,
+        event: query.event,
+        args: event.args.toObject(),
+        blockNumber: event.blockNumber,
+        logIndex: event.index,
+        txHash: event.transactionHash
+      }));
+    }));
+    return results.flat();
+  }
+
+  // Bring the cached transfer scan of an address up to the latest block
+  private async scanOwnedNames(owner: string, fromBlock: number): Promise<PortfolioScan> {
+    const baseRegistrar = this.getBaseRegistrar();
+    const wrapper = this.getNameWrapper();
+    const cached = this.portfolios.get(this.config.network.chainId, owner);
+    // A scan starting later than requested would miss transfers, so it is redone
+    const scan = cached && cached.fromBlock <= fromBlock ? cached : createPortfolioScan(owner, fromBlock);
+
+    const latest = await this.provider.getBlockNumber();
+    if (scan.toBlock >= latest) {
+      return scan;
+    }
+
+    const start = scan.toBlock + 1;
+    const [received, sent, wrappedReceived, batchesReceived] = await Promise.all([
+      this.queryLogs(baseRegistrar, baseRegistrar.filters.Transfer(null, owner), start, latest),
+      this.queryLogs(baseRegistrar, baseRegistrar.filters.Transfer(owner, null), start, latest),
+      this.queryLogs(wrapper, wrapper.filters.TransferSingle(null, null, owner), start, latest),
+      this.queryLogs(wrapper, wrapper.filters.TransferBatch(null, null, owner), start, latest)
+    ]);
+
+    for (const event of [...received, ...sent]) {
+      recordTransfer(scan, ethers.toBeHex(event.args.tokenId, 32), {
+        to: event.args.to,
+        blockNumber: event.blockNumber,
+        index: event.index
+      });
+    }
+
+    // Wrapped names are labelled by their NameWrapped event, which can predate the transfer
+    const receivedIds: bigint[] = [
+      ...wrappedReceived.map(event => event.args.id),
+      ...batchesReceived.flatMap(event => [...event.args.ids])
+    ];
+    for (const id of receivedIds) {
+      const node = ethers.toBeHex(id, 32);
+      if (!scan.wrappedNames.has(node)) scan.wrappedNames.set(node, null);
+    }
+    const unlabelled = [...scan.wrappedNames].filter(([, name]) => name === null).map(([node]) => node);
+    if (unlabelled.length > 0) {
+      const wrappedEvents = await this.queryLogs(wrapper, wrapper.filters.NameWrapped(unlabelled), scan.fromBlock, latest);
+      for (const event of wrappedEvents) {
+        scan.wrappedNames.set(event.args.node, event.args.name);
+      }
+    }
+
+    scan.toBlock = latest;
+    this.portfolios.set(this.config.network.chainId, scan);
+    return scan;
+  }
+
+  // First block worth querying for ENS events, the deployment's registry deployment
+  private getDeploymentBlock(): number {
+    return this.config.network.deploymentBlock ?? 0;
+  }
+
+  // Logs of a filter over a block range, queried in chunks RPC endpoints accept
+  private async queryLogs(
+    contract: ethers.Contract,
+    filter: ethers.ContractEventName,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<ethers.EventLog[]> {
+    const logs: ethers.EventLog[] = [];
+    for (let start = fromBlock; start <= toBlock; start += LOG_QUERY_BLOCK_RANGE) {
+      const events = await contract.queryFilter(filter, start, Math.min(start + LOG_QUERY_BLOCK_RANGE - 1, toBlock));
+      logs.push(...(events as ethers.EventLog[]));
+    }
+    return logs;
+  }
+
+  /**
+   * Expiry status of every .eth name an address holds, soonest first
+   */
+  async getNameExpiries(address: string, thresholds: number[] = DEFAULT_EXPIRY_THRESHOLDS): Promise<ENSAgentResponse> {
+    const owned = await this.getOwnedNames(address);
+    if (!owned.success) {
+      return owned;
+    }
+
+    // Subnames expire with the .eth name they are under, so only registrations are reported
+    const expiries = (owned.data.names as OwnedName[])
+      .filter(name => isETH2LD(name.name))
+      .map(name => getNameExpiry(name, thresholds));
+    const attention = expiries.filter(expiry => expiry.status !== 'active');
+    return {
+      success: true,
+      data: { address: owned.data.address, thresholds, names: expiries },
+      message: attention.length > 0
+        ? `${attention.length} of ${expiries.length} name(s) need attention`
+        : `None of the ${expiries.length} name(s) expire within ${Math.max(...thresholds)} days`
+    };
+  }
+
+  // Labels of registered names from ETHRegistrarController NameRegistered events, by labelhash
+  private async labelOwnedNames(names: OwnedName[], fromBlock: number, toBlock: number): Promise<void> {
+    const lookup = (labelHash: string) => this.knownLabels.get(labelHash) || this.portfolios.getLabel(labelHash);
+    const unknown = names.filter(entry => !lookup(entry.labelHash)).map(entry => entry.labelHash);
+    if (unknown.length > 0) {
+      const controller = this.getETHRegistrarController();
+      const events = await this.queryLogs(controller, controller.filters.NameRegistered(null, unknown), fromBlock, toBlock);
+      for (const event of events) {
+        this.portfolios.setLabel(event.args.labelhash, event.args.label);
+      }
+    }
+
+    for (const entry of names) {
+      entry.label = lookup(entry.labelHash) || null;
+      entry.name = `${entry.label || encodeUnknownLabel(entry.labelHash)}.eth`;
+    }
+  }
+
+  /**
+   * Check whether a DNS domain can be imported into ENS: the "_ens" TXT record naming
+   * the owner, a DNSSEC chain the oracle accepts, and any "ENS1" offchain record
+   */
+  async getDNSImportStatus(domain: string): Promise<ENSAgentResponse> {
+    try {
+      const name = this.validateDNSDomain(domain);
+      const ensOwner: string = await this.getENSRegistry().owner(dnsNamehash(name));
+
+      const [ownerRecords, domainRecords] = await Promise.all([
+        this.dnsClient.query(`_ens.${name}`, DNS_TYPES.TXT),
+        this.dnsClient.query(name, DNS_TYPES.TXT)
+      ]);
+      const dnsOwner = parseENSOwnerRecord(ownerRecords);
+      const offchain = parseENS1Record(domainRecords);
+
+      // Build the proof and let the oracle verify it, unsupported algorithms fail here
+      let proofError: string | null = null;
+      if (dnsOwner) {
+        try {
+          const proof = await this.buildDNSImportProof(name);
+          const oracle = await this.getDNSSECOracle();
+          await oracle['verifyRRSet((bytes,bytes)[])'](this.toProofInput(proof));
+        } catch (error) {
+          proofError = error instanceof Error ? error.message : String(error);
+        }
+      }
+
+      const owner = ensOwner === ethers.ZeroAddress ? null : ensOwner;
+      const imported = !!dnsOwner && owner?.toLowerCase() === dnsOwner.toLowerCase();
+      const canClaim = !!dnsOwner && !proofError && !imported;
+
+      let message: string;
+      if (imported) {
+        message = `${name} is already imported into ENS and owned by ${owner}`;
+      } else if (!dnsOwner) {
+        message = `${name} has no owner record. Add a TXT record at _ens.${name} with the value a=<your address>, with DNSSEC enabled.`;
+      } else if (proofError) {
+        message = `${name} names ${dnsOwner} as owner, but its DNSSEC proof does not verify: ${proofError}`;
+      } else {
+        message = `${name} can be claimed in ENS by ${dnsOwner}`;
+      }
+
+      return {
+        success: true,
+        data: {
+          domain: name,
+          ensOwner: owner,
+          dnsOwner,
+          dnssec: !!dnsOwner && !proofError,
+          proofError,
+          offchain,
+          imported,
+          canClaim
+        },
+        message
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to check DNS import status: ${error}`
       };
     }
   }
 
   /**
-   * Renew a name
+   * Import a DNS domain into ENS by submitting the DNSSEC proof of its "_ens" TXT record to
+   * the DNS Registrar. The owner comes from the record, so anyone can submit the proof;
+   * with a resolver, only that owner can, and the resolver's address record is set too.
    */
-  async renewName(name: string, duration: number): Promise<ENSAgentResponse> {
+  async importDNSName(domain: string, options: { resolver?: string; address?: string } = {}): Promise<ENSAgentResponse> {
     try {
       if (!this.signer) {
         return {
           success: false,
-          error: 'Signer required for renewal'
+          error: 'Signer required for importing a DNS name'
         };
       }
 
-      const controller = this.getETHRegistrarController();
-      const label = name.split('.')[0];
-      const labelHash = ethers.keccak256(ethers.toUtf8Bytes(label));
-      
-      const price = await controller.rentPrice(label, duration);
-      
-      const tx = await controller.renew(label, duration, {
-        value: price.base + price.premium
-      });
-      
+      const name = this.validateDNSDomain(domain);
+      const node = dnsNamehash(name);
+      const proof = await this.buildDNSImportProof(name);
+      const owner = parseENSOwnerRecord(proof.records);
+      if (!owner) {
+        return {
+          success: false,
+          error: `No owner record found. Add a TXT record at _ens.${name} with the value a=<your address>.`
+        };
+      }
+
+      const signerAddress = await this.signer.getAddress();
+      if (options.resolver && owner.toLowerCase() !== signerAddress.toLowerCase()) {
+        return {
+          success: false,
+          error: `The _ens.${name} record names ${owner} as owner, only that wallet can claim ${name} with a resolver`
+        };
+      }
+
+      const registrar = this.getDNSRegistrar();
+      const lastInception = Number(await registrar.inceptions(node));
+      if (proof.inception <= lastInception) {
+        return {
+          success: false,
+          error: `The DNSSEC signature of _ens.${name} predates the last claim of ${name}, wait for the zone to be re-signed`
+        };
+      }
+
+      const input = this.toProofInput(proof);
+      const tx = options.resolver
+        ? await registrar.proveAndClaimWithResolver(encodeDNSName(name), input, options.resolver, options.address || ethers.ZeroAddress)
+        : await registrar.proveAndClaim(encodeDNSName(name), input);
       await tx.wait();
-      
+
       return {
         success: true,
-        data: { name, duration, txHash: tx.hash },
-        message: `Renewed ${name} for ${duration} seconds`,
+        data: { domain: name, owner, resolver: options.resolver, txHash: tx.hash },
+        message: `Imported ${name} into ENS, owned by ${owner}`,
         transaction: {
           hash: tx.hash,
-          operation: { type: 'renew', name, data: { duration } },
+          operation: { type: 'importDNSName', name, data: { owner, ...options } },
           status: 'confirmed',
           timestamp: new Date()
         }
@@ -495,75 +2598,474 @@ export class ENSContractManager {
     } catch (error) {
       return {
         success: false,
-        error: `Failed to renew name: ${error}`
+        error: `Failed to import DNS name: ${error}`
       };
     }
   }
 
   /**
-   * Get price for a name registration
+   * TXT record that makes a DNS domain resolve to an address through ENS without importing it,
+   * read by the OffchainDNSResolver and answered by the ExtendedDNSResolver
    */
-  async getPrice(name: string, duration: number): Promise<ENSAgentResponse> {
+  async getOffchainDNSConfig(domain: string, address: string): Promise<ENSAgentResponse> {
     try {
-      const controller = this.getETHRegistrarController();
-      const label = name.split('.')[0];
-      
-      const price = await controller.rentPrice(label, duration);
-      
+      const name = this.validateDNSDomain(domain);
+      const target = ethers.getAddress(address);
+      const resolver = this.getContractAddress('ExtendedDNSResolver');
+      const record = `ENS1 ${resolver} ${target}`;
+
+      const current = parseENS1Record(await this.dnsClient.query(name, DNS_TYPES.TXT));
+      const configured = !!current
+        && current.resolver.toLowerCase() === resolver.toLowerCase()
+        && current.context.toLowerCase() === target.toLowerCase();
+
       return {
         success: true,
-        data: {
-          name,
-          duration,
-          base: ethers.formatEther(price.base),
-          premium: ethers.formatEther(price.premium),
-          total: ethers.formatEther(price.base + price.premium)
-        },
-        message: `Price calculated for ${name}`
+        data: { domain: name, address: target, resolver, record, current, configured },
+        message: configured
+          ? `${name} already resolves to ${target} through ENS`
+          : `Add a TXT record on ${name} with the value "${record}", with DNSSEC enabled, to resolve ${name} to ${target} without a transaction`
       };
     } catch (error) {
       return {
         success: false,
-        error: `Failed to get price: ${error}`
+        error: `Failed to build offchain DNS record: ${error}`
       };
     }
   }
 
+  // DNS domains are imported as-is, .eth names go through the ETH registrar
+  private validateDNSDomain(domain: string): string {
+    const name = normalizeDNSName(domain);
+    if (!/^(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z][a-z0-9-]{0,62}$/.test(name)) {
+      throw new Error(`${domain} is not a DNS domain`);
+    }
+    if (name.endsWith('.eth')) {
+      throw new Error(`${name} is an ENS name, only DNS domains can be imported`);
+    }
+    return name;
+  }
+
+  // Proof of the "_ens" TXT record, anchored in the root keys the oracle trusts
+  private async buildDNSImportProof(name: string): Promise<DNSSECProof> {
+    const oracle = await this.getDNSSECOracle();
+    const rootKeyTags = parseTrustAnchorKeyTags(await oracle.anchors());
+    return await buildDNSSECProof(this.dnsClient, `_ens.${name}`, DNS_TYPES.TXT, { rootKeyTags });
+  }
+
+  private toProofInput(proof: DNSSECProof): [string, string][] {
+    return proof.entries.map(entry => [entry.rrset, entry.sig]);
+  }
+
   /**
-   * Transfer ownership of a name
+   * Estimate gas and EIP-1559 fees for an operation from its actual call data
    */
-  async transferName(name: string, newOwner: string): Promise<ENSAgentResponse> {
+  async estimateOperationGas(operation: ENSOperation, from?: string): Promise<ENSAgentResponse> {
     try {
-      if (!this.signer) {
+      const sender = from || (this.signer ? await this.signer.getAddress() : undefined);
+      const steps = await this.buildOperationSteps(operation, sender || ethers.ZeroAddress);
+      if (steps.length === 0) {
         return {
           success: false,
-          error: 'Signer required for transfer'
+          error: `Gas estimation is not supported for ${operation.type}`
         };
       }
 
-      const registry = this.getENSRegistry();
-      const node = ethers.namehash(name);
-      
-      const tx = await registry.setOwner(node, newOwner);
-      await tx.wait();
-      
+      // Per-chain primary names are sent on their L2, so they are priced there
+      const chain = operation.data?.chain ? getReverseChain(operation.data.chain, this.getReverseChains()) : undefined;
+      const estimate = await estimateTransactionsGas(chain ? this.getChainProvider(chain) : this.provider, steps, sender);
       return {
         success: true,
-        data: { name, newOwner, txHash: tx.hash },
-        message: `Transferred ${name} to ${newOwner}`,
-        transaction: {
-          hash: tx.hash,
-          operation: { type: 'transfer', name, data: { newOwner } },
-          status: 'confirmed',
-          timestamp: new Date()
+        data: estimate,
+        message: `Estimated fee for ${operation.type} ${operation.name}: ${formatGasEstimate(estimate)}`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to estimate gas: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Build the unsigned transactions of an operation for a browser wallet to sign and send,
+   * with gas limits, the chain id and a summary of each step. Registrations return the
+   * commitment secret, which the register transaction needs once the commit is mined.
+   */
+  async prepareOperation(operation: ENSOperation, from: string): Promise<ENSAgentResponse> {
+    try {
+      const { type, name } = operation;
+      if (!PREPARED_OPERATION_TYPES.includes(type)) {
+        return {
+          success: false,
+          error: `Preparing ${type} transactions is not supported`
+        };
+      }
+      if (!ethers.isAddress(from)) {
+        return {
+          success: false,
+          error: `Invalid sender address: ${from}`
+        };
+      }
+
+      const sender = ethers.getAddress(from);
+      const data = { ...operation.data };
+      const isRegistration = type === 'commit' || type === 'register' || type === 'reveal';
+      if (isRegistration || type === 'renew') {
+        data.duration = data.duration || 365 * 24 * 60 * 60;
+      }
+
+      if (isRegistration) {
+        if (type === 'reveal' && !data.secret) {
+          return {
+            success: false,
+            error: 'The secret of the commitment is required to register'
+          };
+        }
+        if (!(await this.getETHRegistrarController().available(name.split('.')[0]))) {
+          return {
+            success: false,
+            error: `${name} is not available for registration`
+          };
         }
+        data.owner = data.owner || sender;
+        data.secret = data.secret || ethers.hexlify(ethers.randomBytes(32));
+      }
+
+      if (type === 'setRecords') {
+        const records: ENSRecordUpdate[] = data.records || [];
+        const invalid = records
+          .map(record => ({ label: getRecordLabel(record), error: validateRecordUpdate(record) }))
+          .filter(result => result.error);
+        if (records.length === 0 || invalid.length > 0) {
+          return {
+            success: false,
+            error: records.length === 0
+              ? 'No records to update'
+              : `Invalid records: ${invalid.map(result => `${result.label} (${result.error})`).join(', ')}`
+          };
+        }
+      }
+
+      const prepared: ENSOperation = { type, name, data };
+      const steps = await this.buildOperationSteps(prepared, sender);
+      const estimate = await estimateTransactionsGas(this.provider, steps, sender);
+      const transactions = toPreparedTransactions(steps, estimate, prepared, sender, this.config.network.chainId);
+
+      const result: PreparedOperation = {
+        operation: prepared,
+        chainId: this.config.network.chainId,
+        transactions,
+        gasEstimate: estimate,
+        summary: transactions
+          .map((transaction, index) => index === 0 ? transaction.summary : transaction.summary.charAt(0).toLowerCase() + transaction.summary.slice(1))
+          .join(', then '),
+        ...(isRegistration && { secret: data.secret, commitmentAge: this.config.settings.minCommitmentAge })
+      };
+
+      // Only a register waiting on its commitment is expected to fail simulation
+      const unsimulated = transactions.filter(transaction => !transaction.simulated && transaction.label !== 'register');
+      const warning = unsimulated.length > 0
+        ? ` ${unsimulated.map(transaction => transaction.label).join(', ')} could not be simulated from ${sender} and may revert.`
+        : '';
+      const wait = type === 'register'
+        ? ` Send the register transaction at least ${this.config.settings.minCommitmentAge} seconds after the commit is mined.`
+        : '';
+
+      return {
+        success: true,
+        data: result,
+        message: `${result.summary}. ${formatGasEstimate(estimate)}.${wait}${warning}`
       };
     } catch (error) {
       return {
         success: false,
-        error: `Failed to transfer name: ${error}`
+        error: `Failed to prepare transaction: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Check a transaction the user's wallet sent for a prepared operation: pending until mined,
+   * then confirmed or failed. Only calls to this deployment's ENS contracts or the name's
+   * resolver are accepted, sent by `from` when given. The operation is decoded from the calldata.
+   */
+  async confirmTransaction(hash: string, claimed?: ENSOperation, from?: string): Promise<ENSAgentResponse> {
+    try {
+      if (!ethers.isHexString(hash, 32)) {
+        return {
+          success: false,
+          error: `Invalid transaction hash: ${hash}`
+        };
+      }
+
+      const tx = await this.provider.getTransaction(hash);
+      if (!tx) {
+        return {
+          success: false,
+          error: `Transaction ${hash} was not found on ${this.config.network.name}`
+        };
+      }
+      if (from && tx.from.toLowerCase() !== from.toLowerCase()) {
+        return {
+          success: false,
+          error: `Transaction ${hash} was sent by ${tx.from}, not ${from}`
+        };
+      }
+
+      // Calls to any other address must be resolver calls for a name that uses it
+      const to = (tx.to || '').toLowerCase();
+      const contract = ENS_CALL_CONTRACTS.find(name => this.config.contracts[name]?.toLowerCase() === to);
+      const call = decodeENSCall(contract || 'PublicResolver', tx.data);
+      const isResolverCall = !contract && !!call?.node && (await this.getENSRegistry().resolver(call.node)).toLowerCase() === to;
+      if (!call || (!contract && !isResolverCall)) {
+        return {
+          success: false,
+          error: `Transaction ${hash} is not a call to an ENS contract`
+        };
+      }
+
+      // The operation comes from the calldata. A claimed name is only used when the calldata
+      // holds its namehash, or holds no name at all (commits and approvals).
+      const claimedNode = claimed?.name ? ethers.namehash(claimed.name) : undefined;
+      const callNode = call.node || (call.name ? ethers.namehash(call.name) : undefined);
+      if (claimedNode && callNode && claimedNode !== callNode) {
+        return {
+          success: false,
+          error: `Transaction ${hash} is a ${call.type} of ${call.name || 'another name'}, not of ${claimed!.name}`
+        };
+      }
+      const name = call.name || claimed?.name;
+      const operation: ENSOperation | undefined = name
+        ? { type: call.type, name, data: call.names ? { names: call.names } : {} }
+        : undefined;
+
+      const txUrl = `${this.config.network.blockExplorer}/tx/${hash}`;
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      const status = !receipt ? 'pending' : receipt.status === 1 ? 'confirmed' : 'failed';
+      const description = operation ? `${operation.type} ${operation.name}` : call.type;
+      const transaction: ENSTransaction = {
+        hash,
+        operation,
+        status,
+        blockNumber: receipt?.blockNumber,
+        gasUsed: receipt?.gasUsed.toString(),
+        timestamp: new Date(),
+        type: operation?.type,
+        ensName: operation?.name
+      };
+
+      if (status === 'failed') {
+        return {
+          success: false,
+          error: `Transaction ${hash} (${description}) reverted in block ${receipt!.blockNumber}`,
+          transaction
+        };
+      }
+
+      // Records may have changed, so the next avatar lookup reads them again
+      if (status === 'confirmed' && operation?.name) {
+        this.avatars.delete(this.config.network.chainId, operation.name);
+      }
+
+      return {
+        success: true,
+        data: { hash, status, from: tx.from, to: tx.to, operation, blockNumber: receipt?.blockNumber ?? null, txUrl },
+        message: status === 'confirmed'
+          ? `Transaction ${hash} (${description}) confirmed in block ${receipt!.blockNumber}`
+          : `Transaction ${hash} (${description}) is pending`,
+        transaction
       };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to confirm transaction: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Build the transactions an operation sends, in order, without sending them
+   */
+  private async buildOperationSteps(operation: ENSOperation, from: string): Promise<GasEstimateStep[]> {
+    const { type, name } = operation;
+    const data = operation.data || {};
+    const registry = this.getENSRegistry();
+    const wrapper = this.getNameWrapper();
+    const node = ethers.namehash(name);
+    const [label, ...parentLabels] = name.split('.');
+    const labelHash = ethers.keccak256(ethers.toUtf8Bytes(label));
+    const parentNode = ethers.namehash(parentLabels.join('.'));
+    const duration = data.duration || 365 * 24 * 60 * 60;
+
+    const step = async (
+      stepLabel: string,
+      operationType: ENSOperation['type'],
+      transaction: Promise<ethers.ContractTransaction>
+    ): Promise<GasEstimateStep> => ({ label: stepLabel, operationType, transaction: await transaction });
+
+    switch (type) {
+      case 'commit':
+      case 'register':
+      case 'reveal': {
+        const controller = this.getETHRegistrarController();
+        const params = buildRegistrationParams({
+          name,
+          owner: data.owner || from,
+          duration,
+          secret: data.secret,
+          resolver: this.config.contracts.PublicResolver
+        });
+        // A reveal is the register step alone, for a commitment that was already sent
+        const steps = type === 'reveal'
+          ? []
+          : [await step('commit', 'commit', controller.commit.populateTransaction(await controller.makeCommitment(params)))];
+        if (type !== 'commit') {
+          // Reverts until the commitment matures, so this step falls back to the static estimate
+          const quote = await getRentPriceQuote(controller, name, duration);
+          steps.push(await step('register', 'register', controller.register.populateTransaction(params, { value: getPaymentValue(quote) })));
+        }
+        return steps;
+      }
+      case 'renew': {
+        const controller = this.getETHRegistrarController();
+        const quote = await getRentPriceQuote(controller, name, duration);
+        return [await step('renew', 'renew', controller.renew.populateTransaction(label, duration, ethers.ZeroHash, { value: getPaymentValue(quote) }))];
+      }
+      case 'bulkRenew': {
+        const names = this.validateBulkRenewalNames(data.names || [name]);
+        const bulkRenewal = this.getBulkRenewal();
+        const quote = await getBulkRentPriceQuote(bulkRenewal, this.getETHRegistrarController(), names, duration);
+        return [await step('renewAll', 'bulkRenew', bulkRenewal.renewAll.populateTransaction(quote.labels, duration, ethers.ZeroHash, { value: getPaymentValue(quote) }))];
+      }
+      case 'setRecord': {
+        const resolver = await this.getNameResolver(node, this.provider);
+        if (data.contentHash !== undefined) {
+          return [await step('setContenthash', 'setRecord', resolver.setContenthash.populateTransaction(node, encodeContentHash(data.contentHash)))];
+        }
+        return data.key !== undefined
+          ? [await step('setText', 'setRecord', resolver.setText.populateTransaction(node, data.key, data.value))]
+          : [await step('setAddr', 'setRecord', resolver['setAddr(bytes32,uint256,bytes)'].populateTransaction(
+            node,
+            data.coinType ?? 60,
+            encodeCoinAddress(data.coinType ?? 60, data.address)
+          ))];
+      }
+      case 'setRecords': {
+        const resolver = await this.getNameResolver(node, this.provider);
+        const calls = (data.records as ENSRecordUpdate[]).map(record => encodeRecordCall(resolver.interface, node, record));
+        return [await step('multicall', 'setRecords', resolver.multicall.populateTransaction(calls))];
+      }
+      case 'setPrimaryName':
+      case 'clearPrimaryName': {
+        const address = data.address ? ethers.getAddress(data.address) : from;
+        const primaryName = type === 'setPrimaryName' ? name : '';
+        const isSelf = address.toLowerCase() === from.toLowerCase();
+        const chain = data.chain ? getReverseChain(data.chain, this.getReverseChains()) : undefined;
+        if (chain) {
+          const registrar = this.getChainReverseRegistrar(chain, this.getChainProvider(chain));
+          return [await step(type, type, isSelf
+            ? registrar.setName.populateTransaction(primaryName)
+            : registrar.setNameForAddr.populateTransaction(address, primaryName))];
+        }
+        const reverseRegistrar = this.getReverseRegistrar();
+        return [await step(type, type, isSelf
+          ? reverseRegistrar.setName.populateTransaction(primaryName)
+          : reverseRegistrar.setNameForAddr.populateTransaction(address, from, await reverseRegistrar.defaultResolver(), primaryName))];
+      }
+      case 'setResolver': {
+        const wrapped = await this.readWrappedData(node);
+        return [await step('setResolver', 'setResolver', wrapped.isWrapped
+          ? wrapper.setResolver.populateTransaction(node, data.resolverAddress)
+          : registry.setResolver.populateTransaction(node, data.resolverAddress))];
+      }
+      case 'transfer': {
+        const wrapped = await this.readWrappedData(node);
+        return [await step('transfer', 'transfer', wrapped.isWrapped
+          ? wrapper.safeTransferFrom.populateTransaction(from, data.newOwner, BigInt(node), 1, '0x')
+          : registry.setOwner.populateTransaction(node, data.newOwner))];
+      }
+      case 'wrap': {
+        const currentResolver = await registry.resolver(node);
+        const resolver = data.resolver || (currentResolver !== ethers.ZeroAddress ? currentResolver : this.config.contracts.PublicResolver);
+        const wrapperAddress = this.config.contracts.NameWrapper;
+        const steps: GasEstimateStep[] = [];
+
+        if (isETH2LD(name)) {
+          const baseRegistrar = this.getBaseRegistrar();
+          if (!(await baseRegistrar.isApprovedForAll(from, wrapperAddress))) {
+            steps.push(await step('approve', 'wrap', baseRegistrar.approve.populateTransaction(wrapperAddress, BigInt(labelHash))));
+          }
+          steps.push(await step('wrap', 'wrap', wrapper.wrapETH2LD.populateTransaction(label, from, encodeFuses(data.fuses || []), resolver)));
+        } else {
+          if (!(await registry.isApprovedForAll(from, wrapperAddress))) {
+            steps.push(await step('approve', 'wrap', registry.setApprovalForAll.populateTransaction(wrapperAddress, true)));
+          }
+          steps.push(await step('wrap', 'wrap', wrapper.wrap.populateTransaction(ethers.dnsEncode(name), from, resolver)));
+        }
+        return steps;
+      }
+      case 'unwrap': {
+        const newOwner = data.newOwner || from;
+        return [await step('unwrap', 'unwrap', isETH2LD(name)
+          ? wrapper.unwrapETH2LD.populateTransaction(labelHash, newOwner, newOwner)
+          : wrapper.unwrap.populateTransaction(parentNode, labelHash, newOwner))];
+      }
+      case 'burnFuses':
+        return [await step('setFuses', 'burnFuses', wrapper.setFuses.populateTransaction(node, encodeFuses(data.fuses || [])))];
+      case 'createSubname':
+      case 'deleteSubname': {
+        const parent = await this.readWrappedData(parentNode);
+        const creating = type === 'createSubname';
+        const owner = creating ? (data.address ? from : data.owner || from) : ethers.ZeroAddress;
+        const resolver = creating ? data.resolver || this.config.contracts.PublicResolver : ethers.ZeroAddress;
+
+        const steps = [await step(type, type, parent.isWrapped
+          ? wrapper.setSubnodeRecord.populateTransaction(parentNode, label, owner, resolver, 0, 0, creating ? parent.expiry : 0)
+          : registry.setSubnodeRecord.populateTransaction(parentNode, labelHash, owner, resolver, 0))];
+
+        // Follow-up steps act on a subname that does not exist yet, so they use static estimates
+        if (creating && data.address) {
+          const resolverContract = new ethers.Contract(resolver, CONTRACT_ABIS.PublicResolver, this.provider);
+          steps.push(await step('setAddr', 'setRecord', resolverContract.setAddr.populateTransaction(node, 60, data.address)));
+          if (data.owner && data.owner.toLowerCase() !== from.toLowerCase()) {
+            steps.push(await step('transfer', 'transfer', parent.isWrapped
+              ? wrapper.safeTransferFrom.populateTransaction(from, data.owner, BigInt(node), 1, '0x')
+              : registry.setOwner.populateTransaction(node, data.owner)));
+          }
+        }
+        return steps;
+      }
+      case 'importDNSName': {
+        const registrar = this.getDNSRegistrar();
+        const input = this.toProofInput(await this.buildDNSImportProof(name));
+        return [await step('proveAndClaim', 'importDNSName', data.resolver
+          ? registrar.proveAndClaimWithResolver.populateTransaction(encodeDNSName(name), input, data.resolver, data.address || ethers.ZeroAddress)
+          : registrar.proveAndClaim.populateTransaction(encodeDNSName(name), input))];
+      }
+      default:
+        return [];
+    }
+  }
+
+  private isNameWrapper(address: string): boolean {
+    return address.toLowerCase() === this.config.contracts.NameWrapper.toLowerCase();
+  }
+
+  private async readWrappedData(node: string): Promise<WrappedNameData> {
+    const registryOwner = await this.getENSRegistry().owner(node);
+    if (!this.isNameWrapper(registryOwner)) {
+      return { isWrapped: false, owner: registryOwner, fuses: 0, fuseNames: [], expiry: 0 };
     }
+
+    const [owner, fuses, expiry] = await this.getNameWrapper().getData(BigInt(node));
+    return {
+      isWrapped: true,
+      owner,
+      fuses: Number(fuses),
+      fuseNames: decodeFuses(Number(fuses)),
+      expiry: Number(expiry)
+    };
   }
 
   /**
@@ -585,11 +3087,12 @@ export class ENSContractManager {
         };
       }
 
-      const [ownerRes, resolverRes, availableRes, addressRes] = await Promise.all([
+      const [ownerRes, resolverRes, availableRes, addressRes, wrappedRes] = await Promise.all([
         this.getOwner(name),
         this.getResolver(name),
         this.isNameAvailable(name),
-        this.getAddressRecord(name, 60) // Get ETH address
+        this.getAddressRecords(name), // ETH, BTC, LTC, DOGE, SOL and L2 addresses
+        this.getWrappedData(name)
       ]);
 
       const info: any = {
@@ -599,13 +3102,23 @@ export class ENSContractManager {
         resolver: resolverRes.data?.resolver || '0x0000000000000000000000000000000000000000',
         available: availableRes.data?.available || false,
         isRegistered: ownerRes.data?.owner !== '0x0000000000000000000000000000000000000000',
+        isWrapped: wrappedRes.data?.isWrapped || false,
         addresses: {},
         textRecords: {}
       };
 
-      // Get ETH address if available
-      if (addressRes.success && addressRes.data?.address && addressRes.data.address !== '0x0000000000000000000000000000000000000000') {
-        info.addresses['60'] = addressRes.data.address;
+      if (wrappedRes.data?.isWrapped) {
+        info.fuses = wrappedRes.data.fuseNames;
+        info.wrapperExpiry = wrappedRes.data.expiry;
+      }
+
+      // Address records that are set, skipping zero EVM addresses
+      if (addressRes.success) {
+        Object.entries(addressRes.data.addresses as Record<string, string>).forEach(([coinType, address]) => {
+          if (address !== ethers.ZeroAddress) {
+            info.addresses[coinType] = address;
+          }
+        });
       }
 
       // Get common text records
@@ -619,6 +3132,12 @@ export class ENSContractManager {
         }
       });
 
+      // Decentralized website, if any
+      const contentHashRes = await this.getContentHash(name);
+      if (contentHashRes.success && contentHashRes.data?.contentHash) {
+        info.contentHash = contentHashRes.data.contentHash;
+      }
+
       // Get expiration if it's a .eth name
       if (name.endsWith('.eth')) {
         try {
@@ -0,0 +1,179 @@
+// ENS deployments by chain id: contract addresses, RPC endpoints and the L2s that read each one
+import { ethers } from 'ethers';
+import { SEPOLIA_NETWORK } from '../../abis/constants';
+import { ENSAgentConfig } from './types';
+import { ENSReverseChain, SEPOLIA_REVERSE_CHAINS } from './chains';
+
+export interface ENSDeployment {
+  chainId: number;
+  name: string;
+  rpcUrl: string;
+  blockExplorer: string;
+  testnet: boolean;
+  /** Block the ENS registry was deployed at, no ENS events predate it */
+  deploymentBlock: number;
+  /** Zero address for contracts not deployed on the chain */
+  ensContracts: ENSAgentConfig['contracts'];
+  /** L2s whose names and primary names live in this deployment */
+  l2ChainIds: number[];
+  /** Default reverse record and L2 reverse resolvers (ENSIP-19), empty where none are configured */
+  reverseChains: ENSReverseChain[];
+}
+
+export const MAINNET_CHAIN_ID = 1;
+export const SEPOLIA_CHAIN_ID = SEPOLIA_NETWORK.chainId;
+export const HOLESKY_CHAIN_ID = 17000;
+export const HARDHAT_CHAIN_ID = 31337;
+
+export const DEFAULT_ENS_CHAIN_ID = SEPOLIA_CHAIN_ID;
+
+const MAINNET_ENS_CONTRACTS: ENSAgentConfig['contracts'] = {
+  ENSRegistry: '0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e',
+  BaseRegistrar: '0x57f1887a8BF19b14fC0dF6Fd9B2acc9Af147eA85',
+  ETHRegistrarController: '0x59E16fcCd424Cc24e280Be16E11Bcd56fb0CE547',
+  DNSRegistrar: '0xB32cB5677a7C971689228EC835800432B339bA2B',
+  ReverseRegistrar: '0xa58E81fe9b61B5c3fE2AFD33CF304c454AbFc7Cb',
+  NameWrapper: '0xD4416b13d2b3a9aBae7AcD5D6C2BbDBE25686401',
+  PublicResolver: '0xF29100983E058B709F3D539b0c765937B804AC15',
+  UniversalResolver: '0xaBd80E8a13596fEeA40Fd26fD6a24c3fe76F05fB',
+  OffchainDNSResolver: '0xF142B308cF687d4358410a4cB885513b30A42025',
+  ExtendedDNSResolver: '0x08769D484a7Cd9c4A98E928D9E270221F3E8578c',
+  // No bulk renewal contract for the referrer-aware controller yet
+  StaticBulkRenewal: ethers.ZeroAddress
+};
+
+// Largest block range of a single event log query, public RPC endpoints reject wider ones
+export const LOG_QUERY_BLOCK_RANGE = 50000;
+
+// The current registry and BaseRegistrar, which replaced the 2019 ones
+const MAINNET_DEPLOYMENT_BLOCK = 9380380;
+
+export const ENS_DEPLOYMENTS: Record<number, ENSDeployment> = {
+  [MAINNET_CHAIN_ID]: {
+    chainId: MAINNET_CHAIN_ID,
+    name: 'Ethereum Mainnet',
+    rpcUrl: 'https://ethereum-rpc.publicnode.com',
+    blockExplorer: 'https://etherscan.io',
+    testnet: false,
+    deploymentBlock: MAINNET_DEPLOYMENT_BLOCK,
+    ensContracts: MAINNET_ENS_CONTRACTS,
+    l2ChainIds: [10, 8453, 42161, 59144, 534352],
+    reverseChains: []
+  },
+  [SEPOLIA_CHAIN_ID]: {
+    chainId: SEPOLIA_CHAIN_ID,
+    name: SEPOLIA_NETWORK.name,
+    rpcUrl: SEPOLIA_NETWORK.rpcUrl,
+    blockExplorer: SEPOLIA_NETWORK.blockExplorer,
+    testnet: true,
+    deploymentBlock: 3702721,
+    ensContracts: SEPOLIA_NETWORK.ensContracts,
+    l2ChainIds: [84532, 11155420, 421614, 59141, 534351],
+    reverseChains: SEPOLIA_REVERSE_CHAINS
+  },
+  [HOLESKY_CHAIN_ID]: {
+    chainId: HOLESKY_CHAIN_ID,
+    name: 'Ethereum Holesky Testnet',
+    rpcUrl: 'https://ethereum-holesky-rpc.publicnode.com',
+    blockExplorer: 'https://holesky.etherscan.io',
+    testnet: true,
+    deploymentBlock: 801536,
+    ensContracts: {
+      ENSRegistry: '0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e',
+      BaseRegistrar: '0x57f1887a8BF19b14fC0dF6Fd9B2acc9Af147eA85',
+      ETHRegistrarController: '0x179Be112b24Ad4cFC392eF8924DfA08C20Ad8583',
+      DNSRegistrar: ethers.ZeroAddress,
+      ReverseRegistrar: '0x132AC0B116a73add4225029D1951A9A707Ef673f',
+      NameWrapper: '0xab50971078225D365994dc1Edcb9b7FD72Bb4862',
+      PublicResolver: '0x9010A27463717360cAD99CEA8bD39b8705CCA238',
+      UniversalResolver: '0xa6ac935d4971e3cd133b950ae053becd16fe7f3b',
+      OffchainDNSResolver: ethers.ZeroAddress,
+      ExtendedDNSResolver: ethers.ZeroAddress,
+      StaticBulkRenewal: ethers.ZeroAddress
+    },
+    l2ChainIds: [],
+    reverseChains: []
+  },
+  // Local Hardhat node forking mainnet, so the mainnet contracts are there. Only used when forking is
+  // enabled, a plain Hardhat node has no ENS.
+  [HARDHAT_CHAIN_ID]: {
+    chainId: HARDHAT_CHAIN_ID,
+    name: 'Hardhat Local',
+    rpcUrl: 'http://127.0.0.1:8545',
+    blockExplorer: 'http://localhost:3000/blockexplorer',
+    testnet: true,
+    deploymentBlock: MAINNET_DEPLOYMENT_BLOCK,
+    ensContracts: MAINNET_ENS_CONTRACTS,
+    l2ChainIds: [],
+    reverseChains: []
+  }
+};
+
+/**
+ * Whether the local Hardhat node forks mainnet (MAINNET_FORKING_ENABLED in the hardhat package),
+ * set for the app with NEXT_PUBLIC_MAINNET_FORKING_ENABLED or MAINNET_FORKING_ENABLED
+ */
+export function isMainnetForkEnabled(): boolean {
+  if (typeof process === 'undefined' || !process.env) return false;
+  return process.env.NEXT_PUBLIC_MAINNET_FORKING_ENABLED === 'true' || process.env.MAINNET_FORKING_ENABLED === 'true';
+}
+
+/**
+ * Deployment for a chain id (as a number or query string value). L2 chain ids map to the
+ * deployment their names live in, e.g. Base Sepolia to Sepolia. Unknown chains, and Hardhat
+ * without a mainnet fork, give null.
+ */
+export function getENSDeployment(chainId?: number | string | null): ENSDeployment | null {
+  if (chainId === undefined || chainId === null || chainId === '') {
+    return ENS_DEPLOYMENTS[DEFAULT_ENS_CHAIN_ID];
+  }
+  const id = Number(chainId);
+  if (!Number.isInteger(id) || (id === HARDHAT_CHAIN_ID && !isMainnetForkEnabled())) return null;
+  return ENS_DEPLOYMENTS[id]
+    || Object.values(ENS_DEPLOYMENTS).find(deployment => deployment.l2ChainIds.includes(id))
+    || null;
+}
+
+/**
+ * Why a chain has no ENS deployment, the error of API requests for it
+ */
+export function getENSDeploymentError(chainId?: number | string | null): string {
+  return Number(chainId) === HARDHAT_CHAIN_ID && !isMainnetForkEnabled()
+    ? `${ENS_DEPLOYMENTS[HARDHAT_CHAIN_ID].name} has no ENS contracts unless it forks mainnet. Start the node with MAINNET_FORKING_ENABLED=true and set NEXT_PUBLIC_MAINNET_FORKING_ENABLED=true for the app.`
+    : `ENS is not deployed on chain ${chainId}`;
+}
+
+/**
+ * RPC endpoint of a deployment, overridable with ENS_RPC_URL_<chainId> (e.g. ENS_RPC_URL_1)
+ */
+export function getDeploymentRpcUrl(deployment: ENSDeployment): string {
+  const override = typeof process !== 'undefined' ? process.env?.[`ENS_RPC_URL_${deployment.chainId}`] : undefined;
+  return override || deployment.rpcUrl;
+}
+
+/**
+ * Provider for a deployment, pinned to its chain id so it skips network detection
+ */
+export function createDeploymentProvider(deployment: ENSDeployment): ethers.JsonRpcProvider {
+  return new ethers.JsonRpcProvider(getDeploymentRpcUrl(deployment), deployment.chainId, { staticNetwork: true });
+}
+
+/**
+ * Agent configuration for a deployment (Sepolia by default): network, contracts and its resolver as the default
+ */
+export function getDeploymentConfig(deployment: ENSDeployment = ENS_DEPLOYMENTS[DEFAULT_ENS_CHAIN_ID]): ENSAgentConfig {
+  const { chainId, name, blockExplorer, deploymentBlock, ensContracts, reverseChains } = deployment;
+  return {
+    network: { chainId, name, rpcUrl: getDeploymentRpcUrl(deployment), blockExplorer, deploymentBlock },
+    contracts: ensContracts,
+    reverseChains,
+    settings: {
+      defaultResolver: ensContracts.PublicResolver,
+      supportedTLDs: ['.eth', '.test'],
+      maxNameLength: 50,
+      registrationPrice: '0.01',
+      minCommitmentAge: 60,
+      minRegistrationDuration: 28 * 24 * 60 * 60
+    }
+  };
+}
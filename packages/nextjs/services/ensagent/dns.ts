@@ -0,0 +1,219 @@
+// DNS lookups for importing DNS names: wire format (RFC 1035) and DNS-over-HTTPS (RFC 8484)
+import { ethers } from 'ethers';
+import { encodeBase64Url } from './encoding';
+
+export const DNS_TYPES = {
+  A: 1,
+  CNAME: 5,
+  TXT: 16,
+  OPT: 41,
+  DS: 43,
+  RRSIG: 46,
+  DNSKEY: 48
+} as const;
+
+export const DNS_CLASS_IN = 1;
+
+export const DEFAULT_DOH_URL = 'https://cloudflare-dns.com/dns-query';
+
+const DOH_TIMEOUT_MS = 10000;
+
+export interface DNSRecord {
+  /** Owner name without the trailing dot, "" for the root */
+  name: string;
+  type: number;
+  class: number;
+  ttl: number;
+  /** Raw RDATA as it appeared on the wire */
+  data: Uint8Array;
+}
+
+/**
+ * Lookup layer used by the DNS import flow. Answers must include the RRSIG records
+ * covering them, which DNS-over-HTTPS returns when the DO bit is set.
+ */
+export interface DNSClient {
+  query(name: string, type: number): Promise<DNSRecord[]>;
+}
+
+/**
+ * DNS-over-HTTPS client sending wire-format queries with the DNSSEC OK bit
+ */
+export class DoHClient implements DNSClient {
+  constructor(private url: string = DEFAULT_DOH_URL, private fetchFn?: typeof fetch) {}
+
+  async query(name: string, type: number): Promise<DNSRecord[]> {
+    const query = encodeDNSQuery(name, type);
+    const fetchFn = this.fetchFn || fetch;
+    const response = await fetchFn(`${this.url}?dns=${encodeBase64Url(query)}`, {
+      headers: { Accept: 'application/dns-message' },
+      signal: AbortSignal.timeout(DOH_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`DNS query for ${name || '.'} failed: HTTP ${response.status}`);
+    }
+    return decodeDNSResponse(new Uint8Array(await response.arrayBuffer()));
+  }
+}
+
+/**
+ * Answers from a fixed record list, for tests and offline fixtures
+ */
+export class StaticDNSClient implements DNSClient {
+  constructor(private records: DNSRecord[]) {}
+
+  async query(name: string, type: number): Promise<DNSRecord[]> {
+    const owner = normalizeDNSName(name);
+    return this.records.filter(record =>
+      normalizeDNSName(record.name) === owner
+      && (record.type === type || (record.type === DNS_TYPES.RRSIG && readUint16(record.data, 0) === type)));
+  }
+}
+
+/**
+ * Lowercase a DNS name and drop the trailing dot, "" is the root
+ */
+export function normalizeDNSName(name: string): string {
+  return name.trim().toLowerCase().replace(/\.$/, '');
+}
+
+/**
+ * Encode a DNS name in wire format. Unlike ENS names, DNS labels are kept as typed
+ * apart from lowercasing, so "_ens" and other underscore labels survive.
+ */
+export function encodeDNSName(name: string): Uint8Array {
+  const normalized = normalizeDNSName(name);
+  const labels = normalized ? normalized.split('.') : [];
+  const bytes: number[] = [];
+  for (const label of labels) {
+    if (label.length === 0 || label.length > 63) {
+      throw new Error(`Invalid DNS label in "${name}"`);
+    }
+    bytes.push(label.length, ...[...label].map(char => char.charCodeAt(0) & 0xff));
+  }
+  bytes.push(0);
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Decode a wire-format DNS name, e.g. from the calldata of a wrap or DNS import
+ */
+export function decodeDNSName(encoded: ethers.BytesLike): string {
+  const bytes = ethers.getBytes(encoded);
+  const labels: string[] = [];
+  let offset = 0;
+  while (offset < bytes.length && bytes[offset] !== 0) {
+    const length = bytes[offset];
+    labels.push(ethers.toUtf8String(bytes.slice(offset + 1, offset + 1 + length)));
+    offset += length + 1;
+  }
+  return labels.join('.');
+}
+
+/**
+ * Namehash of a DNS name from its raw labels, as the DNS Registrar computes it.
+ * ENS normalization would reject DNS labels such as punycode "xn--".
+ */
+export function dnsNamehash(name: string): string {
+  const normalized = normalizeDNSName(name);
+  const labels = normalized ? normalized.split('.') : [];
+  return labels.reduceRight(
+    (node, label) => ethers.keccak256(ethers.concat([node, ethers.keccak256(ethers.toUtf8Bytes(label))])),
+    ethers.ZeroHash
+  );
+}
+
+/**
+ * Read a possibly compressed name starting at offset, returning it and the offset after it
+ */
+export function readDNSName(data: Uint8Array, offset: number): { name: string; next: number } {
+  const labels: string[] = [];
+  let position = offset;
+  let next = -1;
+  for (let jumps = 0; ; ) {
+    if (position >= data.length) {
+      throw new Error('DNS name runs past the end of the message');
+    }
+    const length = data[position];
+    if (length === 0) {
+      position += 1;
+      break;
+    }
+    if ((length & 0xc0) === 0xc0) {
+      if (++jumps > 64) throw new Error('DNS name compression loop');
+      if (next < 0) next = position + 2;
+      position = ((length & 0x3f) << 8) | data[position + 1];
+      continue;
+    }
+    labels.push(String.fromCharCode(...data.slice(position + 1, position + 1 + length)));
+    position += length + 1;
+  }
+  return { name: labels.join('.'), next: next < 0 ? position : next };
+}
+
+/**
+ * Strings of a TXT record, joined as resolvers and registrars read them
+ */
+export function decodeTXTRecord(data: Uint8Array): string {
+  const parts: string[] = [];
+  for (let position = 0; position < data.length; ) {
+    const length = data[position];
+    parts.push(ethers.toUtf8String(data.slice(position + 1, position + 1 + length)));
+    position += length + 1;
+  }
+  return parts.join('');
+}
+
+/**
+ * Build a recursive query for one name and type, with EDNS0 and the DNSSEC OK bit
+ */
+export function encodeDNSQuery(name: string, type: number): Uint8Array {
+  const header = [0, 0, 0x01, 0x00, 0, 1, 0, 0, 0, 0, 0, 1];
+  const question = [...encodeDNSName(name), type >> 8, type & 0xff, 0, DNS_CLASS_IN];
+  // OPT pseudo-record: root owner, 4096 byte UDP payload, DO flag set
+  const opt = [0, 0, DNS_TYPES.OPT, 0x10, 0x00, 0, 0, 0x80, 0x00, 0, 0];
+  return new Uint8Array([...header, ...question, ...opt]);
+}
+
+/**
+ * Parse the answer section of a DNS response
+ */
+export function decodeDNSResponse(message: Uint8Array): DNSRecord[] {
+  if (message.length < 12) {
+    throw new Error('DNS response is too short');
+  }
+  const rcode = message[3] & 0x0f;
+  // NXDOMAIN is an empty answer, anything else is a failed lookup
+  if (rcode === 3) return [];
+  if (rcode !== 0) {
+    throw new Error(`DNS server answered with rcode ${rcode}`);
+  }
+
+  const questions = readUint16(message, 4);
+  const answers = readUint16(message, 6);
+  let position = 12;
+  for (let i = 0; i < questions; i++) {
+    position = readDNSName(message, position).next + 4;
+  }
+
+  const records: DNSRecord[] = [];
+  for (let i = 0; i < answers; i++) {
+    const { name, next } = readDNSName(message, position);
+    const type = readUint16(message, next);
+    const rrClass = readUint16(message, next + 2);
+    const ttl = readUint32(message, next + 4);
+    const length = readUint16(message, next + 8);
+    const data = message.slice(next + 10, next + 10 + length);
+    records.push({ name, type, class: rrClass, ttl, data });
+    position = next + 10 + length;
+  }
+  return records;
+}
+
+export function readUint16(data: Uint8Array, offset: number): number {
+  return (data[offset] << 8) | data[offset + 1];
+}
+
+export function readUint32(data: Uint8Array, offset: number): number {
+  return ((data[offset] << 24) | (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]) >>> 0;
+}
@@ -0,0 +1,284 @@
+// DNSSEC proof chains for the DNSRegistrar and DNSSEC oracle (RFC 4034 canonical form)
+import { ethers } from 'ethers';
+import {
+  DNSClient,
+  DNSRecord,
+  DNS_CLASS_IN,
+  DNS_TYPES,
+  decodeTXTRecord,
+  encodeDNSName,
+  normalizeDNSName,
+  readDNSName,
+  readUint16,
+  readUint32
+} from './dns';
+
+// Algorithms and digests with verifier contracts on the oracle: RSASHA1, RSASHA1-NSEC3-SHA1,
+// RSASHA256 and ECDSAP256SHA256, with SHA-1 and SHA-256 DS digests
+export const SUPPORTED_DNSSEC_ALGORITHMS = [5, 7, 8, 13];
+export const SUPPORTED_DS_DIGESTS = [1, 2];
+
+// DNSKEY flags: zone key with the secure entry point bit (a key signing key)
+const KSK_FLAGS = 257;
+
+export interface DNSSECProofEntry {
+  /** RRSIG RDATA without the signature, followed by the RRs it covers in canonical form */
+  rrset: string;
+  sig: string;
+}
+
+export interface DNSSECProof {
+  /** Ordered from the root DNSKEY down to the requested RRset, as verifyRRSet expects */
+  entries: DNSSECProofEntry[];
+  /** Records of the requested RRset */
+  records: DNSRecord[];
+  /** Inception of the final signature, the registrar rejects proofs older than its last claim */
+  inception: number;
+}
+
+export interface DNSSECProofOptions {
+  /** Key tags of the root KSKs the oracle trusts, read from its anchors */
+  rootKeyTags?: number[];
+  algorithms?: number[];
+  digests?: number[];
+  /** Unix time to check signature validity against */
+  now?: number;
+}
+
+interface RRSignature {
+  typeCovered: number;
+  algorithm: number;
+  labels: number;
+  originalTTL: number;
+  expiration: number;
+  inception: number;
+  keyTag: number;
+  signerName: string;
+  /** RRSIG RDATA up to the signature, with the signer name in canonical form */
+  header: Uint8Array;
+  signature: Uint8Array;
+}
+
+interface SignedSet {
+  name: string;
+  type: number;
+  records: DNSRecord[];
+  signatures: RRSignature[];
+}
+
+const TYPE_NAMES: Record<number, string> = {
+  [DNS_TYPES.TXT]: 'TXT',
+  [DNS_TYPES.DS]: 'DS',
+  [DNS_TYPES.DNSKEY]: 'DNSKEY'
+};
+
+/**
+ * Build the proof that a DNS RRset is signed all the way from the root:
+ * root DNSKEY, then DS and DNSKEY for each zone, then the RRset itself
+ */
+export async function buildDNSSECProof(
+  client: DNSClient,
+  name: string,
+  type: number,
+  options: DNSSECProofOptions = {}
+): Promise<DNSSECProof> {
+  const settings = {
+    algorithms: options.algorithms || SUPPORTED_DNSSEC_ALGORITHMS,
+    digests: options.digests || SUPPORTED_DS_DIGESTS,
+    now: options.now ?? Math.floor(Date.now() / 1000),
+    rootKeyTags: options.rootKeyTags
+  };
+
+  const target = await querySignedSet(client, name, type);
+  const zone = await proveZone(client, target.signatures[0].signerName, settings);
+  const signature = pickSignature(target, zone.keys, settings);
+
+  return {
+    entries: [...zone.entries, toProofEntry(target, signature)],
+    records: target.records,
+    inception: signature.inception
+  };
+}
+
+/**
+ * Owner address from the "_ens" TXT record ("a=0x..."), as the DNSRegistrar reads it
+ */
+export function parseENSOwnerRecord(records: DNSRecord[]): string | null {
+  for (const record of records.filter(entry => entry.type === DNS_TYPES.TXT)) {
+    const match = decodeTXTRecord(record.data).trim().match(/^a=(0x[0-9a-fA-F]{40})$/);
+    if (match) return ethers.getAddress(match[1]);
+  }
+  return null;
+}
+
+/**
+ * Offchain resolution record ("ENS1 <resolver> <context>") read by the OffchainDNSResolver
+ */
+export function parseENS1Record(records: DNSRecord[]): { resolver: string; context: string } | null {
+  for (const record of records.filter(entry => entry.type === DNS_TYPES.TXT)) {
+    const match = decodeTXTRecord(record.data).trim().match(/^ENS1 (\S+)(?: (.*))?$/);
+    if (match) return { resolver: match[1], context: match[2] || '' };
+  }
+  return null;
+}
+
+/**
+ * Key tags of the DS records in the oracle's trust anchors
+ */
+export function parseTrustAnchorKeyTags(anchors: string): number[] {
+  const data = ethers.getBytes(anchors);
+  const keyTags: number[] = [];
+  for (let position = 0; position < data.length; ) {
+    const { next } = readDNSName(data, position);
+    const type = readUint16(data, next);
+    const length = readUint16(data, next + 8);
+    if (type === DNS_TYPES.DS && length >= 4) {
+      keyTags.push(readUint16(data, next + 10));
+    }
+    position = next + 10 + length;
+  }
+  return keyTags;
+}
+
+/**
+ * RFC 4034 appendix B key tag of a DNSKEY RDATA
+ */
+export function computeKeyTag(dnskey: Uint8Array): number {
+  let accumulator = 0;
+  for (let i = 0; i < dnskey.length; i++) {
+    accumulator += i & 1 ? dnskey[i] : dnskey[i] << 8;
+  }
+  accumulator += (accumulator >> 16) & 0xffff;
+  return accumulator & 0xffff;
+}
+
+type ProofSettings = Required<Omit<DNSSECProofOptions, 'rootKeyTags'>> & { rootKeyTags?: number[] };
+
+/**
+ * Entries proving the DNSKEY set of a zone, and the key tags of its keys
+ */
+async function proveZone(
+  client: DNSClient,
+  zone: string,
+  settings: ProofSettings
+): Promise<{ entries: DNSSECProofEntry[]; keys: number[] }> {
+  const dnskeys = await querySignedSet(client, zone, DNS_TYPES.DNSKEY);
+  const keys = dnskeys.records.map(record => computeKeyTag(record.data));
+
+  // The root is anchored in the oracle, other zones through the DS records of their parent
+  let entries: DNSSECProofEntry[] = [];
+  let trustedKeyTags = settings.rootKeyTags;
+  if (zone) {
+    const ds = await querySignedSet(client, zone, DNS_TYPES.DS);
+    const parent = await proveZone(client, ds.signatures[0].signerName, settings);
+    entries = [...parent.entries, toProofEntry(ds, pickSignature(ds, parent.keys, settings))];
+    trustedKeyTags = ds.records
+      .filter(record => settings.digests.includes(record.data[3]))
+      .map(record => readUint16(record.data, 0));
+  }
+
+  // Without known root key tags, any key signing key of the root may sign its DNSKEY set
+  const trusted = trustedKeyTags;
+  const ksks = trusted
+    ? keys.filter(keyTag => trusted.includes(keyTag))
+    : dnskeys.records.filter(record => readUint16(record.data, 0) === KSK_FLAGS).map(record => computeKeyTag(record.data));
+  if (ksks.length === 0) {
+    throw new Error(`No DNSKEY of ${zone || 'the root'} matches ${zone ? 'a DS record of its parent zone' : 'the trust anchors of the oracle'}`);
+  }
+
+  entries.push(toProofEntry(dnskeys, pickSignature(dnskeys, ksks, settings)));
+  return { entries, keys };
+}
+
+async function querySignedSet(client: DNSClient, name: string, type: number): Promise<SignedSet> {
+  const owner = normalizeDNSName(name);
+  const answers = await client.query(owner, type);
+  const typeName = TYPE_NAMES[type] || `type ${type}`;
+
+  if (answers.some(record => record.type === DNS_TYPES.CNAME && normalizeDNSName(record.name) === owner)) {
+    throw new Error(`${owner} is a CNAME, ${typeName} records must be set on the name itself`);
+  }
+
+  const records = answers.filter(record =>
+    record.type === type && record.class === DNS_CLASS_IN && normalizeDNSName(record.name) === owner);
+  if (records.length === 0) {
+    throw new Error(`No ${typeName} record found at ${owner || 'the root'}`);
+  }
+
+  const signatures = answers
+    .filter(record => record.type === DNS_TYPES.RRSIG && normalizeDNSName(record.name) === owner)
+    .map(record => parseRRSignature(record.data))
+    .filter(signature => signature.typeCovered === type);
+  if (signatures.length === 0) {
+    throw new Error(`The ${typeName} records of ${owner || 'the root'} are not signed, enable DNSSEC for the domain`);
+  }
+
+  const labels = owner ? owner.split('.').length : 0;
+  if (signatures.every(signature => signature.labels < labels)) {
+    throw new Error(`The ${typeName} records of ${owner} come from a wildcard, which cannot be proven`);
+  }
+
+  return { name: owner, type, records, signatures };
+}
+
+function pickSignature(set: SignedSet, keyTags: number[], settings: ProofSettings): RRSignature {
+  const valid = set.signatures.filter(signature =>
+    keyTags.includes(signature.keyTag)
+    && settings.algorithms.includes(signature.algorithm)
+    && signature.inception <= settings.now
+    && signature.expiration >= settings.now);
+  if (valid.length === 0) {
+    const algorithms = [...new Set(set.signatures.map(signature => signature.algorithm))].join(', ');
+    throw new Error(`No usable signature over the ${TYPE_NAMES[set.type] || set.type} records of ${set.name || 'the root'} (algorithms ${algorithms}, supported ${settings.algorithms.join(', ')})`);
+  }
+  // The newest signature keeps the proof ahead of earlier claims
+  return valid.sort((a, b) => b.inception - a.inception)[0];
+}
+
+function parseRRSignature(data: Uint8Array): RRSignature {
+  const { name: signerName, next } = readDNSName(data, 18);
+  const header = ethers.getBytes(ethers.concat([data.slice(0, 18), encodeDNSName(signerName)]));
+  return {
+    typeCovered: readUint16(data, 0),
+    algorithm: data[2],
+    labels: data[3],
+    originalTTL: readUint32(data, 4),
+    expiration: readUint32(data, 8),
+    inception: readUint32(data, 12),
+    keyTag: readUint16(data, 16),
+    signerName: normalizeDNSName(signerName),
+    header,
+    signature: data.slice(next)
+  };
+}
+
+/**
+ * Signed data of an RRset: the RRSIG header followed by the records in canonical form and order
+ */
+function toProofEntry(set: SignedSet, signature: RRSignature): DNSSECProofEntry {
+  const owner = encodeDNSName(set.name);
+  const rdatas = [...new Map(set.records.map(record => [ethers.hexlify(record.data), record.data])).values()]
+    .sort(compareBytes);
+
+  const records = rdatas.map(rdata => {
+    const fixed = new Uint8Array(10);
+    const view = new DataView(fixed.buffer);
+    view.setUint16(0, set.type);
+    view.setUint16(2, DNS_CLASS_IN);
+    view.setUint32(4, signature.originalTTL);
+    view.setUint16(8, rdata.length);
+    return ethers.concat([owner, fixed, rdata]);
+  });
+
+  return {
+    rrset: ethers.concat([signature.header, ...records]),
+    sig: ethers.hexlify(signature.signature)
+  };
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
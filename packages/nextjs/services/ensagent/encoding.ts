@@ -0,0 +1,142 @@
+// Binary-to-text encodings used by address and contenthash records
+import { ethers } from 'ethers';
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+const BASE36_ALPHABET = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+/**
+ * Decode a big-endian base-N string, keeping leading zero digits as zero bytes
+ */
+function decodeBaseN(value: string, alphabet: string, name: string): Uint8Array {
+  const base = BigInt(alphabet.length);
+  let leadingZeros = 0;
+  while (leadingZeros < value.length && value[leadingZeros] === alphabet[0]) {
+    leadingZeros++;
+  }
+
+  let number = BigInt(0);
+  for (const char of value.slice(leadingZeros)) {
+    const digit = alphabet.indexOf(char);
+    if (digit === -1) {
+      throw new Error(`invalid ${name} character "${char}"`);
+    }
+    number = number * base + BigInt(digit);
+  }
+
+  const body = number > 0 ? ethers.getBytes(ethers.toBeHex(number)) : new Uint8Array();
+  return ethers.getBytes(ethers.concat([new Uint8Array(leadingZeros), body]));
+}
+
+function encodeBaseN(data: Uint8Array, alphabet: string): string {
+  const base = BigInt(alphabet.length);
+  let leadingZeros = 0;
+  while (leadingZeros < data.length && data[leadingZeros] === 0) {
+    leadingZeros++;
+  }
+
+  let number = data.length > leadingZeros ? ethers.toBigInt(data.slice(leadingZeros)) : BigInt(0);
+  let result = '';
+  while (number > 0) {
+    result = alphabet[Number(number % base)] + result;
+    number = number / base;
+  }
+  return alphabet[0].repeat(leadingZeros) + result;
+}
+
+export function decodeBase58(value: string): Uint8Array {
+  return decodeBaseN(value, BASE58_ALPHABET, 'base58');
+}
+
+export function encodeBase58(data: Uint8Array): string {
+  return encodeBaseN(data, BASE58_ALPHABET);
+}
+
+export function decodeBase36(value: string): Uint8Array {
+  return decodeBaseN(value.toLowerCase(), BASE36_ALPHABET, 'base36');
+}
+
+export function encodeBase36(data: Uint8Array): string {
+  return encodeBaseN(data, BASE36_ALPHABET);
+}
+
+/**
+ * RFC 4648 base32, lowercase without padding (the multibase "b" alphabet)
+ */
+export function decodeBase32(value: string): Uint8Array {
+  let bits = 0;
+  let accumulator = 0;
+  const result: number[] = [];
+  for (const char of value.toLowerCase().replace(/=+$/, '')) {
+    const digit = BASE32_ALPHABET.indexOf(char);
+    if (digit === -1) {
+      throw new Error(`invalid base32 character "${char}"`);
+    }
+    accumulator = (accumulator << 5) | digit;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      result.push((accumulator >> bits) & 0xff);
+    }
+  }
+  return new Uint8Array(result);
+}
+
+export function encodeBase32(data: Uint8Array): string {
+  let bits = 0;
+  let accumulator = 0;
+  let result = '';
+  for (const byte of data) {
+    accumulator = (accumulator << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      result += BASE32_ALPHABET[(accumulator >> bits) & 31];
+    }
+  }
+  if (bits > 0) {
+    result += BASE32_ALPHABET[(accumulator << (5 - bits)) & 31];
+  }
+  return result;
+}
+
+/**
+ * Base64url without padding, as used by Arweave transaction ids
+ */
+export function decodeBase64Url(value: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(value)) {
+    throw new Error('invalid base64url string');
+  }
+  return ethers.getBytes(ethers.decodeBase64(value.replace(/-/g, '+').replace(/_/g, '/')));
+}
+
+export function encodeBase64Url(data: Uint8Array): string {
+  return ethers.encodeBase64(data).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Unsigned LEB128 varint, as used by multicodec prefixes
+ */
+export function encodeVarint(value: number): Uint8Array {
+  const bytes: number[] = [];
+  let remaining = value;
+  while (remaining >= 0x80) {
+    bytes.push((remaining & 0x7f) | 0x80);
+    remaining = Math.floor(remaining / 0x80);
+  }
+  bytes.push(remaining);
+  return new Uint8Array(bytes);
+}
+
+export function decodeVarint(data: Uint8Array, offset: number = 0): { value: number; length: number } {
+  let value = 0;
+  let multiplier = 1;
+  for (let i = offset; i < data.length; i++) {
+    value += (data[i] & 0x7f) * multiplier;
+    if ((data[i] & 0x80) === 0) {
+      return { value, length: i - offset + 1 };
+    }
+    multiplier *= 0x80;
+  }
+  throw new Error('truncated varint');
+}
@@ -1,18 +1,55 @@
 // ENS Agent API Endpoints
 import { NextRequest, NextResponse } from 'next/server';
-import { ethers } from 'ethers';
 import { ENSAgent } from './agent';
-import { SEPOLIA_NETWORK } from '../../abis/constants';
-import { ENSAgentResponse, ChatMessage } from './types';
+import { ChatMessage, ENSRecordUpdate } from './types';
+import { getSessionIdFromRequest, isValidSessionId, resolveSessionId } from '../session';
+import { resolveCoinType } from './coins';
+import { toRecordUpdate } from './records';
+import { isETH2LD } from './utils';
+import { createDeploymentProvider, getDeploymentConfig, getENSDeployment, getENSDeploymentError } from './deployments';
+import { REQUEST_SCHEMAS, RequestSchemaName, SchemaIssue, validateSchema } from './schemas';
+
+// Agents by ENS deployment chain id (in production, these should be properly managed)
+const ensAgents = new Map<number, ENSAgent>();
+
+// Agent for the ENS deployment of the given chain id or the chainId query param, Sepolia when none is given
+function getAgent(request: NextRequest, chainId?: number | string): ENSAgent | null {
+  const deployment = getENSDeployment(chainId ?? request.nextUrl.searchParams.get('chainId'));
+  if (!deployment) {
+    return null;
+  }
+
+  let agent = ensAgents.get(deployment.chainId);
+  if (!agent) {
+    agent = new ENSAgent(getDeploymentConfig(deployment));
+    agent.initialize(createDeploymentProvider(deployment));
+    ensAgents.set(deployment.chainId, agent);
+  }
+  return agent;
+}
+
+// Session context fields returned to clients, the rest (e.g. commitment secrets of pending registrations) stays on the server
+const PUBLIC_SESSION_CONTEXT = ['lastENSName', 'lastOperation'];
 
-// Global instances (in production, these should be properly managed)
-let ensAgent: ENSAgent | null = null;
+function getPublicSessionContext(context: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(PUBLIC_SESSION_CONTEXT
+    .filter(key => context[key] !== undefined)
+    .map(key => [key, context[key]]));
+}
 
-// Initialize the ENS agent
-function initializeAgent() {
-  if (!ensAgent) {
-    ensAgent = new ENSAgent();
+// Client-held chat messages, used to restore context if the stored session expired
+function toSeedHistory(conversationHistory?: any[]): ChatMessage[] | undefined {
+  if (!Array.isArray(conversationHistory)) {
+    return undefined;
   }
+  return conversationHistory
+    .filter(msg => msg.sender && msg.content)
+    .map(msg => ({
+      id: msg.id || `restored_${Date.now()}_${Math.random()}`,
+      role: msg.sender === 'user' ? 'user' : 'assistant',
+      content: msg.content,
+      timestamp: new Date(msg.timestamp || Date.now())
+    }));
 }
 
 // Helper to get user address from request
@@ -25,14 +62,19 @@ function getUserAddress(request: NextRequest): string | undefined {
   return undefined;
 }
 
-// Helper to create error response
-function createErrorResponse(message: string, status: number = 400): NextResponse {
+// Helper to create error response, every endpoint fails with { success: false, error, details? }
+function createErrorResponse(message: string, status: number = 400, details?: SchemaIssue[] | string): NextResponse {
   return NextResponse.json(
-    { success: false, error: message },
+    { success: false, error: message, ...(details !== undefined && { details }) },
     { status }
   );
 }
 
+// Helper for a chainId without an ENS deployment
+function createChainErrorResponse(request: NextRequest, chainId?: number | string): NextResponse {
+  return createErrorResponse(getENSDeploymentError(chainId ?? request.nextUrl.searchParams.get('chainId')));
+}
+
 // Helper to create success response
 function createSuccessResponse(data: any, message?: string): NextResponse {
   return NextResponse.json({
@@ -42,29 +84,65 @@ function createSuccessResponse(data: any, message?: string): NextResponse {
   });
 }
 
+// Helper to read a JSON body and check it against a request schema, returning the error response when it fails
+async function parseRequestBody(request: NextRequest, schemaName: RequestSchemaName): Promise<any> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse('Request body must be valid JSON');
+  }
+
+  const issues = validateSchema(REQUEST_SCHEMAS[schemaName], body);
+  if (issues.length > 0) {
+    return createErrorResponse(
+      `Invalid request body: ${issues.map(issue => `${issue.path} ${issue.message}`).join(', ')}`,
+      400,
+      issues
+    );
+  }
+  return body;
+}
+
+// Record, transfer and resolver endpoints take .eth names and subnames; register and renew only take
+// second-level names (isETH2LD)
+function isETHName(name?: string): boolean {
+  return !!name && name.endsWith('.eth');
+}
+
 /**
  * POST /api/ens/chat
  * Process a chat message
  */
 export async function POST_Chat(request: NextRequest): Promise<NextResponse> {
   try {
-    initializeAgent();
-    
-    if (!ensAgent) {
-      return createErrorResponse('ENS Agent not initialized', 500);
+    const body = await parseRequestBody(request, 'ChatRequest');
+    if (body instanceof NextResponse) {
+      return body;
     }
+    const { message, userAddress, chainId, conversationHistory } = body;
 
-    const body = await request.json();
-    const { message, userAddress } = body;
-
-    if (!message || typeof message !== 'string') {
-      return createErrorResponse('Message is required');
+    // The chat client sends the chain id of its target network in the body
+    const ensAgent = getAgent(request, chainId);
+    if (!ensAgent) {
+      return createChainErrorResponse(request, chainId);
     }
 
     const address = userAddress || getUserAddress(request);
-    const result = await ensAgent.processMessage(message, address);
-
-    return NextResponse.json(result);
+    // Requests without a session id start a new session, the client continues it with the returned id
+    const sessionId = resolveSessionId(getSessionIdFromRequest(request, body));
+    const result = await ensAgent.processSessionMessage(message, address, sessionId, toSeedHistory(conversationHistory));
+    const session = await ensAgent.getSession(address, sessionId);
+
+    return NextResponse.json({
+      ...result,
+      sessionId,
+      conversationContext: {
+        sessionId,
+        ...getPublicSessionContext(session.context),
+        historyLength: session.history.length
+      }
+    });
   } catch (error) {
     return createErrorResponse(`Chat processing failed: ${error}`, 500);
   }
@@ -72,36 +150,52 @@ export async function POST_Chat(request: NextRequest): Promise<NextResponse> {
 
 /**
  * GET /api/ens/chat/history
- * Get chat history
+ * Get chat history for the caller's session
  */
 export async function GET_ChatHistory(request: NextRequest): Promise<NextResponse> {
   try {
-    initializeAgent();
-    
+    const ensAgent = getAgent(request);
     if (!ensAgent) {
-      return createErrorResponse('ENS Agent not initialized', 500);
+      return createChainErrorResponse(request);
+    }
+
+    const sessionId = getSessionIdFromRequest(request);
+    if (!isValidSessionId(sessionId)) {
+      return createErrorResponse('A valid sessionId is required');
     }
 
-    const history = ensAgent.getChatHistory();
-    return createSuccessResponse(history);
+    const userAddress = request.nextUrl.searchParams.get('userAddress') || getUserAddress(request);
+    const session = await ensAgent.getSession(userAddress, sessionId);
+    return createSuccessResponse({
+      sessionId: session.sessionId,
+      history: session.history,
+      context: getPublicSessionContext(session.context),
+      expiresAt: session.expiresAt
+    });
   } catch (error) {
     return createErrorResponse(`Failed to get chat history: ${error}`, 500);
   }
 }
 
 /**
- * DELETE /api/ens/chat/history
- * Clear chat history
+ * DELETE /api/ens/chat/history (also DELETE /api/ens/chat)
+ * Clear chat history for the caller's session, identified by the query, headers or an optional JSON body
  */
 export async function DELETE_ChatHistory(request: NextRequest): Promise<NextResponse> {
   try {
-    initializeAgent();
-    
+    const ensAgent = getAgent(request);
     if (!ensAgent) {
-      return createErrorResponse('ENS Agent not initialized', 500);
+      return createChainErrorResponse(request);
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const sessionId = getSessionIdFromRequest(request, body);
+    if (!isValidSessionId(sessionId)) {
+      return createErrorResponse('A valid sessionId is required');
     }
 
-    ensAgent.clearChatHistory();
+    const userAddress = body.userAddress || request.nextUrl.searchParams.get('userAddress') || getUserAddress(request);
+    await ensAgent.clearSession(userAddress, sessionId);
     return createSuccessResponse(null, 'Chat history cleared');
   } catch (error) {
     return createErrorResponse(`Failed to clear chat history: ${error}`, 500);
@@ -114,10 +208,9 @@ export async function DELETE_ChatHistory(request: NextRequest): Promise<NextResp
  */
 export async function GET_NameInfo(request: NextRequest, { params }: { params: { name: string } }): Promise<NextResponse> {
   try {
-    initializeAgent();
-    
+    const ensAgent = getAgent(request);
     if (!ensAgent) {
-      return createErrorResponse('ENS Agent not initialized', 500);
+      return createChainErrorResponse(request);
     }
 
     const { name } = params;
@@ -135,10 +228,9 @@ export async function GET_NameInfo(request: NextRequest, { params }: { params: {
  */
 export async function GET_NameAvailable(request: NextRequest, { params }: { params: { name: string } }): Promise<NextResponse> {
   try {
-    initializeAgent();
-    
+    const ensAgent = getAgent(request);
     if (!ensAgent) {
-      return createErrorResponse('ENS Agent not initialized', 500);
+      return createChainErrorResponse(request);
     }
 
     const { name } = params;
@@ -156,10 +248,9 @@ export async function GET_NameAvailable(request: NextRequest, { params }: { para
  */
 export async function GET_NameResolve(request: NextRequest, { params }: { params: { name: string } }): Promise<NextResponse> {
   try {
-    initializeAgent();
-    
+    const ensAgent = getAgent(request);
     if (!ensAgent) {
-      return createErrorResponse('ENS Agent not initialized', 500);
+      return createChainErrorResponse(request);
     }
 
     const { name } = params;
@@ -177,14 +268,17 @@ export async function GET_NameResolve(request: NextRequest, { params }: { params
  */
 export async function GET_AddressResolve(request: NextRequest, { params }: { params: { address: string } }): Promise<NextResponse> {
   try {
-    initializeAgent();
-    
+    const ensAgent = getAgent(request);
     if (!ensAgent) {
-      return createErrorResponse('ENS Agent not initialized', 500);
+      return createChainErrorResponse(request);
     }
 
     const { address } = params;
-    const result = await ensAgent.resolveAddress(address);
+    // ?chain=base (or a chain id) for that chain's primary name, ?chain=all for every chain
+    const chain = request.nextUrl.searchParams.get('chain');
+    const result = chain === 'all'
+      ? await ensAgent.getPrimaryNames(address)
+      : await ensAgent.resolveAddress(address, chain || undefined);
 
     return NextResponse.json(result);
   } catch (error) {
@@ -198,14 +292,13 @@ export async function GET_AddressResolve(request: NextRequest, { params }: { par
  */
 export async function GET_NameRecord(request: NextRequest, { params }: { params: { name: string; key: string } }): Promise<NextResponse> {
   try {
-    initializeAgent();
-    
+    const ensAgent = getAgent(request);
     if (!ensAgent) {
-      return createErrorResponse('ENS Agent not initialized', 500);
+      return createChainErrorResponse(request);
     }
 
     const { name, key } = params;
-    const result = await ensAgent.getTextRecord(name, key);
+    const result = await ensAgent.getTextRecord(name, decodeURIComponent(key));
 
     return NextResponse.json(result);
   } catch (error) {
@@ -215,151 +308,211 @@ export async function GET_NameRecord(request: NextRequest, { params }: { params:
 
 /**
  * POST /api/ens/name/{name}/records
- * Set a record for a name
+ * Prepare setting records of a name in one multicall, from `records: [{ key, value }]`
+ * or a single key and value, coin and value, or contentHash
  */
 export async function POST_NameRecord(request: NextRequest, { params }: { params: { name: string } }): Promise<NextResponse> {
   try {
-    initializeAgent();
-    
-    if (!ensAgent) {
-      return createErrorResponse('ENS Agent not initialized', 500);
+    const { name } = params;
+    if (!isETHName(name)) {
+      return createErrorResponse('Invalid ENS name format');
     }
 
-    const userAddress = getUserAddress(request);
-    if (!userAddress) {
-      return createErrorResponse('User authentication required', 401);
+    const ensAgent = getAgent(request);
+    if (!ensAgent) {
+      return createChainErrorResponse(request);
     }
 
-    // Set the signer for the contract manager
-    const provider = new ethers.JsonRpcProvider(SEPOLIA_NETWORK.rpcUrl);
-    const wallet = new ethers.Wallet(userAddress, provider); // In production, use proper wallet management
-    ensAgent.setSigner(wallet);
-
-    const { name } = params;
-    const body = await request.json();
-    const { key, value, coinType } = body;
-
-    let result: ENSAgentResponse;
-
-    if (key && value) {
-      // Text record
-      result = await ensAgent.setTextRecord(name, key, value);
-    } else if (coinType !== undefined && value) {
+    const body = await parseRequestBody(request, 'SetRecordsRequest');
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { userAddress, key, value, coinType, coin, contentHash, records } = body;
+    // Address records take a numeric coinType or a coin symbol such as "BTC" or "BASE"
+    const addressCoinType: number | undefined = coinType ?? (coin ? resolveCoinType(coin) : undefined);
+
+    let updates: ENSRecordUpdate[];
+
+    if (records) {
+      // Batch of text, address and contenthash records keyed like { key: 'BTC', value: 'bc1...' }
+      updates = records.map((record: { key: string; value: string; coinType?: number }) => toRecordUpdate(record.key, record.value, record.coinType));
+    } else if (coin && addressCoinType === undefined) {
+      return createErrorResponse(`Unsupported coin: ${coin}`);
+    } else if (addressCoinType !== undefined && value) {
       // Address record
-      result = await ensAgent.setAddressRecord(name, value, coinType);
+      updates = [{ kind: 'address', coinType: addressCoinType, value }];
+    } else if (key && value) {
+      // Text record, or an address or contenthash record named by its key
+      updates = [toRecordUpdate(key, value)];
+    } else if (contentHash) {
+      // Contenthash record from an ipfs://, ipns://, bzz://, ar:// or onion URI
+      updates = [{ kind: 'contenthash', value: contentHash }];
     } else {
       return createErrorResponse('Invalid record data');
     }
 
+    // Unsigned multicall on the name's resolver for the user's wallet
+    const result = await ensAgent.prepareOperation({ type: 'setRecords', name, data: { records: updates } }, userAddress);
+
     return NextResponse.json(result);
   } catch (error) {
-    return createErrorResponse(`Failed to set record: ${error}`, 500);
+    return createErrorResponse(`Failed to prepare record update: ${error}`, 500);
   }
 }
 
 /**
  * POST /api/ens/name/{name}/register
- * Register a name
+ * Prepare the commit and register transactions of a name, or only the register
+ * transaction when the secret of an earlier commitment is given
  */
 export async function POST_NameRegister(request: NextRequest, { params }: { params: { name: string } }): Promise<NextResponse> {
   try {
-    initializeAgent();
-    
-    if (!ensAgent) {
-      return createErrorResponse('ENS Agent not initialized', 500);
+    const { name } = params;
+    if (!isETH2LD(name)) {
+      return createErrorResponse('Only second-level .eth names can be registered');
     }
 
-    const userAddress = getUserAddress(request);
-    if (!userAddress) {
-      return createErrorResponse('User authentication required', 401);
+    const ensAgent = getAgent(request);
+    if (!ensAgent) {
+      return createChainErrorResponse(request);
     }
 
-    // Set the signer for the contract manager
-    const provider = new ethers.JsonRpcProvider(SEPOLIA_NETWORK.rpcUrl);
-    const wallet = new ethers.Wallet(userAddress, provider); // In production, use proper wallet management
-    ensAgent.setSigner(wallet);
-
-    const { name } = params;
-    const body = await request.json();
-    const { duration = 365 * 24 * 60 * 60, secret } = body;
+    const body = await parseRequestBody(request, 'RegisterRequest');
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { userAddress, duration = 365 * 24 * 60 * 60, secret } = body;
 
-    const result = await ensAgent.registerName(name, userAddress, duration, secret);
+    const result = await ensAgent.prepareOperation(
+      { type: secret ? 'reveal' : 'register', name, data: { owner: userAddress, duration, secret } },
+      userAddress
+    );
 
     return NextResponse.json(result);
   } catch (error) {
-    return createErrorResponse(`Failed to register name: ${error}`, 500);
+    return createErrorResponse(`Failed to prepare registration: ${error}`, 500);
   }
 }
 
 /**
  * POST /api/ens/name/{name}/renew
- * Renew a name
+ * Prepare renewing a name, paying the controller's rent price
  */
 export async function POST_NameRenew(request: NextRequest, { params }: { params: { name: string } }): Promise<NextResponse> {
   try {
-    initializeAgent();
-    
-    if (!ensAgent) {
-      return createErrorResponse('ENS Agent not initialized', 500);
+    const { name } = params;
+    if (!isETH2LD(name)) {
+      return createErrorResponse('Only second-level .eth names can be renewed');
     }
 
-    const userAddress = getUserAddress(request);
-    if (!userAddress) {
-      return createErrorResponse('User authentication required', 401);
+    const ensAgent = getAgent(request);
+    if (!ensAgent) {
+      return createChainErrorResponse(request);
     }
 
-    // Set the signer for the contract manager
-    const provider = new ethers.JsonRpcProvider(SEPOLIA_NETWORK.rpcUrl);
-    const wallet = new ethers.Wallet(userAddress, provider); // In production, use proper wallet management
-    ensAgent.setSigner(wallet);
-
-    const { name } = params;
-    const body = await request.json();
-    const { duration = 365 * 24 * 60 * 60 } = body;
+    const body = await parseRequestBody(request, 'RenewRequest');
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { userAddress, duration = 365 * 24 * 60 * 60 } = body;
 
-    const result = await ensAgent.renewName(name, duration);
+    const result = await ensAgent.prepareOperation({ type: 'renew', name, data: { duration } }, userAddress);
 
     return NextResponse.json(result);
   } catch (error) {
-    return createErrorResponse(`Failed to renew name: ${error}`, 500);
+    return createErrorResponse(`Failed to prepare renewal: ${error}`, 500);
   }
 }
 
 /**
  * POST /api/ens/name/{name}/transfer
- * Transfer a name
+ * Prepare transferring a name: registry setOwner, or a NameWrapper transfer for wrapped names
  */
 export async function POST_NameTransfer(request: NextRequest, { params }: { params: { name: string } }): Promise<NextResponse> {
   try {
-    initializeAgent();
-    
+    const { name } = params;
+    if (!isETHName(name)) {
+      return createErrorResponse('Invalid ENS name format');
+    }
+
+    const ensAgent = getAgent(request);
     if (!ensAgent) {
-      return createErrorResponse('ENS Agent not initialized', 500);
+      return createChainErrorResponse(request);
     }
 
-    const userAddress = getUserAddress(request);
-    if (!userAddress) {
-      return createErrorResponse('User authentication required', 401);
+    const body = await parseRequestBody(request, 'TransferRequest');
+    if (body instanceof NextResponse) {
+      return body;
     }
+    const { userAddress, newOwner } = body;
 
-    // Set the signer for the contract manager
-    const provider = new ethers.JsonRpcProvider(SEPOLIA_NETWORK.rpcUrl);
-    const wallet = new ethers.Wallet(userAddress, provider); // In production, use proper wallet management
-    ensAgent.setSigner(wallet);
+    const result = await ensAgent.prepareOperation({ type: 'transfer', name, data: { newOwner } }, userAddress);
 
+    return NextResponse.json(result);
+  } catch (error) {
+    return createErrorResponse(`Failed to prepare transfer: ${error}`, 500);
+  }
+}
+
+/**
+ * POST /api/ens/name/{name}/resolver
+ * Prepare setting the resolver of a name, through the NameWrapper for wrapped names
+ */
+export async function POST_NameResolver(request: NextRequest, { params }: { params: { name: string } }): Promise<NextResponse> {
+  try {
     const { name } = params;
-    const body = await request.json();
-    const { newOwner } = body;
+    if (!isETHName(name)) {
+      return createErrorResponse('Invalid ENS name format');
+    }
+
+    const ensAgent = getAgent(request);
+    if (!ensAgent) {
+      return createChainErrorResponse(request);
+    }
+
+    const body = await parseRequestBody(request, 'SetResolverRequest');
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { userAddress, resolverAddress } = body;
+
+    const result = await ensAgent.prepareOperation({ type: 'setResolver', name, data: { resolverAddress } }, userAddress);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return createErrorResponse(`Failed to prepare resolver update: ${error}`, 500);
+  }
+}
+
+/**
+ * POST /api/ens/transaction/{hash}
+ * Confirm a transaction the user's wallet sent: pending until mined, then confirmed or failed,
+ * which is recorded in the user's chat session
+ */
+export async function POST_TransactionConfirm(request: NextRequest, { params }: { params: { hash: string } }): Promise<NextResponse> {
+  try {
+    const { hash } = params;
+    if (!/^0x[a-fA-F0-9]{64}$/.test(hash || '')) {
+      return createErrorResponse('Invalid transaction hash');
+    }
+
+    // Same chainId the transaction was prepared for
+    const ensAgent = getAgent(request);
+    if (!ensAgent) {
+      return createChainErrorResponse(request);
+    }
 
-    if (!newOwner) {
-      return createErrorResponse('New owner address is required');
+    const body = await parseRequestBody(request, 'ConfirmTransactionRequest');
+    if (body instanceof NextResponse) {
+      return body;
     }
+    const { operation, userAddress } = body;
 
-    const result = await ensAgent.transferName(name, newOwner);
+    const result = await ensAgent.confirmTransaction(hash, operation, userAddress, getSessionIdFromRequest(request, body));
 
     return NextResponse.json(result);
   } catch (error) {
-    return createErrorResponse(`Failed to transfer name: ${error}`, 500);
+    return createErrorResponse(`Failed to confirm transaction: ${error}`, 500);
   }
 }
 
@@ -369,14 +522,13 @@ export async function POST_NameTransfer(request: NextRequest, { params }: { para
  */
 export async function GET_AgentStatus(request: NextRequest): Promise<NextResponse> {
   try {
-    initializeAgent();
-    
+    const ensAgent = getAgent(request);
     if (!ensAgent) {
-      return createErrorResponse('ENS Agent not initialized', 500);
+      return createChainErrorResponse(request);
     }
 
     const status = ensAgent.getAIStatus();
-    return createSuccessResponse(status);
+    return createSuccessResponse({ ...status, network: ensAgent.getNetworkInfo() });
   } catch (error) {
     return createErrorResponse(`Failed to get agent status: ${error}`, 500);
   }
@@ -388,10 +540,9 @@ export async function GET_AgentStatus(request: NextRequest): Promise<NextRespons
  */
 export async function GET_AgentHelp(request: NextRequest): Promise<NextResponse> {
   try {
-    initializeAgent();
-    
+    const ensAgent = getAgent(request);
     if (!ensAgent) {
-      return createErrorResponse('ENS Agent not initialized', 500);
+      return createChainErrorResponse(request);
     }
 
     const help = ensAgent.getHelpMessage();
@@ -407,14 +558,12 @@ export async function GET_AgentHelp(request: NextRequest): Promise<NextResponse>
  */
 export async function GET_AgentSuggestions(request: NextRequest): Promise<NextResponse> {
   try {
-    initializeAgent();
-    
+    const ensAgent = getAgent(request);
     if (!ensAgent) {
-      return createErrorResponse('ENS Agent not initialized', 500);
+      return createChainErrorResponse(request);
     }
 
-    const url = new URL(request.url);
-    const name = url.searchParams.get('name');
+    const name = request.nextUrl.searchParams.get('name');
     const suggestions = await ensAgent.getSuggestedOperations(name || undefined);
 
     return createSuccessResponse({ suggestions });
@@ -429,10 +578,9 @@ export async function GET_AgentSuggestions(request: NextRequest): Promise<NextRe
  */
 export async function GET_AgentStats(request: NextRequest): Promise<NextResponse> {
   try {
-    initializeAgent();
-    
+    const ensAgent = getAgent(request);
     if (!ensAgent) {
-      return createErrorResponse('ENS Agent not initialized', 500);
+      return createChainErrorResponse(request);
     }
 
     const stats = ensAgent.getAIStats();
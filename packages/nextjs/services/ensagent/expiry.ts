@@ -0,0 +1,101 @@
+// Expiry of .eth registrations: warning thresholds and the registrar grace period
+import type { OwnedName } from './types';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// BaseRegistrar GRACE_PERIOD: an expired name can still be renewed, but not transferred or re-registered
+export const GRACE_PERIOD_DAYS = 90;
+
+// Days before expiry at which a warning is raised, each one once per registration
+export const DEFAULT_EXPIRY_THRESHOLDS = [60, 30, 7, 1];
+
+export type ExpiryStatus = 'active' | 'expiring' | 'grace' | 'released';
+
+export interface NameExpiry {
+  name: string;
+  isWrapped: boolean;
+  expires: number;
+  expirationDate: Date;
+  gracePeriodEnds: Date;
+  /** Whole days until expiry, negative once expired */
+  daysRemaining: number;
+  /** Whole days until the name is released, only in the grace period */
+  graceDaysRemaining?: number;
+  status: ExpiryStatus;
+  /** Smallest threshold the name is within, while expiring */
+  threshold?: number;
+}
+
+/**
+ * Expiry status of a name at a point in time
+ */
+export function getNameExpiry(
+  name: OwnedName,
+  thresholds: number[] = DEFAULT_EXPIRY_THRESHOLDS,
+  now: number = Math.floor(Date.now() / 1000)
+): NameExpiry {
+  const graceEnds = name.expires + GRACE_PERIOD_DAYS * DAY_SECONDS;
+  const daysRemaining = Math.floor((name.expires - now) / DAY_SECONDS);
+  const threshold = [...thresholds].sort((a, b) => a - b).find(days => name.expires - now <= days * DAY_SECONDS);
+
+  let status: ExpiryStatus = 'active';
+  if (now >= graceEnds) {
+    status = 'released';
+  } else if (now >= name.expires) {
+    status = 'grace';
+  } else if (threshold !== undefined) {
+    status = 'expiring';
+  }
+
+  return {
+    name: name.name,
+    isWrapped: name.isWrapped,
+    expires: name.expires,
+    expirationDate: new Date(name.expires * 1000),
+    gracePeriodEnds: new Date(graceEnds * 1000),
+    daysRemaining,
+    graceDaysRemaining: status === 'grace' ? Math.ceil((graceEnds - now) / DAY_SECONDS) : undefined,
+    status,
+    threshold: status === 'expiring' ? threshold : undefined
+  };
+}
+
+/**
+ * Key of the warning a name currently calls for, null when none is due.
+ * The expiry is part of the key, so a renewed name warns again next time.
+ */
+export function getExpiryWarningKey(expiry: NameExpiry): string | null {
+  switch (expiry.status) {
+    case 'expiring':
+      return `${expiry.name}:${expiry.expires}:${expiry.threshold}`;
+    case 'grace':
+    case 'released':
+      return `${expiry.name}:${expiry.expires}:${expiry.status}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * One-line description of a name's expiry, e.g. "alice.eth expires in 7 days (Mar 3, 2027)"
+ */
+export function formatExpiry(expiry: NameExpiry): string {
+  const date = expiry.expirationDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  switch (expiry.status) {
+    case 'released':
+      return `${expiry.name} expired on ${date} and its grace period is over, anyone can register it now`;
+    case 'grace':
+      return `${expiry.name} expired on ${date} and is in its grace period, renew it within ${expiry.graceDaysRemaining} day(s) or it is released`;
+    default:
+      return expiry.daysRemaining < 1
+        ? `${expiry.name} expires today (${date})`
+        : `${expiry.name} expires in ${expiry.daysRemaining} day(s) (${date})`;
+  }
+}
+
+/**
+ * Chat prompt that proposes renewing a name
+ */
+export function getRenewalPrompt(name: string, years: number = 1): string {
+  return `Renew ${name} for ${years} year${years === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,97 @@
+// Gas and EIP-1559 fee estimation for ENS transactions
+import { ethers } from 'ethers';
+import { ENSOperation, GasEstimate } from './types';
+import { estimateGas } from './utils';
+
+// Fee data moves block to block, estimates older than this are flagged as stale
+export const GAS_ESTIMATE_TTL_MS = 2 * 60 * 1000;
+
+// Headroom added to simulated gas limits, in percent
+const GAS_LIMIT_BUFFER_PERCENT = BigInt(20);
+
+export interface GasEstimateStep {
+  label: string;
+  operationType: ENSOperation['type'];
+  transaction: ethers.TransactionRequest;
+}
+
+/**
+ * Estimate gas for a sequence of transactions and price it with the current EIP-1559 fee data.
+ * Steps that cannot be simulated (e.g. a register that needs a matured commitment)
+ * fall back to the static per-operation estimate and mark the result as not simulated.
+ */
+export async function estimateTransactionsGas(
+  provider: ethers.Provider,
+  steps: GasEstimateStep[],
+  from?: string
+): Promise<GasEstimate> {
+  const feeData = await provider.getFeeData();
+  const maxFeePerGas = feeData.maxFeePerGas ?? feeData.gasPrice ?? BigInt(0);
+  const maxPriorityFeePerGas = feeData.maxPriorityFeePerGas ?? BigInt(0);
+
+  const estimatedSteps = await Promise.all(steps.map(async step => {
+    try {
+      const gas = await provider.estimateGas({ ...step.transaction, from: from || step.transaction.from });
+      return {
+        label: step.label,
+        gasLimit: gas + (gas * GAS_LIMIT_BUFFER_PERCENT) / BigInt(100),
+        simulated: true
+      };
+    } catch {
+      return {
+        label: step.label,
+        gasLimit: BigInt(estimateGas({ type: step.operationType, name: '' })),
+        simulated: false
+      };
+    }
+  }));
+
+  const gasLimit = estimatedSteps.reduce((total, step) => total + step.gasLimit, BigInt(0));
+  const feeWei = gasLimit * maxFeePerGas;
+  const now = Date.now();
+
+  return {
+    gasLimit: gasLimit.toString(),
+    maxFeePerGas: maxFeePerGas.toString(),
+    maxPriorityFeePerGas: maxPriorityFeePerGas.toString(),
+    feeWei: feeWei.toString(),
+    feeEth: ethers.formatEther(feeWei),
+    simulated: estimatedSteps.every(step => step.simulated),
+    steps: estimatedSteps.map(step => ({
+      label: step.label,
+      gasLimit: step.gasLimit.toString(),
+      simulated: step.simulated
+    })),
+    estimatedAt: now,
+    expiresAt: now + GAS_ESTIMATE_TTL_MS
+  };
+}
+
+/**
+ * Add the USD fee using the native currency (ETH) price
+ */
+export function withUsdGas(estimate: GasEstimate, nativePrice: number): GasEstimate {
+  if (!nativePrice || nativePrice <= 0) {
+    return estimate;
+  }
+  return {
+    ...estimate,
+    feeUsd: Math.round(parseFloat(estimate.feeEth) * nativePrice * 100) / 100
+  };
+}
+
+/**
+ * Whether an estimate is too old to rely on when executing
+ */
+export function isGasEstimateStale(estimate: GasEstimate, now: number = Date.now()): boolean {
+  return now >= estimate.expiresAt;
+}
+
+/**
+ * Format an estimate as "~0.000412 ETH (≈ $1.32) max network fee"
+ */
+export function formatGasEstimate(estimate: GasEstimate): string {
+  const usd = estimate.feeUsd !== undefined ? ` (≈ $${estimate.feeUsd.toFixed(2)})` : '';
+  const approximate = estimate.simulated ? '' : ', partly estimated';
+  return `~${parseFloat(estimate.feeEth).toFixed(6)} ETH${usd} max network fee${approximate}`;
+}
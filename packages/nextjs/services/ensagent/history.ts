@@ -0,0 +1,167 @@
+// Name history: registry, resolver and registrar events decoded into an audit trail
+import { ethers } from 'ethers';
+import { ETH_COIN_TYPE, decodeCoinAddress, getCoinName } from './coins';
+import { decodeContentHash } from './contenthash';
+
+export type NameHistoryEventType =
+  | 'NewOwner'
+  | 'Transfer'
+  | 'NewResolver'
+  | 'AddrChanged'
+  | 'AddressChanged'
+  | 'TextChanged'
+  | 'ContenthashChanged'
+  | 'NameRegistered'
+  | 'NameRenewed';
+
+// Contracts are named as in CONTRACT_ABIS, resolver events decode with the PublicResolver ABI
+export type NameHistorySource = 'ENSRegistry' | 'PublicResolver' | 'ETHRegistrarController';
+
+/**
+ * One event to fetch: indexed arguments by name, as both ethers and viem filter them
+ */
+export interface NameHistoryQuery {
+  source: NameHistorySource;
+  address: string;
+  event: NameHistoryEventType;
+  args: Record<string, string>;
+}
+
+/**
+ * Fetched log, reduced to what the decoder needs from either client library
+ */
+export interface NameHistoryLog {
+  source: NameHistorySource;
+  address: string;
+  event: NameHistoryEventType;
+  args: Record<string, any>;
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+  timestamp?: number;
+  from?: string;
+}
+
+export interface NameHistoryEntry {
+  type: NameHistoryEventType;
+  /** Contract that emitted the event */
+  contract: string;
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+  txUrl: string;
+  /** Block time, unix seconds */
+  timestamp?: number;
+  /** Sender of the transaction, who made the change */
+  from?: string;
+  summary: string;
+}
+
+/**
+ * Events recorded in the registry for a name, and in the controller for .eth second-level names
+ */
+export function getRegistryHistoryQueries(
+  name: string,
+  contracts: { ENSRegistry: string; ETHRegistrarController: string }
+): NameHistoryQuery[] {
+  const node = ethers.namehash(name);
+  const [label, ...parentLabels] = name.split('.');
+  const labelHash = ethers.keccak256(ethers.toUtf8Bytes(label));
+
+  const queries: NameHistoryQuery[] = [
+    { source: 'ENSRegistry', address: contracts.ENSRegistry, event: 'NewOwner', args: { node: ethers.namehash(parentLabels.join('.')), label: labelHash } },
+    { source: 'ENSRegistry', address: contracts.ENSRegistry, event: 'Transfer', args: { node } },
+    { source: 'ENSRegistry', address: contracts.ENSRegistry, event: 'NewResolver', args: { node } }
+  ];
+  if (parentLabels.join('.') === 'eth') {
+    queries.push(
+      { source: 'ETHRegistrarController', address: contracts.ETHRegistrarController, event: 'NameRegistered', args: { labelhash: labelHash } },
+      { source: 'ETHRegistrarController', address: contracts.ETHRegistrarController, event: 'NameRenewed', args: { labelhash: labelHash } }
+    );
+  }
+  return queries;
+}
+
+/**
+ * Record events of a name on each resolver it has used
+ */
+export function getResolverHistoryQueries(name: string, resolvers: string[]): NameHistoryQuery[] {
+  const node = ethers.namehash(name);
+  const events: NameHistoryEventType[] = ['AddrChanged', 'AddressChanged', 'TextChanged', 'ContenthashChanged'];
+  return resolvers.flatMap(address => events.map(event => ({ source: 'PublicResolver' as const, address, event, args: { node } })));
+}
+
+/**
+ * Resolvers a name has pointed to, from its NewResolver logs
+ */
+export function getHistoryResolvers(logs: NameHistoryLog[]): string[] {
+  return [...new Set(logs
+    .filter(log => log.event === 'NewResolver' && log.args.resolver !== ethers.ZeroAddress)
+    .map(log => ethers.getAddress(log.args.resolver)))];
+}
+
+/**
+ * Decode logs into entries, newest first. AddressChanged for ETH repeats AddrChanged and is dropped.
+ */
+export function decodeNameHistory(logs: NameHistoryLog[], blockExplorer: string): NameHistoryEntry[] {
+  return logs
+    .filter(log => !(log.event === 'AddressChanged' && Number(log.args.coinType) === ETH_COIN_TYPE))
+    .map(log => ({
+      type: log.event,
+      contract: log.address,
+      blockNumber: log.blockNumber,
+      logIndex: log.logIndex,
+      txHash: log.txHash,
+      txUrl: `${blockExplorer}/tx/${log.txHash}`,
+      timestamp: log.timestamp,
+      from: log.from,
+      summary: describeHistoryEvent(log)
+    }))
+    .sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex);
+}
+
+/**
+ * One-line description of a history event, e.g. "ETH address set to 0x..."
+ */
+export function describeHistoryEvent(log: Pick<NameHistoryLog, 'event' | 'args'>): string {
+  const { args } = log;
+  const date = (seconds: unknown) =>
+    new Date(Number(seconds) * 1000).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+  switch (log.event) {
+    case 'NewOwner':
+      return `Owner set to ${args.owner} by the parent name`;
+    case 'Transfer':
+      return `Registry ownership transferred to ${args.owner}`;
+    case 'NewResolver':
+      return args.resolver === ethers.ZeroAddress ? 'Resolver cleared' : `Resolver set to ${args.resolver}`;
+    case 'AddrChanged':
+      return args.a === ethers.ZeroAddress ? 'ETH address cleared' : `ETH address set to ${args.a}`;
+    case 'AddressChanged': {
+      const coinType = Number(args.coinType);
+      if (ethers.dataLength(args.newAddress) === 0) {
+        return `${getCoinName(coinType)} address cleared`;
+      }
+      let address: string;
+      try {
+        address = decodeCoinAddress(coinType, args.newAddress);
+      } catch {
+        address = args.newAddress;
+      }
+      return `${getCoinName(coinType)} address set to ${address}`;
+    }
+    case 'TextChanged':
+      return args.value ? `Text record "${args.key}" set to "${args.value}"` : `Text record "${args.key}" cleared`;
+    case 'ContenthashChanged': {
+      if (ethers.dataLength(args.hash) === 0) {
+        return 'Content hash cleared';
+      }
+      const decoded = decodeContentHash(args.hash);
+      return `Content hash set to ${decoded ? decoded.uri : args.hash}`;
+    }
+    case 'NameRegistered':
+      return `Registered to ${args.owner} until ${date(args.expires)} for ${ethers.formatEther(BigInt(args.baseCost) + BigInt(args.premium))} ETH`;
+    case 'NameRenewed':
+      return `Renewed until ${date(args.expires)} for ${ethers.formatEther(BigInt(args.cost))} ETH`;
+  }
+}
@@ -3,6 +3,139 @@ export { ENSAgent } from './agent';
 export { ENSContractManager } from './contracts';
 export { ENSOperations } from './operations';
 export { ENSIntegration, ensIntegration } from './integration';
+export { RegistrationManager, registrationManager, buildRegistrationParams } from './registration';
+export {
+  PriceQuoteCache,
+  priceQuoteCache,
+  getRentPriceQuote,
+  getBulkRentPriceQuote,
+  withUsdPrice,
+  formatPriceQuote,
+  formatBulkPriceQuote,
+  PRICE_QUOTE_TTL_MS
+} from './pricing';
+export type { ENSPriceQuote, ENSBulkPriceQuote } from './pricing';
+export { estimateTransactionsGas, withUsdGas, isGasEstimateStale, formatGasEstimate, GAS_ESTIMATE_TTL_MS } from './gas';
+export type { GasEstimateStep } from './gas';
+export { fetchPrimaryName, invalidatePrimaryName, subscribePrimaryNames, PRIMARY_NAME_TTL_MS } from './primaryNames';
+export { PREPARED_OPERATION_TYPES, describeTransactionStep, toPreparedTransactions } from './transactions';
+export { REQUEST_SCHEMAS, RESPONSE_SCHEMAS, validateSchema } from './schemas';
+export type { JSONSchema, SchemaIssue, RequestSchemaName } from './schemas';
+export { ENS_API_ROUTES, buildOpenAPIDocument } from './openapi';
+export type { APIRoute, APIParameter } from './openapi';
+export { normalizeENSName, isNormalizedENSName, findENSNames, describeNormalizedName } from './normalize';
+export {
+  MULTICALL3_ADDRESS,
+  MAX_NAME_CANDIDATES,
+  generateNameCandidates,
+  aggregateCalls,
+  rankNameSuggestions,
+  formatNameSuggestions
+} from './suggestions';
+export type { NameCandidate, NameSuggestionKind, ENSNameSuggestion, MulticallRequest, MulticallResult } from './suggestions';
+export type { NormalizedENSName, NormalizationErrorType } from './normalize';
+export {
+  COIN_FORMATS,
+  ETH_COIN_TYPE,
+  evmChainIdToCoinType,
+  coinTypeToEvmChainId,
+  getCoinFormat,
+  resolveCoinType,
+  getCoinName,
+  encodeCoinAddress,
+  decodeCoinAddress
+} from './coins';
+export type { CoinFormat } from './coins';
+export { encodeContentHash, decodeContentHash, getContentHashGatewayUrl, findContentHashURI } from './contenthash';
+export type { ContentHashProtocol, DecodedContentHash } from './contenthash';
+export {
+  ccipReadCall,
+  parseOffchainLookup,
+  getRevertData,
+  getCCIPConfigFromEnv,
+  LOCAL_BATCH_GATEWAY,
+  DEFAULT_CCIP_GATEWAYS
+} from './ccip';
+export type { CCIPReadOptions, OffchainLookup } from './ccip';
+export {
+  isRecordKey,
+  toRecordUpdate,
+  getRecordLabel,
+  validateRecordUpdate,
+  getRecordPayload,
+  encodeRecordCall,
+  diffRecordUpdate,
+  formatRecordDiff
+} from './records';
+export {
+  SEPOLIA_REVERSE_CHAINS,
+  DEFAULT_EVM_COIN_TYPE,
+  getReverseChain,
+  getChainCoinType,
+  findReverseChain
+} from './chains';
+export type { ENSReverseChain } from './chains';
+export {
+  DNS_TYPES,
+  DoHClient,
+  StaticDNSClient,
+  encodeDNSName,
+  dnsNamehash,
+  decodeDNSResponse
+} from './dns';
+export type { DNSClient, DNSRecord } from './dns';
+export {
+  buildDNSSECProof,
+  parseENSOwnerRecord,
+  parseENS1Record,
+  computeKeyTag
+} from './dnssec';
+export type { DNSSECProof, DNSSECProofEntry, DNSSECProofOptions } from './dnssec';
+export {
+  GRACE_PERIOD_DAYS,
+  DEFAULT_EXPIRY_THRESHOLDS,
+  getNameExpiry,
+  getExpiryWarningKey,
+  formatExpiry,
+  getRenewalPrompt
+} from './expiry';
+export type { ExpiryStatus, NameExpiry } from './expiry';
+export { PortfolioCache, portfolioCache, createPortfolioScan, recordTransfer, getHeldLabelHashes } from './portfolio';
+export type { PortfolioScan, PortfolioName, NameTransferRecord } from './portfolio';
+export {
+  getRegistryHistoryQueries,
+  getResolverHistoryQueries,
+  getHistoryResolvers,
+  decodeNameHistory,
+  describeHistoryEvent
+} from './history';
+export type { NameHistoryEventType, NameHistorySource, NameHistoryQuery, NameHistoryLog, NameHistoryEntry } from './history';
+export {
+  AvatarCache,
+  avatarCache,
+  DEFAULT_AVATAR_GATEWAYS,
+  DEFAULT_AVATAR_RPC_URLS,
+  parseAvatarRecord,
+  resolveAvatarURI,
+  expandTokenURI,
+  fetchNFTImage,
+  getAvatarConfigFromEnv
+} from './avatar';
+export type { AvatarRecordType, AvatarGateways, AvatarNFT, ParsedAvatarRecord, ENSAvatar } from './avatar';
+export {
+  ENS_DEPLOYMENTS,
+  MAINNET_CHAIN_ID,
+  SEPOLIA_CHAIN_ID,
+  HOLESKY_CHAIN_ID,
+  HARDHAT_CHAIN_ID,
+  DEFAULT_ENS_CHAIN_ID,
+  LOG_QUERY_BLOCK_RANGE,
+  getENSDeployment,
+  getDeploymentRpcUrl,
+  createDeploymentProvider,
+  getDeploymentConfig
+} from './deployments';
+export type { ENSDeployment } from './deployments';
 
 // Types
 export type {
@@ -10,15 +143,28 @@ export type {
   ENSRecord,
   ENSRegistration,
   ENSCommitment,
+  RegistrationState,
+  RegistrationParams,
+  PendingRegistration,
+  WrappedNameData,
+  GasEstimate,
+  SubnameOptions,
+  SubnameInfo,
+  OwnedName,
+  ENSBulkRenewalResult,
   ENSPrice,
   ENSOperation,
   ENSTransaction,
+  PreparedTransaction,
+  PreparedOperation,
   ENSAgentConfig,
   ENSAgentResponse,
   ChatMessage,
   ENSAgentCapabilities,
   ENSNameInfo,
   ENSBatchOperation,
+  ENSRecordUpdate,
+  ENSRecordChange,
   ENSAgentStats
 } from './types';
 
@@ -35,7 +181,10 @@ export {
   isValidAddress,
   normalizeName,
   isSubdomain,
+  isETH2LD,
   getParentDomain,
+  validateLabel,
+  encodeUnknownLabel,
   isValidRecordType,
   encodeRecordValue,
   decodeRecordValue,
@@ -44,8 +193,15 @@ export {
   formatETH,
   parseETH,
   generateOperationId,
-  validateOperation
+  validateOperation,
+  NAME_WRAPPER_FUSES,
+  OWNER_CONTROLLED_FUSES,
+  FUSE_WARNINGS,
+  decodeFuses,
+  encodeFuses,
+  getFuseWarnings
 } from './utils';
+export type { NameWrapperFuse } from './utils';
 
 // API Endpoints
 export {
@@ -61,6 +217,8 @@ export {
   POST_NameRegister,
   POST_NameRenew,
   POST_NameTransfer,
+  POST_NameResolver,
+  POST_TransactionConfirm,
   GET_AgentStatus,
   GET_AgentHelp,
   GET_AgentSuggestions,
@@ -69,7 +227,7 @@ export {
 
 // Default ENS Agent instance
 import { ENSAgent } from './agent';
-import { SEPOLIA_NETWORK } from '../../abis/constants';
+import { ENS_DEPLOYMENTS } from './deployments';
 
 // Create a default instance for easy use
 export const createENSAgent = (config?: Partial<import('./types').ENSAgentConfig>) => {
@@ -92,6 +250,6 @@ export const agentInfo = {
     'Batch operations',
     'Transaction management'
   ],
-  supportedNetworks: ['Sepolia Testnet'],
+  supportedNetworks: Object.values(ENS_DEPLOYMENTS).map(deployment => deployment.name),
   supportedTLDs: ['.eth', '.test']
 };
\ No newline at end of file
@@ -0,0 +1,111 @@
+// ENSIP-15 name normalization shared by the ENS and payment agents
+import { ensNormalize } from 'ethers';
+
+export type NormalizationErrorType =
+  | 'empty'
+  | 'confusable'
+  | 'mixed-script'
+  | 'disallowed-character'
+  | 'invalid';
+
+export interface NormalizedENSName {
+  input: string;
+  normalized: string;
+  valid: boolean;
+  changed: boolean;
+  error?: string;
+  errorType?: NormalizationErrorType;
+  label?: string;
+}
+
+// Characters that end a name when scanning free text (whitespace, punctuation and brackets)
+const NAME_DELIMITERS = `\\s.,;:!?'"()<>\\[\\]{}`;
+
+/**
+ * Normalize a name with ENSIP-15, reporting why it is rejected when it cannot be normalized
+ */
+export function normalizeENSName(input: string): NormalizedENSName {
+  const trimmed = (input || '').trim();
+  if (!trimmed) {
+    return { input, normalized: '', valid: false, changed: false, error: 'Name cannot be empty', errorType: 'empty' };
+  }
+
+  try {
+    const normalized = ensNormalize(trimmed);
+    return { input, normalized, valid: true, changed: normalized !== trimmed };
+  } catch (error: any) {
+    const reason: string = error?.shortMessage || error?.message || String(error);
+    const detail = parseNormalizationError(reason);
+    return {
+      input,
+      normalized: trimmed.toLowerCase(),
+      valid: false,
+      changed: false,
+      error: detail.label ? `Invalid label "${detail.label}": ${detail.reason}` : detail.reason,
+      errorType: detail.errorType,
+      label: detail.label
+    };
+  }
+}
+
+/**
+ * Whether a name is already in its ENSIP-15 normalized form
+ */
+export function isNormalizedENSName(name: string): boolean {
+  const result = normalizeENSName(name);
+  return result.valid && !result.changed;
+}
+
+/**
+ * Find name-like tokens ending in one of the given TLDs in free text, as written by the user
+ */
+export function findENSNames(text: string, tlds: string[] = ['eth']): string[] {
+  const pattern = new RegExp(
+    `((?:[^${NAME_DELIMITERS}]+\\.)+(?:${tlds.join('|')}))(?![\\p{L}\\p{N}_-])`,
+    'giu'
+  );
+  return text.match(pattern) || [];
+}
+
+/**
+ * Display a name with the original spelling when normalization changed it,
+ * e.g. 'alice.eth (normalized from "Alice.eth")'
+ */
+export function describeNormalizedName(result: NormalizedENSName): string {
+  if (!result.valid || !result.changed) {
+    return result.valid ? result.normalized : result.input.trim();
+  }
+  return `${result.normalized} (normalized from "${result.input.trim()}")`;
+}
+
+/**
+ * Split an ethers normalization error into the offending label, a reason and a category
+ */
+function parseNormalizationError(reason: string): { label?: string; reason: string; errorType: NormalizationErrorType } {
+  // ethers reports e.g. 'invalid ENS name (Invalid label "аpple": illegal mixture: Cyrillic + Latin "p" {70})'
+  const inner = reason.replace(/^invalid ENS name \((.*)\)$/s, '$1');
+  const labelMatch = inner.match(/^Invalid label "(.*?)"\u200e?: (.*)$/s);
+  const label = labelMatch ? labelMatch[1] : undefined;
+  const message = (labelMatch ? labelMatch[2] : inner).replace(/\u200e/g, '');
+
+  let errorType: NormalizationErrorType = 'invalid';
+  if (/whole-script confusable/i.test(message)) {
+    errorType = 'confusable';
+  } else if (/illegal mixture/i.test(message)) {
+    errorType = 'mixed-script';
+  } else if (/disallowed character|illegal placement|underscore/i.test(message)) {
+    errorType = 'disallowed-character';
+  } else if (/empty label/i.test(message)) {
+    errorType = 'empty';
+  }
+
+  const explanation: Record<NormalizationErrorType, string> = {
+    'confusable': 'it looks like a different name written in another script',
+    'mixed-script': 'it mixes characters from different scripts',
+    'disallowed-character': 'it contains a character that is not allowed',
+    'empty': 'names cannot contain empty labels',
+    'invalid': 'it is not a valid ENS name'
+  };
+
+  return { label, reason: `${explanation[errorType]} (${message})`, errorType };
+}
@@ -0,0 +1,202 @@
+// OpenAPI document of the ENS API, generated from the request and response schemas
+import { JSONSchema, REQUEST_SCHEMAS, RESPONSE_SCHEMAS, RequestSchemaName } from './schemas';
+import { DEFAULT_ENS_CHAIN_ID, ENS_DEPLOYMENTS } from './deployments';
+
+export interface APIParameter {
+  name: string;
+  in: 'path' | 'query';
+  description: string;
+  schema: JSONSchema;
+}
+
+export interface APIRoute {
+  method: 'get' | 'post' | 'delete';
+  path: string;
+  summary: string;
+  tag: 'Names' | 'Addresses' | 'Transactions' | 'Chat' | 'Agent';
+  parameters?: APIParameter[];
+  requestBody?: RequestSchemaName;
+  response?: keyof typeof RESPONSE_SCHEMAS;
+}
+
+const NAME: APIParameter = { name: 'name', in: 'path', description: 'ENS name, e.g. alice.eth', schema: { type: 'string' } };
+const ADDRESS: APIParameter = { name: 'address', in: 'path', description: '0x-prefixed Ethereum address', schema: { type: 'string' } };
+const CHAIN_ID: APIParameter = {
+  name: 'chainId',
+  in: 'query',
+  description: 'Chain id of the ENS deployment, L2 chains use their L1',
+  schema: { type: 'integer', enum: Object.keys(ENS_DEPLOYMENTS).map(Number), default: DEFAULT_ENS_CHAIN_ID }
+};
+const THRESHOLDS: APIParameter = {
+  name: 'thresholds',
+  in: 'query',
+  description: 'Comma-separated days before expiry to warn at',
+  schema: { type: 'string', example: '30,7,1' }
+};
+
+// Every mounted route under /api/ens, in the order they appear in the document
+export const ENS_API_ROUTES: APIRoute[] = [
+  { method: 'get', path: '/api/ens/name/{name}', summary: 'Owner, resolver, records and registration of a name', tag: 'Names', parameters: [NAME] },
+  { method: 'get', path: '/api/ens/name/{name}/available', summary: 'Check if a name is available', tag: 'Names', parameters: [NAME] },
+  { method: 'get', path: '/api/ens/name/{name}/resolve', summary: 'Resolve a name to an address', tag: 'Names', parameters: [NAME] },
+  {
+    method: 'get',
+    path: '/api/ens/name/{name}/price',
+    summary: 'Rent price of a name',
+    tag: 'Names',
+    parameters: [NAME, { name: 'duration', in: 'query', description: 'Years, 1 by default', schema: { type: 'number', exclusiveMinimum: 0 } }]
+  },
+  {
+    method: 'get',
+    path: '/api/ens/name/{name}/suggestions',
+    summary: 'Available alternatives to a name, ranked by price and length',
+    tag: 'Names',
+    parameters: [
+      NAME,
+      { name: 'duration', in: 'query', description: 'Years to price, 1 by default', schema: { type: 'number', exclusiveMinimum: 0 } },
+      { name: 'owner', in: 'query', description: 'Address whose .eth names subname suggestions go under', schema: { type: 'string' } }
+    ]
+  },
+  { method: 'get', path: '/api/ens/name/{name}/avatar', summary: 'Resolved ENSIP-12 avatar of a name', tag: 'Names', parameters: [NAME] },
+  {
+    method: 'get',
+    path: '/api/ens/name/{name}/history',
+    summary: 'Registry, registrar and resolver events of a name',
+    tag: 'Names',
+    parameters: [
+      NAME,
+      { name: 'fromBlock', in: 'query', description: 'First block to read events from, the ENS deployment block by default', schema: { type: 'integer', minimum: 0 } },
+      { name: 'limit', in: 'query', description: 'Most recent events to return', schema: { type: 'integer', minimum: 1 } }
+    ]
+  },
+  {
+    method: 'get',
+    path: '/api/ens/name/{name}/records/{key}',
+    summary: 'Text record of a name',
+    tag: 'Names',
+    parameters: [NAME, { name: 'key', in: 'path', description: 'Text record key, e.g. email', schema: { type: 'string' } }]
+  },
+  {
+    method: 'post',
+    path: '/api/ens/name/{name}/register',
+    summary: 'Prepare the commit and register transactions of a name',
+    tag: 'Names',
+    parameters: [NAME],
+    requestBody: 'RegisterRequest',
+    response: 'PreparedOperationResponse'
+  },
+  {
+    method: 'post',
+    path: '/api/ens/name/{name}/renew',
+    summary: 'Prepare renewing a name',
+    tag: 'Names',
+    parameters: [NAME],
+    requestBody: 'RenewRequest',
+    response: 'PreparedOperationResponse'
+  },
+  {
+    method: 'post',
+    path: '/api/ens/name/{name}/records',
+    summary: 'Prepare setting records of a name in one multicall',
+    tag: 'Names',
+    parameters: [NAME],
+    requestBody: 'SetRecordsRequest',
+    response: 'PreparedOperationResponse'
+  },
+  {
+    method: 'post',
+    path: '/api/ens/name/{name}/transfer',
+    summary: 'Prepare transferring a name',
+    tag: 'Names',
+    parameters: [NAME],
+    requestBody: 'TransferRequest',
+    response: 'PreparedOperationResponse'
+  },
+  {
+    method: 'post',
+    path: '/api/ens/name/{name}/resolver',
+    summary: 'Prepare setting the resolver of a name',
+    tag: 'Names',
+    parameters: [NAME],
+    requestBody: 'SetResolverRequest',
+    response: 'PreparedOperationResponse'
+  },
+  {
+    method: 'get',
+    path: '/api/ens/address/{address}/resolve',
+    summary: 'Primary name of an address',
+    tag: 'Addresses',
+    parameters: [
+      ADDRESS,
+      { name: 'chain', in: 'query', description: 'Chain name or id of an L2 primary name, or "all"', schema: { type: 'string' } }
+    ]
+  },
+  { method: 'get', path: '/api/ens/address/{address}/expiry', summary: 'Expiry warnings of the names an address owns', tag: 'Addresses', parameters: [ADDRESS, THRESHOLDS] },
+  { method: 'get', path: '/api/ens/address/{address}/portfolio', summary: 'Names an address owns, with their expiries', tag: 'Addresses', parameters: [ADDRESS] },
+  {
+    method: 'post',
+    path: '/api/ens/transaction/{hash}',
+    summary: 'Confirm a transaction sent by the user\'s wallet',
+    tag: 'Transactions',
+    parameters: [{ name: 'hash', in: 'path', description: 'Transaction hash', schema: { type: 'string', pattern: '^0x[a-fA-F0-9]{64}$' } }],
+    requestBody: 'ConfirmTransactionRequest'
+  },
+  { method: 'post', path: '/api/ens/chat', summary: 'Send a chat message to the agent', tag: 'Chat', requestBody: 'ChatRequest' },
+  { method: 'delete', path: '/api/ens/chat', summary: 'Clear the conversation of a chat session', tag: 'Chat' },
+  { method: 'get', path: '/api/ens/chat/history', summary: 'History and context of a chat session', tag: 'Chat' },
+  { method: 'delete', path: '/api/ens/chat/history', summary: 'Clear the history of a chat session', tag: 'Chat' },
+  { method: 'get', path: '/api/ens/agent/status', summary: 'AI status, capabilities and network of the agent', tag: 'Agent' },
+  { method: 'get', path: '/api/ens/agent/help', summary: 'Help message of the agent', tag: 'Agent' },
+  {
+    method: 'get',
+    path: '/api/ens/agent/suggestions',
+    summary: 'Suggested operations, for a name when given',
+    tag: 'Agent',
+    parameters: [{ name: 'name', in: 'query', description: 'ENS name to suggest operations for', schema: { type: 'string' } }]
+  },
+  { method: 'get', path: '/api/ens/agent/stats', summary: 'AI usage statistics of the agent', tag: 'Agent' }
+];
+
+const schemaRef = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const jsonContent = (name: string) => ({ 'application/json': { schema: schemaRef(name) } });
+
+/**
+ * OpenAPI 3.1 document of the ENS API routes
+ */
+export function buildOpenAPIDocument(routes: APIRoute[] = ENS_API_ROUTES): Record<string, any> {
+  const paths: Record<string, Record<string, any>> = {};
+
+  for (const route of routes) {
+    // Chat routes pick the deployment from the request body or use the shared session store
+    const parameters = route.tag === 'Chat' ? route.parameters || [] : [...(route.parameters || []), CHAIN_ID];
+
+    paths[route.path] = paths[route.path] || {};
+    paths[route.path][route.method] = {
+      summary: route.summary,
+      tags: [route.tag],
+      ...(parameters.length > 0 && {
+        parameters: parameters.map(parameter => ({ ...parameter, required: parameter.in === 'path' }))
+      }),
+      ...(route.requestBody && { requestBody: { required: true, content: jsonContent(route.requestBody) } }),
+      responses: {
+        200: { description: 'Result, with success false when the operation failed', content: jsonContent(route.response || 'ENSAgentResponse') },
+        400: { description: 'Invalid parameters or request body', content: jsonContent('ErrorResponse') },
+        500: { description: 'Unexpected server error', content: jsonContent('ErrorResponse') }
+      }
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'ENS Agent API',
+      version: '1.0.0',
+      description: 'ENS lookups, unsigned ENS transactions for the user\'s wallet to sign, and the ENS chat agent'
+    },
+    paths,
+    components: {
+      schemas: { ...REQUEST_SCHEMAS, ...RESPONSE_SCHEMAS }
+    }
+  };
+}
@@ -1,7 +1,9 @@
 // ENS Operations Module
 import { ENSContractManager } from './contracts';
 import { ENSAgentResponse, ENSOperation, ENSNameInfo, ENSCommitment, ENSPrice, ChatMessage } from './types';
-import { validateENSName, generateSecret, createCommitment, calculatePrice, isValidAddress } from './utils';
+import { validateENSName, generateSecret, createCommitment, isValidAddress, isSubdomain, normalizeName } from './utils';
+import { findENSNames } from './normalize';
+import { formatGasEstimate, isGasEstimateStale } from './gas';
 
 export class ENSOperations {
   private contractManager: ENSContractManager;
@@ -161,16 +163,74 @@ export class ENSOperations {
    * Execute an ENS operation
    */
   async executeOperation(operation: ENSOperation): Promise<ENSAgentResponse> {
+    // The user agreed to the fee quoted with the operation, so a stale quote is refreshed
+    // and confirmed again before anything is sent
+    if (operation.gasEstimate && isGasEstimateStale(operation.gasEstimate)) {
+      return await this.refreshGasEstimate(operation);
+    }
+
     this.operationHistory.push(operation);
+    return await this.dispatchOperation(operation);
+  }
+
+  /**
+   * Re-estimate the fee of an operation whose quote went stale, returning it for confirmation
+   */
+  private async refreshGasEstimate(operation: ENSOperation): Promise<ENSAgentResponse> {
+    const estimate = await this.contractManager.estimateOperationGas(operation);
+    if (!estimate.success) {
+      return {
+        success: false,
+        error: `The gas estimate for ${operation.type} ${operation.name} is out of date and could not be refreshed: ${estimate.error}`
+      };
+    }
+
+    const gasEstimate = estimate.data;
+    const message = `The gas estimate for ${operation.type} ${operation.name} was out of date, nothing was sent. Estimated network fee now: ${formatGasEstimate(gasEstimate)}. Please confirm again to proceed.`;
+    return {
+      success: true,
+      data: {
+        message,
+        operation: { ...operation, gasEstimate },
+        gasEstimate,
+        gasEstimateStale: true,
+        needsConfirmation: true
+      },
+      message,
+      transaction: {
+        type: operation.type,
+        ensName: operation.name,
+        status: 'pending',
+        gasEstimate
+      }
+    };
+  }
 
+  /**
+   * Route an operation to its handler
+   */
+  private async dispatchOperation(operation: ENSOperation): Promise<ENSAgentResponse> {
     try {
       switch (operation.type) {
         case 'register':
           return await this.handleRegistration(operation);
         case 'renew':
           return await this.handleRenewal(operation);
+        case 'bulkRenew':
+          return await this.contractManager.renewNames(operation.data?.names || [operation.name], operation.data?.duration);
         case 'setRecord':
           return await this.handleSetRecord(operation);
+        case 'setRecords':
+          return await this.handleSetRecords(operation);
+        case 'setPrimaryName':
+          return await this.handleSetPrimaryName(operation);
+        case 'clearPrimaryName':
+          return await this.contractManager.clearPrimaryName(operation.data?.address, operation.data?.chain);
+        case 'importDNSName':
+          return await this.contractManager.importDNSName(operation.name, {
+            resolver: operation.data?.resolver,
+            address: operation.data?.address
+          });
         case 'transfer':
           return await this.handleTransfer(operation);
         case 'resolve':
@@ -208,6 +268,13 @@ export class ENSOperations {
       };
     }
 
+    if (isSubdomain(name)) {
+      return {
+        success: false,
+        error: 'Only second-level .eth names can be registered. Create subnames from the parent name instead.'
+      };
+    }
+
     // Check availability
     const availability = await this.contractManager.isNameAvailable(name);
     if (!availability.success || !availability.data?.available) {
@@ -265,6 +332,9 @@ export class ENSOperations {
     } else if (data.address && data.coinType !== undefined) {
       // Address record
       return await this.contractManager.setAddressRecord(name, data.address, data.coinType);
+    } else if (data.contentHash) {
+      // Contenthash record (ipfs://, ipns://, bzz://, ar://, onion)
+      return await this.contractManager.setContentHash(name, data.contentHash);
     } else if (data.resolver) {
       // Set resolver
       return await this.contractManager.setResolver(name, data.resolver);
@@ -276,6 +346,47 @@ export class ENSOperations {
     };
   }
 
+  /**
+   * Handle setting several records in one multicall
+   */
+  private async handleSetRecords(operation: ENSOperation): Promise<ENSAgentResponse> {
+    const { name, data } = operation;
+
+    const validation = validateENSName(name);
+    if (!validation.valid) {
+      return {
+        success: false,
+        error: validation.error
+      };
+    }
+
+    return await this.contractManager.setRecords(name, data?.records || []);
+  }
+
+  /**
+   * Handle setting the primary name of the signer or of a contract it owns, on Ethereum or one chain
+   */
+  private async handleSetPrimaryName(operation: ENSOperation): Promise<ENSAgentResponse> {
+    const { name, data } = operation;
+
+    const validation = validateENSName(name);
+    if (!validation.valid) {
+      return {
+        success: false,
+        error: validation.error
+      };
+    }
+
+    if (data?.address && !isValidAddress(data.address)) {
+      return {
+        success: false,
+        error: 'Invalid address format'
+      };
+    }
+
+    return await this.contractManager.setPrimaryName(name, data?.address, data?.chain);
+  }
+
   /**
    * Handle name transfer
    */
@@ -356,9 +467,8 @@ export class ENSOperations {
    * Extract ENS name from message
    */
   public extractNameFromMessage(message: string): string | null {
-    const ensPattern = /([a-z0-9-]+\.eth)/gi;
-    const match = message.match(ensPattern);
-    return match ? match[0].toLowerCase() : null;
+    const [name] = findENSNames(message);
+    return name ? normalizeName(name) : null;
   }
 
   /**
@@ -463,19 +573,7 @@ export class ENSOperations {
    * Get name price
    */
   async getNamePrice(name: string, duration: number): Promise<ENSAgentResponse> {
-    try {
-      const price = calculatePrice(name, duration);
-      return {
-        success: true,
-        data: { name, duration, price },
-        message: `Price for ${name} (${duration} seconds): ${price} ETH`
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: `Failed to calculate price: ${error}`
-      };
-    }
+    return await this.contractManager.getPrice(name, duration);
   }
 
 }
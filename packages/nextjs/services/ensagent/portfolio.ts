@@ -0,0 +1,96 @@
+// Owned-name portfolios: registrar and NameWrapper transfer logs, scanned incrementally per address
+import type { OwnedName } from './types';
+import type { NameExpiry } from './expiry';
+
+export interface NameTransferRecord {
+  to: string;
+  blockNumber: number;
+  index: number;
+}
+
+export interface PortfolioScan {
+  address: string;
+  /** First block the scan covers */
+  fromBlock: number;
+  /** Last block the scan covers, fromBlock - 1 before the first scan */
+  toBlock: number;
+  /** Latest BaseRegistrar transfer to or from the address, by labelhash */
+  transfers: Map<string, NameTransferRecord>;
+  /** DNS-encoded name of each NameWrapper token the address received, null until its NameWrapped event is read */
+  wrappedNames: Map<string, string | null>;
+}
+
+export interface PortfolioName extends OwnedName {
+  expiry: NameExpiry;
+  /** Resolver set in the registry, null when none is set */
+  resolver: string | null;
+  /** ETH address the name resolves to */
+  resolvedAddress: string | null;
+  /** The name is the forward-verified primary name of the holder */
+  isPrimary: boolean;
+}
+
+/**
+ * Transfer scans by chain and address, kept for the life of the process so each lookup
+ * only reads the blocks mined since the previous one. Plaintext labels recovered from
+ * NameRegistered events are shared by every address.
+ */
+export class PortfolioCache {
+  private scans: Map<string, PortfolioScan> = new Map();
+  private labels: Map<string, string> = new Map();
+
+  get(chainId: number, address: string): PortfolioScan | null {
+    return this.scans.get(this.getKey(chainId, address)) || null;
+  }
+
+  set(chainId: number, scan: PortfolioScan): void {
+    this.scans.set(this.getKey(chainId, scan.address), scan);
+  }
+
+  getLabel(labelHash: string): string | undefined {
+    return this.labels.get(labelHash);
+  }
+
+  setLabel(labelHash: string, label: string): void {
+    this.labels.set(labelHash, label);
+  }
+
+  clear(): void {
+    this.scans.clear();
+    this.labels.clear();
+  }
+
+  // Mainnet and its forks share registrar addresses, so scans are keyed by chain
+  private getKey(chainId: number, address: string): string {
+    return `${chainId}:${address.toLowerCase()}`;
+  }
+}
+
+export const portfolioCache = new PortfolioCache();
+
+/**
+ * Empty scan of an address starting at a block
+ */
+export function createPortfolioScan(address: string, fromBlock: number): PortfolioScan {
+  return { address, fromBlock, toBlock: fromBlock - 1, transfers: new Map(), wrappedNames: new Map() };
+}
+
+/**
+ * Keep a transfer when it is the latest one seen for its labelhash
+ */
+export function recordTransfer(scan: PortfolioScan, labelHash: string, transfer: NameTransferRecord): void {
+  const previous = scan.transfers.get(labelHash);
+  if (!previous || transfer.blockNumber > previous.blockNumber
+    || (transfer.blockNumber === previous.blockNumber && transfer.index > previous.index)) {
+    scan.transfers.set(labelHash, transfer);
+  }
+}
+
+/**
+ * Labelhashes whose latest registrar transfer went to the address
+ */
+export function getHeldLabelHashes(scan: PortfolioScan): string[] {
+  return [...scan.transfers]
+    .filter(([, transfer]) => transfer.to.toLowerCase() === scan.address.toLowerCase())
+    .map(([labelHash]) => labelHash);
+}
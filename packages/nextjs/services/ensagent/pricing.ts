@@ -0,0 +1,201 @@
+// ENS rent price quotes from the ETHRegistrarController
+import { ethers } from 'ethers';
+
+// Premiums decay over time, so quotes are only reused briefly
+export const PRICE_QUOTE_TTL_MS = 30 * 1000;
+
+// Extra value sent with rent payments. The oracle converts USD prices at execution time and the
+// controller refunds whatever is left over.
+export const PRICE_HEADROOM_PERCENT = 3n;
+
+export interface ENSPriceQuote {
+  name: string;
+  label: string;
+  duration: number;
+  baseWei: string;
+  premiumWei: string;
+  totalWei: string;
+  base: string;
+  premium: string;
+  total: string;
+  hasPremium: boolean;
+  usd?: {
+    base: number;
+    premium: number;
+    total: number;
+    nativePrice: number;
+  };
+  quotedAt: number;
+  expiresAt: number;
+}
+
+export interface ENSBulkPriceQuote {
+  names: string[];
+  labels: string[];
+  duration: number;
+  /** Per-name quotes from the controller */
+  quotes: ENSPriceQuote[];
+  /** What StaticBulkRenewal charges for all the names together */
+  totalWei: string;
+  total: string;
+  hasPremium: boolean;
+  quotedAt: number;
+}
+
+/**
+ * Short-lived in-memory cache of rentPrice quotes
+ */
+export class PriceQuoteCache {
+  private quotes: Map<string, ENSPriceQuote> = new Map();
+  private ttlMs: number;
+
+  constructor(ttlMs: number = PRICE_QUOTE_TTL_MS) {
+    this.ttlMs = ttlMs;
+  }
+
+  get(controllerAddress: string, label: string, duration: number): ENSPriceQuote | null {
+    const key = this.getKey(controllerAddress, label, duration);
+    const quote = this.quotes.get(key);
+    if (!quote) return null;
+
+    if (quote.expiresAt <= Date.now()) {
+      this.quotes.delete(key);
+      return null;
+    }
+    return quote;
+  }
+
+  set(controllerAddress: string, quote: ENSPriceQuote): void {
+    this.quotes.set(this.getKey(controllerAddress, quote.label, quote.duration), quote);
+  }
+
+  clear(): void {
+    this.quotes.clear();
+  }
+
+  getTTL(): number {
+    return this.ttlMs;
+  }
+
+  private getKey(controllerAddress: string, label: string, duration: number): string {
+    return `${controllerAddress.toLowerCase()}:${label}:${duration}`;
+  }
+}
+
+export const priceQuoteCache = new PriceQuoteCache();
+
+/**
+ * Get a rent price quote for a .eth name, reusing a cached quote while it is fresh
+ */
+export async function getRentPriceQuote(
+  controller: ethers.Contract,
+  name: string,
+  duration: number,
+  cache: PriceQuoteCache = priceQuoteCache
+): Promise<ENSPriceQuote> {
+  const label = name.split('.')[0];
+  const controllerAddress = await controller.getAddress();
+
+  const cached = cache.get(controllerAddress, label, duration);
+  if (cached) {
+    return { ...cached, name };
+  }
+
+  const price = await controller.rentPrice(label, duration);
+  const base: bigint = price.base;
+  const premium: bigint = price.premium;
+  const now = Date.now();
+
+  const quote: ENSPriceQuote = {
+    name,
+    label,
+    duration,
+    baseWei: base.toString(),
+    premiumWei: premium.toString(),
+    totalWei: (base + premium).toString(),
+    base: ethers.formatEther(base),
+    premium: ethers.formatEther(premium),
+    total: ethers.formatEther(base + premium),
+    hasPremium: premium > 0n,
+    quotedAt: now,
+    expiresAt: now + cache.getTTL()
+  };
+  cache.set(controllerAddress, quote);
+
+  return quote;
+}
+
+/**
+ * Quote renewing several .eth names for the same duration: a controller quote per name,
+ * and the total from the bulk renewal contract, which is the value renewAll expects
+ */
+export async function getBulkRentPriceQuote(
+  bulkRenewal: ethers.Contract,
+  controller: ethers.Contract,
+  names: string[],
+  duration: number,
+  cache: PriceQuoteCache = priceQuoteCache
+): Promise<ENSBulkPriceQuote> {
+  const labels = names.map(name => name.split('.')[0]);
+  const [quotes, total] = await Promise.all([
+    Promise.all(names.map(name => getRentPriceQuote(controller, name, duration, cache))),
+    bulkRenewal.rentPrice(labels, duration) as Promise<bigint>
+  ]);
+
+  return {
+    names,
+    labels,
+    duration,
+    quotes,
+    totalWei: total.toString(),
+    total: ethers.formatEther(total),
+    hasPremium: quotes.some(quote => quote.hasPremium),
+    quotedAt: Date.now()
+  };
+}
+
+/**
+ * Value to send with a register, renew or renewAll for a quote, including the price headroom
+ */
+export function getPaymentValue(quote: { totalWei: string }): bigint {
+  return BigInt(quote.totalWei) * (100n + PRICE_HEADROOM_PERCENT) / 100n;
+}
+
+/**
+ * Add USD values to a quote using the native currency (ETH) price
+ */
+export function withUsdPrice(quote: ENSPriceQuote, nativePrice: number): ENSPriceQuote {
+  if (!nativePrice || nativePrice <= 0) {
+    return quote;
+  }
+
+  const toUsd = (eth: string) => Math.round(parseFloat(eth) * nativePrice * 100) / 100;
+  return {
+    ...quote,
+    usd: {
+      base: toUsd(quote.base),
+      premium: toUsd(quote.premium),
+      total: toUsd(quote.total),
+      nativePrice
+    }
+  };
+}
+
+/**
+ * Format a quote as "0.0031 ETH (base 0.0031 + premium 0) ≈ $10.12"
+ */
+export function formatPriceQuote(quote: ENSPriceQuote): string {
+  const total = `${parseFloat(quote.total).toFixed(6)} ETH`;
+  const breakdown = quote.hasPremium
+    ? ` (base ${parseFloat(quote.base).toFixed(6)} + premium ${parseFloat(quote.premium).toFixed(6)} ETH)`
+    : '';
+  const usd = quote.usd ? ` ≈ $${quote.usd.total.toFixed(2)}` : '';
+  return `${total}${breakdown}${usd}`;
+}
+
+/**
+ * Format a bulk quote as "0.0093 ETH for 3 names"
+ */
+export function formatBulkPriceQuote(quote: ENSBulkPriceQuote): string {
+  return `${parseFloat(quote.total).toFixed(6)} ETH for ${quote.names.length} name${quote.names.length === 1 ? '' : 's'}`;
+}
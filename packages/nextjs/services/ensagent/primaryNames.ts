@@ -0,0 +1,55 @@
+// Client-side cache of primary name lookups, shared by every component on the page
+
+// Primary names change when set or cleared elsewhere, so lookups are only reused for a while
+export const PRIMARY_NAME_TTL_MS = 5 * 60 * 1000;
+
+// Forward-verified primary names by "ensChainId:chainId:address"
+const primaryNameCache = new Map<string, { request: Promise<string | null>; expiresAt: number }>();
+// Told to look their names up again when they are invalidated
+const listeners = new Set<() => void>();
+
+/**
+ * Primary name of an address on a chain, from the resolve endpoint of the ENS deployment on `ensChainId`
+ */
+export function fetchPrimaryName(address: string, chainId: number, ensChainId: number): Promise<string | null> {
+  const key = `${ensChainId}:${chainId}:${address.toLowerCase()}`;
+  const cached = primaryNameCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.request;
+  }
+
+  const request = fetch(`/api/ens/address/${address}/resolve?chain=${chainId}&chainId=${ensChainId}`)
+    .then(response => response.json())
+    .then(result => {
+      if (!result.success) throw new Error(result.error);
+      return result.data?.name || null;
+    })
+    .catch(() => {
+      // Failed lookups are not cached, the next render tries again
+      if (primaryNameCache.get(key)?.request === request) primaryNameCache.delete(key);
+      return null;
+    });
+  primaryNameCache.set(key, { request, expiresAt: Date.now() + PRIMARY_NAME_TTL_MS });
+  return request;
+}
+
+/**
+ * Drop the cached primary names of an address on every chain (all addresses when none is given),
+ * e.g. after its primary name was set or cleared
+ */
+export function invalidatePrimaryName(address?: string) {
+  for (const key of [...primaryNameCache.keys()]) {
+    if (!address || key.endsWith(`:${address.toLowerCase()}`)) primaryNameCache.delete(key);
+  }
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Get told when cached primary names are invalidated. Returns the unsubscribe function.
+ */
+export function subscribePrimaryNames(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,154 @@
+// Record updates sent together in one PublicResolver.multicall
+import { ethers } from 'ethers';
+import { ENSRecordChange, ENSRecordUpdate } from './types';
+import { decodeCoinAddress, encodeCoinAddress, getCoinName, resolveCoinType } from './coins';
+import { decodeContentHash, encodeContentHash } from './contenthash';
+
+const MAX_TEXT_KEY_LENGTH = 100;
+const MAX_TEXT_VALUE_LENGTH = 1024;
+
+// ENSIP-5 global text record keys
+const GLOBAL_TEXT_KEYS = ['avatar', 'description', 'email', 'header', 'keywords', 'location', 'notice', 'phone', 'url'];
+
+/**
+ * Whether a word names a record: an ENSIP-5 text key, a service key such as
+ * "com.twitter", a coin symbol or "contenthash"
+ */
+export function isRecordKey(key: string): boolean {
+  const lower = key.trim().toLowerCase();
+  return GLOBAL_TEXT_KEYS.includes(lower)
+    || /^(com|org|io|net|xyz)\.[a-z0-9-]+$/.test(lower)
+    || /^content-?hash$/.test(lower)
+    || resolveCoinType(lower) !== undefined;
+}
+
+/**
+ * Build a record update from a key as users write it: a text key ("email"),
+ * a coin symbol ("BTC") or "contenthash"
+ */
+export function toRecordUpdate(key: string, value: string, coinType?: number): ENSRecordUpdate {
+  const trimmedKey = key.trim();
+  const trimmedValue = value.trim();
+  if (coinType !== undefined) {
+    return { kind: 'address', coinType, value: trimmedValue };
+  }
+  if (/^content-?hash$/i.test(trimmedKey)) {
+    return { kind: 'contenthash', value: trimmedValue };
+  }
+
+  const keyCoinType = resolveCoinType(trimmedKey);
+  return keyCoinType !== undefined
+    ? { kind: 'address', coinType: keyCoinType, value: trimmedValue }
+    : { kind: 'text', key: trimmedKey, value };
+}
+
+/**
+ * Display label for a record, e.g. "email", "BTC address" or "contenthash"
+ */
+export function getRecordLabel(record: ENSRecordUpdate): string {
+  switch (record.kind) {
+    case 'text':
+      return record.key;
+    case 'address':
+      return `${getCoinName(record.coinType)} address`;
+    case 'contenthash':
+      return 'contenthash';
+  }
+}
+
+/**
+ * Check a record update before it is proposed, returning the reason it would fail
+ */
+export function validateRecordUpdate(record: ENSRecordUpdate): string | undefined {
+  try {
+    switch (record.kind) {
+      case 'text':
+        if (!record.key) return 'Text record key cannot be empty';
+        if (record.key.length > MAX_TEXT_KEY_LENGTH) return `Text record keys are limited to ${MAX_TEXT_KEY_LENGTH} characters`;
+        if (record.value.length > MAX_TEXT_VALUE_LENGTH) return `Text record values are limited to ${MAX_TEXT_VALUE_LENGTH} characters`;
+        return undefined;
+      case 'address':
+      case 'contenthash':
+        getRecordPayload(record);
+        return undefined;
+    }
+  } catch (error: any) {
+    return error?.message || String(error);
+  }
+}
+
+/**
+ * The value as stored by the resolver: the text itself, or address / contenthash bytes.
+ * Empty values clear the record.
+ */
+export function getRecordPayload(record: ENSRecordUpdate): string {
+  switch (record.kind) {
+    case 'text':
+      return record.value;
+    case 'address':
+      return record.value ? encodeCoinAddress(record.coinType, record.value) : '0x';
+    case 'contenthash':
+      return record.value ? encodeContentHash(record.value) : '0x';
+  }
+}
+
+/**
+ * Calldata for one record update, to be wrapped in multicall(bytes[])
+ */
+export function encodeRecordCall(resolver: ethers.Interface, node: string, record: ENSRecordUpdate): string {
+  const payload = getRecordPayload(record);
+  switch (record.kind) {
+    case 'text':
+      return resolver.encodeFunctionData('setText', [node, record.key, payload]);
+    case 'address':
+      return resolver.encodeFunctionData('setAddr(bytes32,uint256,bytes)', [node, record.coinType, payload]);
+    case 'contenthash':
+      return resolver.encodeFunctionData('setContenthash', [node, payload]);
+  }
+}
+
+/**
+ * Compare a record update with the value currently stored by the resolver
+ */
+export function diffRecordUpdate(record: ENSRecordUpdate, currentRaw: string): ENSRecordChange {
+  const label = getRecordLabel(record);
+  const current = displayStoredValue(record, currentRaw);
+  const error = validateRecordUpdate(record);
+  if (error) {
+    return { record, label, current, changed: false, error };
+  }
+
+  const payload = getRecordPayload(record);
+  const stored = currentRaw || (record.kind === 'text' ? '' : '0x');
+  const changed = record.kind === 'text' ? payload !== stored : payload.toLowerCase() !== stored.toLowerCase();
+  return { record, label, current, changed };
+}
+
+/**
+ * Format a record-by-record diff, one line per record
+ */
+export function formatRecordDiff(changes: ENSRecordChange[]): string {
+  return changes.map(change => {
+    if (change.error) {
+      return `• ${change.label}: invalid, ${change.error}`;
+    }
+    if (!change.changed) {
+      return `• ${change.label}: unchanged (${change.current ?? 'not set'})`;
+    }
+    return `• ${change.label}: ${change.current ?? '(not set)'} → ${change.record.value || '(cleared)'}`;
+  }).join('\n');
+}
+
+function displayStoredValue(record: ENSRecordUpdate, raw: string): string | null {
+  if (!raw || raw === '0x') {
+    return null;
+  }
+  switch (record.kind) {
+    case 'text':
+      return raw;
+    case 'address':
+      return decodeCoinAddress(record.coinType, raw);
+    case 'contenthash':
+      return decodeContentHash(raw)?.uri || raw;
+  }
+}
@@ -0,0 +1,433 @@
+// ENS Registration Workflow - resumable commit-reveal state machine
+import { ethers } from 'ethers';
+import { getPaymentValue } from './pricing';
+import { ENSAgentResponse, PendingRegistration, RegistrationParams, RegistrationState } from './types';
+
+const STORAGE_KEY = 'ens_pending_registrations';
+
+// Controller defaults on mainnet and Sepolia, used until the contract is queried
+export const DEFAULT_MIN_COMMITMENT_AGE = 60;
+export const DEFAULT_MAX_COMMITMENT_AGE = 24 * 60 * 60;
+
+// Warn when less than this many seconds remain before the commitment expires
+export const COMMITMENT_EXPIRY_WARNING = 60 * 60;
+
+const TRANSITIONS: Record<RegistrationState, RegistrationState[]> = {
+  checked: ['committed', 'failed'],
+  committed: ['waiting', 'ready', 'expired', 'failed'],
+  waiting: ['ready', 'expired', 'failed'],
+  ready: ['registered', 'expired', 'failed'],
+  expired: ['committed', 'failed'],
+  failed: ['checked', 'committed', 'waiting', 'ready', 'registered'],
+  registered: []
+};
+
+const ACTIVE_STATES: RegistrationState[] = ['checked', 'committed', 'waiting', 'ready', 'expired', 'failed'];
+
+export interface RegistrationTiming {
+  readyAt?: number;
+  expiresAt?: number;
+  secondsUntilReady: number;
+  secondsUntilExpiry: number;
+  expiryWarning: boolean;
+}
+
+export interface RegistrationWatchHandlers {
+  onReady?: (registration: PendingRegistration) => void;
+  onExpiryWarning?: (registration: PendingRegistration, secondsLeft: number) => void;
+  onExpired?: (registration: PendingRegistration) => void;
+}
+
+/**
+ * Minimal key-value storage, satisfied by window.localStorage
+ */
+export interface RegistrationStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+export interface RegistrationParamsOptions {
+  name: string;
+  owner: string;
+  duration: number;
+  resolver: string; // the PublicResolver of the network the name is registered on
+  data?: string[];
+  reverseRecord?: boolean;
+  secret?: string;
+}
+
+export interface CreateRegistrationOptions extends RegistrationParamsOptions {
+  chainId: number;
+  minCommitmentAge?: number;
+  maxCommitmentAge?: number;
+}
+
+const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+/**
+ * Build the controller's Registration struct from registration options
+ */
+export function buildRegistrationParams(options: RegistrationParamsOptions): RegistrationParams {
+  return {
+    label: options.name.toLowerCase().replace(/\.eth$/, ''),
+    owner: options.owner,
+    duration: options.duration,
+    secret: options.secret || ethers.hexlify(ethers.randomBytes(32)),
+    resolver: options.resolver,
+    data: options.data || [],
+    reverseRecord: options.reverseRecord ? 1 : 0,
+    referrer: ethers.ZeroHash
+  };
+}
+
+export class RegistrationManager {
+  private registrations: PendingRegistration[] = [];
+  private listeners: ((registrations: PendingRegistration[]) => void)[] = [];
+  private storage: RegistrationStorage | null;
+
+  constructor(storage?: RegistrationStorage | null) {
+    this.storage = storage !== undefined ? storage : (typeof window !== 'undefined' ? window.localStorage : null);
+    this.loadRegistrations();
+  }
+
+  // Subscribe to registration updates
+  subscribe(listener: (registrations: PendingRegistration[]) => void) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Start a registration for a name that passed the availability check
+   */
+  create(options: CreateRegistrationOptions): PendingRegistration {
+    const now = nowInSeconds();
+    const registration: PendingRegistration = {
+      id: `registration_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: `${options.name.toLowerCase().replace(/\.eth$/, '')}.eth`,
+      chainId: options.chainId,
+      state: 'checked',
+      params: buildRegistrationParams(options),
+      minCommitmentAge: options.minCommitmentAge ?? DEFAULT_MIN_COMMITMENT_AGE,
+      maxCommitmentAge: options.maxCommitmentAge ?? DEFAULT_MAX_COMMITMENT_AGE,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.registrations.unshift(registration);
+    this.save();
+    return registration;
+  }
+
+  get(id: string): PendingRegistration | undefined {
+    return this.registrations.find(r => r.id === id);
+  }
+
+  /**
+   * Unfinished registrations, optionally for one owner and network
+   */
+  getActive(owner?: string, chainId?: number): PendingRegistration[] {
+    return this.registrations
+      .filter(r => ACTIVE_STATES.includes(r.state))
+      .filter(r => !owner || r.params.owner.toLowerCase() === owner.toLowerCase())
+      .filter(r => chainId === undefined || r.chainId === chainId)
+      .map(r => this.refresh(r.id) || r);
+  }
+
+  /**
+   * Find the unfinished registration of a name for an owner on a network
+   */
+  findActive(name: string, owner: string, chainId: number): PendingRegistration | undefined {
+    const fullName = `${name.toLowerCase().replace(/\.eth$/, '')}.eth`;
+    return this.getActive(owner, chainId).find(r => r.name === fullName);
+  }
+
+  /**
+   * Move a registration to a new state, rejecting transitions the workflow does not allow
+   */
+  transition(id: string, state: RegistrationState, updates: Partial<PendingRegistration> = {}): PendingRegistration {
+    const registration = this.require(id);
+    if (registration.state !== state && !TRANSITIONS[registration.state].includes(state)) {
+      throw new Error(`Invalid registration transition: ${registration.state} -> ${state}`);
+    }
+    return this.update(id, { ...updates, state });
+  }
+
+  /**
+   * Record an on-chain commitment and derive the time-based state
+   */
+  markCommitted(id: string, commitment: string, committedAt: number, commitTxHash?: string): PendingRegistration {
+    const registration = this.require(id);
+    const updates = { commitment, committedAt, commitTxHash: commitTxHash ?? registration.commitTxHash, error: undefined };
+
+    if (['committed', 'waiting', 'ready'].includes(registration.state)) {
+      this.update(id, updates);
+    } else {
+      this.transition(id, 'committed', updates);
+    }
+    return this.refresh(id)!;
+  }
+
+  markRegistered(id: string, registerTxHash: string): PendingRegistration {
+    const registration = this.require(id);
+    // The secret is only needed until the reveal
+    return this.transition(id, 'registered', {
+      registerTxHash,
+      error: undefined,
+      params: { ...registration.params, secret: ethers.ZeroHash }
+    });
+  }
+
+  markFailed(id: string, error: string): PendingRegistration {
+    return this.transition(id, 'failed', { error });
+  }
+
+  remove(id: string) {
+    this.registrations = this.registrations.filter(r => r.id !== id);
+    this.save();
+  }
+
+  /**
+   * Advance committed registrations to waiting, ready or expired based on commitment age
+   */
+  refresh(id: string, now: number = nowInSeconds()): PendingRegistration | undefined {
+    const registration = this.get(id);
+    if (!registration || registration.committedAt === undefined) return registration;
+    if (!['committed', 'waiting', 'ready'].includes(registration.state)) return registration;
+
+    const age = now - registration.committedAt;
+    const next: RegistrationState = age >= registration.maxCommitmentAge
+      ? 'expired'
+      : age >= registration.minCommitmentAge
+        ? 'ready'
+        : 'waiting';
+
+    return next === registration.state ? registration : this.transition(id, next);
+  }
+
+  getTiming(registration: PendingRegistration, now: number = nowInSeconds()): RegistrationTiming {
+    if (registration.committedAt === undefined) {
+      return { secondsUntilReady: 0, secondsUntilExpiry: 0, expiryWarning: false };
+    }
+
+    const readyAt = registration.committedAt + registration.minCommitmentAge;
+    const expiresAt = registration.committedAt + registration.maxCommitmentAge;
+    const secondsUntilExpiry = Math.max(0, expiresAt - now);
+
+    return {
+      readyAt,
+      expiresAt,
+      secondsUntilReady: Math.max(0, readyAt - now),
+      secondsUntilExpiry,
+      expiryWarning: registration.state === 'ready' && secondsUntilExpiry <= COMMITMENT_EXPIRY_WARNING
+    };
+  }
+
+  /**
+   * Schedule state changes for a registration. Returns a cleanup function.
+   */
+  watch(id: string, handlers: RegistrationWatchHandlers = {}): () => void {
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    const registration = this.refresh(id);
+    if (!registration || registration.committedAt === undefined) return () => undefined;
+
+    const timing = this.getTiming(registration);
+    const schedule = (seconds: number, callback: () => void) => {
+      timers.push(setTimeout(callback, Math.max(0, seconds) * 1000));
+    };
+
+    if (registration.state === 'waiting' || registration.state === 'committed') {
+      schedule(timing.secondsUntilReady, () => {
+        const updated = this.refresh(id);
+        if (updated?.state === 'ready') handlers.onReady?.(updated);
+      });
+    }
+
+    if (registration.state !== 'expired') {
+      schedule(timing.secondsUntilExpiry - COMMITMENT_EXPIRY_WARNING, () => {
+        const updated = this.refresh(id);
+        if (updated?.state === 'ready') {
+          handlers.onExpiryWarning?.(updated, this.getTiming(updated).secondsUntilExpiry);
+        }
+      });
+      schedule(timing.secondsUntilExpiry, () => {
+        const updated = this.refresh(id);
+        if (updated?.state === 'expired') handlers.onExpired?.(updated);
+      });
+    }
+
+    return () => timers.forEach(timer => clearTimeout(timer));
+  }
+
+  /**
+   * Submit the commitment transaction. `controller` must be connected to the owner's signer.
+   */
+  async commit(id: string, controller: ethers.Contract): Promise<ENSAgentResponse> {
+    const registration = this.require(id);
+
+    try {
+      const [minAge, maxAge] = await Promise.all([controller.minCommitmentAge(), controller.maxCommitmentAge()]);
+      this.update(id, { minCommitmentAge: Number(minAge), maxCommitmentAge: Number(maxAge) });
+
+      const commitment: string = await controller.makeCommitment(registration.params);
+      const tx = await controller.commit(commitment);
+      this.update(id, { commitment, commitTxHash: tx.hash });
+
+      const receipt = await tx.wait();
+      let committedAt = Number(await controller.commitments(commitment));
+      if (!committedAt && receipt) {
+        const block = await receipt.getBlock();
+        committedAt = block.timestamp;
+      }
+
+      const updated = this.markCommitted(id, commitment, committedAt, tx.hash);
+      return {
+        success: true,
+        data: this.toPublic(updated),
+        message: `Commitment submitted for ${updated.name}. Registration opens in ${updated.minCommitmentAge} seconds.`
+      };
+    } catch (error) {
+      this.markFailed(id, `Failed to submit commitment: ${error}`);
+      return {
+        success: false,
+        error: `Failed to submit commitment: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Reveal the commitment and register the name once the commitment is ready
+   */
+  async register(id: string, controller: ethers.Contract): Promise<ENSAgentResponse> {
+    const registration = this.refresh(id);
+    if (!registration) {
+      return { success: false, error: 'Registration not found' };
+    }
+
+    if (registration.state !== 'ready') {
+      const timing = this.getTiming(registration);
+      return {
+        success: false,
+        data: this.toPublic(registration),
+        error: registration.state === 'waiting'
+          ? `Commitment is not ready yet. Wait ${timing.secondsUntilReady} more seconds.`
+          : registration.state === 'expired'
+            ? 'Commitment expired. Submit a new commitment to continue.'
+            : `Registration cannot be completed from state "${registration.state}"`
+      };
+    }
+
+    try {
+      const price = await controller.rentPrice(registration.params.label, registration.params.duration);
+      const total: bigint = price.base + price.premium;
+      const value = getPaymentValue({ totalWei: total.toString() });
+
+      const tx = await controller.register(registration.params, { value });
+      this.update(id, { registerTxHash: tx.hash });
+      await tx.wait();
+
+      const updated = this.markRegistered(id, tx.hash);
+      return {
+        success: true,
+        data: { ...this.toPublic(updated), cost: ethers.formatEther(total) },
+        message: `Successfully registered ${updated.name}!`,
+        transaction: {
+          hash: tx.hash,
+          operation: { type: 'register', name: updated.name, data: { owner: updated.params.owner, duration: updated.params.duration } },
+          status: 'confirmed',
+          timestamp: new Date()
+        }
+      };
+    } catch (error) {
+      this.markFailed(id, `Failed to register name: ${error}`);
+      return {
+        success: false,
+        error: `Failed to register name: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Reconcile a resumed registration with the controller after a reload
+   */
+  async sync(id: string, controller: ethers.Contract): Promise<PendingRegistration | undefined> {
+    const registration = this.get(id);
+    if (!registration?.commitment || registration.state === 'registered') return registration;
+
+    try {
+      const committedAt = Number(await controller.commitments(registration.commitment));
+      if (committedAt > 0) {
+        return this.markCommitted(id, registration.commitment, committedAt);
+      }
+
+      // register() deletes the commitment, so a taken name with our reveal tx means success
+      const available: boolean = await controller.available(registration.params.label);
+      if (!available && registration.registerTxHash) {
+        return this.markRegistered(id, registration.registerTxHash);
+      }
+      if (!available) {
+        return this.markFailed(id, `${registration.name} is no longer available`);
+      }
+    } catch (error) {
+      console.error('Failed to sync registration:', error);
+    }
+
+    return this.refresh(id);
+  }
+
+  /**
+   * Registration view without the commitment secret, safe to log or send over the wire
+   */
+  toPublic(registration: PendingRegistration): Omit<PendingRegistration, 'params'> & {
+    params: Omit<RegistrationParams, 'secret'>;
+    timing: RegistrationTiming;
+  } {
+    const { label, owner, duration, resolver, data, reverseRecord, referrer } = registration.params;
+    return {
+      ...registration,
+      params: { label, owner, duration, resolver, data, reverseRecord, referrer },
+      timing: this.getTiming(registration)
+    };
+  }
+
+  private require(id: string): PendingRegistration {
+    const registration = this.get(id);
+    if (!registration) {
+      throw new Error(`Registration ${id} not found`);
+    }
+    return registration;
+  }
+
+  private update(id: string, updates: Partial<PendingRegistration>): PendingRegistration {
+    const index = this.registrations.findIndex(r => r.id === id);
+    const updated = { ...this.registrations[index], ...updates, updatedAt: nowInSeconds() };
+    this.registrations[index] = updated;
+    this.save();
+    return updated;
+  }
+
+  private save() {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.registrations));
+    } catch (error) {
+      console.error('Failed to save registrations:', error);
+    }
+    this.listeners.forEach(listener => listener([...this.registrations]));
+  }
+
+  private loadRegistrations() {
+    try {
+      const stored = this.storage?.getItem(STORAGE_KEY);
+      if (stored) {
+        this.registrations = JSON.parse(stored);
+      }
+    } catch (error) {
+      console.error('Failed to load registrations:', error);
+    }
+  }
+}
+
+// Shared instance, persisted to localStorage in the browser. On the server it has no storage and
+// keeps registrations, secrets included, in process memory only.
+export const registrationManager = new RegistrationManager();
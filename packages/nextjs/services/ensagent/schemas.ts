@@ -0,0 +1,273 @@
+// Request and response schemas of the ENS API, used to validate request bodies and to build the OpenAPI document
+import { PREPARED_OPERATION_TYPES } from './transactions';
+
+// The JSON Schema subset the API uses, which is also valid in OpenAPI 3.1
+export interface JSONSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: readonly unknown[];
+  pattern?: string;
+  minLength?: number;
+  minItems?: number;
+  minimum?: number;
+  exclusiveMinimum?: number;
+  default?: unknown;
+  example?: unknown;
+  $ref?: string;
+}
+
+export interface SchemaIssue {
+  /** Where the value failed, e.g. "body.records[0].key" */
+  path: string;
+  message: string;
+}
+
+const ADDRESS: JSONSchema = {
+  type: 'string',
+  pattern: '^0x[a-fA-F0-9]{40}$',
+  description: '0x-prefixed Ethereum address',
+  example: '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045'
+};
+
+const BYTES32: JSONSchema = { type: 'string', pattern: '^0x[a-fA-F0-9]{64}$' };
+
+const DURATION: JSONSchema = {
+  type: 'integer',
+  exclusiveMinimum: 0,
+  default: 365 * 24 * 60 * 60,
+  description: 'Duration in seconds, one year by default'
+};
+
+const RECORD_INPUT: JSONSchema = {
+  type: 'object',
+  required: ['key', 'value'],
+  properties: {
+    key: { type: 'string', minLength: 1, description: 'Text key such as "email", a coin symbol such as "BTC", or "contenthash"' },
+    value: { type: 'string' },
+    coinType: { type: 'integer', minimum: 0, description: 'SLIP-44 or ENSIP-11 coin type, instead of a coin symbol key' }
+  }
+};
+
+export const REQUEST_SCHEMAS = {
+  ChatRequest: {
+    type: 'object',
+    required: ['message'],
+    properties: {
+      message: { type: 'string', minLength: 1 },
+      userAddress: ADDRESS,
+      sessionId: { type: 'string', description: 'Chat session id, also accepted as the x-session-id header. Without one a new session is started and its id returned' },
+      chainId: { type: 'integer', description: 'Chain id of the app\'s target network, Sepolia by default' },
+      conversationHistory: {
+        type: 'array',
+        items: { type: 'object' },
+        description: 'Recent client-side messages, used when the stored session has expired'
+      }
+    }
+  },
+  RegisterRequest: {
+    type: 'object',
+    required: ['userAddress'],
+    properties: {
+      userAddress: { ...ADDRESS, description: 'Wallet that signs the transactions and owns the name' },
+      duration: DURATION,
+      secret: { ...BYTES32, description: 'Secret of a commitment that was already sent, returns only the register transaction' }
+    }
+  },
+  RenewRequest: {
+    type: 'object',
+    required: ['userAddress'],
+    properties: {
+      userAddress: ADDRESS,
+      duration: DURATION
+    }
+  },
+  SetRecordsRequest: {
+    type: 'object',
+    required: ['userAddress'],
+    description: 'Either records, or a single record as key and value, coin or coinType and value, or contentHash',
+    properties: {
+      userAddress: ADDRESS,
+      records: { type: 'array', minItems: 1, items: RECORD_INPUT },
+      key: { type: 'string', minLength: 1 },
+      value: { type: 'string' },
+      coin: { type: 'string', description: 'Coin symbol of an address record, e.g. "BTC" or "BASE"' },
+      coinType: { type: 'integer', minimum: 0 },
+      contentHash: { type: 'string', description: 'ipfs://, ipns://, bzz://, ar:// or onion URI' }
+    }
+  },
+  TransferRequest: {
+    type: 'object',
+    required: ['userAddress', 'newOwner'],
+    properties: {
+      userAddress: ADDRESS,
+      newOwner: ADDRESS
+    }
+  },
+  SetResolverRequest: {
+    type: 'object',
+    required: ['userAddress', 'resolverAddress'],
+    properties: {
+      userAddress: ADDRESS,
+      resolverAddress: ADDRESS
+    }
+  },
+  ConfirmTransactionRequest: {
+    type: 'object',
+    properties: {
+      userAddress: { ...ADDRESS, description: 'Sender of the transaction, whose chat session records the outcome' },
+      sessionId: { type: 'string' },
+      operation: {
+        type: 'object',
+        required: ['type', 'name'],
+        description: 'Operation the transaction was prepared for, checked against its calldata',
+        properties: {
+          type: { type: 'string', enum: PREPARED_OPERATION_TYPES },
+          name: { type: 'string', minLength: 1 },
+          data: { type: 'object' }
+        }
+      }
+    }
+  }
+} satisfies Record<string, JSONSchema>;
+
+export type RequestSchemaName = keyof typeof REQUEST_SCHEMAS;
+
+const PREPARED_TRANSACTION: JSONSchema = {
+  type: 'object',
+  required: ['label', 'from', 'to', 'data', 'value', 'gas', 'simulated', 'chainId', 'summary'],
+  properties: {
+    label: { type: 'string', example: 'commit' },
+    from: ADDRESS,
+    to: ADDRESS,
+    data: { type: 'string', description: 'Call data' },
+    value: { type: 'string', description: 'Wei as a decimal string' },
+    gas: { type: 'string', description: 'Gas limit with headroom' },
+    simulated: { type: 'boolean', description: 'false when the gas limit is a static estimate' },
+    chainId: { type: 'integer' },
+    summary: { type: 'string' }
+  }
+};
+
+export const RESPONSE_SCHEMAS = {
+  ENSAgentResponse: {
+    type: 'object',
+    required: ['success'],
+    properties: {
+      success: { type: 'boolean' },
+      data: { description: 'Operation result, its shape depends on the endpoint' },
+      message: { type: 'string' },
+      error: { type: 'string' },
+      transaction: { type: 'object', description: 'Transaction hash, status and operation, for write operations' }
+    }
+  },
+  ErrorResponse: {
+    type: 'object',
+    required: ['success', 'error'],
+    properties: {
+      success: { type: 'boolean', enum: [false] },
+      error: { type: 'string' },
+      details: { description: 'Validation issues as { path, message }, or the underlying error message' }
+    }
+  },
+  PreparedTransaction: PREPARED_TRANSACTION,
+  PreparedOperationResponse: {
+    type: 'object',
+    required: ['success'],
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' },
+      error: { type: 'string' },
+      data: {
+        type: 'object',
+        properties: {
+          operation: { type: 'object' },
+          chainId: { type: 'integer' },
+          transactions: { type: 'array', items: { $ref: '#/components/schemas/PreparedTransaction' } },
+          gasEstimate: { type: 'object' },
+          summary: { type: 'string' },
+          secret: { ...BYTES32, description: 'Registrations only, needed to send the register transaction later' },
+          commitmentAge: { type: 'integer', description: 'Registrations only, seconds to wait after the commit' }
+        }
+      }
+    }
+  }
+} satisfies Record<string, JSONSchema>;
+
+const typeOf = (value: unknown): string => {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: NonNullable<JSONSchema['type']>): boolean => {
+  switch (type) {
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'object':
+      return typeOf(value) === 'object';
+    default:
+      return typeOf(value) === type;
+  }
+};
+
+/**
+ * Check a value against a schema, returning every issue found (empty when valid)
+ */
+export function validateSchema(schema: JSONSchema, value: unknown, path: string = 'body'): SchemaIssue[] {
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [{ path, message: `must be ${schema.type === 'integer' || schema.type === 'array' || schema.type === 'object' ? 'an' : 'a'} ${schema.type}` }];
+  }
+
+  const issues: SchemaIssue[] = [];
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({ path, message: `must be one of ${schema.enum.join(', ')}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ path, message: `must match ${schema.pattern}` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `must be at least ${schema.minimum}` });
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      issues.push({ path, message: `must be greater than ${schema.exclusiveMinimum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, message: `must have at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => issues.push(...validateSchema(schema.items!, item, `${path}[${index}]`)));
+    }
+  }
+
+  if (typeOf(value) === 'object' && (schema.properties || schema.required)) {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) {
+        issues.push({ path: `${path}.${key}`, message: 'is required' });
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (record[key] !== undefined) {
+        issues.push(...validateSchema(propertySchema, record[key], `${path}.${key}`));
+      }
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,146 @@
+// Alternatives to a taken name: candidate generation, batched availability checks and ranking
+import { ethers } from 'ethers';
+import { normalizeENSName } from './normalize';
+
+export type NameSuggestionKind = 'suffix' | 'prefix' | 'hyphen' | 'number' | 'synonym' | 'subname';
+
+export interface NameCandidate {
+  name: string;
+  label: string;
+  kind: NameSuggestionKind;
+  /** Subnames only: the user's name the subname would be created under */
+  parent?: string;
+}
+
+export interface ENSNameSuggestion extends NameCandidate {
+  available: boolean;
+  /** Code points in the label, which is what the registrar prices by */
+  length: number;
+  /** Rent for the quoted duration, 0 for subnames, which the parent's owner creates for free */
+  priceWei: string;
+  price: string;
+  hasPremium: boolean;
+}
+
+// Multicall3, deployed at the same address on mainnet, the testnets and mainnet forks
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+export const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) view returns ((bool success, bytes returnData)[] returnData)'
+];
+
+export interface MulticallRequest {
+  target: string;
+  callData: string;
+}
+
+export interface MulticallResult {
+  success: boolean;
+  returnData: string;
+}
+
+const SUFFIXES = ['hq', 'dao', 'labs', 'xyz', 'app', 'dev'];
+const PREFIXES = ['the', 'its', 'hey', 'real'];
+const NUMBERS = ['1', '2', '3'];
+
+// Shortest label the ETHRegistrarController registers
+const MIN_LABEL_LENGTH = 3;
+
+// Candidates checked per request, the multicall stays one reasonably sized eth_call
+export const MAX_NAME_CANDIDATES = 40;
+
+/**
+ * Normalized alternatives to a name: suffixes, prefixes, hyphenated and numbered forms,
+ * synonyms (e.g. from the LLM) and subnames under the given names the user owns
+ */
+export function generateNameCandidates(
+  name: string,
+  options: { synonyms?: string[]; ownedNames?: string[]; limit?: number } = {}
+): NameCandidate[] {
+  const label = name.replace(/\.eth$/, '').split('.').pop() || '';
+  const seen = new Set<string>([name]);
+  const candidates: NameCandidate[] = [];
+
+  const add = (candidateLabel: string, kind: NameSuggestionKind, parent: string = 'eth') => {
+    const result = normalizeENSName(`${candidateLabel}.${parent}`);
+    if (!result.valid || seen.has(result.normalized)) return;
+
+    const normalizedLabel = result.normalized.slice(0, -(parent.length + 1));
+    if (normalizedLabel.includes('.') || (parent === 'eth' && [...normalizedLabel].length < MIN_LABEL_LENGTH)) return;
+
+    seen.add(result.normalized);
+    candidates.push({
+      name: result.normalized,
+      label: normalizedLabel,
+      kind,
+      ...(parent !== 'eth' && { parent })
+    });
+  };
+
+  // Synonyms and subnames first, they are the most relevant when the name itself is taken
+  for (const synonym of options.synonyms || []) {
+    add(synonym.trim().toLowerCase().replace(/\.eth$/, '').replace(/\s+/g, '-'), 'synonym');
+  }
+  for (const parent of options.ownedNames || []) {
+    add(label, 'subname', parent);
+  }
+  for (const suffix of SUFFIXES) {
+    add(`${label}${suffix}`, 'suffix');
+    add(`${label}-${suffix}`, 'hyphen');
+  }
+  for (const prefix of PREFIXES) {
+    add(`${prefix}${label}`, 'prefix');
+    add(`${prefix}-${label}`, 'hyphen');
+  }
+  for (const number of NUMBERS) {
+    add(`${label}${number}`, 'number');
+  }
+
+  return candidates.slice(0, options.limit ?? MAX_NAME_CANDIDATES);
+}
+
+/**
+ * Run read-only calls in one Multicall3 eth_call, calling each target directly when
+ * Multicall3 is not deployed (e.g. a local node without a mainnet fork)
+ */
+export async function aggregateCalls(provider: ethers.Provider, calls: MulticallRequest[]): Promise<MulticallResult[]> {
+  if (calls.length === 0) return [];
+
+  try {
+    const multicall = new ethers.Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider);
+    const results = await multicall.aggregate3(calls.map(call => ({ ...call, allowFailure: true })));
+    return results.map((result: ethers.Result) => ({ success: result.success, returnData: result.returnData }));
+  } catch (error) {
+    console.warn(`Multicall3 unavailable, checking ${calls.length} calls one by one: ${error}`);
+    return await Promise.all(calls.map(call =>
+      provider.call({ to: call.target, data: call.callData })
+        .then(returnData => ({ success: true, returnData }))
+        .catch(() => ({ success: false, returnData: '0x' }))
+    ));
+  }
+}
+
+/**
+ * Available suggestions, cheapest first, then shortest
+ */
+export function rankNameSuggestions(suggestions: ENSNameSuggestion[]): ENSNameSuggestion[] {
+  return suggestions
+    .filter(suggestion => suggestion.available)
+    .sort((a, b) => {
+      const price = BigInt(a.priceWei) - BigInt(b.priceWei);
+      if (price !== BigInt(0)) return price < BigInt(0) ? -1 : 1;
+      return a.length - b.length || a.name.localeCompare(b.name);
+    });
+}
+
+/**
+ * One line per suggestion, e.g. "• alicehq.eth: 0.003125 ETH/year" or "• alice.bob.eth: free subname of bob.eth"
+ */
+export function formatNameSuggestions(suggestions: ENSNameSuggestion[], duration: number = 365 * 24 * 60 * 60): string {
+  const years = duration / (365 * 24 * 60 * 60);
+  const period = years === 1 ? 'year' : `${years} years`;
+  return suggestions
+    .map(suggestion => suggestion.kind === 'subname'
+      ? `• ${suggestion.name}: free subname of ${suggestion.parent}`
+      : `• ${suggestion.name}: ${parseFloat(suggestion.price).toFixed(6)} ETH/${period}${suggestion.hasPremium ? ' (includes a premium)' : ''}`)
+    .join('\n');
+}
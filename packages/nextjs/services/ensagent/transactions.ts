@@ -0,0 +1,80 @@
+// Unsigned ENS transactions for client-side signing: summaries and JSON-safe transaction requests
+import { ethers } from 'ethers';
+import { ENSOperation, ENSRecordUpdate, GasEstimate, PreparedTransaction } from './types';
+import { GasEstimateStep } from './gas';
+import { getCoinName } from './coins';
+import { getRecordLabel } from './records';
+import { formatDuration } from './utils';
+
+// Operations the write routes prepare; the others are still sent by the agent's own signer
+export const PREPARED_OPERATION_TYPES: ENSOperation['type'][] = [
+  'commit',
+  'register',
+  'reveal',
+  'renew',
+  'setRecord',
+  'setRecords',
+  'setResolver',
+  'transfer'
+];
+
+/**
+ * One-line description of a transaction step, e.g. "Renew alice.eth for 365 days, paying 0.0032 ETH"
+ */
+export function describeTransactionStep(label: string, operation: ENSOperation, value: bigint = BigInt(0)): string {
+  const { name } = operation;
+  const data = operation.data || {};
+  const payment = value > BigInt(0) ? `, paying ${ethers.formatEther(value)} ETH` : '';
+  const duration = data.duration ? ` for ${formatDuration(data.duration)}` : '';
+
+  switch (label) {
+    case 'commit':
+      return `Commit to registering ${name}`;
+    case 'register':
+      return `Register ${name}${duration}${payment}`;
+    case 'renew':
+      return `Renew ${name}${duration}${payment}`;
+    case 'setText':
+      return `Set the ${data.key} text record of ${name} to "${data.value}"`;
+    case 'setAddr':
+      return `Set the ${getCoinName(data.coinType ?? 60)} address of ${name} to ${data.address}`;
+    case 'setContenthash':
+      return `Set the content hash of ${name} to ${data.contentHash}`;
+    case 'multicall': {
+      const records: ENSRecordUpdate[] = data.records || [];
+      return `Update ${records.length} record${records.length === 1 ? '' : 's'} of ${name}: ${records.map(getRecordLabel).join(', ')}`;
+    }
+    case 'setResolver':
+      return `Set the resolver of ${name} to ${data.resolverAddress}`;
+    case 'transfer':
+      return `Transfer ${name} to ${data.newOwner}`;
+    default:
+      return `${label} ${name}${payment}`;
+  }
+}
+
+/**
+ * Transaction requests for built operation steps, with the gas limits of the matching estimate steps
+ */
+export function toPreparedTransactions(
+  steps: GasEstimateStep[],
+  estimate: GasEstimate,
+  operation: ENSOperation,
+  from: string,
+  chainId: number
+): PreparedTransaction[] {
+  return steps.map((step, index) => {
+    const value = BigInt(step.transaction.value ?? 0);
+    return {
+      label: step.label,
+      from,
+      to: ethers.getAddress(step.transaction.to as string),
+      data: step.transaction.data || '0x',
+      value: value.toString(),
+      gas: estimate.steps[index].gasLimit,
+      simulated: estimate.steps[index].simulated,
+      chainId,
+      summary: describeTransactionStep(step.label, operation, value)
+    };
+  });
+}
@@ -1,4 +1,7 @@
 // ENS Agent Types and Interfaces
+import type { LLMServiceOptions } from '../llm/types';
+import type { ENSReverseChain } from './chains';
+
 export interface ENSName {
   name: string;
   node: string;
@@ -35,6 +38,90 @@ export interface ENSCommitment {
   canRegister: boolean;
 }
 
+export type RegistrationState =
+  | 'checked'
+  | 'committed'
+  | 'waiting'
+  | 'ready'
+  | 'registered'
+  | 'expired'
+  | 'failed';
+
+/**
+ * Arguments of ETHRegistrarController.register / makeCommitment
+ */
+export interface RegistrationParams {
+  label: string;
+  owner: string;
+  duration: number;
+  secret: string;
+  resolver: string;
+  data: string[];
+  reverseRecord: number;
+  referrer: string;
+}
+
+export interface PendingRegistration {
+  id: string;
+  name: string;
+  chainId: number; // network the commitment was made on
+  state: RegistrationState;
+  params: RegistrationParams;
+  commitment?: string;
+  commitTxHash?: string;
+  committedAt?: number; // unix seconds, from the controller's commitments()
+  registerTxHash?: string;
+  minCommitmentAge: number;
+  maxCommitmentAge: number;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface WrappedNameData {
+  isWrapped: boolean;
+  owner: string;
+  fuses: number;
+  fuseNames: string[];
+  expiry: number;
+}
+
+export interface SubnameOptions {
+  owner?: string;
+  resolver?: string;
+  address?: string;
+  ttl?: number;
+}
+
+export interface SubnameInfo {
+  name: string;
+  label: string | null;
+  labelHash: string;
+  node: string;
+  owner: string;
+  isWrapped: boolean;
+}
+
+export interface OwnedName {
+  name: string;
+  label: string | null;
+  labelHash: string;
+  isWrapped: boolean;
+  /** BaseRegistrar nameExpires, unix seconds */
+  expires: number;
+}
+
+export interface ENSBulkRenewalResult {
+  name: string;
+  renewed: boolean;
+  /** BaseRegistrar nameExpires before the renewal, 0 when never registered */
+  previousExpires: number;
+  expires?: number;
+  costWei?: string;
+  /** Why the name was left out of the batch */
+  error?: string;
+}
+
 export interface ENSPrice {
   name: string;
   price: string;
@@ -43,13 +130,31 @@ export interface ENSPrice {
 }
 
 export interface ENSOperation {
-  type: 'register' | 'renew' | 'setResolver' | 'setRecord' | 'transfer' | 'resolve' | 'commit' | 'reveal';
+  type: 'register' | 'renew' | 'setResolver' | 'setRecord' | 'setRecords' | 'setPrimaryName' | 'clearPrimaryName' | 'transfer' | 'resolve' | 'commit' | 'reveal' | 'wrap' | 'unwrap' | 'burnFuses' | 'createSubname' | 'deleteSubname' | 'importDNSName' | 'bulkRenew';
   name: string;
   data?: any;
-  gasEstimate?: string;
+  gasEstimate?: GasEstimate;
   value?: string;
 }
 
+export interface GasEstimate {
+  gasLimit: string;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  feeWei: string;
+  feeEth: string;
+  feeUsd?: number;
+  // false when any step used the static fallback instead of eth_estimateGas
+  simulated: boolean;
+  steps: {
+    label: string;
+    gasLimit: string;
+    simulated: boolean;
+  }[];
+  estimatedAt: number;
+  expiresAt: number;
+}
+
 export interface ENSTransaction {
   hash?: string;
   operation?: ENSOperation;
@@ -67,6 +172,34 @@ export interface ENSTransaction {
     type: string;
     value: string;
   };
+  gasEstimate?: GasEstimate;
+}
+
+// Unsigned transaction for a browser wallet to sign and send, amounts in wei as decimal strings
+export interface PreparedTransaction {
+  label: string;
+  from: string;
+  to: string;
+  data: string;
+  value: string;
+  // Gas limit with headroom, or the static estimate when the step could not be simulated
+  gas: string;
+  simulated: boolean;
+  chainId: number;
+  summary: string;
+}
+
+export interface PreparedOperation {
+  operation: ENSOperation;
+  chainId: number;
+  // Send in order, each after the previous one is mined
+  transactions: PreparedTransaction[];
+  gasEstimate: GasEstimate;
+  summary: string;
+  // Registrations only: the commitment secret, needed again to send the register transaction
+  secret?: string;
+  // Registrations only: seconds to wait after the commit is mined before registering
+  commitmentAge?: number;
 }
 
 export interface ENSAgentConfig {
@@ -75,6 +208,8 @@ export interface ENSAgentConfig {
     name: string;
     rpcUrl: string;
     blockExplorer: string;
+    /** Block the ENS contracts were deployed at, where event log queries start */
+    deploymentBlock?: number;
   };
   contracts: {
     ENSRegistry: string;
@@ -86,7 +221,13 @@ export interface ENSAgentConfig {
     PublicResolver: string;
     UniversalResolver: string;
     OffchainDNSResolver: string;
+    // Resolver named in "ENS1" TXT records to resolve DNS names offchain without importing them
+    ExtendedDNSResolver: string;
+    // Renews several .eth names through the ETHRegistrarController in one transaction
+    StaticBulkRenewal: string;
   };
+  // Chains with their own primary names (ENSIP-19), none when omitted
+  reverseChains?: ENSReverseChain[];
   settings: {
     defaultResolver: string;
     supportedTLDs: string[];
@@ -94,7 +235,17 @@ export interface ENSAgentConfig {
     registrationPrice: string;
     minCommitmentAge: number;
     minRegistrationDuration: number;
+    // Batch gateways passed to the UniversalResolver for CCIP-Read (EIP-3668)
+    ccipGateways?: string[];
+    // Replaces the gateway URLs offchain resolvers ask for, e.g. a local stand-in gateway
+    ccipGatewayOverride?: string;
+    // HTTP gateways avatar and NFT metadata URIs are loaded through (ENSIP-12)
+    ipfsGateway?: string;
+    arweaveGateway?: string;
+    // RPCs to verify NFT avatars on other chains, by chain id, added to the public defaults
+    avatarRpcUrls?: Record<number, string>;
   };
+  llm?: LLMServiceOptions;
 }
 
 export interface ENSAgentResponse {
@@ -139,10 +290,28 @@ export interface ENSNameInfo {
   price?: string;
 }
 
+// One record written by a batch, an empty value clears the record
+export type ENSRecordUpdate =
+  | { kind: 'text'; key: string; value: string }
+  | { kind: 'address'; coinType: number; value: string }
+  | { kind: 'contenthash'; value: string };
+
+export interface ENSRecordChange {
+  record: ENSRecordUpdate;
+  label: string;
+  current: string | null;
+  changed: boolean;
+  error?: string;
+}
+
+// Several record updates on one name, sent as a single PublicResolver.multicall
 export interface ENSBatchOperation {
-  operations: ENSOperation[];
-  gasEstimate: string;
-  totalValue: string;
+  name: string;
+  /** Resolver the records are read from and written to */
+  resolver: string;
+  changes: ENSRecordChange[];
+  operation: ENSOperation;
+  gasEstimate?: GasEstimate;
   canExecute: boolean;
 }
 
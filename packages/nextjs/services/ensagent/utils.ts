@@ -1,36 +1,70 @@
 // ENS Agent Utility Functions
 import { ethers } from 'ethers';
-import { ENSName, ENSRecord, ENSOperation } from './types';
+import { ENSName, ENSRecord, ENSOperation, ENSRecordUpdate } from './types';
+import { getRentPriceQuote } from './pricing';
+import { normalizeENSName } from './normalize';
+import { resolveCoinType, encodeCoinAddress, decodeCoinAddress } from './coins';
 
 /**
- * Validates ENS name format
+ * Validates ENS name format. Subnames (pay.alice.eth) are accepted, every label is checked.
+ * Names must already be ENSIP-15 normalized; the error names the normalized form otherwise.
  */
-export function validateENSName(name: string): { valid: boolean; error?: string } {
+export function validateENSName(name: string): { valid: boolean; error?: string; normalized?: string } {
   if (!name || typeof name !== 'string') {
     return { valid: false, error: 'Name must be a non-empty string' };
   }
 
+  const result = normalizeENSName(name);
+  if (!result.valid) {
+    return { valid: false, error: result.error };
+  }
+
   // Check if name ends with .eth
-  if (!name.endsWith('.eth')) {
+  if (!result.normalized.endsWith('.eth')) {
     return { valid: false, error: 'Name must end with .eth' };
   }
 
-  // Remove .eth suffix for validation
-  const label = name.slice(0, -4);
-  
+  if (result.changed) {
+    return { valid: false, error: `Name is not normalized, use ${result.normalized}`, normalized: result.normalized };
+  }
+
+  // Remove .eth suffix and validate each label
+  const labels = result.normalized.slice(0, -4).split('.');
+  for (const label of labels) {
+    const labelValidation = validateLabel(label);
+    if (!labelValidation.valid) {
+      return labelValidation;
+    }
+  }
+
+  return { valid: true, normalized: result.normalized };
+}
+
+/**
+ * Validates a single label (the part between dots)
+ */
+export function validateLabel(label: string): { valid: boolean; error?: string } {
   // Check length
   if (label.length === 0) {
     return { valid: false, error: 'Name cannot be empty' };
   }
 
-  if (label.length > 50) {
+  // Count code points so emoji and non-Latin labels are not penalised for surrogate pairs
+  if ([...label].length > 50) {
     return { valid: false, error: 'Name cannot exceed 50 characters' };
   }
 
-  // Check for valid characters (alphanumeric and hyphens, but not starting/ending with hyphen)
-  const validPattern = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/;
-  if (!validPattern.test(label)) {
-    return { valid: false, error: 'Name contains invalid characters' };
+  if (label.includes('.')) {
+    return { valid: false, error: 'Label cannot contain dots' };
+  }
+
+  const result = normalizeENSName(label);
+  if (!result.valid) {
+    return { valid: false, error: result.error };
+  }
+
+  if (result.changed) {
+    return { valid: false, error: `Label is not normalized, use ${result.normalized}` };
   }
 
   return { valid: true };
@@ -79,18 +113,11 @@ export function createCommitment(name: string, owner: string, secret: string): s
 }
 
 /**
- * Calculates registration price for a name
+ * Calculates registration price for a name (total in ETH) from the controller's rentPrice
  */
-export function calculatePrice(name: string, duration: number): string {
-  // This is a simplified calculation
-  // In practice, you'd query the price oracle
-  const basePrice = ethers.parseEther('0.01'); // Base price for .eth
-  const length = name.split('.')[0].length;
-  
-  // Shorter names cost more
-  const multiplier = length <= 3 ? 10 : length <= 6 ? 5 : 1;
-  
-  return (BigInt(basePrice) * BigInt(multiplier) * BigInt(duration)).toString();
+export async function calculatePrice(controller: ethers.Contract, name: string, duration: number): Promise<string> {
+  const quote = await getRentPriceQuote(controller, name, duration);
+  return quote.total;
 }
 
 /**
@@ -129,10 +156,10 @@ export function isValidAddress(address: string): boolean {
 }
 
 /**
- * Normalizes ENS name (lowercase, trim)
+ * Normalizes ENS name with ENSIP-15, falling back to lowercase/trim for names that cannot be normalized
  */
 export function normalizeName(name: string): string {
-  return name.toLowerCase().trim();
+  return normalizeENSName(name).normalized;
 }
 
 /**
@@ -142,6 +169,14 @@ export function isSubdomain(name: string): boolean {
   return name.split('.').length > 2;
 }
 
+/**
+ * Checks if a name is a second-level .eth name, the names the .eth registrar issues
+ */
+export function isETH2LD(name: string): boolean {
+  const labels = name.split('.');
+  return labels.length === 2 && labels[1] === 'eth';
+}
+
 /**
  * Gets parent domain of a subdomain
  */
@@ -151,6 +186,13 @@ export function getParentDomain(name: string): string {
   return parts.slice(1).join('.');
 }
 
+/**
+ * Display form for a label whose plaintext is unknown, e.g. "[0x1234...]"
+ */
+export function encodeUnknownLabel(labelHash: string): string {
+  return `[${labelHash.slice(2)}]`;
+}
+
 /**
  * Validates record type
  */
@@ -174,10 +216,11 @@ export function encodeRecordValue(recordType: string, value: string): string {
       return ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [value]);
     case 'TXT':
       return ethers.AbiCoder.defaultAbiCoder().encode(['string'], [value]);
-    case 'ETH':
-      return value; // Already an address
-    default:
-      return value;
+    default: {
+      // Coin symbols (ETH, BTC, SOL, BASE, ...) are encoded as ENSIP-9/11 address bytes
+      const coinType = resolveCoinType(recordType);
+      return coinType !== undefined ? encodeCoinAddress(coinType, value) : value;
+    }
   }
 }
 
@@ -192,8 +235,10 @@ export function decodeRecordValue(recordType: string, value: string): string {
         return ethers.AbiCoder.defaultAbiCoder().decode(['uint256'], value)[0].toString();
       case 'TXT':
         return ethers.AbiCoder.defaultAbiCoder().decode(['string'], value)[0];
-      default:
-        return value;
+      default: {
+        const coinType = resolveCoinType(recordType);
+        return coinType !== undefined ? decodeCoinAddress(coinType, value) : value;
+      }
     }
   } catch {
     return value;
@@ -201,32 +246,42 @@ export function decodeRecordValue(recordType: string, value: string): string {
 }
 
 /**
- * Creates a batch operation
+ * Creates a batch operation that sets several records on a name in one resolver multicall
  */
-export function createBatchOperation(operations: ENSOperation[]): ENSOperation {
+export function createBatchOperation(name: string, records: ENSRecordUpdate[]): ENSOperation {
   return {
-    type: 'setRecord', // This would be a custom batch type
-    name: 'batch',
-    data: { operations }
+    type: 'setRecords',
+    name,
+    data: { records }
   };
 }
 
 /**
- * Estimates gas for an operation
+ * Static gas estimate for an operation, used when the call cannot be simulated
  */
 export function estimateGas(operation: ENSOperation): string {
-  // This is a simplified gas estimation
-  // In practice, you'd call the contract to estimate gas
   const baseGas = 100000;
   const gasByType: Record<string, number> = {
     register: 200000,
     renew: 150000,
     setResolver: 100000,
     setRecord: 120000,
+    setRecords: 200000,
+    setPrimaryName: 120000,
+    clearPrimaryName: 80000,
     transfer: 100000,
     resolve: 50000,
     commit: 80000,
-    reveal: 150000
+    reveal: 150000,
+    wrap: 180000,
+    unwrap: 120000,
+    burnFuses: 80000,
+    createSubname: 120000,
+    deleteSubname: 60000,
+    // Signature checks for each zone of the proof dominate
+    importDNSName: 900000,
+    // One controller renewal per name, estimated for a handful of names
+    bulkRenew: 400000
   };
   
   return (baseGas + (gasByType[operation.type] || 100000)).toString();
@@ -268,3 +323,72 @@ export function validateOperation(operation: ENSOperation): { valid: boolean; er
 
   return { valid: true };
 }
+
+/**
+ * NameWrapper fuses. The low 16 bits can be burned by the owner,
+ * the upper bits only by the parent (PARENT_CANNOT_CONTROL and above).
+ */
+export const NAME_WRAPPER_FUSES = {
+  CANNOT_UNWRAP: 1,
+  CANNOT_BURN_FUSES: 2,
+  CANNOT_TRANSFER: 4,
+  CANNOT_SET_RESOLVER: 8,
+  CANNOT_SET_TTL: 16,
+  CANNOT_CREATE_SUBDOMAIN: 32,
+  CANNOT_APPROVE: 64,
+  PARENT_CANNOT_CONTROL: 1 << 16,
+  IS_DOT_ETH: 1 << 17,
+  CAN_EXTEND_EXPIRY: 1 << 18
+} as const;
+
+export type NameWrapperFuse = keyof typeof NAME_WRAPPER_FUSES;
+
+export const OWNER_CONTROLLED_FUSES: NameWrapperFuse[] = [
+  'CANNOT_UNWRAP',
+  'CANNOT_BURN_FUSES',
+  'CANNOT_TRANSFER',
+  'CANNOT_SET_RESOLVER',
+  'CANNOT_SET_TTL',
+  'CANNOT_CREATE_SUBDOMAIN',
+  'CANNOT_APPROVE'
+];
+
+/**
+ * What burning each owner-controlled fuse permanently gives up
+ */
+export const FUSE_WARNINGS: Record<string, string> = {
+  CANNOT_UNWRAP: 'The name can never be unwrapped. This is required before any other fuse can be burned.',
+  CANNOT_BURN_FUSES: 'No further fuses can ever be burned on this name.',
+  CANNOT_TRANSFER: 'The name can never be transferred to another owner.',
+  CANNOT_SET_RESOLVER: 'The resolver can never be changed.',
+  CANNOT_SET_TTL: 'The TTL can never be changed.',
+  CANNOT_CREATE_SUBDOMAIN: 'No new subnames can ever be created.',
+  CANNOT_APPROVE: 'No approved operator can ever be set for subname renewals.'
+};
+
+/**
+ * Decodes a fuse bitmask into fuse names
+ */
+export function decodeFuses(fuses: number): NameWrapperFuse[] {
+  return (Object.keys(NAME_WRAPPER_FUSES) as NameWrapperFuse[]).filter(
+    fuse => (fuses & NAME_WRAPPER_FUSES[fuse]) !== 0
+  );
+}
+
+/**
+ * Encodes fuse names into a bitmask
+ */
+export function encodeFuses(fuses: NameWrapperFuse[]): number {
+  return fuses.reduce((mask, fuse) => mask | NAME_WRAPPER_FUSES[fuse], 0);
+}
+
+/**
+ * Warnings for fuses about to be burned
+ */
+export function getFuseWarnings(fuses: NameWrapperFuse[]): string[] {
+  if (fuses.length === 0) return [];
+  return [
+    'Burning fuses is irreversible, even by the owner, until the name expires.',
+    ...fuses.map(fuse => `${fuse}: ${FUSE_WARNINGS[fuse] || 'Permanently restricts this name.'}`)
+  ];
+}
@@ -0,0 +1,114 @@
+// LLM Provider Layer - shared by the ENS and payment agents
+import { OpenAICompatibleProvider, ReplayProvider } from './providers';
+import { LLMAgentConfig, LLMProvider, LLMProviderType, LLMReplayEntry } from './types';
+
+export * from './types';
+export { OpenAICompatibleProvider, ReplayProvider, OPENROUTER_BASE_URL, LOCAL_OPENAI_BASE_URL } from './providers';
+
+export const DEFAULT_LLM_CONFIG: LLMAgentConfig = {
+  provider: 'openrouter',
+  model: 'openai/gpt-4o',
+  temperature: 0.7,
+  maxTokens: 1000,
+  timeoutMs: 30000,
+  maxRetries: 2
+};
+
+const PROVIDER_TYPES: LLMProviderType[] = ['openrouter', 'openai-compatible', 'replay'];
+
+// OpenRouter key of the deployment, used when LLM_API_KEY is not set
+export const OPENROUTER_API_KEY = (typeof process !== 'undefined' && process.env?.OPENROUTER_API_KEY) || '';
+
+/**
+ * Read provider settings from the environment. `prefix` scopes the variables
+ * to one agent (e.g. ENS_AGENT_LLM_MODEL) and unprefixed LLM_* values apply to all agents.
+ */
+export function getLLMConfigFromEnv(prefix?: string): Partial<LLMAgentConfig> {
+  if (typeof process === 'undefined' || !process.env) return {};
+
+  const read = (key: string): string | undefined =>
+    (prefix ? process.env[`${prefix}_${key}`] : undefined) ?? process.env[key];
+
+  const config: Partial<LLMAgentConfig> = {};
+
+  const provider = read('LLM_PROVIDER') as LLMProviderType | undefined;
+  if (provider && PROVIDER_TYPES.includes(provider)) config.provider = provider;
+
+  const model = read('LLM_MODEL');
+  if (model) config.model = model;
+
+  const baseURL = read('LLM_BASE_URL');
+  if (baseURL) config.baseURL = baseURL;
+
+  const apiKey = read('LLM_API_KEY');
+  if (apiKey) config.apiKey = apiKey;
+
+  const temperature = parseFloat(read('LLM_TEMPERATURE') || '');
+  if (!Number.isNaN(temperature)) config.temperature = temperature;
+
+  const maxTokens = parseInt(read('LLM_MAX_TOKENS') || '', 10);
+  if (!Number.isNaN(maxTokens)) config.maxTokens = maxTokens;
+
+  const timeoutMs = parseInt(read('LLM_TIMEOUT_MS') || '', 10);
+  if (!Number.isNaN(timeoutMs)) config.timeoutMs = timeoutMs;
+
+  const replay = read('LLM_REPLAY');
+  if (replay) {
+    try {
+      config.replay = JSON.parse(replay) as LLMReplayEntry[];
+    } catch {
+      console.warn(`Ignoring invalid ${prefix ? `${prefix}_` : ''}LLM_REPLAY script`);
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Merge defaults, agent defaults, environment and explicit overrides (in that order)
+ */
+export function resolveLLMConfig(
+  agentDefaults: Partial<LLMAgentConfig> = {},
+  overrides: Partial<LLMAgentConfig> = {},
+  envPrefix?: string
+): LLMAgentConfig {
+  return {
+    ...DEFAULT_LLM_CONFIG,
+    ...agentDefaults,
+    ...getLLMConfigFromEnv(envPrefix),
+    ...overrides
+  };
+}
+
+/**
+ * Add the OpenRouter key and attribution headers when the resolved provider is OpenRouter.
+ * Other providers get neither, so the OpenRouter key is never sent to another endpoint.
+ */
+export function applyOpenRouterDefaults(config: LLMAgentConfig, defaults: { apiKey?: string; title: string }): LLMAgentConfig {
+  if (config.provider !== 'openrouter') return config;
+
+  return {
+    ...config,
+    apiKey: config.apiKey || defaults.apiKey || OPENROUTER_API_KEY,
+    headers: {
+      'HTTP-Referer': 'https://ethaccra.com',
+      'X-Title': defaults.title,
+      ...config.headers
+    }
+  };
+}
+
+/**
+ * Create a provider for the given config
+ */
+export function createLLMProvider(config: LLMAgentConfig): LLMProvider {
+  switch (config.provider) {
+    case 'replay':
+      return new ReplayProvider(config.replay || [], config.model);
+    case 'openrouter':
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(config);
+    default:
+      throw new Error(`Unsupported LLM provider: ${config.provider}`);
+  }
+}
@@ -0,0 +1,137 @@
+// LLM Provider Implementations
+import OpenAI from 'openai';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import {
+  LLMAgentConfig,
+  LLMCompletion,
+  LLMCompletionRequest,
+  LLMProvider,
+  LLMProviderType,
+  LLMReplayEntry
+} from './types';
+
+export const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+export const LOCAL_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Provider for OpenRouter or any endpoint that speaks the OpenAI chat completions API
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly type: LLMProviderType;
+  readonly model: string;
+  private client: OpenAI;
+  private config: LLMAgentConfig;
+
+  constructor(config: LLMAgentConfig) {
+    this.type = config.provider;
+    this.model = config.model;
+    this.config = config;
+    this.client = new OpenAI({
+      baseURL: config.baseURL || (config.provider === 'openrouter' ? OPENROUTER_BASE_URL : LOCAL_OPENAI_BASE_URL),
+      // Local servers usually ignore the key but the client requires one
+      apiKey: config.apiKey || 'local',
+      defaultHeaders: config.headers,
+      timeout: config.timeoutMs,
+      maxRetries: config.maxRetries
+    });
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      ...(request.tools && request.tools.length > 0
+        ? { tools: request.tools, tool_choice: request.toolChoice || 'auto' }
+        : {}),
+      temperature: request.temperature ?? this.config.temperature,
+      max_tokens: request.maxTokens ?? this.config.maxTokens
+    });
+
+    const message = completion.choices[0]?.message;
+    const toolCalls = (message?.tool_calls || []).flatMap(toolCall =>
+      toolCall.type === 'function'
+        ? [{ id: toolCall.id, name: toolCall.function.name, arguments: toolCall.function.arguments }]
+        : []
+    );
+
+    return {
+      content: message?.content ?? null,
+      toolCalls,
+      model: completion.model || this.model
+    };
+  }
+}
+
+/**
+ * Offline provider that answers from a script. Used in CI to run chat flows
+ * without network access and with reproducible output.
+ */
+export class ReplayProvider implements LLMProvider {
+  readonly type: LLMProviderType = 'replay';
+  readonly model: string;
+  private entries: LLMReplayEntry[];
+  private cursor = 0;
+  private callCounter = 0;
+
+  constructor(entries: LLMReplayEntry[] = [], model: string = 'replay') {
+    this.entries = entries;
+    this.model = model;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const entry = this.nextEntry(this.getLastUserMessage(request.messages));
+
+    if (!entry) {
+      // An empty completion makes callers use their deterministic fallbacks
+      return { content: null, toolCalls: [], model: this.model };
+    }
+
+    const allowTools = request.tools && request.tools.length > 0 && request.toolChoice !== 'none';
+    const toolCalls = allowTools
+      ? (entry.toolCalls || []).map(toolCall => ({
+          id: `replay_call_${++this.callCounter}`,
+          name: toolCall.name,
+          arguments: typeof toolCall.arguments === 'string' ? toolCall.arguments : JSON.stringify(toolCall.arguments)
+        }))
+      : [];
+
+    return { content: entry.content ?? null, toolCalls, model: this.model };
+  }
+
+  /**
+   * Rewind the script to the first sequential entry
+   */
+  reset(): void {
+    this.cursor = 0;
+    this.callCounter = 0;
+  }
+
+  private nextEntry(userMessage: string): LLMReplayEntry | undefined {
+    const matched = this.entries.find(entry => entry.match !== undefined && this.matches(entry.match, userMessage));
+    if (matched) return matched;
+
+    const sequential = this.entries.filter(entry => entry.match === undefined);
+    if (this.cursor < sequential.length) {
+      return sequential[this.cursor++];
+    }
+
+    return undefined;
+  }
+
+  private matches(pattern: string | RegExp, userMessage: string): boolean {
+    if (pattern instanceof RegExp) return pattern.test(userMessage);
+    return userMessage.toLowerCase().includes(pattern.toLowerCase());
+  }
+
+  private getLastUserMessage(messages: ChatCompletionMessageParam[]): string {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const message = messages[i];
+      if (message.role !== 'user') continue;
+      if (typeof message.content === 'string') return message.content;
+      return (message.content || [])
+        .map(part => (part.type === 'text' ? part.text : ''))
+        .join(' ');
+    }
+    return '';
+  }
+}
@@ -0,0 +1,60 @@
+// LLM Provider Types
+import type { ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources/chat/completions';
+
+export type LLMProviderType = 'openrouter' | 'openai-compatible' | 'replay';
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export interface LLMCompletionRequest {
+  messages: ChatCompletionMessageParam[];
+  tools?: ChatCompletionTool[];
+  toolChoice?: 'auto' | 'none' | 'required';
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMCompletion {
+  content: string | null;
+  toolCalls: LLMToolCall[];
+  model: string;
+}
+
+export interface LLMProvider {
+  readonly type: LLMProviderType;
+  readonly model: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+}
+
+/**
+ * A scripted reply. `match` is tested against the last user message;
+ * entries without `match` are consumed in order.
+ */
+export interface LLMReplayEntry {
+  match?: string | RegExp;
+  content?: string | null;
+  toolCalls?: Array<{ name: string; arguments: Record<string, any> | string }>;
+}
+
+export interface LLMAgentConfig {
+  provider: LLMProviderType;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  timeoutMs: number;
+  maxRetries: number;
+  apiKey?: string;
+  baseURL?: string;
+  headers?: Record<string, string>;
+  replay?: LLMReplayEntry[];
+}
+
+/**
+ * Options accepted by the AI services: config overrides or a ready-made provider
+ */
+export interface LLMServiceOptions extends Partial<LLMAgentConfig> {
+  llmProvider?: LLMProvider;
+}
@@ -0,0 +1,90 @@
+// Chat Session Backends
+import { ChatSession, SessionBackend } from './types';
+
+/**
+ * In-process backend. Sessions are lost when the server restarts.
+ */
+export class MemorySessionBackend implements SessionBackend {
+  private sessions = new Map<string, ChatSession>();
+
+  async get(key: string): Promise<ChatSession | null> {
+    return this.sessions.get(key) || null;
+  }
+
+  async set(key: string, session: ChatSession): Promise<void> {
+    this.sessions.set(key, session);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.sessions.delete(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from(this.sessions.keys());
+  }
+}
+
+/**
+ * Backend storing one JSON file per session in a directory.
+ * Node modules are loaded lazily so this file can be bundled for the browser.
+ */
+export class FileSessionBackend implements SessionBackend {
+  private directory?: string;
+
+  constructor(directory?: string) {
+    this.directory = directory;
+  }
+
+  async get(key: string): Promise<ChatSession | null> {
+    const fs = await import('fs/promises');
+    try {
+      const raw = await fs.readFile(await this.getFilePath(key), 'utf8');
+      return JSON.parse(raw) as ChatSession;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      console.error(`Failed to read chat session ${key}:`, error);
+      return null;
+    }
+  }
+
+  async set(key: string, session: ChatSession): Promise<void> {
+    const fs = await import('fs/promises');
+    const filePath = await this.getFilePath(key);
+    await fs.mkdir(await this.getDirectory(), { recursive: true });
+
+    // Write then rename so readers never see a partial file
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(session), 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    const fs = await import('fs/promises');
+    await fs.rm(await this.getFilePath(key), { force: true });
+  }
+
+  async keys(): Promise<string[]> {
+    const fs = await import('fs/promises');
+    try {
+      const files = await fs.readdir(await this.getDirectory());
+      return files
+        .filter(file => file.endsWith('.json'))
+        .map(file => decodeURIComponent(file.slice(0, -'.json'.length)));
+    } catch {
+      return [];
+    }
+  }
+
+  private async getDirectory(): Promise<string> {
+    if (!this.directory) {
+      const [os, path] = await Promise.all([import('os'), import('path')]);
+      this.directory = path.join(os.tmpdir(), 'ethaccra-chat-sessions');
+    }
+    return this.directory;
+  }
+
+  private async getFilePath(key: string): Promise<string> {
+    const path = await import('path');
+    return path.join(await this.getDirectory(), `${encodeURIComponent(key)}.json`);
+  }
+}
@@ -0,0 +1,191 @@
+// Chat Session Store - per-user, per-session conversation state
+import { FileSessionBackend, MemorySessionBackend } from './backends';
+import { ChatSession, SessionBackend, SessionNamespace, SessionStoreOptions } from './types';
+
+export * from './types';
+export { MemorySessionBackend, FileSessionBackend } from './backends';
+
+export const SESSION_ID_HEADER = 'x-session-id';
+export const DEFAULT_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_MAX_SESSION_HISTORY = 50;
+
+const SESSION_ID_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+export class SessionStore {
+  private backend: SessionBackend;
+  private ttlMs: number;
+  private maxHistory: number;
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(options: SessionStoreOptions) {
+    this.backend = options.backend;
+    this.ttlMs = options.ttlMs;
+    this.maxHistory = options.maxHistory;
+  }
+
+  /**
+   * Build the storage key for a wallet address and session id. There is no default session,
+   * so callers without a session id never share one.
+   */
+  getSessionKey(namespace: SessionNamespace, userAddress?: string, sessionId?: string): string {
+    if (!isValidSessionId(sessionId)) {
+      throw new Error('A valid session id is required');
+    }
+    const owner = userAddress ? userAddress.toLowerCase() : 'anonymous';
+    return `${namespace}:${owner}:${sessionId}`;
+  }
+
+  /**
+   * Load a session, creating an empty one when missing or expired
+   */
+  async load(namespace: SessionNamespace, userAddress?: string, sessionId?: string): Promise<ChatSession> {
+    const key = this.getSessionKey(namespace, userAddress, sessionId);
+    const existing = await this.backend.get(key);
+    const now = Date.now();
+
+    if (existing && existing.expiresAt > now) {
+      return existing;
+    }
+
+    if (existing) {
+      await this.backend.delete(key);
+    }
+
+    return {
+      key,
+      namespace,
+      userAddress: userAddress?.toLowerCase(),
+      sessionId: sessionId as string,
+      history: [],
+      context: {},
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: now + this.ttlMs
+    };
+  }
+
+  /**
+   * Persist a session, trimming history and extending its expiry
+   */
+  async save(session: ChatSession): Promise<ChatSession> {
+    const now = Date.now();
+    const saved: ChatSession = {
+      ...session,
+      history: session.history.slice(-this.maxHistory),
+      updatedAt: now,
+      expiresAt: now + this.ttlMs
+    };
+    await this.backend.set(saved.key, saved);
+    return saved;
+  }
+
+  /**
+   * Delete a session
+   */
+  async clear(namespace: SessionNamespace, userAddress?: string, sessionId?: string): Promise<void> {
+    await this.backend.delete(this.getSessionKey(namespace, userAddress, sessionId));
+  }
+
+  /**
+   * Run `handler` with exclusive access to a session and save it afterwards.
+   * Requests for the same session are serialized so a pending operation
+   * cannot be confirmed by a concurrent message.
+   */
+  async withSession<T>(
+    namespace: SessionNamespace,
+    userAddress: string | undefined,
+    sessionId: string | undefined,
+    handler: (session: ChatSession) => Promise<T>
+  ): Promise<T> {
+    const key = this.getSessionKey(namespace, userAddress, sessionId);
+    const previous = this.locks.get(key) || Promise.resolve();
+
+    const run = previous.catch(() => undefined).then(async () => {
+      const session = await this.load(namespace, userAddress, sessionId);
+      const result = await handler(session);
+      await this.save(session);
+      return result;
+    });
+
+    this.locks.set(key, run);
+    try {
+      return await run;
+    } finally {
+      if (this.locks.get(key) === run) {
+        this.locks.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Remove expired sessions from the backend
+   */
+  async pruneExpired(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+
+    for (const key of await this.backend.keys()) {
+      const session = await this.backend.get(key);
+      if (!session || session.expiresAt <= now) {
+        await this.backend.delete(key);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+}
+
+/**
+ * Create a session store from CHAT_SESSION_* environment variables
+ */
+export function createSessionStore(options: Partial<SessionStoreOptions> = {}): SessionStore {
+  const env: Record<string, string | undefined> = typeof process !== 'undefined' && process.env ? process.env : {};
+  const ttlMs = parseInt(env.CHAT_SESSION_TTL_MS || '', 10);
+  const maxHistory = parseInt(env.CHAT_SESSION_MAX_HISTORY || '', 10);
+
+  const backend = options.backend || (env.CHAT_SESSION_BACKEND === 'file'
+    ? new FileSessionBackend(env.CHAT_SESSION_DIR)
+    : new MemorySessionBackend());
+
+  return new SessionStore({
+    backend,
+    ttlMs: options.ttlMs ?? (Number.isNaN(ttlMs) ? DEFAULT_SESSION_TTL_MS : ttlMs),
+    maxHistory: options.maxHistory ?? (Number.isNaN(maxHistory) ? DEFAULT_MAX_SESSION_HISTORY : maxHistory)
+  });
+}
+
+/**
+ * Create a random session id for a client. The id is all that separates anonymous
+ * sessions, so it is drawn from the crypto RNG.
+ */
+export function createSessionId(): string {
+  const random = Array.from(globalThis.crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0'));
+  return `session_${Date.now().toString(36)}_${random.join('')}`;
+}
+
+/**
+ * Whether a session id can name a stored session
+ */
+export function isValidSessionId(sessionId?: string | null): sessionId is string {
+  return typeof sessionId === 'string' && SESSION_ID_PATTERN.test(sessionId);
+}
+
+/**
+ * Session id of a chat request, a new one when the client did not send a valid id.
+ * The id is returned to the client so it can continue the session.
+ */
+export function resolveSessionId(sessionId?: string): string {
+  return isValidSessionId(sessionId) ? sessionId : createSessionId();
+}
+
+/**
+ * Read the session id from a request body, the x-session-id header or the sessionId query param
+ */
+export function getSessionIdFromRequest(request: Request, body?: { sessionId?: unknown }): string | undefined {
+  if (typeof body?.sessionId === 'string') return body.sessionId;
+  return request.headers.get(SESSION_ID_HEADER) || new URL(request.url).searchParams.get('sessionId') || undefined;
+}
+
+// Shared store used by the chat API routes
+export const chatSessionStore = createSessionStore();
@@ -0,0 +1,40 @@
+// Chat Session Types
+
+export type SessionNamespace = 'ens' | 'payment';
+
+export interface SessionMessage {
+  id: string;
+  role: string;
+  content: string;
+  timestamp: Date | string;
+  [key: string]: any;
+}
+
+export interface ChatSession {
+  key: string;
+  namespace: SessionNamespace;
+  userAddress?: string;
+  sessionId: string;
+  history: SessionMessage[];
+  context: Record<string, any>;
+  createdAt: number;
+  updatedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Storage backend for chat sessions. Implementations only persist and load;
+ * expiry and history limits are enforced by the SessionStore.
+ */
+export interface SessionBackend {
+  get(key: string): Promise<ChatSession | null>;
+  set(key: string, session: ChatSession): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+export interface SessionStoreOptions {
+  backend: SessionBackend;
+  ttlMs: number;
+  maxHistory: number;
+}